@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { FeatureDatabase } from './db/database.js';
+import { applyContentPolicy } from './core/content-policy.js';
 import { FeatureType } from './types/index.js';
 import { createLogger } from './utils/logger.js';
 
@@ -20,10 +21,10 @@ export function setupApiEndpoints(app: any, sharedDb: FeatureDatabase) {
       const decodedUrl = decodeURIComponent(resourceUrl);
       
       // Query the database for the specific feature
-      const features = await sharedDb.queryFeatures({
+      const features = await applyContentPolicy(sharedDb, await sharedDb.queryFeatures({
         url: decodedUrl,
         featureKeys: [featureKey]
-      });
+      }));
       
       if (features.length === 0) {
         logger.warn('Feature not found', { resourceUrl: decodedUrl, featureKey });
@@ -44,7 +45,9 @@ export function setupApiEndpoints(app: any, sharedDb: FeatureDatabase) {
         
         // Determine content type
         let contentType = 'application/octet-stream';
-        if (featureKey.includes('thumbnail') || featureKey.includes('snapshot')) {
+        if (feature.metadata?.mimeType) {
+          contentType = feature.metadata.mimeType;
+        } else if (featureKey.includes('thumbnail') || featureKey.includes('snapshot')) {
           contentType = 'image/png';
         } else if (featureKey.includes('image')) {
           contentType = 'image/jpeg';
@@ -120,10 +123,10 @@ export function setupApiEndpoints(app: any, sharedDb: FeatureDatabase) {
         }
         
         try {
-          const features = await sharedDb.queryFeatures({
+          const features = await applyContentPolicy(sharedDb, await sharedDb.queryFeatures({
             url: resourceUrl,
             featureKeys: [featureKey]
-          });
+          }));
           
           if (features.length === 0) {
             results.push({
@@ -176,7 +179,7 @@ export function setupApiEndpoints(app: any, sharedDb: FeatureDatabase) {
     
     try {
       const decodedUrl = decodeURIComponent(resourceUrl);
-      const features = await sharedDb.queryFeatures({ url: decodedUrl });
+      const features = await applyContentPolicy(sharedDb, await sharedDb.queryFeatures({ url: decodedUrl }));
       
       timer();
       logger.info('Listed features', { 
@@ -208,5 +211,51 @@ export function setupApiEndpoints(app: any, sharedDb: FeatureDatabase) {
     }
   });
 
+  // Find near-duplicate images of an extracted image
+  app.get('/api/similar/:resourceUrl', async (req: Request, res: Response) => {
+    const { resourceUrl } = req.params;
+    const hashType = req.query.hashType === 'dhash' ? 'dhash' : 'phash';
+    const maxDistance = Math.min(64, Math.max(0, parseInt(String(req.query.maxDistance ?? '6'), 10) || 0));
+    const limit = Math.max(1, parseInt(String(req.query.limit ?? '20'), 10) || 20);
+    const timer = logger.startTimer('find-similar-images');
+    
+    logger.debug('Similar images request', { resourceUrl, hashType, maxDistance, limit });
+    
+    try {
+      const decodedUrl = decodeURIComponent(resourceUrl);
+      const hash = await sharedDb.getImageHash(decodedUrl, hashType);
+      
+      if (!hash) {
+        timer();
+        res.status(404).json({
+          error: 'Image hash not found',
+          resourceUrl: decodedUrl,
+          hashType
+        });
+        return;
+      }
+      
+      const matches = await sharedDb.findSimilarImages({
+        hash,
+        hashType,
+        maxDistance,
+        limit,
+        excludeUrl: decodedUrl
+      });
+      
+      timer();
+      logger.info('Found similar images', { 
+        resourceUrl: decodedUrl,
+        matchCount: matches.length 
+      });
+      
+      res.json({ resourceUrl: decodedUrl, hashType, hash, maxDistance, matches });
+    } catch (error: any) {
+      timer();
+      logger.error('Error finding similar images', error, { resourceUrl });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   logger.info('API endpoints configured');
 }
\ No newline at end of file
@@ -0,0 +1,490 @@
+import { inflateRawSync, gunzipSync } from 'zlib';
+import { basename } from 'path';
+import { FeatureStoreError, ErrorCode } from '../types/errors.js';
+
+export type ArchiveFormat = 'zip' | 'tar' | 'gzip';
+
+export const ARCHIVE_MIME_TYPES: Record<string, ArchiveFormat> = {
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip',
+  'application/x-tar': 'tar',
+  'application/gzip': 'gzip',
+  'application/x-gzip': 'gzip',
+  'application/x-gtar': 'gzip',
+  'application/x-compressed-tar': 'gzip'
+};
+
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  // null where members are not compressed individually (entries of a .tar.gz)
+  compressedSize: number | null;
+  mtime: string | null;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  // Set when the member name is absolute or escapes the archive root
+  unsafe?: string;
+}
+
+export interface ArchiveLimits {
+  maxEntries?: number;
+  maxMemberSize?: number;
+  maxCompressionRatio?: number;
+  maxUncompressedSize?: number;
+  maxTotalReadSize?: number;
+}
+
+interface EntryLocation {
+  entry: ArchiveEntry;
+  offset: number;
+  method?: number;
+  encrypted?: boolean;
+}
+
+const ZIP_EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50;
+const ZIP_LOCAL_SIGNATURE = 0x04034b50;
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATED = 8;
+
+const TAR_BLOCK = 512;
+
+/**
+ * Member URL in the jar-style form `zip:///abs/path.zip!/inner/file.md`
+ */
+export function archiveMemberUrl(archiveUrl: string, format: ArchiveFormat, memberPath: string): string {
+  const location = archiveUrl.startsWith('file://') ? archiveUrl.slice('file://'.length) : archiveUrl;
+  return `${format}://${location}!/${memberPath}`;
+}
+
+export function parseArchiveMemberUrl(url: string): { format: ArchiveFormat; location: string; memberPath: string } | null {
+  const match = url.match(/^(zip|tar|gzip):\/\/(.+?)!\/(.+)$/);
+  if (!match) {
+    return null;
+  }
+  return { format: match[1] as ArchiveFormat, location: match[2], memberPath: match[3] };
+}
+
+/**
+ * Normalise a member name and flag names that could write outside the
+ * extraction root if the archive were ever unpacked to disk.
+ */
+function sanitizeMemberPath(rawPath: string): { path: string; unsafe?: string } {
+  const slashed = rawPath.replace(/\\/g, '/');
+  const segments = slashed.split('/').filter(segment => segment !== '' && segment !== '.');
+  const path = segments.join('/');
+
+  if (slashed.includes('\0')) {
+    return { path, unsafe: 'null byte in name' };
+  }
+  if (slashed.startsWith('/') || /^[A-Za-z]:/.test(slashed)) {
+    return { path, unsafe: 'absolute path' };
+  }
+  if (segments.includes('..')) {
+    return { path, unsafe: 'path traversal' };
+  }
+  return { path };
+}
+
+/**
+ * Lists and reads members of ZIP, TAR and gzip (including .tar.gz) archives
+ * held in memory, refusing to inflate anything past the configured limits.
+ */
+export class ArchiveReader {
+  readonly format: ArchiveFormat;
+  readonly entries: ArchiveEntry[] = [];
+  truncated = false;
+
+  private buffer: Buffer;
+  private locations = new Map<string, EntryLocation>();
+  private maxEntries: number;
+  private maxMemberSize: number;
+  private maxCompressionRatio: number;
+  private maxTotalReadSize: number;
+  private bytesRead = 0;
+
+  private constructor(buffer: Buffer, format: ArchiveFormat, limits: ArchiveLimits) {
+    this.buffer = buffer;
+    this.format = format;
+    this.maxEntries = limits.maxEntries || 10000;
+    this.maxMemberSize = limits.maxMemberSize || 50 * 1024 * 1024;
+    this.maxCompressionRatio = limits.maxCompressionRatio || 100;
+    this.maxTotalReadSize = limits.maxTotalReadSize || 500 * 1024 * 1024;
+  }
+
+  static open(content: Buffer, mimeType: string, name: string, limits: ArchiveLimits = {}): ArchiveReader {
+    const format = ARCHIVE_MIME_TYPES[mimeType];
+    if (!format) {
+      throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, `Not an archive MIME type: ${mimeType}`);
+    }
+
+    if (format === 'zip') {
+      const reader = new ArchiveReader(content, 'zip', limits);
+      reader.readZipDirectory();
+      return reader;
+    }
+
+    if (format === 'tar') {
+      const reader = new ArchiveReader(content, 'tar', limits);
+      reader.readTarHeaders(false);
+      return reader;
+    }
+
+    // A gzip stream is either a compressed tarball or a single compressed file
+    const maxUncompressedSize = limits.maxUncompressedSize || 200 * 1024 * 1024;
+    let inflated: Buffer;
+    try {
+      inflated = gunzipSync(content, { maxOutputLength: maxUncompressedSize });
+    } catch (error: any) {
+      const message = error.code === 'ERR_BUFFER_TOO_LARGE'
+        ? `gzip stream expands beyond ${maxUncompressedSize} bytes`
+        : `Invalid gzip stream: ${error.message}`;
+      throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, message, undefined, { name });
+    }
+
+    if (ArchiveReader.isTarHeader(inflated, 0)) {
+      const reader = new ArchiveReader(inflated, 'tar', limits);
+      reader.readTarHeaders(true);
+      return reader;
+    }
+
+    const reader = new ArchiveReader(inflated, 'gzip', limits);
+    reader.addEntry({
+      entry: {
+        path: ArchiveReader.gzipMemberName(content) || basename(name).replace(/\.gz$/i, '') || 'data',
+        size: inflated.length,
+        compressedSize: content.length,
+        mtime: content.length >= 8 && content.readUInt32LE(4) > 0
+          ? new Date(content.readUInt32LE(4) * 1000).toISOString()
+          : null,
+        type: 'file'
+      },
+      offset: 0
+    });
+    return reader;
+  }
+
+  /**
+   * Why a member will not be read, or null when it is safe to inflate
+   */
+  skipReason(entry: ArchiveEntry): string | null {
+    const location = this.locations.get(entry.path);
+    if (!location || location.entry !== entry) {
+      return 'unknown member';
+    }
+    if (entry.unsafe) {
+      return entry.unsafe;
+    }
+    if (entry.type !== 'file') {
+      return `member is a ${entry.type}`;
+    }
+    if (location.encrypted) {
+      return 'member is encrypted';
+    }
+    if (entry.size > this.maxMemberSize) {
+      return `member exceeds ${this.maxMemberSize} bytes`;
+    }
+    if (entry.compressedSize && entry.size / entry.compressedSize > this.maxCompressionRatio) {
+      return `compression ratio exceeds ${this.maxCompressionRatio}:1`;
+    }
+    if (this.bytesRead + entry.size > this.maxTotalReadSize) {
+      return `archive read budget of ${this.maxTotalReadSize} bytes exhausted`;
+    }
+    return null;
+  }
+
+  find(memberPath: string): ArchiveEntry | undefined {
+    return this.locations.get(memberPath)?.entry;
+  }
+
+  read(entry: ArchiveEntry): Buffer {
+    const reason = this.skipReason(entry);
+    if (reason) {
+      throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, `Cannot read ${entry.path}: ${reason}`);
+    }
+
+    const location = this.locations.get(entry.path)!;
+    this.bytesRead += entry.size;
+    if (this.format !== 'zip') {
+      return this.buffer.subarray(location.offset, location.offset + entry.size);
+    }
+
+    const offset = location.offset;
+    if (offset + 30 > this.buffer.length || this.buffer.readUInt32LE(offset) !== ZIP_LOCAL_SIGNATURE) {
+      throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, `Corrupt local header for ${entry.path}`);
+    }
+    const dataStart = offset + 30 + this.buffer.readUInt16LE(offset + 26) + this.buffer.readUInt16LE(offset + 28);
+    const data = this.buffer.subarray(dataStart, dataStart + (entry.compressedSize || 0));
+
+    if (location.method === ZIP_METHOD_STORED) {
+      return data.subarray(0, entry.size);
+    }
+    if (location.method !== ZIP_METHOD_DEFLATED) {
+      throw new FeatureStoreError(
+        ErrorCode.EXTRACTION_FAILED,
+        `Unsupported compression method ${location.method} for ${entry.path}`
+      );
+    }
+
+    // Headers can lie about the size, so the declared size is also the hard output cap
+    try {
+      return inflateRawSync(data, { maxOutputLength: Math.max(1, entry.size) });
+    } catch (error: any) {
+      const message = error.code === 'ERR_BUFFER_TOO_LARGE'
+        ? `${entry.path} inflates beyond its declared size`
+        : `Failed to inflate ${entry.path}: ${error.message}`;
+      throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, message);
+    }
+  }
+
+  private addEntry(location: EntryLocation): boolean {
+    if (this.entries.length >= this.maxEntries) {
+      this.truncated = true;
+      return false;
+    }
+    this.entries.push(location.entry);
+    // First occurrence wins for duplicate names, matching most unzip tools
+    if (!this.locations.has(location.entry.path)) {
+      this.locations.set(location.entry.path, location);
+    }
+    return true;
+  }
+
+  private readZipDirectory(): void {
+    const buffer = this.buffer;
+
+    // The end of central directory record sits within the last 64KB + 22 bytes
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+      if (buffer.readUInt32LE(i) === ZIP_EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, 'ZIP end of central directory not found');
+    }
+
+    let entryCount = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+
+    const locator = eocd - 20;
+    if (locator >= 0 && buffer.readUInt32LE(locator) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      const zip64 = Number(buffer.readBigUInt64LE(locator + 8));
+      if (zip64 + 56 <= buffer.length && buffer.readUInt32LE(zip64) === ZIP64_EOCD_SIGNATURE) {
+        entryCount = Number(buffer.readBigUInt64LE(zip64 + 32));
+        offset = Number(buffer.readBigUInt64LE(zip64 + 48));
+      }
+    }
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== ZIP_CENTRAL_SIGNATURE) {
+        throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, 'Corrupt ZIP central directory');
+      }
+
+      const versionMadeBy = buffer.readUInt16LE(offset + 4);
+      const flags = buffer.readUInt16LE(offset + 8);
+      const method = buffer.readUInt16LE(offset + 10);
+      const dosTime = buffer.readUInt16LE(offset + 12);
+      const dosDate = buffer.readUInt16LE(offset + 14);
+      let compressedSize = buffer.readUInt32LE(offset + 20);
+      let size = buffer.readUInt32LE(offset + 24);
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const externalAttributes = buffer.readUInt32LE(offset + 38);
+      let localOffset = buffer.readUInt32LE(offset + 42);
+
+      // Bit 11 marks UTF-8 names; older archives use CP437, read here as latin1
+      const rawName = buffer.toString(flags & 0x0800 ? 'utf-8' : 'latin1', offset + 46, offset + 46 + nameLength);
+      let mtime = this.dosDateTime(dosDate, dosTime);
+
+      let extra = offset + 46 + nameLength;
+      const extraEnd = extra + extraLength;
+      while (extra + 4 <= extraEnd) {
+        const id = buffer.readUInt16LE(extra);
+        const length = buffer.readUInt16LE(extra + 2);
+        let field = extra + 4;
+        if (id === 0x0001) {
+          // ZIP64 fields are only present for values saturated in the fixed header
+          if (size === 0xffffffff) { size = Number(buffer.readBigUInt64LE(field)); field += 8; }
+          if (compressedSize === 0xffffffff) { compressedSize = Number(buffer.readBigUInt64LE(field)); field += 8; }
+          if (localOffset === 0xffffffff) { localOffset = Number(buffer.readBigUInt64LE(field)); }
+        } else if (id === 0x5455 && length >= 5 && (buffer[field] & 0x01)) {
+          // Extended timestamp: Unix mtime in UTC, preferred over the zone-less DOS time
+          mtime = new Date(buffer.readUInt32LE(field + 1) * 1000).toISOString();
+        }
+        extra += 4 + length;
+      }
+
+      const { path, unsafe } = sanitizeMemberPath(rawName);
+      const unixMode = (versionMadeBy >> 8) === 3 ? externalAttributes >>> 16 : 0;
+      const type = rawName.endsWith('/') || (externalAttributes & 0x10) ? 'directory'
+        : (unixMode & 0o170000) === 0o120000 ? 'symlink'
+          : 'file';
+
+      const entry: ArchiveEntry = { path, size, compressedSize, mtime, type };
+      if (unsafe) {
+        entry.unsafe = unsafe;
+      }
+      if (!this.addEntry({ entry, offset: localOffset, method, encrypted: (flags & 0x0001) !== 0 })) {
+        break;
+      }
+
+      offset = extraEnd + commentLength;
+    }
+  }
+
+  private readTarHeaders(compressed: boolean): void {
+    const buffer = this.buffer;
+    let offset = 0;
+    let pending: { path?: string; size?: number; mtime?: number } = {};
+
+    while (offset + TAR_BLOCK <= buffer.length) {
+      if (buffer.subarray(offset, offset + TAR_BLOCK).every(byte => byte === 0)) {
+        break;
+      }
+      if (!ArchiveReader.isTarHeader(buffer, offset)) {
+        throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, `Corrupt TAR header at offset ${offset}`);
+      }
+
+      const typeFlag = String.fromCharCode(buffer[offset + 156] || 0x30);
+      const size = pending.size ?? this.tarNumber(buffer, offset + 124, 12);
+      const dataOffset = offset + TAR_BLOCK;
+      const next = dataOffset + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+      if (typeFlag === 'x') {
+        pending = { ...pending, ...this.parsePaxHeaders(buffer.subarray(dataOffset, dataOffset + size)) };
+        offset = next;
+        continue;
+      }
+      if (typeFlag === 'L') {
+        pending.path = this.cString(buffer, dataOffset, size);
+        offset = next;
+        continue;
+      }
+      if (typeFlag === 'g' || typeFlag === 'K') {
+        offset = next;
+        continue;
+      }
+
+      let rawName = this.cString(buffer, offset, 100);
+      if (buffer.toString('ascii', offset + 257, offset + 262) === 'ustar') {
+        const prefix = this.cString(buffer, offset + 345, 155);
+        if (prefix) {
+          rawName = `${prefix}/${rawName}`;
+        }
+      }
+      rawName = pending.path ?? rawName;
+
+      const { path, unsafe } = sanitizeMemberPath(rawName);
+      const mtime = pending.mtime ?? this.tarNumber(buffer, offset + 136, 12);
+      const type = typeFlag === '0' || typeFlag === '7' ? 'file'
+        : typeFlag === '5' ? 'directory'
+          : typeFlag === '2' || typeFlag === '1' ? 'symlink'
+            : 'other';
+
+      const entry: ArchiveEntry = {
+        path,
+        size: type === 'file' ? size : 0,
+        // Plain TAR stores members uncompressed; a .tar.gz only has an overall ratio
+        compressedSize: !compressed && type === 'file' ? size : null,
+        mtime: mtime > 0 ? new Date(mtime * 1000).toISOString() : null,
+        type
+      };
+      if (unsafe) {
+        entry.unsafe = unsafe;
+      }
+      if (dataOffset + entry.size > buffer.length) {
+        throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, `TAR member ${path} is truncated`);
+      }
+      if (!this.addEntry({ entry, offset: dataOffset })) {
+        break;
+      }
+
+      pending = {};
+      offset = next;
+    }
+  }
+
+  private parsePaxHeaders(data: Buffer): { path?: string; size?: number; mtime?: number } {
+    const result: { path?: string; size?: number; mtime?: number } = {};
+    let offset = 0;
+    // Records are "<length> <key>=<value>\n", where length covers the whole record
+    while (offset < data.length) {
+      const space = data.indexOf(0x20, offset);
+      const length = parseInt(data.toString('ascii', offset, space), 10);
+      if (space < 0 || !(length > 0)) {
+        break;
+      }
+      const record = data.toString('utf-8', space + 1, offset + length - 1);
+      const equals = record.indexOf('=');
+      const key = record.slice(0, equals);
+      const value = record.slice(equals + 1);
+      if (key === 'path') result.path = value;
+      if (key === 'size') result.size = Number(value);
+      if (key === 'mtime') result.mtime = Math.floor(Number(value));
+      offset += length;
+    }
+    return result;
+  }
+
+  private tarNumber(buffer: Buffer, offset: number, length: number): number {
+    // GNU base-256 encoding for values that do not fit in octal
+    if (buffer[offset] & 0x80) {
+      let value = buffer[offset] & 0x7f;
+      for (let i = 1; i < length; i++) {
+        value = value * 256 + buffer[offset + i];
+      }
+      return value;
+    }
+    return parseInt(this.cString(buffer, offset, length).trim() || '0', 8) || 0;
+  }
+
+  private cString(buffer: Buffer, offset: number, length: number): string {
+    const end = buffer.indexOf(0, offset);
+    return buffer.toString('utf-8', offset, end >= 0 && end < offset + length ? end : offset + length);
+  }
+
+  private dosDateTime(date: number, time: number): string | null {
+    if (date === 0) {
+      return null;
+    }
+    const pad = (value: number) => String(value).padStart(2, '0');
+    // DOS timestamps carry no zone, so they are reported as local date-times
+    return `${1980 + (date >> 9)}-${pad((date >> 5) & 0x0f)}-${pad(date & 0x1f)}` +
+      `T${pad(time >> 11)}:${pad((time >> 5) & 0x3f)}:${pad((time & 0x1f) * 2)}`;
+  }
+
+  private static isTarHeader(buffer: Buffer, offset: number): boolean {
+    if (offset + TAR_BLOCK > buffer.length) {
+      return false;
+    }
+    const stored = parseInt(buffer.toString('ascii', offset + 148, offset + 156).replace(/\0.*$/, '').trim(), 8);
+    if (Number.isNaN(stored)) {
+      return false;
+    }
+    // The checksum is computed with its own field read as spaces
+    let sum = 8 * 0x20;
+    for (let i = 0; i < TAR_BLOCK; i++) {
+      if (i < 148 || i >= 156) {
+        sum += buffer[offset + i];
+      }
+    }
+    return sum === stored;
+  }
+
+  private static gzipMemberName(content: Buffer): string | null {
+    const flags = content[3];
+    if (!(flags & 0x08)) {
+      return null;
+    }
+    let offset = 10;
+    if (flags & 0x04) {
+      offset += 2 + content.readUInt16LE(10);
+    }
+    const end = content.indexOf(0, offset);
+    return end > offset ? sanitizeMemberPath(content.toString('latin1', offset, end)).path || null : null;
+  }
+}
@@ -0,0 +1,63 @@
+import { FeatureDatabase } from '../db/database.js';
+import { holdsResourceText } from '../extractors/feature-helpers.js';
+import { Feature } from '../types/index.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('content-policy');
+
+export interface ContentPolicy {
+  // Withhold the text of resources whose security.secrets has findings, or
+  // that have no current scan
+  redactSecretContent: boolean;
+}
+
+export function getContentPolicy(): ContentPolicy {
+  return {
+    redactSecretContent: process.env.REDACT_SECRET_CONTENT === 'true'
+  };
+}
+
+// Stored features, or the key/value pairs of a stream update
+type ServedFeature = Pick<Feature, 'resourceUrl' | 'featureKey' | 'value'> & { metadata?: Record<string, any> };
+
+/**
+ * Applies the content policy to features about to be served. The stored
+ * features are untouched, so turning the policy off restores access.
+ */
+export async function applyContentPolicy<T extends ServedFeature>(
+  db: FeatureDatabase,
+  features: T[],
+  policy: ContentPolicy = getContentPolicy()
+): Promise<T[]> {
+  if (!policy.redactSecretContent) {
+    return features;
+  }
+
+  const urls = [...new Set(features.filter(f => holdsResourceText(f.featureKey)).map(f => f.resourceUrl))];
+  if (urls.length === 0) {
+    return features;
+  }
+
+  // Expired scans are not returned, so their resources count as unscanned
+  const scans = await db.queryFeatures({ urls, featureKeys: ['security.secrets'] });
+  const counts = new Map(scans.map(scan => [scan.resourceUrl, Number(scan.metadata?.count ?? 0)]));
+  const withheld = urls.filter(url => counts.get(url) !== 0);
+  if (withheld.length === 0) {
+    return features;
+  }
+
+  logger.debug('Redacting content of resources with secrets or no secret scan', { resourceCount: withheld.length });
+  return features.map(feature => {
+    if (!withheld.includes(feature.resourceUrl) || !holdsResourceText(feature.featureKey)) {
+      return feature;
+    }
+    const count = counts.get(feature.resourceUrl);
+    return {
+      ...feature,
+      value: count === undefined
+        ? '[redacted: no current secret scan, see security.secrets]'
+        : `[redacted: ${count} possible secret${count === 1 ? '' : 's'} found, see security.secrets]`,
+      metadata: { ...feature.metadata, redacted: true, redactedBy: 'security.secrets' }
+    };
+  });
+}
@@ -5,13 +5,42 @@ import {
   Resource, 
   FeatureType, 
   ResourceType,
-  StreamUpdate
+  StreamUpdate,
+  BuiltInExtractorInfo
 } from '../types/index.js';
 import { FeatureStoreError, ErrorCode } from '../types/errors.js';
 import { createLogger } from '../utils/logger.js';
-import { ResourceLoader } from './resource-loader.js';
+import { ResourceLoader, LoadedResource } from './resource-loader.js';
+import { ArchiveReader, archiveMemberUrl } from './archive-reader.js';
 import { EmbeddingExtractor } from '../extractors/embedding-extractor.js';
+import { PdfExtractor } from '../extractors/pdf-extractor.js';
+import { OfficeExtractor } from '../extractors/office-extractor.js';
+import { HtmlExtractor } from '../extractors/html-extractor.js';
+import { MarkdownExtractor } from '../extractors/markdown-extractor.js';
+import { CodeExtractor } from '../extractors/code-extractor.js';
+import { JsonExtractor } from '../extractors/json-extractor.js';
+import { TabularExtractor } from '../extractors/tabular-extractor.js';
+import { AudioExtractor } from '../extractors/audio-extractor.js';
+import { ArchiveExtractor } from '../extractors/archive-extractor.js';
+import { ImageMetadataExtractor } from '../extractors/image-metadata-extractor.js';
+import { ImageHashExtractor } from '../extractors/image-hash-extractor.js';
+import { ImageColorExtractor } from '../extractors/image-color-extractor.js';
+import { VideoSceneExtractor } from '../extractors/video-scene-extractor.js';
+import { SubtitleExtractor } from '../extractors/subtitle-extractor.js';
+import { NotebookExtractor } from '../extractors/notebook-extractor.js';
+import { EmailExtractor } from '../extractors/email-extractor.js';
+import { EpubExtractor } from '../extractors/epub-extractor.js';
+import { GeoExtractor } from '../extractors/geo-extractor.js';
+import { Model3dExtractor } from '../extractors/model3d-extractor.js';
+import { SvgExtractor } from '../extractors/svg-extractor.js';
+import { TEXT_ANALYSIS_FEATURE_KEYS, TextAnalysisExtractor } from '../extractors/text-analysis-extractor.js';
+import { SecretsExtractor } from '../extractors/secrets-extractor.js';
+import { getPiiRedactionCategories, PiiCategory, PiiExtractor, redactPii, redactPiiFeatures } from '../extractors/pii-extractor.js';
+import { DirectoryLicenseSummary, LicenseExtractor } from '../extractors/license-extractor.js';
+import { isIgnoredEntry } from '../utils/file-names.js';
+import { parseEmail } from './email-reader.js';
 import { DirectoryIndexer } from './directory-indexer.js';
+import { decodeText, DecodedText, FeatureFilter, storeThumbnail, ThumbnailSize } from '../extractors/feature-helpers.js';
 import { v4 as uuidv4 } from 'uuid';
 import { dirname, isAbsolute } from 'path';
 import sharp from 'sharp';
@@ -24,6 +53,18 @@ import { join } from 'path';
 const execAsync = promisify(exec);
 const logger = createLogger('direct-orchestrator');
 
+// Every key extractTextFeatures can produce
+const TEXT_FEATURE_KEYS = [
+  'text.content',
+  'text.word_count',
+  'text.line_count',
+  'text.char_count',
+  'text.encoding',
+  ...TEXT_ANALYSIS_FEATURE_KEYS,
+  ...SecretsExtractor.info.featureKeys,
+  ...PiiExtractor.info.featureKeys
+];
+
 interface ExtractOptions {
   extractors?: string[];
   ttl?: number;
@@ -32,22 +73,78 @@ interface ExtractOptions {
   skipDirectoryIndexing?: boolean; // Flag to prevent recursive directory indexing
   mode?: 'minimal' | 'standard' | 'maximal';
   updateMissing?: boolean;
+  extractArchiveMembers?: boolean; // Also extract features from each member of an archive
+  extractAttachments?: boolean; // Also extract features from each email attachment
+  resource?: LoadedResource; // Already loaded resource (archive members), bypasses the loader
 }
 
 export class DirectFeatureOrchestrator {
   private db: FeatureDatabase;
   private resourceLoader: ResourceLoader;
   private embeddingExtractor: EmbeddingExtractor;
+  private pdfExtractor: PdfExtractor;
+  private officeExtractor: OfficeExtractor;
+  private htmlExtractor: HtmlExtractor;
+  private markdownExtractor: MarkdownExtractor;
+  private codeExtractor: CodeExtractor;
+  private jsonExtractor: JsonExtractor;
+  private audioExtractor: AudioExtractor;
+  private archiveExtractor: ArchiveExtractor;
+  private imageMetadataExtractor: ImageMetadataExtractor;
+  private imageHashExtractor: ImageHashExtractor;
+  private imageColorExtractor: ImageColorExtractor;
+  private videoSceneExtractor: VideoSceneExtractor;
+  private subtitleExtractor: SubtitleExtractor;
+  private notebookExtractor: NotebookExtractor;
+  private emailExtractor: EmailExtractor;
+  private epubExtractor: EpubExtractor;
+  private geoExtractor: GeoExtractor;
+  private model3dExtractor: Model3dExtractor;
+  private svgExtractor: SvgExtractor;
+  private textAnalysisExtractor: TextAnalysisExtractor;
+  private secretsExtractor: SecretsExtractor;
+  private piiExtractor: PiiExtractor;
+  private piiRedaction: PiiCategory[];
+  private licenseExtractor: LicenseExtractor;
+  // License rollups of the subdirectories of a directory being extracted, from its walk
+  private licenseSummaries = new Map<string, DirectoryLicenseSummary>();
+  private tabularExtractor: TabularExtractor;
   private directoryIndexer: DirectoryIndexer;
   private concurrencyLimit = pLimit(5);
   private tempDir: string;
 
   constructor(db: FeatureDatabase) {
     this.db = db;
-    this.resourceLoader = new ResourceLoader();
+    // Tabular files are profiled from disk, so the loader only keeps their head in memory
+    this.resourceLoader = new ResourceLoader(undefined, TabularExtractor.info.capabilities);
     this.embeddingExtractor = new EmbeddingExtractor();
+    this.pdfExtractor = new PdfExtractor(db);
+    this.officeExtractor = new OfficeExtractor();
+    this.htmlExtractor = new HtmlExtractor();
+    this.markdownExtractor = new MarkdownExtractor();
+    this.codeExtractor = new CodeExtractor();
+    this.jsonExtractor = new JsonExtractor();
+    this.tabularExtractor = new TabularExtractor();
+    this.archiveExtractor = new ArchiveExtractor();
+    this.imageMetadataExtractor = new ImageMetadataExtractor();
+    this.imageHashExtractor = new ImageHashExtractor(db);
+    this.imageColorExtractor = new ImageColorExtractor();
+    this.subtitleExtractor = new SubtitleExtractor();
+    this.notebookExtractor = new NotebookExtractor(db);
+    this.emailExtractor = new EmailExtractor();
+    this.epubExtractor = new EpubExtractor(db);
+    this.geoExtractor = new GeoExtractor(db);
+    this.model3dExtractor = new Model3dExtractor(db);
+    this.svgExtractor = new SvgExtractor(db);
+    this.textAnalysisExtractor = new TextAnalysisExtractor(db);
+    this.secretsExtractor = new SecretsExtractor();
+    this.piiExtractor = new PiiExtractor();
+    this.piiRedaction = getPiiRedactionCategories();
+    this.licenseExtractor = new LicenseExtractor();
     this.directoryIndexer = new DirectoryIndexer(db, this); // Pass this orchestrator
     this.tempDir = join(tmpdir(), 'mcp-feature-store');
+    this.audioExtractor = new AudioExtractor(db, { tempDir: this.tempDir });
+    this.videoSceneExtractor = new VideoSceneExtractor(db, { tempDir: this.tempDir });
     this.initTempDir();
   }
 
@@ -103,7 +200,7 @@ export class DirectFeatureOrchestrator {
       // Load resource
       logger.debug('Loading resource', { url: resourceUrl });
       const loadTimer = logger.startTimer('resource-load');
-      const resource = await this.resourceLoader.load(resourceUrl);
+      const resource = options.resource || await this.resourceLoader.load(resourceUrl);
       loadTimer();
       
       logger.verbose('Resource loaded', {
@@ -132,6 +229,8 @@ export class DirectFeatureOrchestrator {
             
             // If updateMissing is false and we have features, return cached
             if (!options.updateMissing && existingFeatures.length > 0) {
+              // Members are resources of their own, so a cached parent still owes them a pass
+              await this.extractCachedParts(resource, options);
               timer();
               logger.info(`Using cached features for ${resource.url}`, {
                 featureCount: existingFeatures.length,
@@ -193,6 +292,10 @@ export class DirectFeatureOrchestrator {
           directory: resource.url 
         });
         
+        const dirPath = resource.url.replace('file://', '');
+        // Subdirectories extracted below reuse the license rollup of this one
+        const rollupRoot = !this.licenseSummaries.has(dirPath);
+        
         // First extract directory metadata
         const dirTimer = logger.startTimer('extract-directory-features');
         features = await this.extractDirectoryFeatures(
@@ -205,11 +308,15 @@ export class DirectFeatureOrchestrator {
         dirTimer();
         
         // Then recursively process all files in the directory
-        const dirPath = resource.url.replace('file://', '');
         const processedFiles = await this.recursivelyExtractFromDirectory(dirPath, {
           ...options,
           skipDirectoryIndexing: true // Prevent infinite recursion
         });
+        if (rollupRoot) {
+          for (const path of this.licenseSummaries.keys()) {
+            if (path === dirPath || path.startsWith(`${dirPath}/`)) this.licenseSummaries.delete(path);
+          }
+        }
         
         logger.info('Directory extraction completed', {
           directory: dirPath,
@@ -238,6 +345,30 @@ export class DirectFeatureOrchestrator {
         });
         
         // Don't return early - let the features be stored below
+      } else if (this.svgExtractor.canHandle(mimeType)) {
+        logger.trace('Using SVG extractor', { mimeType });
+        const svgTimer = logger.startTimer('extract-svg-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        const svg = this.svgExtractor.parse(resource);
+        features = await this.svgExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract,
+          svg
+        );
+        
+        // Text features cover the drawing's <text> content rather than the markup
+        const text = this.svgExtractor.getText(svg);
+        if (text) {
+          features.push(...await this.extractTextFeatures(
+            { ...resource, content: Buffer.from(text, 'utf-8') },
+            options.ttl || 86400,
+            options.mode || 'standard',
+            existingFeatureKeys,
+            options.updateMissing !== false
+          ));
+        }
+        svgTimer();
       } else if (resource.mimeType?.startsWith('image/')) {
         logger.trace('Using image extractor', { mimeType });
         const imageTimer = logger.startTimer('extract-image-features');
@@ -259,22 +390,307 @@ export class DirectFeatureOrchestrator {
           existingFeatureKeys,
           options.updateMissing !== false
         );
+        
+        // Transcript from sibling .srt/.vtt files, which doesn't need ffmpeg
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        features.push(...await this.subtitleExtractor.extractVideoTranscript(
+          resource.url,
+          options.ttl || 86400,
+          shouldExtract
+        ));
         videoTimer();
+      } else if (this.audioExtractor.canHandle(mimeType)) {
+        logger.trace('Using audio extractor', { mimeType });
+        const audioTimer = logger.startTimer('extract-audio-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        features = await this.audioExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract
+        );
+        audioTimer();
+      } else if (this.archiveExtractor.canHandle(mimeType)) {
+        logger.trace('Using archive extractor', { mimeType });
+        const archiveTimer = logger.startTimer('extract-archive-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        const archive = this.archiveExtractor.open(resource);
+        features = await this.archiveExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract,
+          archive
+        );
+        archiveTimer();
+        
+        if (options.extractArchiveMembers) {
+          const processedMembers = await this.extractFromArchiveMembers(resource, archive, options);
+          logger.info('Archive member extraction completed', {
+            archive: resource.url,
+            membersProcessed: processedMembers.length
+          });
+        }
+      } else if (this.pdfExtractor.canHandle(mimeType)) {
+        logger.trace('Using PDF extractor', { mimeType });
+        const pdfTimer = logger.startTimer('extract-pdf-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        features = await this.pdfExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract
+        );
+        const documentText = features.find(f => f.featureKey === 'pdf.text')?.value;
+        if (typeof documentText === 'string') {
+          features.push(...this.scanText(resource, documentText, options.ttl || 86400, shouldExtract));
+        }
+        pdfTimer();
+      } else if (this.officeExtractor.canHandle(mimeType)) {
+        logger.trace('Using office extractor', { mimeType });
+        const officeTimer = logger.startTimer('extract-office-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        features = await this.officeExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract
+        );
+        const documentText = features.find(f => f.featureKey === 'document.text')?.value;
+        if (typeof documentText === 'string') {
+          features.push(...this.scanText(resource, documentText, options.ttl || 86400, shouldExtract));
+        }
+        officeTimer();
+      } else if (this.epubExtractor.canHandle(mimeType)) {
+        logger.trace('Using EPUB extractor', { mimeType });
+        const epubTimer = logger.startTimer('extract-epub-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        const book = this.epubExtractor.readChapters(resource);
+        features = await this.epubExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract,
+          book
+        );
+        
+        // Text features and embeddings cover the chapter text rather than the zipped package
+        const textResource = {
+          ...resource,
+          content: Buffer.from(book.chapters.map(chapter => chapter.text).join('\n\n'), 'utf-8')
+        };
+        features.push(...await this.extractTextContent(textResource, options, existingFeatureKeys));
+        epubTimer();
+      } else if (this.tabularExtractor.canHandle(mimeType)) {
+        logger.trace('Using tabular extractor', { mimeType });
+        const tabularTimer = logger.startTimer('extract-tabular-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        features = await this.tabularExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract
+        );
+        // Tables are profiled from disk; the sampled rows are the text that is kept, so they are what gets scanned
+        const sampleRows = features.find(f => f.featureKey === 'table.sample_rows')?.value;
+        if (typeof sampleRows === 'string') {
+          const rowText = JSON.parse(sampleRows)
+            .map((row: Record<string, unknown>) => Object.values(row).map(value => typeof value === 'string' ? value : JSON.stringify(value)).join('\t'))
+            .join('\n');
+          features.push(...this.scanText(resource, rowText, options.ttl || 86400, shouldExtract));
+        }
+        tabularTimer();
+      } else if (this.geoExtractor.canHandle(mimeType)) {
+        logger.trace('Using geo extractor', { mimeType });
+        const geoTimer = logger.startTimer('extract-geo-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        features = await this.geoExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract
+        );
+        geoTimer();
+      } else if (this.model3dExtractor.canHandle(mimeType)) {
+        logger.trace('Using 3D model extractor', { mimeType });
+        const model3dTimer = logger.startTimer('extract-model3d-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        features = await this.model3dExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract
+        );
+        model3dTimer();
+      } else if (this.subtitleExtractor.canHandle(mimeType)) {
+        logger.trace('Using subtitle extractor', { mimeType });
+        const subtitleTimer = logger.startTimer('extract-subtitle-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        const parsed = this.subtitleExtractor.parse(resource);
+        features = await this.subtitleExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract,
+          parsed
+        );
+        
+        // Text features and embeddings are computed on the transcript instead of the cue markup
+        const transcriptResource = {
+          ...resource,
+          content: Buffer.from(this.subtitleExtractor.transcript(parsed.cues), 'utf-8')
+        };
+        features.push(...await this.extractTextContent(transcriptResource, options, existingFeatureKeys));
+        subtitleTimer();
+      } else if (this.emailExtractor.canHandle(mimeType) && this.emailExtractor.isMailbox(mimeType)) {
+        logger.trace('Using email extractor for mailbox', { mimeType });
+        const mailboxTimer = logger.startTimer('extract-mailbox-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        const messages = this.emailExtractor.mailboxMessages(resource);
+        features = this.emailExtractor.extractMailboxFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract,
+          messages
+        );
+        mailboxTimer();
+        
+        // Every message becomes its own resource under email:///path.mbox!/messages/N
+        const processedMessages = await this.extractEmailParts(
+          resource,
+          messages.map((message, i) => ({ ...message, name: `message-${i + 1}.eml` })),
+          options
+        );
+        logger.info('Mailbox message extraction completed', {
+          mailbox: resource.url,
+          messagesProcessed: processedMessages.length
+        });
+      } else if (this.emailExtractor.canHandle(mimeType)) {
+        logger.trace('Using email extractor', { mimeType });
+        const emailTimer = logger.startTimer('extract-email-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        const email = parseEmail(resource.content);
+        features = this.emailExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract,
+          email
+        );
+        
+        // Text features and embeddings cover the message body rather than the raw MIME source
+        const bodyResource = {
+          ...resource,
+          content: Buffer.from(this.emailExtractor.bodyText(email), 'utf-8')
+        };
+        features.push(...await this.extractTextContent(bodyResource, options, existingFeatureKeys));
+        emailTimer();
+        
+        if (options.extractAttachments) {
+          const processedAttachments = await this.extractEmailParts(
+            resource,
+            email.attachments.map(attachment => ({
+              url: this.emailExtractor.attachmentUrl(resource.url, attachment),
+              name: attachment.name,
+              content: attachment.content
+            })),
+            options
+          );
+          logger.info('Email attachment extraction completed', {
+            email: resource.url,
+            attachmentsProcessed: processedAttachments.length
+          });
+        }
+      } else if (this.notebookExtractor.canHandle(mimeType)) {
+        logger.trace('Using notebook extractor', { mimeType });
+        const notebookTimer = logger.startTimer('extract-notebook-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        const notebook = this.notebookExtractor.parse(resource);
+        features = await this.notebookExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract,
+          notebook
+        );
+        
+        // Text features and embeddings cover the cell sources rather than the notebook JSON
+        const sourceResource = notebook
+          ? { ...resource, content: Buffer.from(this.notebookExtractor.getText(notebook), 'utf-8') }
+          : resource;
+        features.push(...await this.extractTextContent(sourceResource, options, existingFeatureKeys));
+        notebookTimer();
+      } else if (this.htmlExtractor.canHandle(mimeType)) {
+        logger.trace('Using HTML extractor', { mimeType });
+        const htmlTimer = logger.startTimer('extract-html-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        const page = this.htmlExtractor.parse(resource);
+        features = await this.htmlExtractor.extractFeatures(
+          resource,
+          options.ttl || 86400,
+          shouldExtract,
+          page
+        );
+        
+        // Text features and embeddings are computed on the readable text instead of the raw markup
+        const readableResource = {
+          ...resource,
+          content: Buffer.from(this.htmlExtractor.getMainText(page), 'utf-8')
+        };
+        features.push(...await this.extractTextContent(readableResource, options, existingFeatureKeys));
+        htmlTimer();
       } else if (resource.mimeType?.startsWith('text/') || 
                  resource.mimeType === 'application/json' ||
                  resource.mimeType === 'application/javascript' ||
-                 resource.mimeType === 'text/typescript') {
+                 resource.mimeType === 'text/typescript' ||
+                 this.codeExtractor.canHandle(mimeType)) {
         logger.trace('Using text extractor', { mimeType });
         const textTimer = logger.startTimer('extract-text-features');
+        const shouldExtract = this.featureFilter(options, existingFeatureKeys);
+        // Decoded once for the text, markdown, code, JSON and license features
+        const decoded = decodeText(resource.content);
         features = await this.extractTextFeatures(
           resource, 
           options.ttl || 86400,
           options.mode || 'standard',
           existingFeatureKeys,
-          options.updateMissing !== false
+          options.updateMissing !== false,
+          decoded
         );
         textTimer();
         
+        if (this.markdownExtractor.canHandle(mimeType)) {
+          logger.trace('Using markdown extractor', { mimeType });
+          const markdownTimer = logger.startTimer('extract-markdown-features');
+          features.push(...await this.markdownExtractor.extractFeatures(
+            resource,
+            decoded.text,
+            options.ttl || 86400,
+            shouldExtract
+          ));
+          markdownTimer();
+        }
+        
+        if (this.codeExtractor.canHandle(mimeType)) {
+          logger.trace('Using code extractor', { mimeType });
+          const codeTimer = logger.startTimer('extract-code-features');
+          features.push(...await this.codeExtractor.extractFeatures(
+            resource,
+            decoded.text,
+            options.ttl || 86400,
+            shouldExtract
+          ));
+          codeTimer();
+        }
+        
+        if (this.jsonExtractor.canHandle(mimeType)) {
+          logger.trace('Using JSON extractor', { mimeType });
+          const jsonTimer = logger.startTimer('extract-json-features');
+          features.push(...await this.jsonExtractor.extractFeatures(
+            resource,
+            decoded.text,
+            options.ttl || 86400,
+            shouldExtract
+          ));
+          jsonTimer();
+        }
+        
+        features.push(...this.licenseExtractor.extractFeatures(
+          resource,
+          decoded.text,
+          options.ttl || 86400,
+          shouldExtract
+        ));
+        
         // Optionally add embeddings for text content
         if (options.includeEmbeddings && this.embeddingExtractor.isAvailable()) {
           try {
@@ -289,6 +705,9 @@ export class DirectFeatureOrchestrator {
         logger.warn(`No built-in extractor for MIME type: ${resource.mimeType}`);
       }
 
+      // Every text-bearing feature is redacted here, whichever extractor produced it
+      features = redactPiiFeatures(features, this.piiRedaction);
+
       // Store features in database
       if (features.length > 0) {
         logger.debug('Storing features', {
@@ -332,13 +751,13 @@ export class DirectFeatureOrchestrator {
     updateMissing: boolean = true
   ): Promise<Feature[]> {
     const features: Feature[] = [];
+    const shouldExtract: FeatureFilter = key => this.shouldExtractFeature(key, mode, existingFeatureKeys, updateMissing);
     const buffer = resource.content;
     
     // Generate a unique resource ID from the URL or checksum
     const resourceId = resource.checksum?.substring(0, 16) || 
                       resource.url.split('/').pop()?.replace(/\.[^/.]+$/, '') || 
                       uuidv4();
-    const serverUrl = process.env.SERVER_URL || `http://localhost:${process.env.PORT || 8080}`;
 
     try {
       logger.trace('Extracting image features', { url: resource.url, resourceId });
@@ -346,102 +765,28 @@ export class DirectFeatureOrchestrator {
       // Get image metadata
       const metadata = await sharp(buffer).metadata();
       
-      // Generate thumbnails
-      const thumbnailSmall = await sharp(buffer)
-        .resize(150, 150, { fit: 'inside', withoutEnlargement: true })
-        .png()
-        .toBuffer();
-      
-      const thumbnailMedium = await sharp(buffer)
-        .resize(400, 400, { fit: 'inside', withoutEnlargement: true })
-        .png()
-        .toBuffer();
-      
-      const thumbnailLarge = await sharp(buffer)
-        .resize(1920, 1080, { fit: 'inside', withoutEnlargement: true })
-        .png()
-        .toBuffer();
-
-      // Get color statistics
-      const stats = await sharp(buffer).stats();
-      const dominantColors = {
-        channels: stats.channels.map(ch => ({
-          mean: Math.round(ch.mean),
-          min: ch.min,
-          max: ch.max
-        }))
-      };
-
       const now = Math.floor(Date.now() / 1000);
 
-      // Store thumbnails in database but return URLs
-      const encodedResourceUrl = encodeURIComponent(resource.url);
-      const thumbnailFeatures = [];
-      
-      // Only generate thumbnails if they should be extracted
-      if (this.shouldExtractFeature('image.thumbnail.small', mode, existingFeatureKeys, updateMissing)) {
-        thumbnailFeatures.push({
-          key: 'image.thumbnail_small',
-          buffer: thumbnailSmall,
-          dimensions: '150x150',
-          url: `${serverUrl}/api/features/${encodedResourceUrl}/image.thumbnail_small?format=raw`
-        });
-      }
-      
-      if (this.shouldExtractFeature('image.thumbnail.medium', mode, existingFeatureKeys, updateMissing)) {
-        thumbnailFeatures.push({
-          key: 'image.thumbnail_medium',
-          buffer: thumbnailMedium,
-          dimensions: '400x400',
-          url: `${serverUrl}/api/features/${encodedResourceUrl}/image.thumbnail_medium?format=raw`
-        });
-      }
-      
-      if (this.shouldExtractFeature('image.thumbnail.large', mode, existingFeatureKeys, updateMissing) && mode === 'maximal') {
-        thumbnailFeatures.push({
-          key: 'image.thumbnail_large',
-          buffer: thumbnailLarge,
-          dimensions: '1920x1080',
-          url: `${serverUrl}/api/features/${encodedResourceUrl}/image.thumbnail_large?format=raw`
-        });
-      }
-      
-      // Store actual image data in database
-      for (const thumb of thumbnailFeatures) {
-        await this.db.storeFeatures(resource.url, [{
-          key: thumb.key,
-          value: thumb.buffer.toString('base64'),
-          type: FeatureType.BINARY,
-          ttl,
-          extractorTool: 'built-in',
-          metadata: { 
-            dimensions: thumb.dimensions, 
-            format: 'png',
-            resourceId
-          }
-        }]);
-      }
-      
-      // Return features with URLs instead of inline data
-      for (const thumb of thumbnailFeatures) {
-        features.push({
-          id: uuidv4(),
-          resourceUrl: resource.url,
-          featureKey: thumb.key.replace('_', '.'),  // Convert image_thumbnail_small to image.thumbnail.small
-          value: thumb.url,
-          valueType: FeatureType.TEXT,
-          generatedAt: now,
-          ttl,
-          expiresAt: now + ttl,
-          extractorTool: 'built-in',
-          metadata: { 
-            dimensions: thumb.dimensions, 
-            format: 'png',
-            mediaType: 'url',
-            resourceId
-          }
-        });
+      // Thumbnails are stored as binary and returned as URLs
+      const thumbnailFeatures: Feature[] = [];
+      for (const size of ['small', 'medium', 'large'] as ThumbnailSize[]) {
+        if (size === 'large' && mode !== 'maximal') {
+          continue;
+        }
+        if (this.shouldExtractFeature(`image.thumbnail.${size}`, mode, existingFeatureKeys, updateMissing)) {
+          thumbnailFeatures.push(await storeThumbnail(
+            this.db,
+            resource.url,
+            `image.thumbnail_${size}`,
+            buffer,
+            size,
+            ttl,
+            'built-in',
+            { resourceId }
+          ));
+        }
       }
+      features.push(...thumbnailFeatures);
       
       if (this.shouldExtractFeature('image.dimensions', mode, existingFeatureKeys, updateMissing)) {
         features.push(
@@ -474,25 +819,33 @@ export class DirectFeatureOrchestrator {
         });
       }
       
-      if (this.shouldExtractFeature('image.dominant_colors', mode, existingFeatureKeys, updateMissing) && mode === 'maximal') {
-        features.push({
-          id: uuidv4(),
-          resourceUrl: resource.url,
-          featureKey: 'image.dominant_colors',
-          value: JSON.stringify(dominantColors),
-          valueType: FeatureType.JSON,
-          generatedAt: now,
-          ttl,
-          expiresAt: now + ttl,
-          extractorTool: 'built-in',
-          metadata: {}
-        });
-      }
+      // EXIF, GPS, IPTC and XMP come from the raw metadata blocks sharp exposes
+      features.push(...this.imageMetadataExtractor.extractFeatures(
+        resource,
+        metadata,
+        ttl,
+        shouldExtract
+      ));
+      
+      // Perceptual hashes also feed the image_hashes index used by find_similar_images
+      features.push(...await this.imageHashExtractor.extractFeatures(
+        resource,
+        ttl,
+        shouldExtract
+      ));
+      
+      // Palette, average color, grayscale and alpha detection
+      features.push(...await this.imageColorExtractor.extractFeatures(
+        resource,
+        metadata,
+        ttl,
+        shouldExtract
+      ));
 
       logger.info(`Extracted ${features.length} image features from ${resource.url}`, {
         resourceId,
         featureCount: features.length,
-        thumbnailUrls: thumbnailFeatures.map(t => t.url)
+        thumbnailUrls: thumbnailFeatures.map(t => t.value)
       });
     } catch (error: any) {
       logger.error('Image extraction failed:', error);
@@ -510,6 +863,7 @@ export class DirectFeatureOrchestrator {
     updateMissing: boolean = true
   ): Promise<Feature[]> {
     const features: Feature[] = [];
+    const shouldExtract: FeatureFilter = key => this.shouldExtractFeature(key, mode, existingFeatureKeys, updateMissing);
     
     // Generate resource ID
     const resourceId = resource.checksum?.substring(0, 16) || 
@@ -656,6 +1010,15 @@ export class DirectFeatureOrchestrator {
         });
       }
 
+      // Stream details, scene cuts, per-scene keyframes and the contact sheet
+      features.push(...await this.videoSceneExtractor.extractFeatures(
+        resource,
+        tempVideoPath,
+        info,
+        ttl,
+        shouldExtract
+      ));
+
       logger.verbose('Video snapshots extracted', {
         resourceId,
         snapshotCount: snapshots.length,
@@ -682,12 +1045,16 @@ export class DirectFeatureOrchestrator {
     ttl: number,
     mode: 'minimal' | 'standard' | 'maximal' = 'standard',
     existingFeatureKeys: Set<string> = new Set(),
-    updateMissing: boolean = true
+    updateMissing: boolean = true,
+    decoded: DecodedText = decodeText(resource.content)
   ): Promise<Feature[]> {
     const features: Feature[] = [];
-    const text = resource.content.toString('utf-8');
+    const shouldExtract: FeatureFilter = key => this.shouldExtractFeature(key, mode, existingFeatureKeys, updateMissing);
+    const { text, encoding, bomLength } = decoded;
     const lines = text.split('\n');
     const words = text.split(/\s+/).filter(w => w.length > 0);
+    // Content and analysis use the redacted copy, so no PII is cut in half at 10k chars or split into keywords
+    const redactedText = redactPii(text, this.piiRedaction);
     
     const now = Math.floor(Date.now() / 1000);
 
@@ -697,7 +1064,7 @@ export class DirectFeatureOrchestrator {
         id: uuidv4(),
         resourceUrl: resource.url,
         featureKey: 'text.content',
-        value: text.substring(0, 10000), // First 10k chars
+        value: redactedText.substring(0, 10000), // First 10k chars
         valueType: FeatureType.TEXT,
         generatedAt: now,
         ttl,
@@ -752,10 +1119,35 @@ export class DirectFeatureOrchestrator {
       });
     }
 
+    if (this.shouldExtractFeature('text.encoding', mode, existingFeatureKeys, updateMissing)) {
+      features.push({
+        id: uuidv4(),
+        resourceUrl: resource.url,
+        featureKey: 'text.encoding',
+        value: encoding,
+        valueType: FeatureType.TEXT,
+        generatedAt: now,
+        ttl,
+        expiresAt: now + ttl,
+        extractorTool: 'built-in',
+        metadata: { bom: bomLength > 0 }
+      });
+    }
+
+    // Language, keywords, summary and readability are computed offline from the same text
+    features.push(...await this.textAnalysisExtractor.extractFeatures(
+      resource,
+      redactedText,
+      ttl,
+      shouldExtract
+    ));
+
+    features.push(...this.scanText(resource, text, ttl, shouldExtract));
+
     logger.info(`Extracted ${features.length} text features from ${resource.url}`, {
       mode,
       updateMissing,
-      skipped: 4 - features.length
+      skipped: TEXT_FEATURE_KEYS.filter(key => !shouldExtract(key)).length
     });
     return features;
   }
@@ -885,6 +1277,30 @@ export class DirectFeatureOrchestrator {
         });
       }
       
+      if (this.shouldExtractFeature('directory.license_summary', mode, existingFeatureKeys, updateMissing)) {
+        let licenseSummary = this.licenseSummaries.get(dirPath);
+        if (!licenseSummary) {
+          const summaries = await this.licenseExtractor.summarizeTree(dirPath);
+          summaries.forEach((summary, path) => this.licenseSummaries.set(path, summary));
+          licenseSummary = summaries.get(dirPath)!;
+        }
+        features.push({
+          id: uuidv4(),
+          resourceUrl: resource.url,
+          featureKey: 'directory.license_summary',
+          value: JSON.stringify(licenseSummary),
+          valueType: FeatureType.JSON,
+          generatedAt: now,
+          ttl,
+          expiresAt: now + ttl,
+          extractorTool: 'license-extractor',
+          metadata: {
+            licenseCount: Object.keys(licenseSummary.licenses).length,
+            mixed: Object.keys(licenseSummary.licenses).length > 1
+          }
+        });
+      }
+      
       logger.info('Extracted directory features', {
         directory: dirPath,
         featureCount: features.length,
@@ -943,6 +1359,45 @@ export class DirectFeatureOrchestrator {
       'text.word_count',
       'text.line_count',
       'text.char_count',
+      'text.language',
+      'text.encoding',
+      'text.sentence_count',
+      'security.secrets',
+      'privacy.pii_findings',
+      'pdf.page_count',
+      'pdf.text',
+      'document.text',
+      'html.title',
+      'html.main_text',
+      'markdown.outline',
+      'markdown.frontmatter',
+      'table.row_count',
+      'table.columns',
+      'json.valid',
+      'json.top_level_type',
+      'audio.duration',
+      'subtitles.duration',
+      'subtitles.language',
+      'subtitles.transcript',
+      'notebook.kernel',
+      'notebook.cells',
+      'email.from',
+      'email.to',
+      'email.subject',
+      'email.date',
+      'email.body_text',
+      'email.message_count',
+      'ebook.title',
+      'ebook.authors',
+      'ebook.chapter_count',
+      'geo.bbox',
+      'geo.feature_count',
+      'model3d.vertex_count',
+      'model3d.triangle_count',
+      'svg.viewbox',
+      'svg.text',
+      'svg.has_scripts',
+      'archive.entry_count',
       'directory.metadata',
       'directory.file_count',
       'directory.total_size',
@@ -951,14 +1406,100 @@ export class DirectFeatureOrchestrator {
     
     const standardFeatures = new Set([
       ...minimalFeatures,
+      'text.summary',
+      'text.keywords',
+      'code.license',
+      'code.copyright_holders',
+      'directory.license_summary',
+      'text.readability',
+      'text.avg_sentence_length',
+      'text.vocabulary_richness',
       'image.thumbnail.small',
       'image.thumbnail.medium',
       'image.dimensions',
       'image.format',
+      'image.exif',
+      'image.gps',
+      'image.iptc',
+      'image.xmp',
+      'image.phash',
+      'image.dhash',
+      'image.blurhash',
+      'image.dominant_colors',
+      'image.average_color',
+      'image.is_grayscale',
+      'image.has_alpha',
       'video.dimensions',
       'video.duration',
       'video.snapshot_50',
-      'directory.subdirectory_count'
+      'video.fps',
+      'video.codec',
+      'video.bitrate',
+      'video.audio_tracks',
+      'video.scenes',
+      'video.contact_sheet',
+      'video.transcript',
+      'video.subtitles',
+      'subtitles.cues',
+      'subtitles.video',
+      'notebook.imports',
+      'notebook.outputs_summary',
+      'notebook.output_images',
+      'email.thread_id',
+      'email.attachments',
+      'email.messages',
+      'ebook.toc',
+      'ebook.text',
+      'ebook.cover.thumbnail',
+      'geo.geometry_types',
+      'geo.total_track_length_m',
+      'geo.centroid',
+      'geo.preview',
+      'model3d.bounding_box',
+      'model3d.materials',
+      'model3d.is_watertight',
+      'model3d.preview',
+      'svg.element_counts',
+      'svg.embedded_images',
+      'pdf.outline',
+      'pdf.metadata',
+      'pdf.text.page_N',
+      'pdf.thumbnail.page_N',
+      'document.structure',
+      'document.metadata',
+      'document.links',
+      'document.headings',
+      'document.tables',
+      'spreadsheet.sheets',
+      'presentation.slide_count',
+      'presentation.slides',
+      'html.links',
+      'html.headings',
+      'html.opengraph',
+      'html.meta',
+      'html.images',
+      'markdown.code_blocks',
+      'markdown.links',
+      'markdown.tables',
+      'code.imports',
+      'code.exports',
+      'code.symbols',
+      'code.todo_comments',
+      'code.complexity',
+      'table.sample_rows',
+      'table.delimiter',
+      'table.encoding',
+      'json.schema',
+      'json.key_paths',
+      'json.max_depth',
+      'audio.codec',
+      'audio.sample_rate',
+      'audio.channels',
+      'audio.bitrate',
+      'audio.tags',
+      'audio.waveform',
+      'archive.entries',
+      'archive.total_uncompressed_size'
     ]);
     
     // Maximal includes everything
@@ -966,13 +1507,170 @@ export class DirectFeatureOrchestrator {
       return true;
     }
     
+    // Keys numbered per page are listed once, e.g. pdf.thumbnail.page_N
+    const indexedKey = featureKey.replace(/_\d+$/, '_N');
+    
     // Check if feature is in the appropriate set
     if (mode === 'minimal') {
-      return minimalFeatures.has(featureKey);
+      return minimalFeatures.has(featureKey) || minimalFeatures.has(indexedKey);
     }
     
     // Standard mode
-    return standardFeatures.has(featureKey);
+    return standardFeatures.has(featureKey) || standardFeatures.has(indexedKey);
+  }
+
+  /**
+   * Feature filter for the extraction mode and existing keys in options.
+   */
+  private featureFilter(options: ExtractOptions, existingFeatureKeys: Set<string>): FeatureFilter {
+    const mode = options.mode || 'standard';
+    const updateMissing = options.updateMissing !== false;
+    return key => this.shouldExtractFeature(key, mode, existingFeatureKeys, updateMissing);
+  }
+
+  /**
+   * Secret and PII scans of a resource's text. They see the text before
+   * redaction so that findings are still counted.
+   */
+  private scanText(resource: Resource, text: string, ttl: number, shouldExtract: FeatureFilter): Feature[] {
+    return [
+      ...this.secretsExtractor.extractFeatures(resource, text, ttl, shouldExtract),
+      ...this.piiExtractor.extractFeatures(resource, text, ttl, shouldExtract)
+    ];
+  }
+
+  /**
+   * Text features, plus embeddings when requested, for the readable text of a
+   * container format (book chapters, message body, transcript, ...).
+   */
+  private async extractTextContent(
+    textResource: Resource & { content: Buffer },
+    options: ExtractOptions,
+    existingFeatureKeys: Set<string>
+  ): Promise<Feature[]> {
+    const features = await this.extractTextFeatures(
+      textResource,
+      options.ttl || 86400,
+      options.mode || 'standard',
+      existingFeatureKeys,
+      options.updateMissing !== false
+    );
+    
+    if (options.includeEmbeddings && this.embeddingExtractor.isAvailable()) {
+      try {
+        const embeddingFeatures = await this.embeddingExtractor.extractFeatures(textResource, options.ttl || 86400);
+        features.push(...embeddingFeatures);
+        logger.info(`Added ${embeddingFeatures.length} embedding features`);
+      } catch (error) {
+        logger.warn(`Failed to generate embeddings: ${error}`);
+      }
+    }
+    
+    return features;
+  }
+
+  /**
+   * Archive member or email attachment extraction asked for on a resource
+   * whose own features are cached. Each part still goes through
+   * extractFeatures, so parts that are themselves cached cost no more than a lookup.
+   */
+  private async extractCachedParts(resource: LoadedResource, options: ExtractOptions): Promise<void> {
+    const mimeType = resource.mimeType || 'unknown';
+    
+    if (options.extractArchiveMembers && this.archiveExtractor.canHandle(mimeType)) {
+      const processedMembers = await this.extractFromArchiveMembers(resource, this.archiveExtractor.open(resource), options);
+      logger.info('Archive member extraction completed', {
+        archive: resource.url,
+        membersProcessed: processedMembers.length,
+        cached: true
+      });
+    }
+    
+    if (options.extractAttachments && this.emailExtractor.canHandle(mimeType)) {
+      // Mailbox messages are cached too, so revisiting them only extracts their attachments
+      const parts = this.emailExtractor.isMailbox(mimeType)
+        ? this.emailExtractor.mailboxMessages(resource).map((message, i) => ({ ...message, name: `message-${i + 1}.eml` }))
+        : parseEmail(resource.content).attachments.map(attachment => ({
+            url: this.emailExtractor.attachmentUrl(resource.url, attachment),
+            name: attachment.name,
+            content: attachment.content
+          }));
+      const processedParts = await this.extractEmailParts(resource, parts, options);
+      logger.info('Email part extraction completed', {
+        email: resource.url,
+        partsProcessed: processedParts.length,
+        cached: true
+      });
+    }
+  }
+
+  /**
+   * Run the normal per-MIME extraction on every archive member that passes the
+   * reader's safety checks, storing features under the member URL.
+   */
+  private async extractFromArchiveMembers(
+    archiveResource: LoadedResource,
+    archive: ArchiveReader,
+    options: ExtractOptions
+  ): Promise<string[]> {
+    const processedMembers: string[] = [];
+    
+    for (const entry of archive.entries) {
+      if (entry.type !== 'file') {
+        continue;
+      }
+      
+      const skipReason = archive.skipReason(entry);
+      if (skipReason) {
+        logger.warn('Skipping archive member', { archive: archiveResource.url, member: entry.path, reason: skipReason });
+        continue;
+      }
+      
+      const memberUrl = archiveMemberUrl(archiveResource.url, archive.format, entry.path);
+      try {
+        logger.debug('Extracting features for archive member', { url: memberUrl });
+        const content = archive.read(entry);
+        await this.extractFeatures(memberUrl, {
+          ...options,
+          skipDirectoryIndexing: true,
+          extractArchiveMembers: false, // Nested archives are listed but not unpacked
+          resource: this.resourceLoader.createResource(memberUrl, entry.path, content)
+        });
+        processedMembers.push(memberUrl);
+      } catch (error) {
+        logger.error('Failed to process archive member', error, { url: memberUrl });
+      }
+    }
+    
+    return processedMembers;
+  }
+
+  /**
+   * Extract mailbox messages or email attachments as resources of their own,
+   * under the email:// URL the resource loader resolves them from.
+   */
+  private async extractEmailParts(
+    parentResource: LoadedResource,
+    parts: Array<{ url: string; name: string; content: Buffer }>,
+    options: ExtractOptions
+  ): Promise<string[]> {
+    const processedParts: string[] = [];
+    
+    for (const part of parts) {
+      try {
+        logger.debug('Extracting features for email part', { parent: parentResource.url, url: part.url });
+        await this.extractFeatures(part.url, {
+          ...options,
+          skipDirectoryIndexing: true,
+          resource: this.resourceLoader.createResource(part.url, part.name, part.content)
+        });
+        processedParts.push(part.url);
+      } catch (error) {
+        logger.error('Failed to process email part', error, { url: part.url });
+      }
+    }
+    
+    return processedParts;
   }
 
   private async recursivelyExtractFromDirectory(
@@ -993,11 +1691,7 @@ export class DirectFeatureOrchestrator {
             const fullPath = join(currentPath, entry.name);
             
             // Skip hidden files and common ignore patterns
-            if (entry.name.startsWith('.') || 
-                entry.name === 'node_modules' || 
-                entry.name === '__pycache__' ||
-                entry.name === 'dist' ||
-                entry.name === 'build') {
+            if (isIgnoredEntry(entry.name)) {
               logger.trace('Skipping ignored path', { path: fullPath });
               continue;
             }
@@ -1101,6 +1795,93 @@ export class DirectFeatureOrchestrator {
     }
   }
 
+  /**
+   * Describe the built-in extractors and the MIME types each one is dispatched for
+   */
+  listExtractors(): BuiltInExtractorInfo[] {
+    return [
+      {
+        toolName: 'text-extractor',
+        description: 'Extracts text content (charset detected from BOM or bytes), word, line, character and sentence counts, language (character n-grams), TF-IDF keywords against corpus document frequencies, a TextRank summary, vocabulary richness and readability scores',
+        capabilities: [
+          'text/plain', 'text/typescript', 'text/javascript', 'text/python', 'text/markdown',
+          'application/json', 'application/javascript'
+        ],
+        featureKeys: [
+          'text.content', 'text.word_count', 'text.line_count', 'text.char_count',
+          'text.language', 'text.keywords', 'text.summary', 'text.encoding',
+          'text.sentence_count', 'text.avg_sentence_length', 'text.vocabulary_richness', 'text.readability'
+        ],
+        enabled: true,
+        priority: 1
+      },
+      {
+        toolName: 'image-extractor',
+        description: 'Extracts image metadata (EXIF, GPS, IPTC, XMP), color palette and perceptual hashes, and generates thumbnails (150x150, 400x400, 1920x1080)',
+        capabilities: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'],
+        featureKeys: [
+          'image.thumbnail.small', 'image.thumbnail.medium', 'image.thumbnail.large',
+          'image.dimensions', 'image.format', 'image.dominant_colors',
+          'image.exif', 'image.gps', 'image.iptc', 'image.xmp',
+          'image.phash', 'image.dhash', 'image.blurhash',
+          'image.average_color', 'image.is_grayscale', 'image.has_alpha'
+        ],
+        enabled: true,
+        priority: 2
+      },
+      SvgExtractor.info,
+      {
+        toolName: 'video-extractor',
+        description: 'Extracts video snapshots at 10% intervals, stream details, scene changes with per-scene keyframes and a contact sheet',
+        capabilities: ['video/mp4', 'video/quicktime', 'video/x-msvideo'],
+        featureKeys: [
+          'video.dimensions', 'video.duration', 'video.snapshot_N',
+          'video.fps', 'video.codec', 'video.bitrate', 'video.audio_tracks',
+          'video.scenes', 'video.keyframe_N', 'video.contact_sheet'
+        ],
+        enabled: true,
+        priority: 3
+      },
+      {
+        toolName: 'directory-extractor',
+        description: 'Extracts directory metadata including file count, total size, and file listing',
+        capabilities: ['inode/directory'],
+        featureKeys: [
+          'directory.metadata', 'directory.file_count', 'directory.total_size',
+          'directory.subdirectory_count', 'extraction.summary'
+        ],
+        enabled: true,
+        priority: 4
+      },
+      SecretsExtractor.info,
+      PiiExtractor.info,
+      LicenseExtractor.info,
+      HtmlExtractor.info,
+      MarkdownExtractor.info,
+      CodeExtractor.info,
+      JsonExtractor.info,
+      TabularExtractor.info,
+      GeoExtractor.info,
+      Model3dExtractor.info,
+      PdfExtractor.info,
+      OfficeExtractor.info,
+      EpubExtractor.info,
+      AudioExtractor.info,
+      SubtitleExtractor.info,
+      NotebookExtractor.info,
+      EmailExtractor.info,
+      ArchiveExtractor.info,
+      {
+        toolName: 'embedding-extractor',
+        description: 'Generates text embeddings for RAG (requires OPENAI_API_KEY)',
+        capabilities: ['text/plain', 'text/markdown'],
+        featureKeys: ['embedding.chunk_N', 'embedding.document'],
+        enabled: this.embeddingExtractor.isAvailable(),
+        priority: 5
+      }
+    ];
+  }
+
   async close(): Promise<void> {
     // Clean up any resources if needed
   }
@@ -0,0 +1,456 @@
+import { extension } from 'mime-types';
+import { FeatureStoreError, ErrorCode } from '../types/errors.js';
+
+export type EmailFormat = 'eml' | 'mbox';
+
+export const EMAIL_MIME_TYPES: Record<string, EmailFormat> = {
+  'message/rfc822': 'eml',
+  'application/mbox': 'mbox'
+};
+
+export interface EmailAddress {
+  name: string | null;
+  address: string | null;
+}
+
+export interface EmailAttachment {
+  index: number;
+  name: string;
+  contentType: string;
+  disposition: 'attachment' | 'inline';
+  contentId: string | null;
+  size: number;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  from: EmailAddress[];
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  bcc: EmailAddress[];
+  replyTo: EmailAddress[];
+  subject: string | null;
+  date: Date | null;
+  rawDate: string | null;
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  text: string | null;
+  html: string | null;
+  attachments: EmailAttachment[];
+}
+
+interface MimePart {
+  headers: Map<string, string[]>;
+  contentType: string;
+  params: Record<string, string>;
+  disposition: string | null;
+  dispositionParams: Record<string, string>;
+  body: Buffer;
+}
+
+// Deeply nested multiparts are malformed or hostile; stop descending past this
+const MAX_MIME_DEPTH = 20;
+
+/**
+ * Part URL in the jar-style form `email:///abs/inbox.mbox!/messages/3` or
+ * `email:///abs/msg.eml!/attachments/1/report.pdf`. Attachments of a message
+ * inside an mbox use `messages/N/attachments/K/name`.
+ */
+export function emailPartUrl(containerUrl: string, partPath: string): string {
+  const location = containerUrl.startsWith('file://') ? containerUrl.slice('file://'.length) : containerUrl;
+  return `email://${location}!/${partPath}`;
+}
+
+export function parseEmailPartUrl(url: string): { location: string; partPath: string } | null {
+  // Greedy so a forwarded .eml attachment can itself be the container
+  const match = url.match(/^email:\/\/(.+)!\/(.+)$/);
+  if (!match) {
+    return null;
+  }
+  return { location: match[1], partPath: match[2] };
+}
+
+export function attachmentPath(attachment: EmailAttachment, messageIndex?: number): string {
+  const prefix = messageIndex ? `messages/${messageIndex}/` : '';
+  return `${prefix}attachments/${attachment.index}/${attachment.name}`;
+}
+
+/**
+ * Byte range of each message in an mbox, starting at its "From " separator line
+ */
+export function indexMailbox(content: Buffer): Array<{ start: number; end: number }> {
+  // latin1 maps every byte to one character, so string offsets are byte offsets
+  const text = content.toString('latin1');
+  const starts: number[] = [];
+  const separator = /^From [^\n]*\n/gm;
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(text)) !== null) {
+    starts.push(match.index);
+  }
+
+  return starts.map((start, i) => ({ start, end: i + 1 < starts.length ? starts[i + 1] : content.length }));
+}
+
+/**
+ * One raw mbox entry as a message: drop the "From " separator line and undo
+ * mboxrd ">From " quoting
+ */
+export function unquoteMailboxMessage(raw: Buffer): Buffer {
+  const text = raw.toString('latin1');
+  return Buffer.from(text.slice(text.indexOf('\n') + 1).replace(/^>(>*From )/gm, '$1'), 'latin1');
+}
+
+/**
+ * Split an mbox into raw messages
+ */
+export function splitMailbox(content: Buffer): Buffer[] {
+  return indexMailbox(content).map(({ start, end }) => unquoteMailboxMessage(content.subarray(start, end)));
+}
+
+/**
+ * Resolve a part path (see emailPartUrl) against the container's content
+ */
+export function readEmailPart(content: Buffer, mimeType: string, partPath: string): { name: string; content: Buffer } {
+  const segments = partPath.split('/');
+
+  if (segments[0] === 'messages' && EMAIL_MIME_TYPES[mimeType] === 'mbox') {
+    const index = parseInt(segments[1]);
+    const messages = splitMailbox(content);
+    if (!(index >= 1 && index <= messages.length)) {
+      throw new FeatureStoreError(ErrorCode.RESOURCE_NOT_FOUND, `Mailbox message not found: ${segments[1]}`);
+    }
+    return readMessagePart(messages[index - 1], `message-${index}.eml`, segments.slice(2).join('/'));
+  }
+
+  return readMessagePart(content, 'message.eml', partPath);
+}
+
+/**
+ * Resolve the part path below a single message; an empty path is the message itself
+ */
+export function readMessagePart(message: Buffer, messageName: string, partPath: string): { name: string; content: Buffer } {
+  if (partPath === '') {
+    return { name: messageName, content: message };
+  }
+
+  const segments = partPath.split('/');
+  if (segments[0] === 'attachments') {
+    const attachment = parseEmail(message).attachments[parseInt(segments[1]) - 1];
+    if (attachment) {
+      return { name: attachment.name, content: attachment.content };
+    }
+  }
+
+  throw new FeatureStoreError(ErrorCode.RESOURCE_NOT_FOUND, `Email part not found: ${partPath}`);
+}
+
+/**
+ * Parse an RFC 5322 message with MIME bodies: headers, the plain text and
+ * HTML bodies, and every attachment (including inline images and forwarded
+ * messages) decoded from its transfer encoding.
+ */
+export function parseEmail(content: Buffer): ParsedEmail {
+  const root = parsePart(content);
+  const email: ParsedEmail = {
+    from: parseAddressList(header(root, 'from')),
+    to: parseAddressList(header(root, 'to')),
+    cc: parseAddressList(header(root, 'cc')),
+    bcc: parseAddressList(header(root, 'bcc')),
+    replyTo: parseAddressList(header(root, 'reply-to')),
+    subject: header(root, 'subject') !== null ? decodeEncodedWords(header(root, 'subject')!) : null,
+    date: null,
+    rawDate: header(root, 'date'),
+    messageId: parseMessageIds(header(root, 'message-id'))[0] || null,
+    inReplyTo: parseMessageIds(header(root, 'in-reply-to'))[0] || null,
+    references: parseMessageIds(header(root, 'references')),
+    text: null,
+    html: null,
+    attachments: []
+  };
+
+  if (email.rawDate) {
+    const date = new Date(email.rawDate.replace(/\s*\([^)]*\)\s*$/, ''));
+    email.date = isNaN(date.getTime()) ? null : date;
+  }
+
+  walkParts(root, email, 0);
+  return email;
+}
+
+function walkParts(part: MimePart, email: ParsedEmail, depth: number): void {
+  if (part.contentType.startsWith('multipart/') && depth < MAX_MIME_DEPTH && part.params.boundary) {
+    for (const child of splitMultipart(part.body, part.params.boundary)) {
+      walkParts(parsePart(child), email, depth + 1);
+    }
+    return;
+  }
+
+  const filename = part.dispositionParams.filename || part.params.name || null;
+  const isBody = part.disposition !== 'attachment' && !filename &&
+    (part.contentType === 'text/plain' || part.contentType === 'text/html');
+
+  if (isBody) {
+    const text = decodeCharset(decodeTransferEncoding(part), part.params.charset);
+    if (part.contentType === 'text/plain') {
+      email.text = email.text === null ? text : `${email.text}\n${text}`;
+    } else if (email.html === null) {
+      email.html = text;
+    }
+    return;
+  }
+
+  const index = email.attachments.length + 1;
+  const content = decodeTransferEncoding(part);
+  const fallbackExtension = part.contentType === 'message/rfc822' ? 'eml' : extension(part.contentType) || 'bin';
+  email.attachments.push({
+    index,
+    // Slashes and "!" would break the part URL
+    name: (filename ? decodeEncodedWords(filename) : `attachment-${index}.${fallbackExtension}`).replace(/[\\/!]/g, '_'),
+    contentType: part.contentType,
+    disposition: part.disposition === 'inline' ? 'inline' : 'attachment',
+    contentId: parseMessageIds(firstValue(part.headers, 'content-id'))[0] || null,
+    size: content.length,
+    content
+  });
+}
+
+function parsePart(content: Buffer): MimePart {
+  const text = content.toString('latin1');
+  const match = text.match(/\r?\n\r?\n/);
+  const headerEnd = match ? match.index! : text.length;
+  const bodyStart = match ? headerEnd + match[0].length : text.length;
+
+  // Header bytes are kept as-is so UTF-8 headers (RFC 6532) survive
+  const headerText = content.subarray(0, headerEnd).toString('utf-8').replace(/\r?\n[ \t]+/g, ' ');
+  const headers = new Map<string, string[]>();
+  for (const line of headerText.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers.set(name, [...(headers.get(name) || []), line.slice(colon + 1).trim()]);
+  }
+
+  const [contentType, params] = parseHeaderValue(firstValue(headers, 'content-type') || 'text/plain');
+  const dispositionHeader = firstValue(headers, 'content-disposition');
+  const [disposition, dispositionParams] = dispositionHeader ? parseHeaderValue(dispositionHeader) : [null, {}];
+
+  return {
+    headers,
+    contentType: contentType.toLowerCase(),
+    params,
+    disposition: disposition ? disposition.toLowerCase() : null,
+    dispositionParams,
+    body: content.subarray(bodyStart)
+  };
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const text = body.toString('latin1');
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?:\\r?\\n|$)`, 'g');
+
+  const parts: Buffer[] = [];
+  let start = -1;
+  let match: RegExpExecArray | null;
+  while ((match = delimiter.exec(text)) !== null) {
+    if (start >= 0) {
+      parts.push(Buffer.from(text.slice(start, match.index), 'latin1'));
+    }
+    if (match[1]) {
+      return parts;
+    }
+    start = match.index + match[0].length;
+  }
+  // Missing close delimiter: keep what follows the last boundary
+  if (start >= 0 && start < text.length) {
+    parts.push(Buffer.from(text.slice(start), 'latin1'));
+  }
+  return parts;
+}
+
+/**
+ * Split `type/subtype; key=value; key*=utf-8''encoded` into the value and its
+ * parameters, joining RFC 2231 continuations (key*0, key*1*, ...)
+ */
+function parseHeaderValue(value: string): [string, Record<string, string>] {
+  const segments: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '"' && value[i - 1] !== '\\') quoted = !quoted;
+    if (char === ';' && !quoted) {
+      segments.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+
+  const continuations = new Map<string, Array<{ order: number; value: string; encoded: boolean }>>();
+  for (const segment of segments.slice(1)) {
+    const equals = segment.indexOf('=');
+    if (equals < 0) continue;
+    const rawKey = segment.slice(0, equals).trim().toLowerCase();
+    let paramValue = segment.slice(equals + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"')) {
+      paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+
+    const keyMatch = rawKey.match(/^([^*]+)(?:\*(\d+))?(\*)?$/);
+    if (!keyMatch) continue;
+    const list = continuations.get(keyMatch[1]) || [];
+    list.push({ order: keyMatch[2] ? parseInt(keyMatch[2]) : 0, value: paramValue, encoded: Boolean(keyMatch[3]) });
+    continuations.set(keyMatch[1], list);
+  }
+
+  const params: Record<string, string> = {};
+  for (const [key, list] of continuations) {
+    list.sort((a, b) => a.order - b.order);
+    let charset = 'utf-8';
+    params[key] = list.map((piece, i) => {
+      if (!piece.encoded) return piece.value;
+      let encoded = piece.value;
+      // The first encoded piece carries charset'language'
+      if (i === 0) {
+        const prefix = encoded.match(/^([^']*)'[^']*'/);
+        if (prefix) {
+          charset = prefix[1] || charset;
+          encoded = encoded.slice(prefix[0].length);
+        }
+      }
+      return decodeCharset(Buffer.from(percentDecode(encoded)), charset);
+    }).join('');
+  }
+
+  return [segments[0].trim(), params];
+}
+
+function percentDecode(value: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '%' && /^[0-9a-fA-F]{2}$/.test(value.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(value.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i) & 0xff);
+    }
+  }
+  return bytes;
+}
+
+function decodeTransferEncoding(part: MimePart): Buffer {
+  const encoding = (firstValue(part.headers, 'content-transfer-encoding') || '7bit').toLowerCase().trim();
+  if (encoding === 'base64') {
+    return Buffer.from(part.body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+  }
+  if (encoding === 'quoted-printable') {
+    return Buffer.from(decodeQuotedPrintable(part.body.toString('latin1')));
+  }
+  return part.body;
+}
+
+function decodeQuotedPrintable(value: string, underscoreIsSpace = false): number[] {
+  const text = value.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '=' && /^[0-9a-fA-F]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else if (underscoreIsSpace && text[i] === '_') {
+      bytes.push(0x20);
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return bytes;
+}
+
+function decodeCharset(content: Buffer, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(content);
+  } catch {
+    return content.toString('utf-8');
+  }
+}
+
+/**
+ * RFC 2047 encoded words (=?charset?B|Q?text?=); whitespace between adjacent
+ * encoded words is dropped
+ */
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(decodeQuotedPrintable(text, true));
+      // Strip an RFC 2231 language suffix such as utf-8*en
+      return decodeCharset(bytes, charset.split('*')[0]);
+    });
+}
+
+/**
+ * Mailbox lists, including display names with commas in quotes and
+ * "Group: a@b, c@d;" syntax
+ */
+function parseAddressList(value: string | null): EmailAddress[] {
+  if (!value) return [];
+
+  const entries: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = 0;
+  let comment = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '"' && value[i - 1] !== '\\') quoted = !quoted;
+    else if (!quoted && char === '<') angle++;
+    else if (!quoted && char === '>') angle = Math.max(0, angle - 1);
+    else if (!quoted && char === '(') comment++;
+    else if (!quoted && char === ')') comment = Math.max(0, comment - 1);
+
+    if (!quoted && !angle && !comment && (char === ',' || char === ';')) {
+      entries.push(current);
+      current = '';
+    } else if (!quoted && !angle && !comment && char === ':') {
+      // Group name; its members follow
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+
+  return entries
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const angled = entry.match(/^(.*?)<([^>]*)>/);
+      if (angled) {
+        const name = decodeEncodedWords(angled[1].trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1'));
+        return { name: name || null, address: angled[2].trim() || null };
+      }
+      const commented = entry.match(/^([^\s(]+)\s*\((.*)\)$/);
+      if (commented) {
+        return { name: decodeEncodedWords(commented[2].trim()) || null, address: commented[1] };
+      }
+      return { name: null, address: entry };
+    });
+}
+
+function parseMessageIds(value: string | null): string[] {
+  if (!value) return [];
+  const ids = [...value.matchAll(/<([^>]+)>/g)].map(match => match[1].trim());
+  return ids.length > 0 ? ids : value.split(/\s+/).filter(Boolean);
+}
+
+function header(part: MimePart, name: string): string | null {
+  return firstValue(part.headers, name);
+}
+
+function firstValue(headers: Map<string, string[]>, name: string): string | null {
+  return headers.get(name)?.[0] ?? null;
+}
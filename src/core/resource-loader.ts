@@ -1,26 +1,83 @@
-import { readFile, stat } from 'fs/promises';
+import { readFile, stat, open } from 'fs/promises';
+import { createReadStream } from 'fs';
 import { createHash } from 'crypto';
 import { lookup } from 'mime-types';
+import { isLicenseFile } from '../utils/file-names.js';
 import { URL } from 'url';
 import { resolve, isAbsolute } from 'path';
 import { Resource, ResourceType } from '../types/index.js';
 import { FeatureStoreError, ErrorCode } from '../types/errors.js';
 import { createLogger } from '../utils/logger.js';
+import { ArchiveReader, parseArchiveMemberUrl } from './archive-reader.js';
+import { EMAIL_MIME_TYPES, indexMailbox, parseEmailPartUrl, readEmailPart, readMessagePart, unquoteMailboxMessage } from './email-reader.js';
 
 const logger = createLogger('resource-loader');
 
 export interface LoadedResource extends Resource {
   content: Buffer;
+  // Absolute path for local files, so streaming extractors can re-read from disk
+  path?: string;
+  // True when content only holds the head of a file that is meant to be streamed
+  contentTruncated?: boolean;
+  // Charset named by the transport, such as the charset parameter of an HTTP Content-Type
+  charset?: string;
+}
+
+// Size of the content preview kept in memory for streamed MIME types
+const STREAMED_HEAD_SIZE = 64 * 1024;
+
+// Mailboxes whose message offsets are kept between loads of their messages
+const MAX_INDEXED_MAILBOXES = 8;
+
+interface MailboxIndex {
+  size: number;
+  mtimeMs: number;
+  messages: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Detect MIME type from a file name, with special handling for TypeScript
+ * and extensionless LICENSE/COPYING files
+ */
+export function detectMimeType(filePath: string): string {
+  // Fix MIME type for TypeScript files
+  if (filePath.endsWith('.ts') || filePath.endsWith('.tsx')) {
+    return 'text/typescript';
+  } else if (filePath.endsWith('.js') || filePath.endsWith('.jsx')) {
+    return 'application/javascript';
+  } else if (filePath.endsWith('.jsonl') || filePath.endsWith('.ndjson')) {
+    return 'application/x-ndjson';
+  } else if (filePath.endsWith('.tgz')) {
+    return 'application/gzip';
+  } else if (filePath.endsWith('.ipynb')) {
+    return 'application/x-ipynb+json';
+  }
+  return lookup(filePath) || (isLicenseFile(filePath) ? 'text/plain' : 'application/octet-stream');
 }
 
 export class ResourceLoader {
   private maxFileSize: number;
+  private streamedMimeTypes: Set<string>;
+  private mailboxIndexes = new Map<string, MailboxIndex>();
 
-  constructor(maxFileSize = 100 * 1024 * 1024) { // Default 100MB
+  constructor(maxFileSize = 100 * 1024 * 1024, streamedMimeTypes: string[] = []) { // Default 100MB
     this.maxFileSize = maxFileSize;
+    this.streamedMimeTypes = new Set(streamedMimeTypes);
   }
 
   async load(resourceUrl: string): Promise<LoadedResource> {
+    // Handle archive member URLs such as zip:///abs/path.zip!/inner/file.md
+    const member = parseArchiveMemberUrl(resourceUrl);
+    if (member) {
+      return this.loadArchiveMember(resourceUrl, member.location, member.memberPath);
+    }
+
+    // Handle mailbox messages and attachments such as email:///abs/inbox.mbox!/messages/3
+    const part = parseEmailPartUrl(resourceUrl);
+    if (part) {
+      return this.loadEmailPart(resourceUrl, part.location, part.partPath);
+    }
+
     // Handle file:// URLs
     if (resourceUrl.startsWith('file://')) {
       const filePath = resourceUrl.replace('file://', '');
@@ -77,21 +134,33 @@ export class ResourceLoader {
         );
       }
 
+      const mimeType = detectMimeType(absolutePath);
+
+      // Streamed types are hashed from disk and only their head is kept in memory
+      if (this.streamedMimeTypes.has(mimeType)) {
+        const checksum = await this.hashFile(absolutePath);
+        const content = await this.readHead(absolutePath, STREAMED_HEAD_SIZE);
+
+        logger.info(`Loaded file for streaming: ${absolutePath} (${stats.size} bytes, ${mimeType})`);
+
+        return {
+          url: `file://${absolutePath}`,
+          type: ResourceType.FILE,
+          lastProcessed: Math.floor(Date.now() / 1000),
+          checksum,
+          size: stats.size,
+          mimeType,
+          content,
+          path: absolutePath,
+          contentTruncated: content.length < stats.size
+        };
+      }
+
       // Read file content
       const content = await readFile(absolutePath);
       
       // Calculate checksum
       const checksum = createHash('sha256').update(content).digest('hex');
-      
-      // Detect MIME type with special handling for TypeScript
-      let mimeType = lookup(absolutePath) || 'application/octet-stream';
-      
-      // Fix MIME type for TypeScript files
-      if (absolutePath.endsWith('.ts') || absolutePath.endsWith('.tsx')) {
-        mimeType = 'text/typescript';
-      } else if (absolutePath.endsWith('.js') || absolutePath.endsWith('.jsx')) {
-        mimeType = 'application/javascript';
-      }
 
       logger.info(`Loaded file: ${absolutePath} (${stats.size} bytes, ${mimeType})`);
 
@@ -102,7 +171,8 @@ export class ResourceLoader {
         checksum,
         size: stats.size,
         mimeType,
-        content
+        content,
+        path: absolutePath
       };
     } catch (error: any) {
       if (error instanceof FeatureStoreError) {
@@ -116,6 +186,109 @@ export class ResourceLoader {
     }
   }
 
+  /**
+   * Build a resource for content that has no path of its own, such as an archive member
+   */
+  createResource(url: string, name: string, content: Buffer): LoadedResource {
+    return {
+      url,
+      type: ResourceType.FILE,
+      lastProcessed: Math.floor(Date.now() / 1000),
+      checksum: createHash('sha256').update(content).digest('hex'),
+      size: content.length,
+      mimeType: detectMimeType(name),
+      content
+    };
+  }
+
+  private async loadArchiveMember(url: string, location: string, memberPath: string): Promise<LoadedResource> {
+    const archive = await this.load(location);
+    const reader = ArchiveReader.open(archive.content, archive.mimeType || '', location);
+    const entry = reader.find(memberPath);
+
+    if (!entry) {
+      throw new FeatureStoreError(
+        ErrorCode.RESOURCE_NOT_FOUND,
+        `Archive member not found: ${memberPath} in ${location}`
+      );
+    }
+
+    const content = reader.read(entry);
+    logger.info(`Loaded archive member: ${url} (${content.length} bytes)`);
+    return this.createResource(url, memberPath, content);
+  }
+
+  private async loadEmailPart(url: string, location: string, partPath: string): Promise<LoadedResource> {
+    // Messages of a local mbox are read by offset instead of loading and splitting the whole mailbox
+    const mailboxMessage = partPath.match(/^messages\/(\d+)(?:\/(.*))?$/);
+    if (mailboxMessage && isAbsolute(location) && EMAIL_MIME_TYPES[detectMimeType(location)] === 'mbox') {
+      const index = parseInt(mailboxMessage[1]);
+      const part = readMessagePart(await this.readMailboxMessage(location, index), `message-${index}.eml`, mailboxMessage[2] || '');
+      logger.info(`Loaded email part: ${url} (${part.content.length} bytes)`);
+      return this.createResource(url, part.name, part.content);
+    }
+
+    const container = await this.load(location);
+    const part = readEmailPart(container.content, container.mimeType || '', partPath);
+    logger.info(`Loaded email part: ${url} (${part.content.length} bytes)`);
+    return this.createResource(url, part.name, part.content);
+  }
+
+  private async readMailboxMessage(filePath: string, index: number): Promise<Buffer> {
+    const stats = await stat(filePath);
+    let mailbox = this.mailboxIndexes.get(filePath);
+
+    if (!mailbox || mailbox.size !== stats.size || mailbox.mtimeMs !== stats.mtimeMs) {
+      if (stats.size > this.maxFileSize) {
+        throw new FeatureStoreError(
+          ErrorCode.RESOURCE_NOT_FOUND,
+          `File exceeds maximum size limit: ${stats.size} bytes`
+        );
+      }
+      mailbox = { size: stats.size, mtimeMs: stats.mtimeMs, messages: indexMailbox(await readFile(filePath)) };
+      logger.debug('Indexed mailbox', { path: filePath, messages: mailbox.messages.length });
+    }
+    // Re-inserting keeps the map in least recently used order
+    this.mailboxIndexes.delete(filePath);
+    this.mailboxIndexes.set(filePath, mailbox);
+    if (this.mailboxIndexes.size > MAX_INDEXED_MAILBOXES) {
+      this.mailboxIndexes.delete(this.mailboxIndexes.keys().next().value!);
+    }
+
+    const range = mailbox.messages[index - 1];
+    if (!range) {
+      throw new FeatureStoreError(ErrorCode.RESOURCE_NOT_FOUND, `Mailbox message not found: ${index}`);
+    }
+
+    const handle = await open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(range.end - range.start);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, range.start);
+      return unquoteMailboxMessage(buffer.subarray(0, bytesRead));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async hashFile(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  private async readHead(filePath: string, length: number): Promise<Buffer> {
+    const handle = await open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
   private async loadUrl(url: string): Promise<LoadedResource> {
     try {
       logger.info(`Fetching URL: ${url}`);
@@ -168,6 +341,7 @@ export class ResourceLoader {
         checksum,
         size: content.length,
         mimeType: mimeType.split(';')[0], // Remove charset info
+        charset: mimeType.match(/;\s*charset="?([^";]+)"?/i)?.[1],
         content
       };
     } catch (error: any) {
@@ -10,6 +10,45 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const logger = createLogger('database');
 
+// 64-bit image hashes are indexed as eight 8-bit bands
+const HASH_BAND_COUNT = 8;
+
+function hashBands(hash: string): number[] {
+  return Array.from({ length: HASH_BAND_COUNT }, (_, i) => parseInt(hash.slice(i * 2, i * 2 + 2), 16) || 0);
+}
+
+function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let xor = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (xor) {
+      xor &= xor - 1;
+      distance++;
+    }
+  }
+  return distance;
+}
+
+export type SpatialRelation = 'intersects' | 'covers' | 'within';
+
+/**
+ * geo_bounds condition for a query box: resources whose bounding box
+ * intersects it, covers it entirely, or lies entirely within it
+ */
+function spatialCondition(
+  relation: SpatialRelation,
+  [minLon, minLat, maxLon, maxLat]: [number, number, number, number]
+): { sql: string; bindings: number[] } {
+  switch (relation) {
+    case 'covers':
+      return { sql: 'min_lon <= ? AND min_lat <= ? AND max_lon >= ? AND max_lat >= ?', bindings: [minLon, minLat, maxLon, maxLat] };
+    case 'within':
+      return { sql: 'min_lon >= ? AND min_lat >= ? AND max_lon <= ? AND max_lat <= ?', bindings: [minLon, minLat, maxLon, maxLat] };
+    default:
+      return { sql: 'min_lon <= ? AND min_lat <= ? AND max_lon >= ? AND max_lat >= ?', bindings: [maxLon, maxLat, minLon, minLat] };
+  }
+}
+
 export class FeatureDatabase {
   private db: Database.Database;
   
@@ -153,9 +192,12 @@ export class FeatureDatabase {
 
   async queryFeatures(params: {
     url?: string;
+    urls?: string[];
     featureKeys?: string[];
     extractors?: string[];
     includeExpired?: boolean;
+    bbox?: [number, number, number, number];
+    spatialRelation?: SpatialRelation;
   }): Promise<Feature[]> {
     let query = 'SELECT * FROM features WHERE 1=1';
     const bindings: any[] = [];
@@ -165,6 +207,12 @@ export class FeatureDatabase {
       bindings.push(params.url);
     }
     
+    if (params.urls && params.urls.length > 0) {
+      const placeholders = params.urls.map(() => '?').join(',');
+      query += ` AND resource_url IN (${placeholders})`;
+      bindings.push(...params.urls);
+    }
+    
     if (params.featureKeys && params.featureKeys.length > 0) {
       const placeholders = params.featureKeys.map(() => '?').join(',');
       query += ` AND feature_key IN (${placeholders})`;
@@ -177,6 +225,12 @@ export class FeatureDatabase {
       bindings.push(...params.extractors);
     }
     
+    if (params.bbox) {
+      const spatial = spatialCondition(params.spatialRelation || 'intersects', params.bbox);
+      query += ` AND resource_url IN (SELECT resource_url FROM geo_bounds WHERE expires_at > ? AND ${spatial.sql})`;
+      bindings.push(Math.floor(Date.now() / 1000), ...spatial.bindings);
+    }
+    
     if (!params.includeExpired) {
       query += ' AND expires_at > ?';
       bindings.push(Math.floor(Date.now() / 1000));
@@ -223,9 +277,127 @@ export class FeatureDatabase {
     const now = Math.floor(Date.now() / 1000);
     const stmt = this.db.prepare('DELETE FROM features WHERE expires_at < ?');
     const result = stmt.run(now);
+    this.db.prepare('DELETE FROM image_hashes WHERE expires_at < ?').run(now);
+    this.db.prepare('DELETE FROM geo_bounds WHERE expires_at < ?').run(now);
     return result.changes;
   }
 
+  // Image hash index operations
+  async storeImageHashes(resourceUrl: string, hashes: Record<string, string>, ttl: number): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT INTO image_hashes (
+        resource_url, hash_type, hash, expires_at,
+        band0, band1, band2, band3, band4, band5, band6, band7
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(resource_url, hash_type) DO UPDATE SET
+        hash = excluded.hash,
+        expires_at = excluded.expires_at,
+        band0 = excluded.band0, band1 = excluded.band1, band2 = excluded.band2, band3 = excluded.band3,
+        band4 = excluded.band4, band5 = excluded.band5, band6 = excluded.band6, band7 = excluded.band7
+    `);
+
+    const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+    const transaction = this.db.transaction(() => {
+      for (const [hashType, hash] of Object.entries(hashes)) {
+        stmt.run(resourceUrl, hashType, hash, expiresAt, ...hashBands(hash));
+      }
+    });
+
+    transaction();
+  }
+
+  async getImageHash(resourceUrl: string, hashType: string): Promise<string | null> {
+    const stmt = this.db.prepare(
+      'SELECT hash FROM image_hashes WHERE resource_url = ? AND hash_type = ? AND expires_at > ?'
+    );
+    const row = stmt.get(resourceUrl, hashType, Math.floor(Date.now() / 1000)) as any;
+    return row ? row.hash : null;
+  }
+
+  /**
+   * Resources whose hash is within maxDistance bits of the given one. Hashes are
+   * split into eight 8-bit bands; two hashes less than 8 bits apart must share at
+   * least one band exactly, so only rows matching a band are compared.
+   */
+  async findSimilarImages(params: {
+    hash: string;
+    hashType: string;
+    maxDistance: number;
+    limit?: number;
+    excludeUrl?: string;
+  }): Promise<Array<{ resourceUrl: string; hash: string; distance: number }>> {
+    let query = 'SELECT resource_url, hash FROM image_hashes WHERE hash_type = ? AND expires_at > ?';
+    const bindings: any[] = [params.hashType, Math.floor(Date.now() / 1000)];
+
+    if (params.maxDistance < HASH_BAND_COUNT) {
+      const bands = hashBands(params.hash);
+      query += ` AND (${bands.map((_, i) => `band${i} = ?`).join(' OR ')})`;
+      bindings.push(...bands);
+    }
+
+    const rows = this.db.prepare(query).all(...bindings) as any[];
+
+    return rows
+      .filter(row => row.resource_url !== params.excludeUrl && row.hash.length === params.hash.length)
+      .map(row => ({ resourceUrl: row.resource_url, hash: row.hash, distance: hammingDistance(row.hash, params.hash) }))
+      .filter(match => match.distance <= params.maxDistance)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, params.limit || 20);
+  }
+
+  async storeGeoBounds(resourceUrl: string, bbox: [number, number, number, number], ttl: number): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT INTO geo_bounds (resource_url, min_lon, min_lat, max_lon, max_lat, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(resource_url) DO UPDATE SET
+        min_lon = excluded.min_lon, min_lat = excluded.min_lat,
+        max_lon = excluded.max_lon, max_lat = excluded.max_lat,
+        expires_at = excluded.expires_at
+    `);
+    stmt.run(resourceUrl, ...bbox, Math.floor(Date.now() / 1000) + ttl);
+  }
+
+  // Corpus term statistics for TF-IDF keywords
+  async updateDocumentTerms(resourceUrl: string, terms: string[]): Promise<void> {
+    const previous = this.db.prepare('SELECT terms FROM text_documents WHERE resource_url = ?').get(resourceUrl) as any;
+    const decrement = this.db.prepare('UPDATE term_document_frequencies SET document_count = document_count - 1 WHERE term = ?');
+    const increment = this.db.prepare(`
+      INSERT INTO term_document_frequencies (term, document_count) VALUES (?, 1)
+      ON CONFLICT(term) DO UPDATE SET document_count = document_count + 1
+    `);
+
+    // Re-extraction replaces the resource's previous contribution
+    const transaction = this.db.transaction(() => {
+      if (previous) {
+        for (const term of JSON.parse(previous.terms) as string[]) decrement.run(term);
+        this.db.prepare('DELETE FROM term_document_frequencies WHERE document_count <= 0').run();
+      }
+      for (const term of new Set(terms)) increment.run(term);
+      this.db.prepare(`
+        INSERT INTO text_documents (resource_url, terms, updated_at) VALUES (?, ?, unixepoch())
+        ON CONFLICT(resource_url) DO UPDATE SET terms = excluded.terms, updated_at = excluded.updated_at
+      `).run(resourceUrl, JSON.stringify([...new Set(terms)]));
+    });
+
+    transaction();
+  }
+
+  async getDocumentFrequencies(terms: string[]): Promise<{ documentCount: number; frequencies: Map<string, number> }> {
+    const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM text_documents').get() as any;
+    const frequencies = new Map<string, number>();
+
+    // Stay well below SQLite's bound parameter limit
+    for (let i = 0; i < terms.length; i += 500) {
+      const batch = terms.slice(i, i + 500);
+      const rows = this.db.prepare(
+        `SELECT term, document_count FROM term_document_frequencies WHERE term IN (${batch.map(() => '?').join(',')})`
+      ).all(...batch) as any[];
+      for (const row of rows) frequencies.set(row.term, row.document_count);
+    }
+
+    return { documentCount: count, frequencies };
+  }
+
   // Extractor registry operations
   async registerExtractor(extractor: Omit<ExtractorRegistry, 'createdAt' | 'updatedAt'>): Promise<void> {
     const stmt = this.db.prepare(`
@@ -61,6 +61,49 @@ CREATE TABLE IF NOT EXISTS extractor_registry (
   updated_at INTEGER DEFAULT (unixepoch())
 );
 
+-- Perceptual image hashes, banded so near-duplicate lookups use indexes
+CREATE TABLE IF NOT EXISTS image_hashes (
+  resource_url TEXT NOT NULL,
+  hash_type TEXT NOT NULL,
+  hash TEXT NOT NULL,
+  expires_at INTEGER NOT NULL,
+  band0 INTEGER NOT NULL,
+  band1 INTEGER NOT NULL,
+  band2 INTEGER NOT NULL,
+  band3 INTEGER NOT NULL,
+  band4 INTEGER NOT NULL,
+  band5 INTEGER NOT NULL,
+  band6 INTEGER NOT NULL,
+  band7 INTEGER NOT NULL,
+  PRIMARY KEY (resource_url, hash_type),
+  FOREIGN KEY (resource_url) REFERENCES resources(url) ON DELETE CASCADE
+);
+
+-- Bounding boxes of geospatial resources, for the query tool's spatial filter
+CREATE TABLE IF NOT EXISTS geo_bounds (
+  resource_url TEXT PRIMARY KEY,
+  min_lon REAL NOT NULL,
+  min_lat REAL NOT NULL,
+  max_lon REAL NOT NULL,
+  max_lat REAL NOT NULL,
+  expires_at INTEGER NOT NULL,
+  FOREIGN KEY (resource_url) REFERENCES resources(url) ON DELETE CASCADE
+);
+
+-- Terms each text resource contributed to the corpus document frequencies
+CREATE TABLE IF NOT EXISTS text_documents (
+  resource_url TEXT PRIMARY KEY,
+  terms TEXT NOT NULL,
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (resource_url) REFERENCES resources(url) ON DELETE CASCADE
+);
+
+-- Number of text resources containing each term, for TF-IDF keywords
+CREATE TABLE IF NOT EXISTS term_document_frequencies (
+  term TEXT PRIMARY KEY,
+  document_count INTEGER NOT NULL
+);
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_features_resource ON features(resource_url);
 CREATE INDEX IF NOT EXISTS idx_features_expires ON features(expires_at);
@@ -68,6 +111,16 @@ CREATE INDEX IF NOT EXISTS idx_features_key ON features(feature_key);
 CREATE INDEX IF NOT EXISTS idx_features_extractor ON features(extractor_tool);
 CREATE INDEX IF NOT EXISTS idx_resources_type ON resources(type);
 CREATE INDEX IF NOT EXISTS idx_registry_enabled ON extractor_registry(enabled);
+CREATE INDEX IF NOT EXISTS idx_image_hashes_band0 ON image_hashes(hash_type, band0);
+CREATE INDEX IF NOT EXISTS idx_image_hashes_band1 ON image_hashes(hash_type, band1);
+CREATE INDEX IF NOT EXISTS idx_image_hashes_band2 ON image_hashes(hash_type, band2);
+CREATE INDEX IF NOT EXISTS idx_image_hashes_band3 ON image_hashes(hash_type, band3);
+CREATE INDEX IF NOT EXISTS idx_image_hashes_band4 ON image_hashes(hash_type, band4);
+CREATE INDEX IF NOT EXISTS idx_image_hashes_band5 ON image_hashes(hash_type, band5);
+CREATE INDEX IF NOT EXISTS idx_image_hashes_band6 ON image_hashes(hash_type, band6);
+CREATE INDEX IF NOT EXISTS idx_image_hashes_band7 ON image_hashes(hash_type, band7);
+CREATE INDEX IF NOT EXISTS idx_geo_bounds_lon ON geo_bounds(min_lon, max_lon);
+CREATE INDEX IF NOT EXISTS idx_geo_bounds_lat ON geo_bounds(min_lat, max_lat);
 
 -- Create triggers for updated_at
 CREATE TRIGGER IF NOT EXISTS update_resources_timestamp 
@@ -11,12 +11,14 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { FeatureDatabase } from './db/database.js';
 import { DirectFeatureOrchestrator } from './core/direct-orchestrator.js';
+import { applyContentPolicy } from './core/content-policy.js';
 import { 
   ExtractToolSchema,
   QueryToolSchema,
   RegisterExtractorSchema,
   ListExtractorsSchema,
-  UpdateTTLSchema
+  UpdateTTLSchema,
+  FindSimilarImagesSchema
 } from './types/schemas.js';
 import { createLogger, requestLoggingMiddleware, LogContext } from './utils/logger.js';
 import { setupApiEndpoints } from './api-endpoints.js';
@@ -62,7 +64,9 @@ function getServer(): Server {
             ttl: { type: 'number', description: 'TTL in seconds (default: 3600)' },
             stream: { type: 'boolean', description: 'Enable streaming (default: false)' },
             force: { type: 'boolean', description: 'Force re-extraction (default: false)' },
-            includeEmbeddings: { type: 'boolean', description: 'Generate embeddings for text content (requires OPENAI_API_KEY)' }
+            includeEmbeddings: { type: 'boolean', description: 'Generate embeddings for text content (requires OPENAI_API_KEY)' },
+            extractArchiveMembers: { type: 'boolean', description: 'Also extract features from each member of a ZIP/TAR archive (default: false)' },
+            extractAttachments: { type: 'boolean', description: 'Also extract features from each attachment of an email message (default: false)' }
           },
           required: ['url']
         }
@@ -84,7 +88,19 @@ function getServer(): Server {
               items: { type: 'string' },
               description: 'Filter by extractor tools'
             },
-            includeExpired: { type: 'boolean', description: 'Include expired features' }
+            includeExpired: { type: 'boolean', description: 'Include expired features' },
+            bbox: {
+              type: 'array',
+              items: { type: 'number' },
+              minItems: 4,
+              maxItems: 4,
+              description: 'Spatial filter [minLon, minLat, maxLon, maxLat]: only resources with a matching geo.bbox'
+            },
+            spatialRelation: {
+              type: 'string',
+              enum: ['intersects', 'covers', 'within'],
+              description: 'Resource bbox intersects, covers or lies within the filter box (default: intersects)'
+            }
           }
         }
       },
@@ -135,6 +151,20 @@ function getServer(): Server {
           required: ['url', 'featureKey', 'ttl']
         }
       },
+      {
+        name: 'find_similar_images',
+        description: 'Find near-duplicate images by perceptual hash Hamming distance',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            url: { type: 'string', description: 'Resource URL of an extracted image (or pass hash)' },
+            hash: { type: 'string', description: '64-bit hash as 16 hex digits' },
+            hashType: { type: 'string', enum: ['phash', 'dhash'], description: 'Hash to compare (default: phash)' },
+            maxDistance: { type: 'number', description: 'Maximum Hamming distance in bits (default: 6)' },
+            limit: { type: 'number', description: 'Maximum number of matches (default: 20)' }
+          }
+        }
+      },
       {
         name: 'stats',
         description: 'Get database statistics',
@@ -181,13 +211,19 @@ function getServer(): Server {
               extractors: params.extractors,
               ttl: params.ttl,
               force: params.force,
-              includeEmbeddings: params.includeEmbeddings
+              includeEmbeddings: params.includeEmbeddings,
+              extractArchiveMembers: params.extractArchiveMembers,
+              extractAttachments: params.extractAttachments
             })) {
               updateCount++;
               logger.trace(`Stream update #${updateCount}`, {
                 type: update.type,
                 resourceUrl: update.resourceUrl
               });
+              if (update.features) {
+                const served = await applyContentPolicy(sharedDb, update.features.map(f => ({ ...f, resourceUrl: update.resourceUrl, featureKey: f.key })));
+                update.features = served.map(({ key, value, type }) => ({ key, value, type }));
+              }
               results.push(update);
             }
             
@@ -202,12 +238,14 @@ function getServer(): Server {
             logger.debug('Starting non-streaming extraction', { url: params.url });
             const extractTimer = logger.startTimer('extract-features');
             
-            const features = await orchestrator.extractFeatures(params.url, {
+            const features = await applyContentPolicy(sharedDb, await orchestrator.extractFeatures(params.url, {
               extractors: params.extractors,
               ttl: params.ttl,
               force: params.force,
-              includeEmbeddings: params.includeEmbeddings
-            });
+              includeEmbeddings: params.includeEmbeddings,
+              extractArchiveMembers: params.extractArchiveMembers,
+              extractAttachments: params.extractAttachments
+            }));
             
             extractTimer();
             timer();
@@ -221,7 +259,7 @@ function getServer(): Server {
 
         case 'query': {
           const params = QueryToolSchema.parse(args);
-          const features = await sharedDb.queryFeatures(params);
+          const features = await applyContentPolicy(sharedDb, await sharedDb.queryFeatures(params));
           
           // Check if we have any features for this URL
           if (features.length === 0 && params.url) {
@@ -255,44 +293,8 @@ function getServer(): Server {
 
         case 'list_extractors': {
           const params = ListExtractorsSchema.parse(args);
-          // Return built-in extractors since we're using DirectFeatureOrchestrator
-          const builtInExtractors = [
-            {
-              toolName: 'text-extractor',
-              description: 'Extracts text content, word count, line count, and character count',
-              capabilities: ['text/plain', 'text/typescript', 'text/javascript', 'text/python', 'text/markdown'],
-              enabled: true,
-              priority: 1
-            },
-            {
-              toolName: 'image-extractor',
-              description: 'Extracts image metadata and generates thumbnails (150x150, 400x400, 1920x1080)',
-              capabilities: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'],
-              enabled: true,
-              priority: 2
-            },
-            {
-              toolName: 'video-extractor',
-              description: 'Extracts video snapshots at 10% intervals',
-              capabilities: ['video/mp4', 'video/quicktime', 'video/x-msvideo'],
-              enabled: true,
-              priority: 3
-            },
-            {
-              toolName: 'directory-extractor',
-              description: 'Extracts directory metadata including file count, total size, and file listing',
-              capabilities: ['inode/directory'],
-              enabled: true,
-              priority: 4
-            },
-            {
-              toolName: 'embedding-extractor',
-              description: 'Generates text embeddings for RAG (requires OPENAI_API_KEY)',
-              capabilities: ['text/plain', 'text/markdown'],
-              enabled: !!process.env.OPENAI_API_KEY,
-              priority: 5
-            }
-          ];
+          // Built-in extractors describe the MIME types the orchestrator dispatches to them
+          const builtInExtractors = orchestrator.listExtractors();
           
           // Filter by params if provided
           let filteredExtractors = builtInExtractors;
@@ -314,6 +316,29 @@ function getServer(): Server {
           return { content: [{ type: 'text', text: `TTL updated for ${params.url}/${params.featureKey}` }] };
         }
 
+        case 'find_similar_images': {
+          const params = FindSimilarImagesSchema.parse(args);
+          const hash = params.hash?.toLowerCase() ?? await sharedDb.getImageHash(params.url!, params.hashType);
+          
+          if (!hash) {
+            return { 
+              content: [{ 
+                type: 'text', 
+                text: `No ${params.hashType} found for ${params.url}.\n\nRun 'extract' on this image first to generate its perceptual hashes.` 
+              }] 
+            };
+          }
+          
+          const matches = await sharedDb.findSimilarImages({
+            hash,
+            hashType: params.hashType,
+            maxDistance: params.maxDistance,
+            limit: params.limit,
+            excludeUrl: params.url
+          });
+          return { content: [{ type: 'text', text: JSON.stringify({ hash, hashType: params.hashType, matches }, null, 2) }] };
+        }
+
         case 'stats': {
           const stats = await sharedDb.getStats();
           return { content: [{ type: 'text', text: JSON.stringify(stats, null, 2) }] };
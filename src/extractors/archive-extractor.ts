@@ -0,0 +1,84 @@
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { ArchiveReader, ArchiveLimits, ARCHIVE_MIME_TYPES } from '../core/archive-reader.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter } from './feature-helpers.js';
+
+const logger = createLogger('archive-extractor');
+
+const EXTRACTOR_TOOL = 'archive-extractor';
+
+export class ArchiveExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Lists ZIP, TAR and TAR.GZ members with sizes and modification times; members can be extracted as zip:///path.zip!/member resources',
+    capabilities: Object.keys(ARCHIVE_MIME_TYPES),
+    featureKeys: [
+      'archive.entries',
+      'archive.entry_count',
+      'archive.total_uncompressed_size'
+    ],
+    enabled: true,
+    priority: 2
+  };
+
+  private limits: ArchiveLimits;
+
+  constructor(limits: ArchiveLimits = {}) {
+    this.limits = limits;
+  }
+
+  canHandle(mimeType: string): boolean {
+    return mimeType in ARCHIVE_MIME_TYPES;
+  }
+
+  open(resource: Resource & { content: Buffer }): ArchiveReader {
+    return ArchiveReader.open(resource.content, resource.mimeType || '', resource.url, this.limits);
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter,
+    archive: ArchiveReader = this.open(resource)
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    const files = archive.entries.filter(entry => entry.type === 'file');
+    const totalSize = files.reduce((sum, entry) => sum + entry.size, 0);
+    const unsafeCount = archive.entries.filter(entry => entry.unsafe).length;
+
+    add('archive.entries', JSON.stringify(archive.entries), FeatureType.JSON, {
+      format: archive.format,
+      count: archive.entries.length,
+      truncated: archive.truncated,
+      unsafeCount
+    });
+    add('archive.entry_count', String(archive.entries.length), FeatureType.NUMBER, {
+      fileCount: files.length,
+      truncated: archive.truncated
+    });
+    add('archive.total_uncompressed_size', String(totalSize), FeatureType.NUMBER, {
+      unit: 'bytes',
+      compressedSize: resource.content.length,
+      compressionRatio: resource.content.length > 0 ? totalSize / resource.content.length : 0
+    });
+
+    if (unsafeCount > 0) {
+      logger.warn(`Archive ${resource.url} has ${unsafeCount} members with unsafe paths`);
+    }
+
+    logger.info(`Extracted ${features.length} archive features from ${resource.url}`, {
+      featureCount: features.length,
+      format: archive.format,
+      entryCount: archive.entries.length
+    });
+
+    return features;
+  }
+}
@@ -0,0 +1,416 @@
+import sharp from 'sharp';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { readFile, writeFile, unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { FeatureDatabase } from '../db/database.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, storeBinaryFeature, FeatureFilter } from './feature-helpers.js';
+
+const execAsync = promisify(exec);
+
+const logger = createLogger('audio-extractor');
+
+const EXTRACTOR_TOOL = 'audio-extractor';
+
+const WAV_MIME_TYPES = new Set(['audio/wav', 'audio/wave', 'audio/x-wav', 'audio/vnd.wave']);
+
+// RIFF INFO chunk ids mapped onto the tag names ffprobe reports for ID3/Vorbis
+const RIFF_INFO_TAGS: Record<string, string> = {
+  INAM: 'title',
+  IART: 'artist',
+  IPRD: 'album',
+  ICRD: 'date',
+  IGNR: 'genre',
+  ICMT: 'comment',
+  ICOP: 'copyright',
+  ISFT: 'encoder',
+  ITRK: 'track',
+  IPRT: 'track'
+};
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_ALAW = 0x0006;
+const WAVE_FORMAT_MULAW = 0x0007;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Upper bound on frames read when computing WAV peaks; longer files are sampled
+const MAX_WAVEFORM_FRAMES = 2_000_000;
+
+// Sample rate ffmpeg resamples to when decoding PCM for the waveform
+const WAVEFORM_SAMPLE_RATE = 4000;
+
+export interface AudioExtractorConfig {
+  tempDir?: string;
+  waveformWidth?: number;
+  waveformHeight?: number;
+}
+
+interface AudioInfo {
+  duration: number;
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  bitrate: number;
+  tags: Record<string, string>;
+}
+
+interface WavInfo extends AudioInfo {
+  formatTag: number;
+  bitsPerSample: number;
+  blockAlign: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+export class AudioExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Extracts audio duration, codec, sample rate, channels, bitrate, ID3/Vorbis tags and a waveform image (requires ffmpeg except for WAV)',
+    capabilities: [
+      'audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/ogg', 'audio/opus', 'audio/webm',
+      'audio/flac', 'audio/x-flac', 'audio/wav', 'audio/wave', 'audio/x-wav', 'audio/vnd.wave'
+    ],
+    featureKeys: [
+      'audio.duration',
+      'audio.codec',
+      'audio.sample_rate',
+      'audio.channels',
+      'audio.bitrate',
+      'audio.tags',
+      'audio.waveform'
+    ],
+    enabled: true,
+    priority: 3
+  };
+
+  private db: FeatureDatabase;
+  private tempDir: string;
+  private waveformWidth: number;
+  private waveformHeight: number;
+
+  constructor(db: FeatureDatabase, config: AudioExtractorConfig = {}) {
+    this.db = db;
+    this.tempDir = config.tempDir || tmpdir();
+    this.waveformWidth = config.waveformWidth || 800;
+    this.waveformHeight = config.waveformHeight || 160;
+  }
+
+  canHandle(mimeType: string): boolean {
+    return mimeType.startsWith('audio/');
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    let wav: WavInfo | null = null;
+    let peaks: { min: Float32Array; max: Float32Array } | null = null;
+
+    if (WAV_MIME_TYPES.has(resource.mimeType || '')) {
+      try {
+        wav = this.parseWav(resource.content);
+        if (wav) {
+          logger.trace('Reading WAV header directly', { url: resource.url, codec: wav.codec });
+          peaks = shouldExtract('audio.waveform') ? this.wavPeaks(resource.content, wav) : null;
+        }
+      } catch (error: any) {
+        logger.warn('Failed to read WAV data directly, falling back to ffprobe', { url: resource.url, error: error.message });
+        wav = null;
+      }
+    }
+
+    if (wav) {
+      return this.buildFeatures(resource, wav, peaks, ttl, shouldExtract);
+    }
+
+    // Everything other than plain WAV needs ffprobe/ffmpeg, as for video
+    try {
+      await execAsync('ffmpeg -version');
+    } catch {
+      logger.warn('ffmpeg not found. Audio extraction not available.');
+      return [];
+    }
+
+    const tempAudioPath = join(this.tempDir, `${uuidv4()}.audio`);
+    const tempPcmPath = join(this.tempDir, `${uuidv4()}.pcm`);
+
+    try {
+      await writeFile(tempAudioPath, resource.content);
+
+      const { stdout } = await execAsync(
+        `ffprobe -v quiet -print_format json -show_format -show_streams "${tempAudioPath}"`
+      );
+      const info = this.parseProbe(JSON.parse(stdout));
+
+      let peaks: { min: Float32Array; max: Float32Array } | null = null;
+      if (shouldExtract('audio.waveform')) {
+        await execAsync(
+          `ffmpeg -v quiet -i "${tempAudioPath}" -map 0:a:0 -ac 1 -ar ${WAVEFORM_SAMPLE_RATE} -f f32le "${tempPcmPath}" -y`
+        );
+        const pcm = await readFile(tempPcmPath);
+        const samples = new Float32Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.length / 4));
+        peaks = this.computePeaks(samples.length, i => samples[i]);
+      }
+
+      return this.buildFeatures(resource, info, peaks, ttl, shouldExtract);
+    } catch (error: any) {
+      logger.error('Audio extraction failed:', error);
+      return [];
+    } finally {
+      await unlink(tempAudioPath).catch(() => {});
+      await unlink(tempPcmPath).catch(() => {});
+    }
+  }
+
+  private async buildFeatures(
+    resource: Resource,
+    info: AudioInfo,
+    peaks: { min: Float32Array; max: Float32Array } | null,
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    add('audio.duration', String(info.duration), FeatureType.NUMBER, { unit: 'seconds' });
+    add('audio.codec', info.codec, FeatureType.TEXT);
+    add('audio.sample_rate', String(info.sampleRate), FeatureType.NUMBER, { unit: 'Hz' });
+    add('audio.channels', String(info.channels), FeatureType.NUMBER);
+    add('audio.bitrate', String(info.bitrate), FeatureType.NUMBER, { unit: 'bits/s' });
+    add('audio.tags', JSON.stringify(info.tags), FeatureType.JSON, { count: Object.keys(info.tags).length });
+
+    if (peaks) {
+      try {
+        const png = await this.renderWaveform(peaks);
+        features.push(await storeBinaryFeature(this.db, resource.url, 'audio_waveform', png, ttl, EXTRACTOR_TOOL, {
+          format: 'png',
+          mimeType: 'image/png',
+          width: this.waveformWidth,
+          height: this.waveformHeight
+        }));
+      } catch (error: any) {
+        logger.warn('Failed to render audio waveform', { url: resource.url, error: error.message });
+      }
+    }
+
+    logger.info(`Extracted ${features.length} audio features from ${resource.url}`, {
+      featureCount: features.length,
+      codec: info.codec,
+      duration: info.duration
+    });
+
+    return features;
+  }
+
+  private parseProbe(probe: any): AudioInfo {
+    const stream = probe.streams?.find((s: any) => s.codec_type === 'audio');
+    if (!stream) {
+      throw new Error('No audio stream found');
+    }
+
+    // ID3 tags are reported on the container, Vorbis comments on the stream
+    const tags: Record<string, string> = {};
+    for (const source of [stream.tags, probe.format?.tags]) {
+      for (const [key, value] of Object.entries(source || {})) {
+        tags[key.toLowerCase()] = String(value);
+      }
+    }
+
+    return {
+      duration: parseFloat(probe.format?.duration || stream.duration || '0'),
+      codec: stream.codec_name || 'unknown',
+      sampleRate: parseInt(stream.sample_rate || '0', 10),
+      channels: stream.channels || 0,
+      bitrate: parseInt(stream.bit_rate || probe.format?.bit_rate || '0', 10),
+      tags
+    };
+  }
+
+  /**
+   * Parse the RIFF/WAVE chunks (fmt, data and LIST/INFO). Returns null for
+   * anything that is not a well-formed WAV so ffmpeg can have a go at it.
+   */
+  private parseWav(buffer: Buffer): WavInfo | null {
+    if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+      return null;
+    }
+
+    let fmt: { formatTag: number; channels: number; sampleRate: number; byteRate: number; blockAlign: number; bitsPerSample: number } | null = null;
+    let dataOffset = -1;
+    let dataLength = 0;
+    const tags: Record<string, string> = {};
+
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+      const id = buffer.toString('ascii', offset, offset + 4);
+      const size = buffer.readUInt32LE(offset + 4);
+      const body = offset + 8;
+      const available = Math.min(size, buffer.length - body);
+
+      if (id === 'fmt ' && available >= 16) {
+        let formatTag = buffer.readUInt16LE(body);
+        if (formatTag === WAVE_FORMAT_EXTENSIBLE && available >= 26) {
+          // The real format code is the first two bytes of the SubFormat GUID
+          formatTag = buffer.readUInt16LE(body + 24);
+        }
+        fmt = {
+          formatTag,
+          channels: buffer.readUInt16LE(body + 2),
+          sampleRate: buffer.readUInt32LE(body + 4),
+          byteRate: buffer.readUInt32LE(body + 8),
+          blockAlign: buffer.readUInt16LE(body + 12),
+          bitsPerSample: buffer.readUInt16LE(body + 14)
+        };
+      } else if (id === 'data') {
+        dataOffset = body;
+        dataLength = available;
+      } else if (id === 'LIST' && available >= 4 && buffer.toString('ascii', body, body + 4) === 'INFO') {
+        this.parseInfoChunk(buffer, body + 4, body + available, tags);
+      }
+
+      // Chunks are word aligned
+      offset = body + size + (size % 2);
+    }
+
+    if (!fmt || dataOffset < 0 || fmt.channels === 0 || fmt.blockAlign === 0) {
+      return null;
+    }
+
+    // A frame must hold one sample per channel, or the sample reads run past it
+    if (fmt.blockAlign < fmt.channels * Math.ceil(fmt.bitsPerSample / 8)) {
+      return null;
+    }
+
+    const byteRate = fmt.byteRate || fmt.sampleRate * fmt.blockAlign;
+
+    return {
+      duration: byteRate > 0 ? dataLength / byteRate : 0,
+      codec: this.wavCodecName(fmt.formatTag, fmt.bitsPerSample),
+      sampleRate: fmt.sampleRate,
+      channels: fmt.channels,
+      bitrate: byteRate * 8,
+      tags,
+      formatTag: fmt.formatTag,
+      bitsPerSample: fmt.bitsPerSample,
+      blockAlign: fmt.blockAlign,
+      dataOffset,
+      dataLength
+    };
+  }
+
+  private parseInfoChunk(buffer: Buffer, start: number, end: number, tags: Record<string, string>): void {
+    let offset = start;
+    while (offset + 8 <= end) {
+      const id = buffer.toString('ascii', offset, offset + 4);
+      const size = buffer.readUInt32LE(offset + 4);
+      const value = buffer.toString('utf-8', offset + 8, Math.min(offset + 8 + size, end)).replace(/\0+$/, '').trim();
+      if (value) {
+        tags[RIFF_INFO_TAGS[id] || id.toLowerCase()] = value;
+      }
+      offset += 8 + size + (size % 2);
+    }
+  }
+
+  /**
+   * Codec name in ffprobe's vocabulary so WAV and ffmpeg results line up
+   */
+  private wavCodecName(formatTag: number, bitsPerSample: number): string {
+    switch (formatTag) {
+      case WAVE_FORMAT_PCM:
+        return bitsPerSample <= 8 ? 'pcm_u8' : `pcm_s${bitsPerSample}le`;
+      case WAVE_FORMAT_IEEE_FLOAT:
+        return `pcm_f${bitsPerSample}le`;
+      case WAVE_FORMAT_ALAW:
+        return 'pcm_alaw';
+      case WAVE_FORMAT_MULAW:
+        return 'pcm_mulaw';
+      default:
+        return `wav_0x${formatTag.toString(16).padStart(4, '0')}`;
+    }
+  }
+
+  private wavPeaks(buffer: Buffer, wav: WavInfo): { min: Float32Array; max: Float32Array } | null {
+    const bytesPerSample = wav.bitsPerSample / 8;
+    let readSample: (offset: number) => number;
+
+    if (wav.formatTag === WAVE_FORMAT_PCM && bytesPerSample === 1) {
+      readSample = offset => (buffer[offset] - 128) / 128;
+    } else if (wav.formatTag === WAVE_FORMAT_PCM && bytesPerSample === 2) {
+      readSample = offset => buffer.readInt16LE(offset) / 32768;
+    } else if (wav.formatTag === WAVE_FORMAT_PCM && bytesPerSample === 3) {
+      readSample = offset => buffer.readIntLE(offset, 3) / 8388608;
+    } else if (wav.formatTag === WAVE_FORMAT_PCM && bytesPerSample === 4) {
+      readSample = offset => buffer.readInt32LE(offset) / 2147483648;
+    } else if (wav.formatTag === WAVE_FORMAT_IEEE_FLOAT && bytesPerSample === 4) {
+      readSample = offset => buffer.readFloatLE(offset);
+    } else if (wav.formatTag === WAVE_FORMAT_IEEE_FLOAT && bytesPerSample === 8) {
+      readSample = offset => buffer.readDoubleLE(offset);
+    } else {
+      logger.debug('No waveform for compressed WAV data', { codec: wav.codec });
+      return null;
+    }
+
+    const frameCount = Math.floor(Math.min(wav.dataLength, buffer.length - wav.dataOffset) / wav.blockAlign);
+    const stride = Math.max(1, Math.ceil(frameCount / MAX_WAVEFORM_FRAMES));
+
+    // Mix channels down to the loudest sample of each frame, keeping the sign
+    return this.computePeaks(Math.floor(frameCount / stride), i => {
+      const frameOffset = wav.dataOffset + i * stride * wav.blockAlign;
+      let loudest = 0;
+      for (let channel = 0; channel < wav.channels; channel++) {
+        const sample = readSample(frameOffset + channel * bytesPerSample);
+        if (Math.abs(sample) > Math.abs(loudest)) {
+          loudest = sample;
+        }
+      }
+      return loudest;
+    });
+  }
+
+  private computePeaks(sampleCount: number, sampleAt: (index: number) => number): { min: Float32Array; max: Float32Array } {
+    const min = new Float32Array(this.waveformWidth);
+    const max = new Float32Array(this.waveformWidth);
+
+    for (let i = 0; i < sampleCount; i++) {
+      const column = Math.min(this.waveformWidth - 1, Math.floor((i / sampleCount) * this.waveformWidth));
+      const sample = Math.max(-1, Math.min(1, sampleAt(i)));
+      if (sample < min[column]) min[column] = sample;
+      if (sample > max[column]) max[column] = sample;
+    }
+
+    return { min, max };
+  }
+
+  private async renderWaveform(peaks: { min: Float32Array; max: Float32Array }): Promise<Buffer> {
+    const width = this.waveformWidth;
+    const height = this.waveformHeight;
+    const pixels = Buffer.alloc(width * height * 4);
+    const middle = (height - 1) / 2;
+
+    for (let x = 0; x < width; x++) {
+      // Always draw at least the centre line so silence is visible
+      const top = Math.floor(middle - peaks.max[x] * middle);
+      const bottom = Math.ceil(middle - peaks.min[x] * middle);
+      for (let y = top; y <= bottom; y++) {
+        const offset = (y * width + x) * 4;
+        pixels[offset] = 0x25;
+        pixels[offset + 1] = 0x63;
+        pixels[offset + 2] = 0xeb;
+        pixels[offset + 3] = 0xff;
+      }
+    }
+
+    return sharp(pixels, { raw: { width, height, channels: 4 } }).png().toBuffer();
+  }
+}
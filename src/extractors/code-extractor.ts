@@ -0,0 +1,449 @@
+import ts from 'typescript';
+import { extname } from 'path';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter } from './feature-helpers.js';
+
+const logger = createLogger('code-extractor');
+
+const EXTRACTOR_TOOL = 'code-extractor';
+
+// The tag must be directly followed by ':' or '(owner)', so prose such as "the TODO list"
+// or "BUGS" does not count
+const TODO_PATTERN = /\b(TODO|FIXME|HACK|XXX|BUG)(?=[:(])(?:\([^)]*\))?:?\s*(.*)/;
+
+interface CodeImport {
+  module: string;
+  kind: 'import' | 'require' | 'dynamic' | 'export-from';
+  defaultImport?: string;
+  namespaceImport?: string;
+  namedImports?: string[];
+  typeOnly?: boolean;
+  line: number;
+}
+
+interface CodeExport {
+  name: string;
+  kind: string;
+  line: number;
+  isDefault?: boolean;
+  from?: string;
+}
+
+interface CodeSymbol {
+  name: string;
+  kind: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'method' | 'namespace';
+  startLine: number;
+  endLine: number;
+  exported: boolean;
+  container?: string;
+}
+
+interface TodoComment {
+  tag: string;
+  text: string;
+  line: number;
+}
+
+interface FunctionComplexity {
+  name: string;
+  line: number;
+  complexity: number;
+}
+
+export class CodeExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Parses TypeScript/JavaScript to extract imports, exports, symbols with line ranges, TODO comments and per-function complexity',
+    capabilities: ['text/typescript', 'application/javascript', 'text/javascript', 'text/jsx'],
+    featureKeys: [
+      'code.imports',
+      'code.exports',
+      'code.symbols',
+      'code.todo_comments',
+      'code.complexity'
+    ],
+    enabled: true,
+    priority: 1
+  };
+
+  canHandle(mimeType: string): boolean {
+    return CodeExtractor.info.capabilities.includes(mimeType);
+  }
+
+  async extractFeatures(
+    resource: Resource,
+    source: string,
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+    const scriptKind = this.getScriptKind(resource.url);
+    const sourceFile = ts.createSourceFile(resource.url, source, ts.ScriptTarget.Latest, true, scriptKind);
+
+    const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+    const add = (key: string, value: string, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, FeatureType.JSON, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    if (shouldExtract('code.imports')) {
+      const imports = this.getImports(sourceFile, lineOf);
+      add('code.imports', JSON.stringify(imports), {
+        count: imports.length,
+        modules: [...new Set(imports.map(i => i.module))]
+      });
+    }
+
+    if (shouldExtract('code.exports')) {
+      const exports = this.getExports(sourceFile, lineOf);
+      add('code.exports', JSON.stringify(exports), { count: exports.length });
+    }
+
+    if (shouldExtract('code.symbols')) {
+      const symbols = this.getSymbols(sourceFile, lineOf);
+      add('code.symbols', JSON.stringify(symbols), { count: symbols.length });
+    }
+
+    if (shouldExtract('code.todo_comments')) {
+      const todos = this.getTodoComments(sourceFile, lineOf);
+      add('code.todo_comments', JSON.stringify(todos), { count: todos.length });
+    }
+
+    if (shouldExtract('code.complexity')) {
+      const complexity = this.getComplexity(sourceFile, lineOf);
+      const total = complexity.reduce((sum, fn) => sum + fn.complexity, 0);
+      add('code.complexity', JSON.stringify(complexity), {
+        functionCount: complexity.length,
+        max: complexity.reduce((max, fn) => Math.max(max, fn.complexity), 0),
+        average: complexity.length > 0 ? Math.round((total / complexity.length) * 100) / 100 : 0
+      });
+    }
+
+    logger.debug(`Extracted ${features.length} code features from ${resource.url}`, {
+      featureCount: features.length,
+      parseErrors: this.countParseErrors(sourceFile)
+    });
+
+    return features;
+  }
+
+  /**
+   * Syntax errors the parser already recorded on the source file; the field is
+   * not part of the public typings
+   */
+  private countParseErrors(sourceFile: ts.SourceFile): number {
+    return (sourceFile as ts.SourceFile & { parseDiagnostics?: readonly ts.Diagnostic[] }).parseDiagnostics?.length ?? 0;
+  }
+
+  private getScriptKind(url: string): ts.ScriptKind {
+    switch (extname(url).toLowerCase()) {
+      case '.tsx': return ts.ScriptKind.TSX;
+      case '.jsx': return ts.ScriptKind.JSX;
+      case '.js':
+      case '.mjs':
+      case '.cjs': return ts.ScriptKind.JS;
+      default: return ts.ScriptKind.TS;
+    }
+  }
+
+  private getImports(sourceFile: ts.SourceFile, lineOf: (pos: number) => number): CodeImport[] {
+    const imports: CodeImport[] = [];
+
+    const visit = (node: ts.Node) => {
+      if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+        const entry: CodeImport = {
+          module: node.moduleSpecifier.text,
+          kind: 'import',
+          line: lineOf(node.getStart())
+        };
+        const clause = node.importClause;
+        if (clause) {
+          if (clause.isTypeOnly) entry.typeOnly = true;
+          if (clause.name) entry.defaultImport = clause.name.text;
+          if (clause.namedBindings) {
+            if (ts.isNamespaceImport(clause.namedBindings)) {
+              entry.namespaceImport = clause.namedBindings.name.text;
+            } else {
+              entry.namedImports = clause.namedBindings.elements.map(el => el.name.text);
+            }
+          }
+        }
+        imports.push(entry);
+      } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+        imports.push({
+          module: node.moduleSpecifier.text,
+          kind: 'export-from',
+          typeOnly: node.isTypeOnly || undefined,
+          line: lineOf(node.getStart())
+        });
+      } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference) &&
+                 ts.isStringLiteral(node.moduleReference.expression)) {
+        imports.push({
+          module: node.moduleReference.expression.text,
+          kind: 'require',
+          defaultImport: node.name.text,
+          line: lineOf(node.getStart())
+        });
+      } else if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteral(node.arguments[0])) {
+        const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+        const isDynamic = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+        if (isRequire || isDynamic) {
+          imports.push({
+            module: node.arguments[0].text,
+            kind: isRequire ? 'require' : 'dynamic',
+            line: lineOf(node.getStart())
+          });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return imports;
+  }
+
+  private getExports(sourceFile: ts.SourceFile, lineOf: (pos: number) => number): CodeExport[] {
+    const exports: CodeExport[] = [];
+
+    for (const statement of sourceFile.statements) {
+      const line = lineOf(statement.getStart());
+
+      if (ts.isExportAssignment(statement)) {
+        exports.push({
+          name: ts.isIdentifier(statement.expression) ? statement.expression.text : 'default',
+          kind: statement.isExportEquals ? 'export=' : 'default',
+          isDefault: true,
+          line
+        });
+        continue;
+      }
+
+      if (ts.isExportDeclaration(statement)) {
+        const from = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : undefined;
+        if (!statement.exportClause) {
+          exports.push({ name: '*', kind: 're-export', line, from });
+        } else if (ts.isNamespaceExport(statement.exportClause)) {
+          exports.push({ name: statement.exportClause.name.text, kind: 're-export', line, from });
+        } else {
+          for (const element of statement.exportClause.elements) {
+            exports.push({ name: element.name.text, kind: from ? 're-export' : 'named', line, from });
+          }
+        }
+        continue;
+      }
+
+      if (!this.hasExportModifier(statement)) {
+        continue;
+      }
+      const isDefault = this.hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name)) {
+            exports.push({ name: declaration.name.text, kind: 'variable', line });
+          }
+        }
+        continue;
+      }
+
+      const name = (statement as ts.DeclarationStatement).name;
+      exports.push({
+        name: name && ts.isIdentifier(name) ? name.text : 'default',
+        kind: this.declarationKind(statement) || 'declaration',
+        ...(isDefault ? { isDefault } : {}),
+        line
+      });
+    }
+
+    return exports;
+  }
+
+  private getSymbols(sourceFile: ts.SourceFile, lineOf: (pos: number) => number): CodeSymbol[] {
+    const symbols: CodeSymbol[] = [];
+
+    const push = (node: ts.Node, name: string, kind: CodeSymbol['kind'], container?: string) => {
+      symbols.push({
+        name,
+        kind,
+        startLine: lineOf(node.getStart()),
+        endLine: lineOf(node.getEnd()),
+        exported: this.hasExportModifier(node),
+        ...(container ? { container } : {})
+      });
+    };
+
+    const visit = (node: ts.Node, container?: string) => {
+      const kind = this.declarationKind(node);
+      const nameNode = (node as ts.NamedDeclaration).name;
+      const name = nameNode && (ts.isIdentifier(nameNode) || ts.isStringLiteral(nameNode)) ? nameNode.text : undefined;
+
+      if (kind && (name || kind === 'function' || kind === 'class')) {
+        const symbolName = name || 'default';
+        push(node, symbolName, kind, container);
+        ts.forEachChild(node, child => visit(child, symbolName));
+        return;
+      }
+
+      if ((ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node)) && ts.isClassLike(node.parent)) {
+        const methodName = ts.isConstructorDeclaration(node) ? 'constructor' : node.name.getText(sourceFile);
+        push(node, methodName, 'method', container);
+        return;
+      }
+
+      // const foo = () => {} and const foo = function () {} are functions for navigation purposes
+      if (ts.isVariableStatement(node)) {
+        for (const declaration of node.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name) && declaration.initializer &&
+              (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer))) {
+            symbols.push({
+              name: declaration.name.text,
+              kind: 'function',
+              startLine: lineOf(node.getStart()),
+              endLine: lineOf(node.getEnd()),
+              exported: this.hasExportModifier(node),
+              ...(container ? { container } : {})
+            });
+          }
+        }
+        return;
+      }
+
+      ts.forEachChild(node, child => visit(child, container));
+    };
+
+    visit(sourceFile);
+    return symbols;
+  }
+
+  private getTodoComments(sourceFile: ts.SourceFile, lineOf: (pos: number) => number): TodoComment[] {
+    const todos: TodoComment[] = [];
+    const source = sourceFile.text;
+    const seen = new Set<number>();
+
+    const collect = (ranges: ts.CommentRange[] | undefined) => {
+      for (const range of ranges || []) {
+        if (seen.has(range.pos)) {
+          continue;
+        }
+        seen.add(range.pos);
+
+        source.slice(range.pos, range.end).split('\n').forEach((commentLine, offset) => {
+          const match = commentLine.match(TODO_PATTERN);
+          if (match) {
+            todos.push({
+              tag: match[1],
+              text: match[2].replace(/\*\/\s*$/, '').trim(),
+              line: lineOf(range.pos) + offset
+            });
+          }
+        });
+      }
+    };
+
+    // Comments are trivia attached to tokens, so walk every token rather than just the nodes
+    const visit = (node: ts.Node) => {
+      collect(ts.getLeadingCommentRanges(source, node.getFullStart()));
+      collect(ts.getTrailingCommentRanges(source, node.getEnd()));
+      for (const child of node.getChildren(sourceFile)) {
+        visit(child);
+      }
+    };
+
+    visit(sourceFile);
+    return todos.sort((a, b) => a.line - b.line);
+  }
+
+  private getComplexity(sourceFile: ts.SourceFile, lineOf: (pos: number) => number): FunctionComplexity[] {
+    const results: FunctionComplexity[] = [];
+
+    const functionName = (node: ts.FunctionLikeDeclaration): string => {
+      if (node.name) {
+        return node.name.getText(sourceFile);
+      }
+      if (ts.isConstructorDeclaration(node)) {
+        return 'constructor';
+      }
+      const parent = node.parent;
+      if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+        return parent.name.text;
+      }
+      if (ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) {
+        return parent.name.getText(sourceFile);
+      }
+      return '<anonymous>';
+    };
+
+    // Cyclomatic complexity: one plus each decision point, not counting nested functions
+    const countDecisions = (node: ts.Node): number => {
+      let count = 0;
+      const walk = (child: ts.Node) => {
+        if (ts.isFunctionLike(child)) {
+          return;
+        }
+        switch (child.kind) {
+          case ts.SyntaxKind.IfStatement:
+          case ts.SyntaxKind.ConditionalExpression:
+          case ts.SyntaxKind.ForStatement:
+          case ts.SyntaxKind.ForInStatement:
+          case ts.SyntaxKind.ForOfStatement:
+          case ts.SyntaxKind.WhileStatement:
+          case ts.SyntaxKind.DoStatement:
+          case ts.SyntaxKind.CaseClause:
+          case ts.SyntaxKind.CatchClause:
+            count++;
+            break;
+          case ts.SyntaxKind.BinaryExpression: {
+            const operator = (child as ts.BinaryExpression).operatorToken.kind;
+            if (operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+                operator === ts.SyntaxKind.BarBarToken ||
+                operator === ts.SyntaxKind.QuestionQuestionToken) {
+              count++;
+            }
+            break;
+          }
+        }
+        ts.forEachChild(child, walk);
+      };
+      ts.forEachChild(node, walk);
+      return count;
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isFunctionLike(node) && (node as ts.FunctionLikeDeclaration).body) {
+        const fn = node as ts.FunctionLikeDeclaration;
+        results.push({
+          name: functionName(fn),
+          line: lineOf(fn.getStart()),
+          complexity: 1 + countDecisions(fn.body!)
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return results;
+  }
+
+  private declarationKind(node: ts.Node): CodeSymbol['kind'] | null {
+    if (ts.isFunctionDeclaration(node)) return 'function';
+    if (ts.isClassDeclaration(node)) return 'class';
+    if (ts.isInterfaceDeclaration(node)) return 'interface';
+    if (ts.isTypeAliasDeclaration(node)) return 'type';
+    if (ts.isEnumDeclaration(node)) return 'enum';
+    if (ts.isModuleDeclaration(node)) return 'namespace';
+    return null;
+  }
+
+  private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some(m => m.kind === kind) ?? false);
+  }
+
+  private hasExportModifier(node: ts.Node): boolean {
+    return this.hasModifier(node, ts.SyntaxKind.ExportKeyword);
+  }
+}
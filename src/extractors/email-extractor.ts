@@ -0,0 +1,210 @@
+import { load } from 'cheerio';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import {
+  EMAIL_MIME_TYPES,
+  EmailAddress,
+  EmailAttachment,
+  ParsedEmail,
+  attachmentPath,
+  emailPartUrl,
+  parseEmail,
+  splitMailbox
+} from '../core/email-reader.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter } from './feature-helpers.js';
+
+const logger = createLogger('email-extractor');
+
+const EXTRACTOR_TOOL = 'email-extractor';
+
+export interface EmailExtractorConfig {
+  // Messages of an mbox beyond this are listed in the count but not indexed
+  maxMailboxMessages?: number;
+}
+
+export class EmailExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Parses .eml messages and mbox mailboxes: sender, recipients, subject, date, thread, body text and attachments; mbox messages become email:///path.mbox!/messages/N resources',
+    capabilities: Object.keys(EMAIL_MIME_TYPES),
+    featureKeys: [
+      'email.from',
+      'email.to',
+      'email.subject',
+      'email.date',
+      'email.thread_id',
+      'email.body_text',
+      'email.attachments',
+      'email.message_count',
+      'email.messages'
+    ],
+    enabled: true,
+    priority: 1
+  };
+
+  private maxMailboxMessages: number;
+
+  constructor(config: EmailExtractorConfig = {}) {
+    this.maxMailboxMessages = config.maxMailboxMessages || 1000;
+  }
+
+  canHandle(mimeType: string): boolean {
+    return mimeType in EMAIL_MIME_TYPES;
+  }
+
+  isMailbox(mimeType: string): boolean {
+    return EMAIL_MIME_TYPES[mimeType] === 'mbox';
+  }
+
+  /**
+   * Raw messages of an mbox with the URL each one is extracted under
+   */
+  mailboxMessages(resource: Resource & { content: Buffer }): Array<{ url: string; content: Buffer }> {
+    return splitMailbox(resource.content)
+      .slice(0, this.maxMailboxMessages)
+      .map((content, i) => ({ url: emailPartUrl(resource.url, `messages/${i + 1}`), content }));
+  }
+
+  /**
+   * Features for a single message. Attachment URLs are derived from the
+   * message URL, so attachments of mbox children resolve through the mailbox.
+   */
+  extractFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter,
+    email: ParsedEmail = parseEmail(resource.content)
+  ): Feature[] {
+    const features: Feature[] = [];
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    if (email.from.length > 0) {
+      add('email.from', JSON.stringify(email.from[0]), FeatureType.JSON, {
+        formatted: formatAddress(email.from[0]),
+        replyTo: email.replyTo.length > 0 ? email.replyTo : undefined
+      });
+    }
+    add('email.to', JSON.stringify(email.to), FeatureType.JSON, {
+      count: email.to.length,
+      cc: email.cc,
+      bcc: email.bcc
+    });
+    if (email.subject !== null) {
+      add('email.subject', email.subject, FeatureType.TEXT);
+    }
+    if (email.date) {
+      add('email.date', email.date.toISOString(), FeatureType.TEXT, { raw: email.rawDate });
+    }
+
+    const thread = this.threadId(email);
+    if (thread) {
+      add('email.thread_id', thread.id, FeatureType.TEXT, {
+        source: thread.source,
+        messageId: email.messageId,
+        inReplyTo: email.inReplyTo,
+        referenceCount: email.references.length
+      });
+    }
+
+    add('email.body_text', this.bodyText(email), FeatureType.TEXT, {
+      source: email.text !== null ? 'text/plain' : email.html !== null ? 'text/html' : null
+    });
+
+    add('email.attachments', JSON.stringify(email.attachments.map(attachment => ({
+      index: attachment.index,
+      name: attachment.name,
+      type: attachment.contentType,
+      size: attachment.size,
+      disposition: attachment.disposition,
+      contentId: attachment.contentId,
+      url: this.attachmentUrl(resource.url, attachment)
+    }))), FeatureType.JSON, { count: email.attachments.length });
+
+    logger.info(`Extracted ${features.length} email features from ${resource.url}`, {
+      featureCount: features.length,
+      attachmentCount: email.attachments.length
+    });
+
+    return features;
+  }
+
+  /**
+   * Mailbox-level features: the message count and a one-line index of each message
+   */
+  extractMailboxFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter,
+    messages: Array<{ url: string; content: Buffer }> = this.mailboxMessages(resource)
+  ): Feature[] {
+    const features: Feature[] = [];
+    const total = splitMailbox(resource.content).length;
+
+    if (shouldExtract('email.message_count')) {
+      features.push(createFeature(resource.url, 'email.message_count', String(total), FeatureType.NUMBER, ttl, EXTRACTOR_TOOL, {
+        indexed: messages.length
+      }));
+    }
+
+    if (shouldExtract('email.messages')) {
+      const index = messages.map(({ url, content }) => {
+        const email = parseEmail(content);
+        return {
+          url,
+          from: email.from[0] ? formatAddress(email.from[0]) : null,
+          subject: email.subject,
+          date: email.date ? email.date.toISOString() : null,
+          threadId: this.threadId(email)?.id ?? null
+        };
+      });
+      features.push(createFeature(resource.url, 'email.messages', JSON.stringify(index), FeatureType.JSON, ttl, EXTRACTOR_TOOL, {
+        count: index.length,
+        truncated: total > messages.length
+      }));
+    }
+
+    return features;
+  }
+
+  bodyText(email: ParsedEmail): string {
+    if (email.text !== null) {
+      return email.text.replace(/\r\n?/g, '\n').trim();
+    }
+    if (email.html !== null) {
+      const $ = load(email.html.replace(/<br\s*\/?>|<\/(?:p|div|li|tr|h[1-6])>/gi, '$&\n'));
+      $('script, style, head').remove();
+      return $.root().text().replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    }
+    return '';
+  }
+
+  attachmentUrl(messageUrl: string, attachment: EmailAttachment): string {
+    // Messages inside a mailbox already have an email:// URL; keep one level of nesting
+    const mailboxMessage = messageUrl.match(/^(email:\/\/.+)!\/messages\/(\d+)$/);
+    if (mailboxMessage) {
+      return `${mailboxMessage[1]}!/${attachmentPath(attachment, parseInt(mailboxMessage[2]))}`;
+    }
+    return emailPartUrl(messageUrl, attachmentPath(attachment));
+  }
+
+  /**
+   * The root of the References chain identifies the thread; replies without
+   * References fall back to In-Reply-To, and thread starters to their Message-ID
+   */
+  private threadId(email: ParsedEmail): { id: string; source: string } | null {
+    if (email.references.length > 0) return { id: email.references[0], source: 'references' };
+    if (email.inReplyTo) return { id: email.inReplyTo, source: 'in-reply-to' };
+    if (email.messageId) return { id: email.messageId, source: 'message-id' };
+    return null;
+  }
+}
+
+function formatAddress(address: EmailAddress): string {
+  if (address.name && address.address) return `${address.name} <${address.address}>`;
+  return address.address || address.name || '';
+}
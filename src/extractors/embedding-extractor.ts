@@ -2,6 +2,7 @@ import OpenAI from 'openai';
 import { Feature, FeatureType, Resource } from '../types/index.js';
 import { createLogger } from '../utils/logger.js';
 import { FeatureStoreError, ErrorCode } from '../types/errors.js';
+import { getPiiRedactionCategories, PiiCategory, redactPii } from './pii-extractor.js';
 
 const logger = createLogger('embedding-extractor');
 
@@ -11,6 +12,8 @@ export interface EmbeddingConfig {
   dimensions?: number;
   chunkSize?: number;
   chunkOverlap?: number;
+  // PII replaced before text is sent to the embedding API; defaults to REDACT_PII
+  redactPii?: PiiCategory[];
 }
 
 export class EmbeddingExtractor {
@@ -19,12 +22,14 @@ export class EmbeddingExtractor {
   private dimensions?: number;
   private chunkSize: number;
   private chunkOverlap: number;
+  private redactPii: PiiCategory[];
 
   constructor(config: EmbeddingConfig = {}) {
     this.model = config.model || 'text-embedding-3-small';
     this.dimensions = config.dimensions;
     this.chunkSize = config.chunkSize || 2000;
     this.chunkOverlap = config.chunkOverlap || 200;
+    this.redactPii = config.redactPii ?? getPiiRedactionCategories();
 
     const apiKey = config.apiKey || process.env.OPENAI_API_KEY;
     if (apiKey) {
@@ -70,7 +75,8 @@ export class EmbeddingExtractor {
       );
     }
 
-    const chunks = this.chunkText(text);
+    // Redacted before chunking so values across a chunk boundary are still caught
+    const chunks = this.chunkText(redactPii(text, this.redactPii));
     logger.info(`Processing ${chunks.length} text chunks for embeddings`);
 
     const embeddings: number[][] = [];
@@ -0,0 +1,361 @@
+import { load, CheerioAPI } from 'cheerio';
+import { posix } from 'path';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { FeatureStoreError, ErrorCode } from '../types/errors.js';
+import { ArchiveReader } from '../core/archive-reader.js';
+import { FeatureDatabase } from '../db/database.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, storeThumbnail, FeatureFilter } from './feature-helpers.js';
+
+const logger = createLogger('epub-extractor');
+
+const EXTRACTOR_TOOL = 'epub-extractor';
+
+const EPUB_MIME = 'application/epub+zip';
+
+// Parts read up front; images are unpacked on demand for the cover only
+const TEXT_PART_PATTERN = /\.(xml|opf|ncx|xhtml|html|htm)$/i;
+
+const BLOCK_ELEMENTS = 'p, div, li, tr, br, h1, h2, h3, h4, h5, h6, blockquote, pre, section, article';
+
+export interface EpubExtractorConfig {
+  maxUncompressedSize?: number;
+}
+
+export interface TocEntry {
+  title: string;
+  href: string | null;
+  children: TocEntry[];
+}
+
+export interface EbookChapter {
+  index: number;
+  title: string | null;
+  href: string;
+  text: string;
+  wordCount: number;
+}
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties: string[];
+}
+
+interface EpubPackage {
+  metadata: Record<string, any>;
+  title: string | null;
+  authors: Array<{ name: string; role: string | null; fileAs: string | null }>;
+  manifest: Map<string, ManifestItem>;
+  spine: ManifestItem[];
+  toc: TocEntry[];
+  tocSource: 'nav' | 'ncx' | null;
+  coverPath: string | null;
+}
+
+type Parts = Record<string, Buffer>;
+
+type Selection = ReturnType<CheerioAPI>;
+
+export class EpubExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Reads the EPUB package (OPF) for title, authors, table of contents, per-chapter text and a cover thumbnail',
+    capabilities: [EPUB_MIME],
+    featureKeys: [
+      'ebook.title',
+      'ebook.authors',
+      'ebook.toc',
+      'ebook.chapter_count',
+      'ebook.text',
+      'ebook.cover.thumbnail'
+    ],
+    enabled: true,
+    priority: 4
+  };
+
+  private db: FeatureDatabase;
+  private maxUncompressedSize: number;
+
+  constructor(db: FeatureDatabase, config: EpubExtractorConfig = {}) {
+    this.db = db;
+    this.maxUncompressedSize = config.maxUncompressedSize || 200 * 1024 * 1024;
+  }
+
+  canHandle(mimeType: string): boolean {
+    return mimeType === EPUB_MIME;
+  }
+
+  /**
+   * Chapters in spine order; the orchestrator runs the text features over them
+   */
+  readChapters(resource: Resource & { content: Buffer }): { pkg: EpubPackage; parts: Parts; chapters: EbookChapter[] } {
+    const parts = this.unpack(resource, name => TEXT_PART_PATTERN.test(name));
+    const pkg = this.readPackage(parts);
+    return { pkg, parts, chapters: this.readSpine(parts, pkg) };
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter,
+    book: { pkg: EpubPackage; chapters: EbookChapter[] } = this.readChapters(resource)
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+    const { pkg, chapters } = book;
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    if (pkg.title) {
+      add('ebook.title', pkg.title, FeatureType.TEXT, pkg.metadata);
+    }
+    add('ebook.authors', JSON.stringify(pkg.authors), FeatureType.JSON, { count: pkg.authors.length });
+    add('ebook.toc', JSON.stringify(pkg.toc), FeatureType.JSON, { source: pkg.tocSource, count: pkg.toc.length });
+    add('ebook.chapter_count', String(chapters.length), FeatureType.NUMBER, { spineLength: pkg.spine.length });
+    add('ebook.text', JSON.stringify(chapters), FeatureType.JSON, {
+      chapterCount: chapters.length,
+      wordCount: chapters.reduce((sum, chapter) => sum + chapter.wordCount, 0)
+    });
+
+    if (pkg.coverPath && shouldExtract('ebook.cover.thumbnail')) {
+      try {
+        const cover = this.unpack(resource, name => name === pkg.coverPath)[pkg.coverPath];
+        if (cover) {
+          features.push(await storeThumbnail(
+            this.db,
+            resource.url,
+            'ebook.cover_thumbnail',
+            cover,
+            'medium',
+            ttl,
+            EXTRACTOR_TOOL,
+            { source: pkg.coverPath }
+          ));
+        }
+      } catch (error: any) {
+        logger.warn('Failed to render EPUB cover', { url: resource.url, cover: pkg.coverPath, error: error.message });
+      }
+    }
+
+    logger.info(`Extracted ${features.length} ebook features from ${resource.url}`, {
+      featureCount: features.length,
+      chapterCount: chapters.length
+    });
+
+    return features;
+  }
+
+  private unpack(resource: Resource & { content: Buffer }, include: (name: string) => boolean): Parts {
+    const parts: Parts = {};
+
+    try {
+      // The reader caps inflation at each member's declared size, and the declared sizes at the budget
+      const archive = ArchiveReader.open(resource.content, 'application/zip', resource.url, {
+        maxMemberSize: this.maxUncompressedSize,
+        maxTotalReadSize: this.maxUncompressedSize
+      });
+
+      for (const entry of archive.entries) {
+        if (entry.type !== 'file' || !include(entry.path)) {
+          continue;
+        }
+        const skipReason = archive.skipReason(entry);
+        if (skipReason) {
+          throw new Error(`${entry.path}: ${skipReason}`);
+        }
+        parts[entry.path] = archive.read(entry);
+      }
+    } catch (error: any) {
+      throw new FeatureStoreError(
+        ErrorCode.EXTRACTION_FAILED,
+        `Failed to unpack EPUB ${resource.url}: ${error.message}`,
+        EXTRACTOR_TOOL,
+        { resourceUrl: resource.url }
+      );
+    }
+
+    return parts;
+  }
+
+  private loadXml(parts: Parts, path: string): CheerioAPI | null {
+    const data = parts[path];
+    return data ? load(data.toString('utf-8'), { xml: true }) : null;
+  }
+
+  /**
+   * container.xml points at the OPF package, which holds the metadata,
+   * manifest, spine and the navigation document or NCX
+   */
+  private readPackage(parts: Parts): EpubPackage {
+    const container = this.loadXml(parts, 'META-INF/container.xml');
+    const opfPath = container?.('rootfile').first().attr('full-path')
+      || Object.keys(parts).find(name => name.toLowerCase().endsWith('.opf'));
+    const $ = opfPath ? this.loadXml(parts, opfPath) : null;
+    if (!opfPath || !$) {
+      throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, 'EPUB package document (OPF) not found', EXTRACTOR_TOOL);
+    }
+
+    const baseDir = posix.dirname(opfPath);
+    const resolveHref = (href: string) => posix.normalize(posix.join(baseDir, safeDecode(href.split('#')[0])));
+
+    const manifest = new Map<string, ManifestItem>();
+    $('manifest > item').each((_, el) => {
+      const item = $(el);
+      const id = item.attr('id');
+      const href = item.attr('href');
+      if (id && href) {
+        manifest.set(id, {
+          id,
+          href: resolveHref(href),
+          mediaType: item.attr('media-type') || '',
+          properties: (item.attr('properties') || '').split(/\s+/).filter(Boolean)
+        });
+      }
+    });
+
+    const spine = $('spine > itemref')
+      .toArray()
+      .filter(el => $(el).attr('linear') !== 'no')
+      .map(el => manifest.get($(el).attr('idref') || ''))
+      .filter((item): item is ManifestItem => Boolean(item));
+
+    // dc:* elements, with EPUB 3 refinements (role, file-as) attached by id
+    const refinements = new Map<string, Record<string, string>>();
+    $('metadata > meta[refines]').each((_, el) => {
+      const target = ($(el).attr('refines') || '').replace(/^#/, '');
+      const property = $(el).attr('property');
+      if (target && property) {
+        refinements.set(target, { ...refinements.get(target), [property]: $(el).text().trim() });
+      }
+    });
+    const dc = (tag: string) => $('metadata').find('*').filter((_, el) => 'name' in el && el.name.toLowerCase() === `dc:${tag}`);
+    const firstText = (tag: string) => dc(tag).first().text().trim() || null;
+
+    const authors = dc('creator').toArray().map(el => {
+      const creator = $(el);
+      const refined = refinements.get(creator.attr('id') || '') || {};
+      return {
+        name: creator.text().trim(),
+        role: creator.attr('opf:role') || refined.role || null,
+        fileAs: creator.attr('opf:file-as') || refined['file-as'] || null
+      };
+    }).filter(author => author.name);
+
+    const { toc, source } = this.readToc(parts, $, manifest);
+
+    return {
+      title: firstText('title'),
+      authors,
+      metadata: {
+        language: firstText('language'),
+        publisher: firstText('publisher'),
+        date: firstText('date'),
+        identifier: firstText('identifier'),
+        version: $('package').attr('version') || null
+      },
+      manifest,
+      spine,
+      toc,
+      tocSource: source,
+      coverPath: this.findCover($, manifest)
+    };
+  }
+
+  private findCover($: CheerioAPI, manifest: Map<string, ManifestItem>): string | null {
+    const items = [...manifest.values()];
+    // EPUB 3 property, then the EPUB 2 <meta name="cover">, then a cover-ish image name
+    const cover = items.find(item => item.properties.includes('cover-image'))
+      || manifest.get($('metadata > meta[name="cover"]').attr('content') || '')
+      || items.find(item => item.mediaType.startsWith('image/') && /cover/i.test(item.id + item.href));
+    return cover && cover.mediaType.startsWith('image/') ? cover.href : null;
+  }
+
+  private readToc(parts: Parts, opf: CheerioAPI, manifest: Map<string, ManifestItem>): { toc: TocEntry[]; source: EpubPackage['tocSource'] } {
+    const nav = [...manifest.values()].find(item => item.properties.includes('nav'));
+    const nav$ = nav ? this.loadXml(parts, nav.href) : null;
+    if (nav && nav$) {
+      const tocNav = nav$('nav').filter((_, el) => nav$(el).attr('epub:type') === 'toc').first();
+      const root = (tocNav.length > 0 ? tocNav : nav$('nav').first()).children('ol').first();
+      const walk = (list: Selection): TocEntry[] => list.children('li').toArray().map(li => {
+        const link = nav$(li).children('a, span').first();
+        const href = link.attr('href');
+        return {
+          title: link.text().replace(/\s+/g, ' ').trim(),
+          href: href ? resolveRelative(nav.href, href) : null,
+          children: walk(nav$(li).children('ol').first())
+        };
+      });
+      return { toc: walk(root), source: 'nav' };
+    }
+
+    const ncxItem = manifest.get(opf('spine').attr('toc') || '')
+      || [...manifest.values()].find(item => item.mediaType === 'application/x-dtbncx+xml');
+    const ncx$ = ncxItem ? this.loadXml(parts, ncxItem.href) : null;
+    if (ncxItem && ncx$) {
+      const walk = (points: Selection): TocEntry[] => points.toArray().map(point => {
+        const src = ncx$(point).children('content').attr('src');
+        return {
+          title: ncx$(point).children('navLabel').text().replace(/\s+/g, ' ').trim(),
+          href: src ? resolveRelative(ncxItem.href, src) : null,
+          children: walk(ncx$(point).children('navPoint'))
+        };
+      });
+      return { toc: walk(ncx$('navMap').children('navPoint')), source: 'ncx' };
+    }
+
+    return { toc: [], source: null };
+  }
+
+  private readSpine(parts: Parts, pkg: EpubPackage): EbookChapter[] {
+    // TOC titles keyed by document, first entry wins
+    const titles = new Map<string, string>();
+    const collect = (entries: TocEntry[]) => {
+      for (const entry of entries) {
+        const document = entry.href?.split('#')[0];
+        if (document && entry.title && !titles.has(document)) titles.set(document, entry.title);
+        collect(entry.children);
+      }
+    };
+    collect(pkg.toc);
+
+    const chapters: EbookChapter[] = [];
+    for (const item of pkg.spine) {
+      const data = parts[item.href];
+      if (!data || !/html|xml/.test(item.mediaType)) continue;
+
+      const $ = load(data.toString('utf-8'));
+      $('script, style').remove();
+      $(BLOCK_ELEMENTS).after('\n');
+      const text = $('body').text().replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+      if (!text) continue;
+
+      chapters.push({
+        index: chapters.length,
+        title: titles.get(item.href) || $('h1, h2, h3').first().text().trim() || $('title').text().trim() || null,
+        href: item.href,
+        text,
+        wordCount: text.split(/\s+/).filter(Boolean).length
+      });
+    }
+    return chapters;
+  }
+}
+
+function resolveRelative(fromPath: string, href: string): string {
+  const [path, fragment] = href.split('#');
+  const resolved = path ? posix.normalize(posix.join(posix.dirname(fromPath), safeDecode(path))) : fromPath;
+  return fragment ? `${resolved}#${fragment}` : resolved;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,217 @@
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { Feature, FeatureType } from '../types/index.js';
+import { FeatureDatabase } from '../db/database.js';
+
+/**
+ * Decides whether a feature key should be produced for the current
+ * extraction mode and the features already stored for the resource.
+ */
+export type FeatureFilter = (featureKey: string) => boolean;
+
+export function createFeature(
+  resourceUrl: string,
+  featureKey: string,
+  value: string,
+  valueType: FeatureType,
+  ttl: number,
+  extractorTool: string,
+  metadata: Record<string, any> = {}
+): Feature {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    id: uuidv4(),
+    resourceUrl,
+    featureKey,
+    value,
+    valueType,
+    generatedAt: now,
+    ttl,
+    expiresAt: now + ttl,
+    extractorTool,
+    metadata
+  };
+}
+
+// Features whose value is the resource's own text, quotes it or is derived from it
+const RESOURCE_TEXT_KEYS = new Set([
+  'text.content', 'text.summary', 'text.keywords',
+  'code.todo_comments', 'code.copyright_holders',
+  'markdown.code_blocks', 'markdown.tables', 'markdown.frontmatter',
+  'html.main_text',
+  'email.from', 'email.to', 'email.subject', 'email.body_text', 'email.messages',
+  'pdf.text', 'document.text', 'document.tables', 'spreadsheet.sheets', 'presentation.slides',
+  'table.sample_rows',
+  'subtitles.cues', 'subtitles.transcript', 'video.transcript',
+  'ebook.text', 'notebook.cells', 'svg.text'
+]);
+
+/**
+ * Whether a feature carries resource text. The secret content policy and PII
+ * redaction both apply to exactly these features.
+ */
+export function holdsResourceText(featureKey: string): boolean {
+  return RESOURCE_TEXT_KEYS.has(featureKey) || featureKey.startsWith('pdf.text.page_');
+}
+
+export function getServerUrl(): string {
+  return process.env.SERVER_URL || `http://localhost:${process.env.PORT || 8080}`;
+}
+
+/**
+ * Store a binary feature (e.g. a PNG thumbnail) in the database and return a
+ * URL feature pointing at it, the same way image thumbnails are handled:
+ * `pdf.thumbnail_page_1` is stored as binary and `pdf.thumbnail.page_1` is
+ * returned with the `?format=raw` URL as its value.
+ */
+export async function storeBinaryFeature(
+  db: FeatureDatabase,
+  resourceUrl: string,
+  storageKey: string,
+  buffer: Buffer,
+  ttl: number,
+  extractorTool: string,
+  metadata: Record<string, any> = {}
+): Promise<Feature> {
+  await db.storeFeatures(resourceUrl, [{
+    key: storageKey,
+    value: buffer.toString('base64'),
+    type: FeatureType.BINARY,
+    ttl,
+    extractorTool,
+    metadata
+  }]);
+
+  const url = `${getServerUrl()}/api/features/${encodeURIComponent(resourceUrl)}/${storageKey}?format=raw`;
+  return createFeature(
+    resourceUrl,
+    storageKey.replace('_', '.'),
+    url,
+    FeatureType.TEXT,
+    ttl,
+    extractorTool,
+    { ...metadata, mediaType: 'url' }
+  );
+}
+
+export const THUMBNAIL_SIZES = {
+  small: { width: 150, height: 150 },
+  medium: { width: 400, height: 400 },
+  large: { width: 1920, height: 1080 }
+};
+
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+/**
+ * Resize an image to one of the standard PNG thumbnail sizes (never
+ * enlarging it) and store it with storeBinaryFeature. This is the pipeline
+ * behind image.thumbnail.*, shared by extractors that surface embedded images.
+ */
+export async function storeThumbnail(
+  db: FeatureDatabase,
+  resourceUrl: string,
+  storageKey: string,
+  source: Buffer,
+  size: ThumbnailSize,
+  ttl: number,
+  extractorTool: string,
+  metadata: Record<string, any> = {}
+): Promise<Feature> {
+  const { width, height } = THUMBNAIL_SIZES[size];
+  const buffer = await sharp(source)
+    .resize(width, height, { fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+
+  return storeBinaryFeature(db, resourceUrl, storageKey, buffer, ttl, extractorTool, {
+    dimensions: `${width}x${height}`,
+    format: 'png',
+    ...metadata
+  });
+}
+
+// Charset detection only looks at the start of a file
+const ENCODING_SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Charset of a text file from its byte order mark, or failing that from its
+ * first 64KB: NUL-heavy alternate bytes mean BOM-less UTF-16, text that
+ * decodes as UTF-8 is UTF-8 and anything else is taken as Windows-1252.
+ */
+export function detectTextEncoding(content: Buffer): { encoding: string; bomLength: number } {
+  const head = content.subarray(0, ENCODING_SAMPLE_BYTES);
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) {
+    return { encoding: 'utf-8', bomLength: 3 };
+  }
+  if (head[0] === 0xff && head[1] === 0xfe) {
+    return { encoding: 'utf-16le', bomLength: 2 };
+  }
+  if (head[0] === 0xfe && head[1] === 0xff) {
+    return { encoding: 'utf-16be', bomLength: 2 };
+  }
+
+  // Mostly-ASCII UTF-16 has a NUL in every other byte
+  const sample = head.subarray(0, 1024);
+  if (sample.length >= 4) {
+    let evenNuls = 0;
+    let oddNuls = 0;
+    for (let i = 0; i + 1 < sample.length; i += 2) {
+      if (sample[i] === 0) evenNuls++;
+      if (sample[i + 1] === 0) oddNuls++;
+    }
+    const pairs = Math.floor(sample.length / 2);
+    if (oddNuls > pairs * 0.4 && evenNuls < pairs * 0.05) {
+      return { encoding: 'utf-16le', bomLength: 0 };
+    }
+    if (evenNuls > pairs * 0.4 && oddNuls < pairs * 0.05) {
+      return { encoding: 'utf-16be', bomLength: 0 };
+    }
+  }
+
+  // The head may end mid-character, so allow up to three bytes of a cut-off sequence
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  for (let trim = 0; trim < 4 && trim <= head.length; trim++) {
+    try {
+      decoder.decode(head.subarray(0, head.length - trim));
+      return { encoding: 'utf-8', bomLength: 0 };
+    } catch {
+      // Try again without the last byte
+    }
+  }
+  return { encoding: 'windows-1252', bomLength: 0 };
+}
+
+export interface DecodedText {
+  text: string;
+  encoding: string;
+  bomLength: number;
+}
+
+/**
+ * Decode a text file with its detected charset, dropping any byte order mark.
+ */
+export function decodeText(content: Buffer): DecodedText {
+  const { encoding, bomLength } = detectTextEncoding(content);
+  return { text: new TextDecoder(encoding).decode(content.subarray(bomLength)), encoding, bomLength };
+}
+
+export function round(value: number, digits = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Filesystem path behind a file:// or absolute resource URL, null for
+ * anything that is not on the local disk
+ */
+export function localPath(url: string): string | null {
+  if (url.startsWith('file://')) return url.slice('file://'.length);
+  if (url.startsWith('/')) return url;
+  return null;
+}
+
+export function countBy(values: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const value of values) counts[value] = (counts[value] || 0) + 1;
+  return counts;
+}
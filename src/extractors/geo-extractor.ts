@@ -0,0 +1,430 @@
+import { load, CheerioAPI } from 'cheerio';
+import sharp from 'sharp';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { FeatureDatabase } from '../db/database.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, decodeText, storeBinaryFeature, FeatureFilter, countBy, round } from './feature-helpers.js';
+
+const logger = createLogger('geo-extractor');
+
+const EXTRACTOR_TOOL = 'geo-extractor';
+
+const GEO_MIME_TYPES: Record<string, GeoFormat> = {
+  'application/geo+json': 'geojson',
+  'application/gpx+xml': 'gpx',
+  'application/vnd.google-earth.kml+xml': 'kml'
+};
+
+// Mean Earth radius (IUGG), as used for haversine distances
+const EARTH_RADIUS_M = 6371008.8;
+
+// Web Mercator is undefined at the poles
+const MAX_MERCATOR_LATITUDE = 85.05112878;
+
+type GeoFormat = 'geojson' | 'gpx' | 'kml';
+
+export type Position = [number, number];
+
+export type BoundingBox = [number, number, number, number];
+
+/**
+ * A geometry flattened into its parts; Multi* geometries keep their
+ * GeoJSON type name but share this shape with the single variants
+ */
+export interface GeoGeometry {
+  type: string;
+  points: Position[];
+  lines: Position[][];
+  polygons: Position[][][];
+}
+
+export interface ParsedGeo {
+  format: GeoFormat;
+  featureCount: number;
+  geometries: GeoGeometry[];
+  // GPX only: track segments and routes, for distances
+  tracks: Position[][];
+  routes: Position[][];
+}
+
+export interface GeoExtractorConfig {
+  previewSize?: number;
+}
+
+/**
+ * GeoJSON, GPX and KML: bounding box, centroid, geometry statistics, GPX
+ * track length and a rendered preview. Bounding boxes are mirrored into the
+ * geo_bounds index so the query tool can filter resources spatially.
+ */
+export class GeoExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Reads GeoJSON, GPX and KML shapes for bounding box, feature count, geometry types, centroid, GPX track length and a rendered preview',
+    capabilities: Object.keys(GEO_MIME_TYPES),
+    featureKeys: [
+      'geo.bbox',
+      'geo.feature_count',
+      'geo.geometry_types',
+      'geo.total_track_length_m',
+      'geo.centroid',
+      'geo.preview'
+    ],
+    enabled: true,
+    priority: 1
+  };
+
+  private db: FeatureDatabase;
+  private previewSize: number;
+
+  constructor(db: FeatureDatabase, config: GeoExtractorConfig = {}) {
+    this.db = db;
+    this.previewSize = config.previewSize || 512;
+  }
+
+  canHandle(mimeType: string): boolean {
+    return mimeType in GEO_MIME_TYPES;
+  }
+
+  parse(resource: Resource & { content: Buffer }, text: string = decodeText(resource.content).text): ParsedGeo | null {
+    const format = GEO_MIME_TYPES[resource.mimeType || ''];
+
+    try {
+      if (format === 'geojson') return this.parseGeoJson(JSON.parse(text));
+      if (format === 'gpx') return this.parseGpx(load(text, { xml: true }));
+      if (format === 'kml') return this.parseKml(load(text, { xml: true }));
+    } catch (error: any) {
+      logger.warn('Failed to parse geospatial file', { url: resource.url, format, error: error.message });
+    }
+    return null;
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter,
+    parsed: ParsedGeo | null = this.parse(resource)
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+    if (!parsed) {
+      return features;
+    }
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    const positions = parsed.geometries.flatMap(allPositions);
+
+    add('geo.feature_count', String(parsed.featureCount), FeatureType.NUMBER, { format: parsed.format });
+    add('geo.geometry_types', JSON.stringify(countBy(parsed.geometries.map(geometry => geometry.type))), FeatureType.JSON, {
+      geometryCount: parsed.geometries.length,
+      vertexCount: positions.length
+    });
+
+    if (parsed.format === 'gpx') {
+      const trackLength = parsed.tracks.reduce((sum, segment) => sum + pathLength(segment), 0);
+      add('geo.total_track_length_m', String(Math.round(trackLength * 10) / 10), FeatureType.NUMBER, {
+        unit: 'meters',
+        segmentCount: parsed.tracks.length,
+        trackPointCount: parsed.tracks.reduce((sum, segment) => sum + segment.length, 0),
+        routeLengthM: Math.round(parsed.routes.reduce((sum, route) => sum + pathLength(route), 0) * 10) / 10
+      });
+    }
+
+    if (positions.length > 0) {
+      const bbox = boundingBox(positions);
+      if (shouldExtract('geo.bbox')) {
+        add('geo.bbox', JSON.stringify(bbox), FeatureType.JSON, { crs: 'EPSG:4326', order: 'minLon,minLat,maxLon,maxLat' });
+        await this.db.storeGeoBounds(resource.url, bbox, ttl);
+      }
+
+      const centroid = vertexCentroid(parsed.geometries);
+      add('geo.centroid', JSON.stringify(centroid), FeatureType.JSON, { crs: 'EPSG:4326', method: 'vertex-mean' });
+
+      if (shouldExtract('geo.preview')) {
+        try {
+          const { svg, width, height } = this.renderPreview(parsed.geometries, bbox);
+          const png = await sharp(Buffer.from(svg)).png().toBuffer();
+          features.push(await storeBinaryFeature(this.db, resource.url, 'geo_preview', png, ttl, EXTRACTOR_TOOL, {
+            dimensions: `${width}x${height}`,
+            format: 'png',
+            mimeType: 'image/png',
+            projection: 'web-mercator'
+          }));
+        } catch (error: any) {
+          logger.warn('Failed to render geo preview', { url: resource.url, error: error.message });
+        }
+      }
+    }
+
+    logger.info(`Extracted ${features.length} geo features from ${resource.url}`, {
+      featureCount: features.length,
+      format: parsed.format,
+      geometryCount: parsed.geometries.length
+    });
+
+    return features;
+  }
+
+  private parseGeoJson(root: any): ParsedGeo {
+    const geometries: GeoGeometry[] = [];
+    let featureCount = 0;
+
+    const visitGeometry = (geometry: any) => {
+      if (!geometry || typeof geometry !== 'object') return;
+      const coordinates = geometry.coordinates;
+      switch (geometry.type) {
+        case 'Point':
+          geometries.push(shape('Point', { points: toPositions([coordinates]) }));
+          break;
+        case 'MultiPoint':
+          geometries.push(shape('MultiPoint', { points: toPositions(coordinates) }));
+          break;
+        case 'LineString':
+          geometries.push(shape('LineString', { lines: [toPositions(coordinates)] }));
+          break;
+        case 'MultiLineString':
+          geometries.push(shape('MultiLineString', { lines: coordinates.map(toPositions) }));
+          break;
+        case 'Polygon':
+          geometries.push(shape('Polygon', { polygons: [coordinates.map(toPositions)] }));
+          break;
+        case 'MultiPolygon':
+          geometries.push(shape('MultiPolygon', {
+            polygons: coordinates.map((polygon: any[]) => polygon.map(toPositions))
+          }));
+          break;
+        case 'GeometryCollection':
+          (geometry.geometries || []).forEach(visitGeometry);
+          break;
+      }
+    };
+
+    if (root.type === 'FeatureCollection') {
+      for (const feature of root.features || []) {
+        featureCount++;
+        visitGeometry(feature.geometry);
+      }
+    } else if (root.type === 'Feature') {
+      featureCount = 1;
+      visitGeometry(root.geometry);
+    } else {
+      featureCount = root.type ? 1 : 0;
+      visitGeometry(root);
+    }
+
+    return { format: 'geojson', featureCount, geometries, tracks: [], routes: [] };
+  }
+
+  /**
+   * Waypoints become points; each track segment and each route a line
+   */
+  private parseGpx($: CheerioAPI): ParsedGeo {
+    const readPoint = (el: any): Position | null => {
+      const lon = parseFloat($(el).attr('lon') || '');
+      const lat = parseFloat($(el).attr('lat') || '');
+      return Number.isFinite(lon) && Number.isFinite(lat) ? [lon, lat] : null;
+    };
+    const readPath = (selector: string, container: any) =>
+      $(container).find(selector).toArray().map(readPoint).filter((point): point is Position => point !== null);
+
+    const geometries: GeoGeometry[] = [];
+
+    const waypoints = $('wpt').toArray().map(readPoint).filter((point): point is Position => point !== null);
+    waypoints.forEach(point => geometries.push(shape('Point', { points: [point] })));
+
+    const tracks: Position[][] = [];
+    $('trk').each((_, trk) => {
+      const segments = $(trk).find('trkseg').toArray().map(segment => readPath('trkpt', segment)).filter(path => path.length > 0);
+      tracks.push(...segments);
+      geometries.push(shape(segments.length > 1 ? 'MultiLineString' : 'LineString', { lines: segments }));
+    });
+
+    const routes = $('rte').toArray().map(route => readPath('rtept', route)).filter(path => path.length > 0);
+    routes.forEach(route => geometries.push(shape('LineString', { lines: [route] })));
+
+    return {
+      format: 'gpx',
+      featureCount: $('wpt').length + $('trk').length + $('rte').length,
+      geometries,
+      tracks,
+      routes
+    };
+  }
+
+  /**
+   * Placemark geometries, reported under their GeoJSON names; gx:Track is a LineString
+   */
+  private parseKml($: CheerioAPI): ParsedGeo {
+    const readCoordinates = (el: any): Position[] =>
+      $(el).children('coordinates').first().text().trim().split(/\s+/)
+        .map(tuple => tuple.split(',').map(Number))
+        .filter(values => values.length >= 2 && Number.isFinite(values[0]) && Number.isFinite(values[1]))
+        .map(values => [values[0], values[1]] as Position);
+    const readRing = (boundary: any): Position[] => readCoordinates($(boundary).children('LinearRing').first());
+
+    const geometries: GeoGeometry[] = [];
+    const visit = (el: any) => {
+      const node = $(el);
+      switch (el.name) {
+        case 'Point':
+          geometries.push(shape('Point', { points: readCoordinates(el) }));
+          break;
+        case 'LineString':
+        case 'LinearRing':
+          geometries.push(shape('LineString', { lines: [readCoordinates(el)] }));
+          break;
+        case 'Polygon':
+          geometries.push(shape('Polygon', {
+            polygons: [[
+              ...node.children('outerBoundaryIs').toArray().map(readRing),
+              ...node.children('innerBoundaryIs').toArray().map(readRing)
+            ]]
+          }));
+          break;
+        case 'gx:Track':
+          geometries.push(shape('LineString', {
+            lines: [node.children('gx\\:coord').toArray()
+              .map(coord => $(coord).text().trim().split(/\s+/).map(Number))
+              .filter(values => values.length >= 2 && Number.isFinite(values[0]) && Number.isFinite(values[1]))
+              .map(values => [values[0], values[1]] as Position)]
+          }));
+          break;
+        case 'MultiGeometry':
+        case 'gx:MultiTrack':
+          node.children().each((_, child) => visit(child));
+          break;
+      }
+    };
+
+    const placemarks = $('Placemark');
+    placemarks.each((_, placemark) => {
+      $(placemark).children().each((_, child) => visit(child));
+    });
+
+    return { format: 'kml', featureCount: placemarks.length, geometries, tracks: [], routes: [] };
+  }
+
+  /**
+   * SVG of the shapes in Web Mercator, sized to the data's aspect ratio
+   */
+  private renderPreview(geometries: GeoGeometry[], bbox: BoundingBox): { svg: string; width: number; height: number } {
+    const padding = 16;
+    const [minX, minY] = mercator([bbox[0], bbox[3]]);
+    const [maxX, maxY] = mercator([bbox[2], bbox[1]]);
+    const spanX = maxX - minX;
+    const spanY = maxY - minY;
+    const inner = this.previewSize - 2 * padding;
+
+    // A single point or a perfectly straight line has no extent on one axis
+    const scale = Math.max(spanX, spanY) > 0 ? inner / Math.max(spanX, spanY) : 1;
+    const width = Math.max(Math.round(spanX * scale) + 2 * padding, 64);
+    const height = Math.max(Math.round(spanY * scale) + 2 * padding, 64);
+    const offsetX = (width - spanX * scale) / 2;
+    const offsetY = (height - spanY * scale) / 2;
+
+    const project = (position: Position): Position => {
+      const [x, y] = mercator(position);
+      return [round(offsetX + (x - minX) * scale, 1), round(offsetY + (y - minY) * scale, 1)];
+    };
+    // Consecutive vertices within half a pixel of each other add nothing to the preview
+    const path = (positions: Position[]): Position[] => positions.map(project).filter((point, i, all) =>
+      i === 0 || Math.abs(point[0] - all[i - 1][0]) >= 0.5 || Math.abs(point[1] - all[i - 1][1]) >= 0.5);
+
+    const elements: string[] = [];
+    for (const geometry of geometries) {
+      for (const polygon of geometry.polygons) {
+        const d = polygon.map(ring => `M${path(ring).map(point => point.join(' ')).join('L')}Z`).join('');
+        elements.push(`<path d="${d}" fill="#3b82f6" fill-opacity="0.3" fill-rule="evenodd" stroke="#1d4ed8" stroke-width="1.5"/>`);
+      }
+      for (const line of geometry.lines) {
+        const points = path(line).map(point => point.join(',')).join(' ');
+        elements.push(`<polyline points="${points}" fill="none" stroke="#dc2626" stroke-width="2" stroke-linejoin="round"/>`);
+      }
+      for (const point of geometry.points) {
+        const [x, y] = project(point);
+        elements.push(`<circle cx="${x}" cy="${y}" r="4" fill="#16a34a" stroke="#ffffff" stroke-width="1"/>`);
+      }
+    }
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<rect width="100%" height="100%" fill="#ffffff"/>${elements.join('')}</svg>`;
+    return { svg, width, height };
+  }
+}
+
+function shape(type: string, parts: Partial<Omit<GeoGeometry, 'type'>>): GeoGeometry {
+  return { type, points: parts.points || [], lines: parts.lines || [], polygons: parts.polygons || [] };
+}
+
+/**
+ * Longitude/latitude pairs of a GeoJSON coordinate array. Positions without
+ * two numeric values are dropped, as GPX and KML points are: a NaN would reach
+ * the bounding box and the geo_bounds index.
+ */
+function toPositions(coordinates: any): Position[] {
+  return (Array.isArray(coordinates) ? coordinates : [])
+    .map((position: any): Position => Array.isArray(position) ? [parseFloat(position[0]), parseFloat(position[1])] : [NaN, NaN])
+    .filter(([lon, lat]) => Number.isFinite(lon) && Number.isFinite(lat));
+}
+
+function allPositions(geometry: GeoGeometry): Position[] {
+  return [...geometry.points, ...geometry.lines.flat(), ...geometry.polygons.flat(2)];
+}
+
+function boundingBox(positions: Position[]): BoundingBox {
+  let [minLon, minLat, maxLon, maxLat] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const [lon, lat] of positions) {
+    minLon = Math.min(minLon, lon);
+    minLat = Math.min(minLat, lat);
+    maxLon = Math.max(maxLon, lon);
+    maxLat = Math.max(maxLat, lat);
+  }
+  return [minLon, minLat, maxLon, maxLat];
+}
+
+/**
+ * Mean of all vertices, counting the closing vertex of a ring once
+ */
+function vertexCentroid(geometries: GeoGeometry[]): Position {
+  const positions = geometries.flatMap(geometry => [
+    ...geometry.points,
+    ...geometry.lines.flat(),
+    ...geometry.polygons.flat().flatMap(ring => isClosed(ring) ? ring.slice(0, -1) : ring)
+  ]);
+  const lon = positions.reduce((sum, position) => sum + position[0], 0) / positions.length;
+  const lat = positions.reduce((sum, position) => sum + position[1], 0) / positions.length;
+  return [round(lon, 6), round(lat, 6)];
+}
+
+function isClosed(ring: Position[]): boolean {
+  return ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+}
+
+function pathLength(path: Position[]): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    total += haversine(path[i - 1], path[i]);
+  }
+  return total;
+}
+
+function haversine([lon1, lat1]: Position, [lon2, lat2]: Position): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Unit Web Mercator: x and y in [0, 1], y growing southwards
+function mercator([lon, lat]: Position): Position {
+  const clamped = Math.max(-MAX_MERCATOR_LATITUDE, Math.min(MAX_MERCATOR_LATITUDE, lat));
+  const sinLat = Math.sin((clamped * Math.PI) / 180);
+  return [(lon + 180) / 360, 0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)];
+}
+
+
+
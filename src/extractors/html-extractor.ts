@@ -0,0 +1,364 @@
+import { loadBuffer, CheerioAPI } from 'cheerio';
+import { AnyNode, hasChildren, isTag, isText, ParentNode } from 'domhandler';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, detectTextEncoding, FeatureFilter } from './feature-helpers.js';
+
+const logger = createLogger('html-extractor');
+
+const EXTRACTOR_TOOL = 'html-extractor';
+
+// Elements that never carry article content
+const STRIP_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form',
+  'nav', 'header', 'footer', 'aside', 'button', 'select',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[aria-hidden="true"]'
+].join(', ');
+
+const BOILERPLATE_PATTERN = /(^|[\s_-])(comment|sidebar|footer|header|nav|menu|breadcrumb|advert|ads?|promo|share|social|cookie|banner|popup|modal|related|subscribe|newsletter)([\s_-]|$)/i;
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'li', 'ul', 'ol', 'table', 'tr', 'blockquote',
+  'pre', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'dl', 'dt', 'dd', 'figure', 'figcaption', 'br', 'hr'
+]);
+
+interface HtmlLink {
+  href: string;
+  text: string;
+  rel?: string;
+}
+
+interface HtmlImage {
+  src: string;
+  alt: string | null;
+  width?: number;
+  height?: number;
+}
+
+interface HtmlHeading {
+  level: number;
+  text: string;
+  id?: string;
+}
+
+export class HtmlExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Extracts title, boilerplate-stripped main text, links, headings, OpenGraph, meta tags and images from HTML',
+    capabilities: ['text/html', 'application/xhtml+xml'],
+    featureKeys: [
+      'html.title',
+      'html.main_text',
+      'html.links',
+      'html.headings',
+      'html.opengraph',
+      'html.meta',
+      'html.images'
+    ],
+    enabled: true,
+    priority: 1
+  };
+
+  // Main text of each parsed page, which html.main_text and the text features share
+  private mainTexts = new WeakMap<CheerioAPI, string>();
+
+  canHandle(mimeType: string): boolean {
+    return HtmlExtractor.info.capabilities.includes(mimeType);
+  }
+
+  /**
+   * Decode and parse the page. The charset comes from the BOM, then the
+   * transport (an HTTP Content-Type charset), then a <meta charset> in the
+   * head, and otherwise from the bytes as for plain text files.
+   */
+  parse(resource: Resource & { content: Buffer; charset?: string }): CheerioAPI {
+    return loadBuffer(resource.content, {
+      encoding: {
+        transportLayerEncodingLabel: resource.charset,
+        defaultEncoding: detectTextEncoding(resource.content).encoding
+      }
+    });
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer; charset?: string },
+    ttl: number,
+    shouldExtract: FeatureFilter,
+    $: CheerioAPI = this.parse(resource)
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+    const baseUrl = this.getBaseUrl($, resource.url);
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+    };
+
+    if (shouldExtract('html.title')) {
+      add('html.title', this.getTitle($), FeatureType.TEXT);
+    }
+
+    // Structural features are read before the boilerplate is stripped from the tree
+    if (shouldExtract('html.links')) {
+      const links = this.getLinks($, baseUrl, resource.url);
+      add('html.links', JSON.stringify(links), FeatureType.JSON, {
+        internal: links.internal.length,
+        external: links.external.length
+      });
+    }
+
+    if (shouldExtract('html.headings')) {
+      const headings = this.getHeadings($);
+      add('html.headings', JSON.stringify(headings), FeatureType.JSON, { count: headings.length });
+    }
+
+    if (shouldExtract('html.opengraph')) {
+      add('html.opengraph', JSON.stringify(this.getOpenGraph($)), FeatureType.JSON);
+    }
+
+    if (shouldExtract('html.meta')) {
+      add('html.meta', JSON.stringify(this.getMeta($, baseUrl)), FeatureType.JSON);
+    }
+
+    if (shouldExtract('html.images')) {
+      const images = this.getImages($, baseUrl);
+      add('html.images', JSON.stringify(images), FeatureType.JSON, { count: images.length });
+    }
+
+    if (shouldExtract('html.main_text')) {
+      const mainText = this.getMainText($);
+      add('html.main_text', mainText, FeatureType.TEXT, { charCount: mainText.length });
+    }
+
+    logger.info(`Extracted ${features.length} HTML features from ${resource.url}`, {
+      featureCount: features.length
+    });
+
+    return features;
+  }
+
+  /**
+   * Readable text of the page with navigation, ads and other boilerplate
+   * removed. The boilerplate is removed from the parsed tree itself, so call
+   * this after the structural features have been extracted from it. The text
+   * is computed once per parsed page.
+   */
+  getMainText($: CheerioAPI): string {
+    let mainText = this.mainTexts.get($);
+    if (mainText === undefined) {
+      mainText = this.extractMainText($);
+      this.mainTexts.set($, mainText);
+    }
+    return mainText;
+  }
+
+  private extractMainText($: CheerioAPI): string {
+    $(STRIP_SELECTORS).remove();
+    $('[class], [id]').each((_, el) => {
+      const signature = `${$(el).attr('class') || ''} ${$(el).attr('id') || ''}`;
+      const tag = el.tagName;
+      if (tag !== 'body' && tag !== 'html' && tag !== 'main' && tag !== 'article' && BOILERPLATE_PATTERN.test(signature)) {
+        $(el).remove();
+      }
+    });
+
+    const root = this.findContentRoot($);
+    return this.renderText(root)
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter((line, index, lines) => line !== '' || (index > 0 && lines[index - 1] !== ''))
+      .join('\n')
+      .trim();
+  }
+
+  private findContentRoot($: CheerioAPI): AnyNode {
+    const semantic = $('article, main, [role="main"]').toArray()
+      .sort((a, b) => $(b).text().length - $(a).text().length)[0];
+    if (semantic && $(semantic).text().trim().length > 200) {
+      return semantic;
+    }
+
+    // Score containers by the paragraph text they hold, penalising link-heavy blocks
+    const scores = new Map<ParentNode, number>();
+    $('p, pre, blockquote, td').each((_, el) => {
+      const text = $(el).text().trim();
+      if (text.length < 25) {
+        return;
+      }
+      const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+      const parent = el.parent;
+      if (parent) {
+        scores.set(parent, (scores.get(parent) || 0) + score);
+        if (parent.parent) {
+          scores.set(parent.parent, (scores.get(parent.parent) || 0) + score / 2);
+        }
+      }
+    });
+
+    let best: ParentNode | null = null;
+    let bestScore = 0;
+    for (const [node, score] of scores) {
+      const textLength = $(node).text().length || 1;
+      const linkLength = $(node).find('a').text().length;
+      const adjusted = score * (1 - linkLength / textLength);
+      if (adjusted > bestScore) {
+        best = node;
+        bestScore = adjusted;
+      }
+    }
+
+    return best || $('body').get(0) || $.root()[0];
+  }
+
+  private renderText(node: AnyNode): string {
+    if (isText(node)) {
+      return node.data;
+    }
+    if (!hasChildren(node)) {
+      return '';
+    }
+
+    const inner = node.children.map(child => this.renderText(child)).join('');
+    return isTag(node) && BLOCK_TAGS.has(node.tagName) ? `\n${inner}\n` : inner;
+  }
+
+  private getTitle($: CheerioAPI): string {
+    return $('head > title').first().text().trim() ||
+      $('meta[property="og:title"]').attr('content')?.trim() ||
+      $('h1').first().text().trim() ||
+      '';
+  }
+
+  private getBaseUrl($: CheerioAPI, resourceUrl: string): string {
+    const baseHref = $('base[href]').attr('href');
+    if (baseHref) {
+      try {
+        return new URL(baseHref, resourceUrl).toString();
+      } catch {
+        // Fall back to the resource URL below
+      }
+    }
+    return resourceUrl;
+  }
+
+  private resolveUrl(href: string, baseUrl: string): string | null {
+    try {
+      return new URL(href, baseUrl).toString();
+    } catch {
+      return null;
+    }
+  }
+
+  private getLinks(
+    $: CheerioAPI,
+    baseUrl: string,
+    resourceUrl: string
+  ): { internal: HtmlLink[]; external: HtmlLink[] } {
+    const internal: HtmlLink[] = [];
+    const external: HtmlLink[] = [];
+    const seen = new Set<string>();
+    const origin = this.resolveUrl(resourceUrl, resourceUrl);
+    const resource = origin ? new URL(origin) : null;
+    // http and https pages of one host are the same site
+    const scheme = (protocol: string) => protocol === 'https:' ? 'http:' : protocol;
+
+    $('a[href]').each((_, el) => {
+      const rawHref = $(el).attr('href')!.trim();
+      if (!rawHref || rawHref.startsWith('javascript:') || rawHref.startsWith('#')) {
+        return;
+      }
+
+      const href = this.resolveUrl(rawHref, baseUrl);
+      if (!href || seen.has(href)) {
+        return;
+      }
+      seen.add(href);
+
+      const link: HtmlLink = { href, text: $(el).text().replace(/\s+/g, ' ').trim() };
+      const rel = $(el).attr('rel');
+      if (rel) {
+        link.rel = rel;
+      }
+
+      // Local files only link internally to other local files, and web pages to their own host
+      const url = new URL(href);
+      const isInternal = resource !== null && scheme(url.protocol) === scheme(resource.protocol) && url.host === resource.host;
+      (isInternal ? internal : external).push(link);
+    });
+
+    return { internal, external };
+  }
+
+  private getHeadings($: CheerioAPI): HtmlHeading[] {
+    return $('h1, h2, h3, h4, h5, h6').toArray()
+      .map(el => {
+        const heading: HtmlHeading = {
+          level: Number(el.tagName.charAt(1)),
+          text: $(el).text().replace(/\s+/g, ' ').trim()
+        };
+        const id = $(el).attr('id');
+        if (id) {
+          heading.id = id;
+        }
+        return heading;
+      })
+      .filter(heading => heading.text !== '');
+  }
+
+  private getOpenGraph($: CheerioAPI): Record<string, string> {
+    const tags: Record<string, string> = {};
+    $('meta[property^="og:"], meta[name^="og:"], meta[name^="twitter:"], meta[property^="twitter:"]').each((_, el) => {
+      const key = $(el).attr('property') || $(el).attr('name');
+      const content = $(el).attr('content');
+      if (key && content !== undefined && !(key in tags)) {
+        tags[key] = content;
+      }
+    });
+    return tags;
+  }
+
+  private getMeta($: CheerioAPI, baseUrl: string): Record<string, any> {
+    const named: Record<string, string> = {};
+    $('meta[name][content]').each((_, el) => {
+      const name = $(el).attr('name')!.toLowerCase();
+      if (!name.startsWith('og:') && !name.startsWith('twitter:')) {
+        named[name] = $(el).attr('content')!;
+      }
+    });
+
+    const canonical = $('link[rel="canonical"]').attr('href');
+    const charset = $('meta[charset]').attr('charset') ||
+      $('meta[http-equiv="Content-Type" i]').attr('content')?.match(/charset=([^;]+)/i)?.[1];
+
+    return {
+      description: named.description || null,
+      keywords: named.keywords ? named.keywords.split(',').map(k => k.trim()).filter(Boolean) : [],
+      author: named.author || null,
+      robots: named.robots || null,
+      generator: named.generator || null,
+      viewport: named.viewport || null,
+      language: $('html').attr('lang') || null,
+      charset: charset || null,
+      canonical: canonical ? this.resolveUrl(canonical, baseUrl) : null,
+      other: named
+    };
+  }
+
+  private getImages($: CheerioAPI, baseUrl: string): HtmlImage[] {
+    const images: HtmlImage[] = [];
+    $('img').each((_, el) => {
+      const rawSrc = $(el).attr('src') || $(el).attr('data-src');
+      const src = rawSrc ? this.resolveUrl(rawSrc, baseUrl) : null;
+      if (!src) {
+        return;
+      }
+
+      const image: HtmlImage = { src, alt: $(el).attr('alt') ?? null };
+      const width = Number($(el).attr('width'));
+      const height = Number($(el).attr('height'));
+      if (width > 0) image.width = width;
+      if (height > 0) image.height = height;
+      images.push(image);
+    });
+    return images;
+  }
+}
@@ -0,0 +1,233 @@
+import sharp from 'sharp';
+import type { Metadata } from 'sharp';
+import { Feature, FeatureType, Resource } from '../types/index.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter, round } from './feature-helpers.js';
+
+const logger = createLogger('image-color-extractor');
+
+const EXTRACTOR_TOOL = 'image-color-extractor';
+
+// Longest edge of the copy the palette is computed from
+const SAMPLE_SIZE = 100;
+// Pixels below this alpha don't contribute to the palette or average
+const MIN_ALPHA = 128;
+// Largest channel spread (0-255) still treated as a neutral gray
+const GRAYSCALE_TOLERANCE = 10;
+const KMEANS_ITERATIONS = 12;
+
+export interface ImageColorExtractorConfig {
+  paletteSize?: number;
+}
+
+type Rgb = [number, number, number];
+
+interface Cluster {
+  color: Rgb;
+  count: number;
+}
+
+/**
+ * Palette extraction (median-cut seeded k-means) over a downsampled copy of
+ * the image, plus average color, grayscale and alpha detection.
+ */
+export class ImageColorExtractor {
+  private paletteSize: number;
+
+  constructor(config: ImageColorExtractorConfig = {}) {
+    this.paletteSize = config.paletteSize || 6;
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer },
+    metadata: Metadata,
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+
+    const add = (key: string, value: string, valueType: FeatureType, extra: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, extra));
+      }
+    };
+
+    const { data } = await sharp(resource.content)
+      .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .toColourspace('srgb')
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const pixels: Rgb[] = [];
+    let transparent = 0;
+    let grayscale = true;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < 255) transparent++;
+      if (data[i + 3] < MIN_ALPHA) continue;
+      const pixel: Rgb = [data[i], data[i + 1], data[i + 2]];
+      if (grayscale && Math.max(...pixel) - Math.min(...pixel) > GRAYSCALE_TOLERANCE) {
+        grayscale = false;
+      }
+      pixels.push(pixel);
+    }
+    const totalPixels = data.length / 4;
+
+    add('image.has_alpha', JSON.stringify(Boolean(metadata.hasAlpha)), FeatureType.JSON, {
+      transparentRatio: round(transparent / totalPixels, 4)
+    });
+
+    if (pixels.length === 0) {
+      logger.debug('Image is fully transparent, skipping color features', { url: resource.url });
+      return features;
+    }
+
+    add('image.is_grayscale', JSON.stringify(grayscale), FeatureType.JSON, {
+      channels: metadata.channels,
+      space: metadata.space,
+      tolerance: GRAYSCALE_TOLERANCE
+    });
+
+    const average = pixels
+      .reduce<Rgb>((sum, pixel) => [sum[0] + pixel[0], sum[1] + pixel[1], sum[2] + pixel[2]], [0, 0, 0])
+      .map(value => Math.round(value / pixels.length)) as Rgb;
+    add('image.average_color', toHex(average), FeatureType.TEXT, {
+      rgb: average,
+      brightness: brightnessOf(average)
+    });
+
+    if (shouldExtract('image.dominant_colors')) {
+      const clusters = this.kmeans(pixels, this.medianCut(pixels, this.paletteSize));
+      const palette = clusters.map(({ color, count }) => ({
+        hex: toHex(color),
+        rgb: color,
+        percentage: round((count / pixels.length) * 100, 2),
+        luminance: round(luminance(color), 4),
+        brightness: brightnessOf(color),
+        // Readable text color on top of this swatch (WCAG contrast)
+        textColor: contrastRatio(color, [255, 255, 255]) >= contrastRatio(color, [0, 0, 0]) ? 'white' : 'black'
+      }));
+
+      const luminances = clusters.map(cluster => luminance(cluster.color));
+      const ratio = (Math.max(...luminances) + 0.05) / (Math.min(...luminances) + 0.05);
+      add('image.dominant_colors', JSON.stringify(palette), FeatureType.JSON, {
+        algorithm: 'median-cut+k-means',
+        sampledPixels: pixels.length,
+        brightness: brightnessOf(average),
+        contrast: ratio >= 7 ? 'high' : ratio >= 3 ? 'medium' : 'low',
+        contrastRatio: round(ratio, 2)
+      });
+    }
+
+    return features;
+  }
+
+  /**
+   * Initial centroids: repeatedly split the box with the widest channel range
+   * at the median of that channel.
+   */
+  private medianCut(pixels: Rgb[], count: number): Rgb[] {
+    const boxes: Rgb[][] = [pixels];
+    while (boxes.length < count) {
+      let widest = -1;
+      let widestRange = 0;
+      let widestChannel = 0;
+      boxes.forEach((box, index) => {
+        for (let channel = 0; channel < 3; channel++) {
+          let min = 255;
+          let max = 0;
+          for (const pixel of box) {
+            if (pixel[channel] < min) min = pixel[channel];
+            if (pixel[channel] > max) max = pixel[channel];
+          }
+          if (max - min > widestRange) {
+            widest = index;
+            widestRange = max - min;
+            widestChannel = channel;
+          }
+        }
+      });
+      // Every remaining box is a single color
+      if (widest < 0) break;
+
+      const box = boxes[widest].slice().sort((a, b) => a[widestChannel] - b[widestChannel]);
+      const middle = box.length >> 1;
+      boxes.splice(widest, 1, box.slice(0, middle), box.slice(middle));
+    }
+
+    return boxes.map(box => {
+      const sum = box.reduce<Rgb>((acc, pixel) => [acc[0] + pixel[0], acc[1] + pixel[1], acc[2] + pixel[2]], [0, 0, 0]);
+      return sum.map(value => value / box.length) as Rgb;
+    });
+  }
+
+  /**
+   * Lloyd iterations from the median-cut seeds; returns non-empty clusters by population
+   */
+  private kmeans(pixels: Rgb[], seeds: Rgb[]): Cluster[] {
+    let centroids = seeds;
+    const assignments = new Uint16Array(pixels.length);
+
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+      const sums = centroids.map(() => [0, 0, 0, 0]);
+      let changed = false;
+
+      pixels.forEach((pixel, index) => {
+        let nearest = 0;
+        let nearestDistance = Infinity;
+        centroids.forEach((centroid, c) => {
+          const distance = (pixel[0] - centroid[0]) ** 2 + (pixel[1] - centroid[1]) ** 2 + (pixel[2] - centroid[2]) ** 2;
+          if (distance < nearestDistance) {
+            nearest = c;
+            nearestDistance = distance;
+          }
+        });
+        if (assignments[index] !== nearest) changed = true;
+        assignments[index] = nearest;
+        const sum = sums[nearest];
+        sum[0] += pixel[0];
+        sum[1] += pixel[1];
+        sum[2] += pixel[2];
+        sum[3]++;
+      });
+
+      centroids = sums.map((sum, c) => sum[3] > 0 ? [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]] as Rgb : centroids[c]);
+      if (!changed && iteration > 0) break;
+    }
+
+    const counts = new Array(centroids.length).fill(0);
+    for (const assignment of assignments) counts[assignment]++;
+
+    return centroids
+      .map((color, c) => ({ color: color.map(Math.round) as Rgb, count: counts[c] }))
+      .filter(cluster => cluster.count > 0)
+      .sort((a, b) => b.count - a.count);
+  }
+}
+
+function toHex(color: Rgb): string {
+  return '#' + color.map(value => value.toString(16).padStart(2, '0')).join('');
+}
+
+
+/**
+ * WCAG relative luminance
+ */
+function luminance(color: Rgb): number {
+  const [r, g, b] = color.map(value => {
+    const v = value / 255;
+    return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function contrastRatio(a: Rgb, b: Rgb): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+function brightnessOf(color: Rgb): 'dark' | 'medium' | 'light' {
+  // Perceived brightness (ITU-R BT.601), 0-255
+  const value = 0.299 * color[0] + 0.587 * color[1] + 0.114 * color[2];
+  return value < 85 ? 'dark' : value < 170 ? 'medium' : 'light';
+}
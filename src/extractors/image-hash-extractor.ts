@@ -0,0 +1,220 @@
+import sharp from 'sharp';
+import { Feature, FeatureType, Resource } from '../types/index.js';
+import { FeatureDatabase } from '../db/database.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter } from './feature-helpers.js';
+
+const logger = createLogger('image-hash-extractor');
+
+const EXTRACTOR_TOOL = 'image-hash-extractor';
+
+const BASE83_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+// DCT basis for the 32x32 pHash input, computed once
+const DCT_SIZE = 32;
+const DCT_COSINES = Array.from({ length: 8 }, (_, u) =>
+  Array.from({ length: DCT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)))
+);
+
+export interface ImageHashExtractorConfig {
+  blurhashComponentsX?: number;
+  blurhashComponentsY?: number;
+}
+
+/**
+ * 64-bit perceptual (DCT) and difference hashes for near-duplicate detection,
+ * plus a BlurHash placeholder string. Hashes are hex encoded and mirrored into
+ * the image_hashes index so similarity lookups never scan the features table.
+ */
+export class ImageHashExtractor {
+  private db: FeatureDatabase;
+  private componentsX: number;
+  private componentsY: number;
+
+  constructor(db: FeatureDatabase, config: ImageHashExtractorConfig = {}) {
+    this.db = db;
+    this.componentsX = config.blurhashComponentsX || 4;
+    this.componentsY = config.blurhashComponentsY || 3;
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+    const hashes: Record<string, string> = {};
+
+    if (shouldExtract('image.phash')) {
+      hashes.phash = await this.perceptualHash(resource.content);
+      features.push(createFeature(resource.url, 'image.phash', hashes.phash, FeatureType.TEXT, ttl, EXTRACTOR_TOOL, {
+        algorithm: 'dct', bits: 64
+      }));
+    }
+
+    if (shouldExtract('image.dhash')) {
+      hashes.dhash = await this.differenceHash(resource.content);
+      features.push(createFeature(resource.url, 'image.dhash', hashes.dhash, FeatureType.TEXT, ttl, EXTRACTOR_TOOL, {
+        algorithm: 'gradient', bits: 64
+      }));
+    }
+
+    if (shouldExtract('image.blurhash')) {
+      const blurhash = await this.blurHash(resource.content);
+      features.push(createFeature(resource.url, 'image.blurhash', blurhash, FeatureType.TEXT, ttl, EXTRACTOR_TOOL, {
+        componentsX: this.componentsX,
+        componentsY: this.componentsY
+      }));
+    }
+
+    if (Object.keys(hashes).length > 0) {
+      await this.db.storeImageHashes(resource.url, hashes, ttl);
+      logger.debug('Indexed image hashes', { url: resource.url, ...hashes });
+    }
+
+    return features;
+  }
+
+  /**
+   * Sign of the low-frequency 8x8 DCT coefficients of a 32x32 grayscale copy
+   * relative to their median (the DC term is left out of the median).
+   */
+  private async perceptualHash(buffer: Buffer): Promise<string> {
+    const pixels = await this.grayscale(buffer, DCT_SIZE, DCT_SIZE);
+
+    // Separable 2D DCT, keeping only the 8 lowest frequencies in each direction
+    const rows: number[][] = [];
+    for (let y = 0; y < DCT_SIZE; y++) {
+      rows.push(DCT_COSINES.map(basis => {
+        let sum = 0;
+        for (let x = 0; x < DCT_SIZE; x++) sum += pixels[y * DCT_SIZE + x] * basis[x];
+        return sum;
+      }));
+    }
+    const coefficients: number[] = [];
+    for (let v = 0; v < 8; v++) {
+      for (let u = 0; u < 8; u++) {
+        let sum = 0;
+        for (let y = 0; y < DCT_SIZE; y++) sum += rows[y][u] * DCT_COSINES[v][y];
+        coefficients.push(sum);
+      }
+    }
+
+    const sorted = coefficients.slice(1).sort((a, b) => a - b);
+    const median = (sorted[31] + sorted[32]) / 2;
+    return this.toHex(coefficients.map(value => value > median));
+  }
+
+  /**
+   * Whether each pixel of a 9x8 grayscale copy is brighter than its right neighbour
+   */
+  private async differenceHash(buffer: Buffer): Promise<string> {
+    const pixels = await this.grayscale(buffer, 9, 8);
+    const bits: boolean[] = [];
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        bits.push(pixels[y * 9 + x] > pixels[y * 9 + x + 1]);
+      }
+    }
+    return this.toHex(bits);
+  }
+
+  private async grayscale(buffer: Buffer, width: number, height: number): Promise<Uint8Array> {
+    const { data } = await sharp(buffer)
+      .flatten({ background: '#ffffff' })
+      .grayscale()
+      .resize(width, height, { fit: 'fill' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return data;
+  }
+
+  private toHex(bits: boolean[]): string {
+    let hex = '';
+    for (let i = 0; i < bits.length; i += 4) {
+      hex += ((Number(bits[i]) << 3) | (Number(bits[i + 1]) << 2) | (Number(bits[i + 2]) << 1) | Number(bits[i + 3])).toString(16);
+    }
+    return hex;
+  }
+
+  /**
+   * BlurHash (https://blurha.sh) encoding of a 32px-wide copy of the image
+   */
+  private async blurHash(buffer: Buffer): Promise<string> {
+    const { data, info } = await sharp(buffer)
+      .flatten({ background: '#ffffff' })
+      .resize(32, 32, { fit: 'inside' })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const { width, height, channels } = info;
+
+    const toLinear = (value: number) => {
+      const v = value / 255;
+      return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    };
+    const toSrgb = (value: number) => {
+      const v = Math.max(0, Math.min(1, value));
+      return Math.round(v <= 0.0031308 ? v * 12.92 * 255 : (1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255);
+    };
+    const signPow = (value: number, exponent: number) => Math.sign(value) * Math.pow(Math.abs(value), exponent);
+
+    const linear = new Float64Array(width * height * 3);
+    for (let i = 0; i < width * height; i++) {
+      for (let c = 0; c < 3; c++) {
+        linear[i * 3 + c] = toLinear(data[i * channels + c]);
+      }
+    }
+
+    const factors: number[][] = [];
+    for (let j = 0; j < this.componentsY; j++) {
+      for (let i = 0; i < this.componentsX; i++) {
+        const normalisation = i === 0 && j === 0 ? 1 : 2;
+        const factor = [0, 0, 0];
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const basis = normalisation * Math.cos((Math.PI * i * x) / width) * Math.cos((Math.PI * j * y) / height);
+            const offset = (y * width + x) * 3;
+            factor[0] += basis * linear[offset];
+            factor[1] += basis * linear[offset + 1];
+            factor[2] += basis * linear[offset + 2];
+          }
+        }
+        const scale = 1 / (width * height);
+        factors.push(factor.map(value => value * scale));
+      }
+    }
+
+    const encode83 = (value: number, length: number) => {
+      let result = '';
+      for (let i = 1; i <= length; i++) {
+        result += BASE83_CHARACTERS[Math.floor(value / Math.pow(83, length - i)) % 83];
+      }
+      return result;
+    };
+
+    const [dc, ...ac] = factors;
+    let hash = encode83((this.componentsX - 1) + (this.componentsY - 1) * 9, 1);
+
+    let maximumValue = 1;
+    if (ac.length > 0) {
+      const actualMaximum = Math.max(...ac.flat().map(Math.abs));
+      const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)));
+      maximumValue = (quantisedMaximum + 1) / 166;
+      hash += encode83(quantisedMaximum, 1);
+    } else {
+      hash += encode83(0, 1);
+    }
+
+    hash += encode83((toSrgb(dc[0]) << 16) + (toSrgb(dc[1]) << 8) + toSrgb(dc[2]), 4);
+
+    for (const factor of ac) {
+      const [r, g, b] = factor.map(value =>
+        Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5)))
+      );
+      hash += encode83(r * 19 * 19 + g * 19 + b, 2);
+    }
+
+    return hash;
+  }
+}
@@ -0,0 +1,420 @@
+import { load } from 'cheerio';
+import type { Element } from 'domhandler';
+import type { Metadata } from 'sharp';
+import { Feature, FeatureType, Resource } from '../types/index.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter } from './feature-helpers.js';
+
+const logger = createLogger('image-metadata-extractor');
+
+const EXTRACTOR_TOOL = 'image-metadata-extractor';
+
+export interface ImageMetadataExtractorConfig {
+  // Drop image.gps and every GPS field from image.exif and image.xmp
+  stripGps?: boolean;
+}
+
+type TiffValue = string | number | number[] | Buffer;
+
+const IFD0_TAGS: Record<number, string> = {
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+  0x8769: 'ExifIFDPointer',
+  0x8825: 'GPSInfoIFDPointer'
+};
+
+const EXIF_TAGS: Record<number, string> = {
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8822: 'ExposureProgram',
+  0x8827: 'ISOSpeedRatings',
+  0x9003: 'DateTimeOriginal',
+  0x9010: 'OffsetTimeOriginal',
+  0x9204: 'ExposureBiasValue',
+  0x9207: 'MeteringMode',
+  0x9209: 'Flash',
+  0x920a: 'FocalLength',
+  0x9291: 'SubSecTimeOriginal',
+  0xa403: 'WhiteBalance',
+  0xa405: 'FocalLengthIn35mmFilm',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel'
+};
+
+const GPS_TAGS: Record<number, string> = {
+  0x0001: 'GPSLatitudeRef',
+  0x0002: 'GPSLatitude',
+  0x0003: 'GPSLongitudeRef',
+  0x0004: 'GPSLongitude',
+  0x0005: 'GPSAltitudeRef',
+  0x0006: 'GPSAltitude',
+  0x0007: 'GPSTimeStamp',
+  0x0011: 'GPSImgDirection',
+  0x001d: 'GPSDateStamp'
+};
+
+const ORIENTATIONS: Record<number, string> = {
+  1: 'normal',
+  2: 'mirror horizontal',
+  3: 'rotate 180',
+  4: 'mirror vertical',
+  5: 'mirror horizontal and rotate 270 CW',
+  6: 'rotate 90 CW',
+  7: 'mirror horizontal and rotate 90 CW',
+  8: 'rotate 270 CW'
+};
+
+const EXPOSURE_PROGRAMS: Record<number, string> = {
+  1: 'manual', 2: 'normal', 3: 'aperture priority', 4: 'shutter priority',
+  5: 'creative', 6: 'action', 7: 'portrait', 8: 'landscape'
+};
+
+const METERING_MODES: Record<number, string> = {
+  1: 'average', 2: 'center weighted average', 3: 'spot', 4: 'multi-spot', 5: 'pattern', 6: 'partial'
+};
+
+// IIM record 2 datasets, named after their IPTC Core equivalents
+const IPTC_DATASETS: Record<number, { name: string; repeatable?: boolean }> = {
+  5: { name: 'title' },
+  25: { name: 'keywords', repeatable: true },
+  40: { name: 'instructions' },
+  55: { name: 'dateCreated' },
+  60: { name: 'timeCreated' },
+  80: { name: 'creator', repeatable: true },
+  85: { name: 'creatorJobTitle' },
+  90: { name: 'city' },
+  95: { name: 'state' },
+  101: { name: 'country' },
+  105: { name: 'headline' },
+  110: { name: 'credit' },
+  115: { name: 'source' },
+  116: { name: 'copyright' },
+  120: { name: 'caption' },
+  122: { name: 'captionWriter' }
+};
+
+// Byte sizes of the TIFF field types
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+/**
+ * Decodes the EXIF, IPTC and XMP blocks sharp exposes on image metadata
+ * into the image.exif, image.gps, image.iptc and image.xmp features.
+ */
+export class ImageMetadataExtractor {
+  private stripGps: boolean;
+
+  constructor(config: ImageMetadataExtractorConfig = {}) {
+    this.stripGps = config.stripGps ?? process.env.STRIP_IMAGE_GPS === 'true';
+  }
+
+  extractFeatures(
+    resource: Resource,
+    metadata: Metadata,
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Feature[] {
+    const features: Feature[] = [];
+
+    const add = (key: string, value: Record<string, any>, extra: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, JSON.stringify(value), FeatureType.JSON, ttl, EXTRACTOR_TOOL, extra));
+      }
+    };
+
+    if (metadata.exif) {
+      try {
+        const tags = this.readExif(metadata.exif);
+        add('image.exif', this.summarizeExif(tags));
+
+        const gps = this.stripGps ? null : this.readGps(tags);
+        if (gps) {
+          add('image.gps', gps);
+        }
+      } catch (error: any) {
+        logger.warn('Failed to parse EXIF data', { url: resource.url, error: error.message });
+      }
+    }
+
+    if (metadata.iptc) {
+      try {
+        add('image.iptc', this.readIptc(metadata.iptc));
+      } catch (error: any) {
+        logger.warn('Failed to parse IPTC data', { url: resource.url, error: error.message });
+      }
+    }
+
+    if (metadata.xmp) {
+      try {
+        const xmp = this.readXmp(metadata.xmp);
+        add('image.xmp', xmp, { propertyCount: Object.keys(xmp).length });
+      } catch (error: any) {
+        logger.warn('Failed to parse XMP data', { url: resource.url, error: error.message });
+      }
+    }
+
+    return features;
+  }
+
+  /**
+   * Walk IFD0 plus the Exif and GPS sub-IFDs of the TIFF structure in an APP1 block
+   */
+  private readExif(exif: Buffer): Record<string, TiffValue> {
+    const tiff = exif.toString('ascii', 0, 6) === 'Exif\0\0' ? exif.subarray(6) : exif;
+    const order = tiff.toString('ascii', 0, 2);
+    if (order !== 'II' && order !== 'MM') {
+      throw new Error('Missing TIFF byte order mark');
+    }
+    const little = order === 'II';
+    const u16 = (offset: number) => little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+    const u32 = (offset: number) => little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+    const s32 = (offset: number) => little ? tiff.readInt32LE(offset) : tiff.readInt32BE(offset);
+
+    const tags: Record<string, TiffValue> = {};
+
+    const readIfd = (ifdOffset: number, names: Record<number, string>) => {
+      if (ifdOffset + 2 > tiff.length) {
+        return;
+      }
+      const count = u16(ifdOffset);
+      for (let i = 0; i < count; i++) {
+        const entry = ifdOffset + 2 + i * 12;
+        if (entry + 12 > tiff.length) {
+          break;
+        }
+        const name = names[u16(entry)];
+        const type = u16(entry + 2);
+        const valueCount = u32(entry + 4);
+        const size = (TIFF_TYPE_SIZES[type] || 0) * valueCount;
+        if (!name || size === 0) {
+          continue;
+        }
+        // Values that fit in four bytes are stored inline in the entry
+        const offset = size <= 4 ? entry + 8 : u32(entry + 8);
+        if (offset + size > tiff.length) {
+          continue;
+        }
+
+        const values: number[] = [];
+        switch (type) {
+          case 2:
+            tags[name] = tiff.toString('utf-8', offset, offset + size).replace(/\0.*$/s, '').trim();
+            continue;
+          case 7:
+            tags[name] = tiff.subarray(offset, offset + size);
+            continue;
+          case 1:
+            for (let v = 0; v < valueCount; v++) values.push(tiff[offset + v]);
+            break;
+          case 3:
+            for (let v = 0; v < valueCount; v++) values.push(u16(offset + v * 2));
+            break;
+          case 4:
+            for (let v = 0; v < valueCount; v++) values.push(u32(offset + v * 4));
+            break;
+          case 9:
+            for (let v = 0; v < valueCount; v++) values.push(s32(offset + v * 4));
+            break;
+          case 5:
+          case 10:
+            for (let v = 0; v < valueCount; v++) {
+              const read = type === 5 ? u32 : s32;
+              const denominator = read(offset + v * 8 + 4);
+              values.push(denominator === 0 ? 0 : read(offset + v * 8) / denominator);
+            }
+            break;
+        }
+        tags[name] = values.length === 1 ? values[0] : values;
+      }
+    };
+
+    readIfd(u32(4), IFD0_TAGS);
+    if (typeof tags.ExifIFDPointer === 'number') {
+      readIfd(tags.ExifIFDPointer, EXIF_TAGS);
+    }
+    if (typeof tags.GPSInfoIFDPointer === 'number') {
+      readIfd(tags.GPSInfoIFDPointer, GPS_TAGS);
+    }
+    delete tags.ExifIFDPointer;
+    delete tags.GPSInfoIFDPointer;
+
+    return tags;
+  }
+
+  private summarizeExif(tags: Record<string, TiffValue>): Record<string, any> {
+    const text = (value: TiffValue | undefined) => typeof value === 'string' && value !== '' ? value : null;
+    const num = (value: TiffValue | undefined) => typeof value === 'number' ? value : null;
+
+    const exposureTime = num(tags.ExposureTime);
+    const orientation = num(tags.Orientation);
+    const flash = num(tags.Flash);
+
+    const summary: Record<string, any> = {
+      camera: {
+        make: text(tags.Make),
+        model: text(tags.Model),
+        software: text(tags.Software)
+      },
+      lens: {
+        make: text(tags.LensMake),
+        model: text(tags.LensModel),
+        focalLength: num(tags.FocalLength),
+        focalLength35mm: num(tags.FocalLengthIn35mmFilm)
+      },
+      exposure: {
+        time: exposureTime,
+        // Conventional "1/250" notation for sub-second exposures
+        timeDisplay: exposureTime === null ? null
+          : exposureTime > 0 && exposureTime < 1 ? `1/${Math.round(1 / exposureTime)}` : String(exposureTime),
+        fNumber: num(tags.FNumber),
+        iso: Array.isArray(tags.ISOSpeedRatings) ? tags.ISOSpeedRatings[0] : num(tags.ISOSpeedRatings),
+        bias: num(tags.ExposureBiasValue),
+        program: EXPOSURE_PROGRAMS[num(tags.ExposureProgram) ?? -1] || null,
+        meteringMode: METERING_MODES[num(tags.MeteringMode) ?? -1] || null,
+        flashFired: flash === null ? null : (flash & 0x01) === 1,
+        whiteBalance: num(tags.WhiteBalance) === null ? null : num(tags.WhiteBalance) === 0 ? 'auto' : 'manual'
+      },
+      orientation: orientation === null ? null : { value: orientation, description: ORIENTATIONS[orientation] || 'unknown' },
+      captureTime: this.exifDateTime(text(tags.DateTimeOriginal) || text(tags.DateTime), text(tags.SubSecTimeOriginal), text(tags.OffsetTimeOriginal)),
+      artist: text(tags.Artist),
+      copyright: text(tags.Copyright)
+    };
+
+    if (!this.stripGps) {
+      summary.hasGps = tags.GPSLatitude !== undefined && tags.GPSLongitude !== undefined;
+    }
+
+    return summary;
+  }
+
+  private readGps(tags: Record<string, TiffValue>): Record<string, any> | null {
+    const toDecimal = (value: TiffValue | undefined, ref: TiffValue | undefined, negative: string) => {
+      if (!Array.isArray(value) || value.length < 3) {
+        return null;
+      }
+      const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+      return Math.round((ref === negative ? -degrees : degrees) * 1e7) / 1e7;
+    };
+
+    const latitude = toDecimal(tags.GPSLatitude, tags.GPSLatitudeRef, 'S');
+    const longitude = toDecimal(tags.GPSLongitude, tags.GPSLongitudeRef, 'W');
+    if (latitude === null || longitude === null) {
+      return null;
+    }
+
+    const gps: Record<string, any> = { latitude, longitude };
+    if (typeof tags.GPSAltitude === 'number') {
+      // AltitudeRef 1 means below sea level
+      const belowSeaLevel = Array.isArray(tags.GPSAltitudeRef) ? tags.GPSAltitudeRef[0] === 1 : tags.GPSAltitudeRef === 1;
+      gps.altitude = belowSeaLevel ? -tags.GPSAltitude : tags.GPSAltitude;
+    }
+    if (typeof tags.GPSImgDirection === 'number') {
+      gps.direction = tags.GPSImgDirection;
+    }
+    if (typeof tags.GPSDateStamp === 'string' && Array.isArray(tags.GPSTimeStamp)) {
+      const [hours, minutes, seconds] = tags.GPSTimeStamp.map(part => String(Math.floor(part)).padStart(2, '0'));
+      gps.timestamp = `${tags.GPSDateStamp.replace(/:/g, '-')}T${hours}:${minutes}:${seconds}Z`;
+    }
+    return gps;
+  }
+
+  private exifDateTime(value: string | null, subSeconds: string | null, offset: string | null): string | null {
+    const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+    if (!match) {
+      return null;
+    }
+    const [, year, month, day, hours, minutes, seconds] = match;
+    return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}` +
+      (subSeconds ? `.${subSeconds}` : '') +
+      (offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '');
+  }
+
+  /**
+   * IPTC-IIM datasets, either bare or wrapped in Photoshop image resource blocks
+   */
+  private readIptc(iptc: Buffer): Record<string, any> {
+    let data = iptc;
+    if (data[0] !== 0x1c) {
+      const start = data.indexOf('8BIM');
+      let offset = start;
+      data = Buffer.alloc(0);
+      while (offset >= 0 && offset + 12 <= iptc.length && iptc.toString('ascii', offset, offset + 4) === '8BIM') {
+        const resourceId = iptc.readUInt16BE(offset + 4);
+        const nameLength = iptc[offset + 6];
+        // Pascal string name padded to an even length, including its length byte
+        const sizeOffset = offset + 6 + ((nameLength + 2) & ~1);
+        const size = iptc.readUInt32BE(sizeOffset);
+        if (resourceId === 0x0404) {
+          data = iptc.subarray(sizeOffset + 4, sizeOffset + 4 + size);
+          break;
+        }
+        offset = sizeOffset + 4 + size + (size % 2);
+      }
+    }
+
+    const result: Record<string, any> = {};
+    let offset = 0;
+    while (offset + 5 <= data.length && data[offset] === 0x1c) {
+      const record = data[offset + 1];
+      const dataset = data[offset + 2];
+      const length = data.readUInt16BE(offset + 3);
+      if (length & 0x8000) {
+        // Extended datasets are never text fields we map; stop rather than guess
+        break;
+      }
+      const value = data.toString('utf-8', offset + 5, offset + 5 + length).trim();
+      const field = record === 2 ? IPTC_DATASETS[dataset] : undefined;
+      if (field && value) {
+        if (field.repeatable) {
+          (result[field.name] ??= []).push(value);
+        } else {
+          result[field.name] = value;
+        }
+      }
+      offset += 5 + length;
+    }
+
+    return result;
+  }
+
+  /**
+   * Flatten the RDF packet into qualified property names, e.g. `dc:creator`
+   */
+  private readXmp(xmp: Buffer): Record<string, any> {
+    const $ = load(xmp.toString('utf-8'), { xml: true });
+    const properties: Record<string, any> = {};
+
+    const set = (name: string, value: any) => {
+      if (this.stripGps && /^exif:GPS/i.test(name)) {
+        return;
+      }
+      properties[name] = value;
+    };
+
+    $('rdf\\:Description').each((_, description: Element) => {
+      for (const [name, value] of Object.entries(description.attribs)) {
+        if (!name.startsWith('xmlns') && name !== 'rdf:about') {
+          set(name, value);
+        }
+      }
+
+      $(description).children().each((_, property: Element) => {
+        const name = property.tagName;
+        const items = $(property).find('rdf\\:li');
+        if (items.length > 0) {
+          const values = items.toArray().map(item => $(item).text().trim());
+          // Language alternatives (rdf:Alt) collapse to the default entry
+          set(name, $(property).children('rdf\\:Alt').length > 0 ? values[0] : values);
+        } else if ($(property).children().length === 0) {
+          set(name, $(property).text().trim());
+        }
+      });
+    });
+
+    return properties;
+  }
+}
@@ -0,0 +1,341 @@
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter } from './feature-helpers.js';
+
+const logger = createLogger('json-extractor');
+
+const EXTRACTOR_TOOL = 'json-extractor';
+
+const SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+const STRING_TOKEN = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+const NUMBER_TOKEN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const LITERAL_TOKEN = /true|false|null/y;
+
+const STRING_FORMATS: Array<[string, RegExp]> = [
+  ['date-time', /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uri', /^[a-z][a-z0-9+.-]*:\/\/\S+$/i],
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i]
+];
+
+export interface JsonExtractorConfig {
+  maxKeyPaths?: number;
+  maxSchemaDepth?: number;
+}
+
+interface KeyPathStats {
+  path: string;
+  count: number;
+  types: Set<string>;
+}
+
+/**
+ * Accumulates every value seen at one position of the document so that
+ * array elements and repeated objects merge into a single schema. Nesting
+ * deeper than the depth budget only records its type, which keeps add(),
+ * toSchema() and the serialized schema within the call stack.
+ */
+class SchemaAccumulator {
+  private types = new Set<string>();
+  private objectCount = 0;
+  private properties = new Map<string, { node: SchemaAccumulator; count: number }>();
+  private items: SchemaAccumulator | null = null;
+  // undefined until a string is seen, null once strings disagree on format
+  private stringFormat: string | null | undefined = undefined;
+
+  constructor(private depthBudget: number, private onTruncated: () => void) {}
+
+  add(value: unknown): void {
+    const type = jsonType(value);
+    this.types.add(type);
+
+    if ((type === 'object' || type === 'array') && this.depthBudget === 0) {
+      this.onTruncated();
+    } else if (type === 'object') {
+      this.objectCount++;
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        let property = this.properties.get(key);
+        if (!property) {
+          property = { node: new SchemaAccumulator(this.depthBudget - 1, this.onTruncated), count: 0 };
+          this.properties.set(key, property);
+        }
+        property.count++;
+        property.node.add(child);
+      }
+    } else if (type === 'array') {
+      for (const item of value as unknown[]) {
+        this.items ??= new SchemaAccumulator(this.depthBudget - 1, this.onTruncated);
+        this.items.add(item);
+      }
+    } else if (type === 'string') {
+      const format = STRING_FORMATS.find(([, pattern]) => pattern.test(value as string))?.[0] ?? null;
+      this.stringFormat = this.stringFormat === undefined || this.stringFormat === format ? format : null;
+    }
+  }
+
+  toSchema(): Record<string, any> {
+    let types = [...this.types];
+    if (types.includes('integer') && types.includes('number')) {
+      types = types.filter(type => type !== 'integer');
+    }
+
+    const schema: Record<string, any> = { type: types.length === 1 ? types[0] : types };
+
+    if (this.types.has('object') && this.depthBudget > 0) {
+      // Keys come from the document, so "__proto__" must stay an ordinary property
+      schema.properties = Object.create(null);
+      const required: string[] = [];
+      for (const [key, property] of this.properties) {
+        schema.properties[key] = property.node.toSchema();
+        if (property.count === this.objectCount) {
+          required.push(key);
+        }
+      }
+      if (required.length > 0) {
+        schema.required = required;
+      }
+    }
+
+    if (this.types.has('array') && this.items) {
+      schema.items = this.items.toSchema();
+    }
+
+    if (this.types.has('string') && this.stringFormat) {
+      schema.format = this.stringFormat;
+    }
+
+    return schema;
+  }
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Offset of the first character a strict JSON parser would reject
+ */
+function locateSyntaxError(text: string): number {
+  let pos = 0;
+  const fail = (): never => {
+    throw pos;
+  };
+  const skipWhitespace = () => {
+    while (pos < text.length && ' \t\n\r'.includes(text[pos])) pos++;
+  };
+  const expect = (pattern: RegExp) => {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(text);
+    if (!match) fail();
+    pos += match![0].length;
+  };
+
+  const value = (): void => {
+    skipWhitespace();
+    const char = text[pos];
+    if (char === '{') {
+      pos++;
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[pos] !== '"') fail();
+        expect(STRING_TOKEN);
+        skipWhitespace();
+        if (text[pos] !== ':') fail();
+        pos++;
+        value();
+        skipWhitespace();
+        if (text[pos] === '}') {
+          pos++;
+          return;
+        }
+        if (text[pos] !== ',') fail();
+        pos++;
+      }
+    } else if (char === '[') {
+      pos++;
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+        return;
+      }
+      for (;;) {
+        value();
+        skipWhitespace();
+        if (text[pos] === ']') {
+          pos++;
+          return;
+        }
+        if (text[pos] !== ',') fail();
+        pos++;
+      }
+    } else if (char === '"') {
+      expect(STRING_TOKEN);
+    } else if (char === '-' || (char >= '0' && char <= '9')) {
+      expect(NUMBER_TOKEN);
+    } else {
+      expect(LITERAL_TOKEN);
+    }
+  };
+
+  try {
+    value();
+    skipWhitespace();
+    return pos < text.length ? pos : text.length;
+  } catch (position) {
+    return typeof position === 'number' ? Math.min(position, text.length) : text.length;
+  }
+}
+
+export class JsonExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Infers a JSON Schema (draft 2020-12), key paths with counts, nesting depth and validity of JSON documents',
+    capabilities: ['application/json'],
+    featureKeys: [
+      'json.valid',
+      'json.top_level_type',
+      'json.schema',
+      'json.key_paths',
+      'json.max_depth'
+    ],
+    enabled: true,
+    priority: 1
+  };
+
+  private maxKeyPaths: number;
+  private maxSchemaDepth: number;
+
+  constructor(config: JsonExtractorConfig = {}) {
+    this.maxKeyPaths = config.maxKeyPaths || 1000;
+    this.maxSchemaDepth = config.maxSchemaDepth || 64;
+  }
+
+  canHandle(mimeType: string): boolean {
+    return JsonExtractor.info.capabilities.includes(mimeType);
+  }
+
+  async extractFeatures(
+    resource: Resource,
+    text: string,
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    let document: unknown;
+    try {
+      document = JSON.parse(text);
+    } catch (error: any) {
+      add('json.valid', JSON.stringify({ valid: false, ...this.describeParseError(text, error) }), FeatureType.JSON);
+      logger.info(`JSON document ${resource.url} is invalid`, { error: error.message });
+      return features;
+    }
+
+    add('json.valid', JSON.stringify({ valid: true }), FeatureType.JSON);
+    add('json.top_level_type', jsonType(document), FeatureType.TEXT);
+
+    if (shouldExtract('json.schema')) {
+      let truncated = false;
+      const accumulator = new SchemaAccumulator(this.maxSchemaDepth, () => {
+        truncated = true;
+      });
+      accumulator.add(document);
+      add('json.schema', JSON.stringify({ $schema: SCHEMA_DIALECT, ...accumulator.toSchema() }), FeatureType.JSON, {
+        dialect: SCHEMA_DIALECT,
+        ...(truncated ? { truncatedAtDepth: this.maxSchemaDepth } : {})
+      });
+    }
+
+    if (shouldExtract('json.key_paths') || shouldExtract('json.max_depth')) {
+      const { keyPaths, maxDepth, truncated } = this.walk(document);
+      add('json.key_paths', JSON.stringify(keyPaths.map(stats => ({
+        path: stats.path,
+        count: stats.count,
+        types: [...stats.types]
+      }))), FeatureType.JSON, { count: keyPaths.length, truncated });
+      add('json.max_depth', String(maxDepth), FeatureType.NUMBER);
+    }
+
+    logger.info(`Extracted ${features.length} JSON features from ${resource.url}`, {
+      featureCount: features.length
+    });
+
+    return features;
+  }
+
+  /**
+   * Collect key paths ($.a.b, $.items[].id) with how often each occurs, plus the nesting depth
+   */
+  private walk(document: unknown): { keyPaths: KeyPathStats[]; maxDepth: number; truncated: boolean } {
+    const paths = new Map<string, KeyPathStats>();
+    let maxDepth = 0;
+    let truncated = false;
+
+    const record = (path: string, value: unknown) => {
+      let stats = paths.get(path);
+      if (!stats) {
+        if (paths.size >= this.maxKeyPaths) {
+          truncated = true;
+          return;
+        }
+        stats = { path, count: 0, types: new Set() };
+        paths.set(path, stats);
+      }
+      stats.count++;
+      stats.types.add(jsonType(value));
+    };
+
+    // Iterative to cope with deeply nested documents without overflowing the stack
+    const stack: Array<{ value: unknown; path: string; depth: number }> = [{ value: document, path: '$', depth: 0 }];
+    while (stack.length > 0) {
+      const { value, path, depth } = stack.pop()!;
+      maxDepth = Math.max(maxDepth, depth);
+
+      let children: Array<[string, unknown]> = [];
+      if (Array.isArray(value)) {
+        children = value.map(item => [`${path}[]`, item]);
+      } else if (value !== null && typeof value === 'object') {
+        children = Object.entries(value).map(([key, child]) => [
+          /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`,
+          child
+        ]);
+      }
+
+      for (const [childPath, child] of children) {
+        record(childPath, child);
+      }
+      for (let i = children.length - 1; i >= 0; i--) {
+        stack.push({ value: children[i][1], path: children[i][0], depth: depth + 1 });
+      }
+    }
+
+    return { keyPaths: [...paths.values()], maxDepth, truncated };
+  }
+
+  private describeParseError(text: string, error: Error): Record<string, any> {
+    // Newer V8 messages ("Unexpected token '}', ... is not valid JSON") omit the offset
+    const match = error.message.match(/at position (\d+)/);
+    const position = match ? Number(match[1]) : locateSyntaxError(text);
+    const before = text.slice(0, position);
+    const line = before.split('\n').length;
+    const column = position - before.lastIndexOf('\n');
+
+    return { error: error.message, position, line, column };
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Reference text and stopwords for the offline language identifier. Profiles
+ * are the most frequent character n-grams of each sample, built once at load;
+ * the samples are plain everyday prose so no single domain dominates.
+ */
+
+export interface LanguageSample {
+  code: string;
+  name: string;
+  sample: string;
+  stopwords: string[];
+}
+
+// Scripts used by a single language in our set are identified without n-grams
+export const SCRIPT_LANGUAGES: Array<{ pattern: RegExp; code: string; script: string }> = [
+  // Kana before Han, since Japanese mixes both
+  { pattern: /[\u3040-\u30ff]/g, code: 'ja', script: 'Japanese' },
+  { pattern: /[\uac00-\ud7af\u1100-\u11ff]/g, code: 'ko', script: 'Hangul' },
+  { pattern: /[\u4e00-\u9fff]/g, code: 'zh', script: 'Han' },
+  { pattern: /[\u0400-\u04ff]/g, code: 'ru', script: 'Cyrillic' },
+  { pattern: /[\u0370-\u03ff]/g, code: 'el', script: 'Greek' },
+  { pattern: /[\u0600-\u06ff]/g, code: 'ar', script: 'Arabic' },
+  { pattern: /[\u0590-\u05ff]/g, code: 'he', script: 'Hebrew' },
+  { pattern: /[\u0900-\u097f]/g, code: 'hi', script: 'Devanagari' },
+  { pattern: /[\u0e00-\u0e7f]/g, code: 'th', script: 'Thai' }
+];
+
+export const LATIN_LANGUAGES: LanguageSample[] = [
+  {
+    code: 'en',
+    name: 'English',
+    sample: `All human beings are born free and equal in dignity and rights. They are endowed with reason and conscience and should act towards one another in a spirit of brotherhood.
+      The weather was cold that morning, so we stayed inside and read the newspaper while the children played in the other room.
+      When you have finished the report, please send it to the team and let us know if there is anything that still needs to be done.
+      Most of the people who live in the city take the train to work, although some of them prefer to walk or ride a bicycle.
+      This is one of the reasons why the project was delayed, but we believe that the new plan will help us to make up for the lost time.
+      The house at the end of the street has a small garden where they grow vegetables and flowers throughout the summer.`,
+    stopwords: ['a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'here', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'may', 'more', 'most', 'no', 'not', 'now', 'of', 'on', 'one', 'only', 'or', 'other', 'our', 'out', 'over', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your']
+  },
+  {
+    code: 'de',
+    name: 'German',
+    sample: `Alle Menschen sind frei und gleich an Würde und Rechten geboren. Sie sind mit Vernunft und Gewissen begabt und sollen einander im Geist der Brüderlichkeit begegnen.
+      Das Wetter war an diesem Morgen sehr kalt, deshalb sind wir zu Hause geblieben und haben die Zeitung gelesen, während die Kinder im anderen Zimmer spielten.
+      Wenn du mit dem Bericht fertig bist, schicke ihn bitte an das Team und sag uns, ob noch etwas zu erledigen ist.
+      Die meisten Leute, die in der Stadt wohnen, fahren mit dem Zug zur Arbeit, obwohl einige lieber zu Fuß gehen oder mit dem Fahrrad fahren.
+      Das ist einer der Gründe, warum sich das Projekt verzögert hat, aber wir glauben, dass uns der neue Plan helfen wird, die verlorene Zeit aufzuholen.
+      Das Haus am Ende der Straße hat einen kleinen Garten, in dem sie den ganzen Sommer über Gemüse und Blumen anbauen.`,
+    stopwords: ['aber', 'alle', 'als', 'also', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'bist', 'da', 'damit', 'dann', 'das', 'dass', 'dein', 'dem', 'den', 'der', 'des', 'die', 'dies', 'diese', 'dieser', 'doch', 'du', 'durch', 'ein', 'eine', 'einem', 'einen', 'einer', 'es', 'für', 'hat', 'hatte', 'ich', 'ihr', 'im', 'in', 'ist', 'ja', 'kann', 'kein', 'mit', 'nach', 'nicht', 'noch', 'nur', 'ob', 'oder', 'sein', 'sich', 'sie', 'sind', 'so', 'über', 'um', 'und', 'uns', 'unter', 'vom', 'von', 'vor', 'war', 'was', 'weil', 'wenn', 'wer', 'wie', 'wir', 'wird', 'zu', 'zum', 'zur']
+  },
+  {
+    code: 'fr',
+    name: 'French',
+    sample: `Tous les êtres humains naissent libres et égaux en dignité et en droits. Ils sont doués de raison et de conscience et doivent agir les uns envers les autres dans un esprit de fraternité.
+      Il faisait très froid ce matin-là, alors nous sommes restés à la maison pour lire le journal pendant que les enfants jouaient dans l'autre pièce.
+      Quand tu auras terminé le rapport, envoie-le à l'équipe et dis-nous s'il reste encore quelque chose à faire.
+      La plupart des gens qui habitent en ville prennent le train pour aller au travail, même si certains préfèrent marcher ou faire du vélo.
+      C'est l'une des raisons pour lesquelles le projet a pris du retard, mais nous pensons que le nouveau plan nous aidera à rattraper le temps perdu.
+      La maison au bout de la rue a un petit jardin où ils cultivent des légumes et des fleurs pendant tout l'été.`,
+    stopwords: ['à', 'au', 'aux', 'avec', 'ce', 'ces', 'cette', 'dans', 'de', 'des', 'du', 'elle', 'en', 'est', 'et', 'été', 'être', 'eux', 'il', 'ils', 'je', 'la', 'le', 'les', 'leur', 'lui', 'mais', 'me', 'même', 'mes', 'moi', 'mon', 'ne', 'nos', 'notre', 'nous', 'on', 'ont', 'ou', 'où', 'par', 'pas', 'pour', 'qu', 'que', 'qui', 'sa', 'sans', 'se', 'ses', 'son', 'sont', 'sur', 'ta', 'te', 'tes', 'toi', 'ton', 'tous', 'tout', 'tu', 'un', 'une', 'vos', 'votre', 'vous']
+  },
+  {
+    code: 'es',
+    name: 'Spanish',
+    sample: `Todos los seres humanos nacen libres e iguales en dignidad y derechos y, dotados como están de razón y conciencia, deben comportarse fraternalmente los unos con los otros.
+      Aquella mañana hacía mucho frío, así que nos quedamos en casa leyendo el periódico mientras los niños jugaban en la otra habitación.
+      Cuando hayas terminado el informe, envíalo al equipo y dinos si todavía queda algo por hacer.
+      La mayoría de las personas que viven en la ciudad van al trabajo en tren, aunque algunas prefieren caminar o ir en bicicleta.
+      Esta es una de las razones por las que el proyecto se retrasó, pero creemos que el nuevo plan nos ayudará a recuperar el tiempo perdido.
+      La casa al final de la calle tiene un pequeño jardín donde cultivan verduras y flores durante todo el verano.`,
+    stopwords: ['a', 'al', 'algo', 'como', 'con', 'de', 'del', 'donde', 'el', 'ella', 'ellos', 'en', 'entre', 'era', 'es', 'esa', 'ese', 'eso', 'esta', 'está', 'este', 'esto', 'fue', 'ha', 'hay', 'la', 'las', 'le', 'les', 'lo', 'los', 'más', 'me', 'mi', 'muy', 'no', 'nos', 'o', 'para', 'pero', 'por', 'porque', 'que', 'qué', 'se', 'si', 'sí', 'sin', 'sobre', 'su', 'sus', 'también', 'te', 'tiene', 'todo', 'tu', 'un', 'una', 'uno', 'y', 'ya', 'yo']
+  },
+  {
+    code: 'it',
+    name: 'Italian',
+    sample: `Tutti gli esseri umani nascono liberi ed eguali in dignità e diritti. Essi sono dotati di ragione e di coscienza e devono agire gli uni verso gli altri in spirito di fratellanza.
+      Quella mattina faceva molto freddo, così siamo rimasti a casa a leggere il giornale mentre i bambini giocavano nell'altra stanza.
+      Quando avrai finito la relazione, mandala alla squadra e facci sapere se c'è ancora qualcosa da fare.
+      La maggior parte delle persone che vivono in città va al lavoro in treno, anche se alcune preferiscono camminare o andare in bicicletta.
+      Questo è uno dei motivi per cui il progetto è stato rinviato, ma crediamo che il nuovo piano ci aiuterà a recuperare il tempo perduto.
+      La casa in fondo alla strada ha un piccolo giardino dove coltivano verdure e fiori per tutta l'estate.`,
+    stopwords: ['a', 'ad', 'al', 'alla', 'anche', 'che', 'chi', 'ci', 'con', 'da', 'dal', 'dalla', 'dei', 'del', 'della', 'delle', 'di', 'è', 'e', 'gli', 'ha', 'hanno', 'i', 'il', 'in', 'io', 'la', 'le', 'lei', 'li', 'lo', 'loro', 'lui', 'ma', 'mi', 'mio', 'ne', 'nel', 'nella', 'noi', 'non', 'o', 'per', 'più', 'quella', 'quello', 'questa', 'questo', 'se', 'si', 'sono', 'su', 'sua', 'suo', 'tra', 'tu', 'un', 'una', 'uno', 'voi']
+  },
+  {
+    code: 'pt',
+    name: 'Portuguese',
+    sample: `Todos os seres humanos nascem livres e iguais em dignidade e em direitos. Dotados de razão e de consciência, devem agir uns para com os outros em espírito de fraternidade.
+      Naquela manhã estava muito frio, por isso ficamos em casa lendo o jornal enquanto as crianças brincavam no outro quarto.
+      Quando você terminar o relatório, envie-o para a equipe e diga-nos se ainda falta fazer alguma coisa.
+      A maioria das pessoas que moram na cidade vai para o trabalho de trem, embora algumas prefiram caminhar ou andar de bicicleta.
+      Essa é uma das razões pelas quais o projeto atrasou, mas acreditamos que o novo plano vai nos ajudar a recuperar o tempo perdido.
+      A casa no fim da rua tem um pequeno jardim onde eles cultivam legumes e flores durante todo o verão.`,
+    stopwords: ['a', 'ao', 'aos', 'as', 'até', 'com', 'como', 'da', 'das', 'de', 'do', 'dos', 'e', 'é', 'ela', 'ele', 'eles', 'em', 'entre', 'era', 'essa', 'esse', 'esta', 'está', 'este', 'eu', 'foi', 'há', 'isso', 'isto', 'já', 'lhe', 'mais', 'mas', 'me', 'mesmo', 'muito', 'na', 'não', 'nas', 'nem', 'no', 'nos', 'nós', 'num', 'numa', 'o', 'os', 'ou', 'para', 'pela', 'pelo', 'por', 'quando', 'que', 'se', 'sem', 'seu', 'sua', 'são', 'também', 'te', 'tem', 'um', 'uma', 'você']
+  },
+  {
+    code: 'nl',
+    name: 'Dutch',
+    sample: `Alle mensen worden vrij en gelijk in waardigheid en rechten geboren. Zij zijn begiftigd met verstand en geweten, en behoren zich jegens elkander in een geest van broederschap te gedragen.
+      Het was die ochtend erg koud, dus bleven we thuis en lazen we de krant terwijl de kinderen in de andere kamer speelden.
+      Als je klaar bent met het verslag, stuur het dan naar het team en laat ons weten of er nog iets gedaan moet worden.
+      De meeste mensen die in de stad wonen gaan met de trein naar hun werk, hoewel sommigen liever lopen of fietsen.
+      Dat is een van de redenen waarom het project vertraging heeft opgelopen, maar we denken dat het nieuwe plan ons zal helpen de verloren tijd in te halen.
+      Het huis aan het einde van de straat heeft een kleine tuin waar ze de hele zomer groenten en bloemen kweken.`,
+    stopwords: ['aan', 'al', 'als', 'bij', 'dan', 'dat', 'de', 'der', 'deze', 'die', 'dit', 'doch', 'door', 'een', 'en', 'er', 'ge', 'geen', 'had', 'heb', 'hebben', 'heeft', 'hem', 'het', 'hier', 'hij', 'hoe', 'hun', 'ik', 'in', 'is', 'je', 'kan', 'maar', 'me', 'men', 'met', 'mij', 'naar', 'niet', 'nog', 'nu', 'of', 'om', 'ons', 'ook', 'op', 'over', 'te', 'tot', 'uit', 'van', 'veel', 'voor', 'want', 'was', 'wat', 'we', 'wel', 'werd', 'wie', 'wij', 'worden', 'zal', 'ze', 'zich', 'zij', 'zijn', 'zo']
+  },
+  {
+    code: 'sv',
+    name: 'Swedish',
+    sample: `Alla människor är födda fria och lika i värde och rättigheter. De har utrustats med förnuft och samvete och bör handla gentemot varandra i en anda av broderskap.
+      Det var väldigt kallt den morgonen, så vi stannade hemma och läste tidningen medan barnen lekte i det andra rummet.
+      När du är klar med rapporten, skicka den till gruppen och säg till om det finns något mer som behöver göras.
+      De flesta som bor i staden tar tåget till jobbet, även om en del hellre går eller cyklar.
+      Det är ett av skälen till att projektet blev försenat, men vi tror att den nya planen kommer att hjälpa oss att ta igen den förlorade tiden.
+      Huset i slutet av gatan har en liten trädgård där de odlar grönsaker och blommor hela sommaren.`,
+    stopwords: ['alla', 'att', 'av', 'blev', 'bli', 'de', 'dem', 'den', 'denna', 'det', 'detta', 'dig', 'du', 'efter', 'eller', 'en', 'er', 'ett', 'från', 'för', 'ha', 'hade', 'han', 'har', 'hon', 'hur', 'i', 'inte', 'jag', 'kan', 'man', 'med', 'men', 'mig', 'min', 'mot', 'många', 'nu', 'när', 'och', 'om', 'oss', 'på', 'sig', 'sin', 'ska', 'som', 'så', 'till', 'under', 'upp', 'ut', 'var', 'vi', 'vid', 'vill', 'är', 'än', 'över']
+  },
+  {
+    code: 'pl',
+    name: 'Polish',
+    sample: `Wszyscy ludzie rodzą się wolni i równi pod względem swej godności i swych praw. Są oni obdarzeni rozumem i sumieniem i powinni postępować wobec innych w duchu braterstwa.
+      Tego ranka było bardzo zimno, więc zostaliśmy w domu i czytaliśmy gazetę, podczas gdy dzieci bawiły się w drugim pokoju.
+      Kiedy skończysz raport, wyślij go proszę do zespołu i daj nam znać, czy jest jeszcze coś do zrobienia.
+      Większość ludzi, którzy mieszkają w mieście, jeździ do pracy pociągiem, chociaż niektórzy wolą chodzić pieszo albo jeździć na rowerze.
+      To jeden z powodów, dla których projekt się opóźnił, ale wierzymy, że nowy plan pomoże nam nadrobić stracony czas.
+      Dom na końcu ulicy ma mały ogród, w którym przez całe lato uprawiają warzywa i kwiaty.`,
+    stopwords: ['a', 'ale', 'bardzo', 'by', 'być', 'czy', 'dla', 'do', 'gdy', 'go', 'i', 'ich', 'im', 'jak', 'jako', 'jednak', 'jego', 'jej', 'jest', 'jeszcze', 'już', 'ma', 'mi', 'mnie', 'na', 'nad', 'nam', 'nas', 'nie', 'o', 'od', 'on', 'ona', 'oni', 'po', 'pod', 'przez', 'przy', 'się', 'tak', 'także', 'tego', 'tej', 'to', 'tu', 'w', 'we', 'więc', 'z', 'za', 'że', 'ze']
+  }
+];
@@ -0,0 +1,350 @@
+import { Dirent } from 'fs';
+import { open, readdir } from 'fs/promises';
+import { extname, join } from 'path';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { isIgnoredEntry, isLicenseFile } from '../utils/file-names.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, decodeText, FeatureFilter } from './feature-helpers.js';
+import { SPDX_TEMPLATES, SpdxTemplate } from './spdx-templates.js';
+
+const logger = createLogger('license-extractor');
+
+const EXTRACTOR_TOOL = 'license-extractor';
+
+// Extensions whose file headers are checked in the directory rollup
+const SOURCE_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java', '.kt', '.scala',
+  '.c', '.h', '.cc', '.cpp', '.hpp', '.cs', '.m', '.swift', '.rb', '.php', '.pl', '.lua',
+  '.sh', '.css', '.scss', '.vue', '.svelte'
+]);
+
+// Words per shingle in the similarity comparison
+const SHINGLE_SIZE = 3;
+
+// Share of a template's shingles a document must contain to match it
+const MIN_CONTAINMENT = 0.8;
+
+// Scores this close count as a tie, which the more complete template wins
+const TIE_MARGIN = 0.02;
+
+// Words after "copyright" that mean the line talks about copyright rather than claiming it
+const NOT_A_HOLDER = /^(?:notice|notices|holder|holders|owner|owners|law|laws|and|or|of|to|in|is|license|licence|statement|protection|information|year)\b/i;
+
+export interface LicenseDetection {
+  license: string;
+  method: 'spdx-tag' | 'template';
+  confidence: number;
+  kind?: SpdxTemplate['kind'];
+  candidates?: Array<{ license: string; score: number }>;
+}
+
+export interface CopyrightHolder {
+  holder: string;
+  years: string | null;
+}
+
+export interface LicenseExtractorConfig {
+  // Bytes read from the top of a source file, where license headers live
+  headerBytes?: number;
+  // Bytes read from LICENSE/COPYING files
+  licenseFileBytes?: number;
+  // Files read by the directory rollup
+  maxDirectoryFiles?: number;
+}
+
+export interface DirectoryLicenseSummary {
+  // License files directly in the directory
+  declared: Array<{ path: string; license: string | null }>;
+  // Files per detected license, across license files and source headers
+  licenses: Record<string, number>;
+  licenseFiles: Array<{ path: string; license: string | null }>;
+  copyrightHolders: Array<{ holder: string; files: number }>;
+  filesScanned: number;
+  filesWithLicense: number;
+  truncated: boolean;
+}
+
+// A directory's summary while its subdirectories are still being added
+interface Rollup {
+  summary: DirectoryLicenseSummary;
+  holderFiles: Map<string, number>;
+}
+
+interface PreparedTemplate extends SpdxTemplate {
+  shingles: Set<string>;
+}
+
+const TEMPLATES: PreparedTemplate[] = SPDX_TEMPLATES.map(template => ({
+  ...template,
+  shingles: shingles(template.text)
+}));
+
+/**
+ * License and copyright detection for source files and license files. An
+ * SPDX-License-Identifier tag is taken as written; otherwise the text is
+ * compared with bundled SPDX templates by word-shingle containment, so
+ * comment markers, line wrapping and surrounding text do not matter.
+ */
+export class LicenseExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Detects the SPDX license of source files (SPDX tags or header notices) and LICENSE/COPYING files (similarity to bundled SPDX templates), copyright holders, and a per-directory license mix',
+    capabilities: ['text/*', 'application/javascript', 'inode/directory'],
+    featureKeys: ['code.license', 'code.copyright_holders', 'directory.license_summary'],
+    enabled: true,
+    priority: 2
+  };
+
+  private headerBytes: number;
+  private licenseFileBytes: number;
+  private maxDirectoryFiles: number;
+
+  constructor(config: LicenseExtractorConfig = {}) {
+    this.headerBytes = config.headerBytes || 8 * 1024;
+    this.licenseFileBytes = config.licenseFileBytes || 64 * 1024;
+    this.maxDirectoryFiles = config.maxDirectoryFiles || 2000;
+  }
+
+  extractFeatures(resource: Resource, text: string, ttl: number, shouldExtract: FeatureFilter): Feature[] {
+    const features: Feature[] = [];
+    const scanned = this.scannedText(resource.url, text);
+
+    if (shouldExtract('code.license')) {
+      const detection = this.detect(scanned);
+      if (detection) {
+        const { license, ...details } = detection;
+        features.push(createFeature(resource.url, 'code.license', license, FeatureType.TEXT, ttl, EXTRACTOR_TOOL, {
+          ...details,
+          source: isLicenseFile(resource.url) ? 'license-file' : 'header'
+        }));
+      }
+    }
+
+    if (shouldExtract('code.copyright_holders')) {
+      const holders = this.findCopyrightHolders(scanned);
+      if (holders.length > 0) {
+        features.push(createFeature(resource.url, 'code.copyright_holders', JSON.stringify(holders), FeatureType.JSON, ttl, EXTRACTOR_TOOL, {
+          count: holders.length
+        }));
+      }
+    }
+
+    return features;
+  }
+
+  detect(text: string): LicenseDetection | null {
+    // SPDX tags may hold expressions such as "MIT OR Apache-2.0"
+    const tag = text.match(/SPDX-License-Identifier:\s*([^\n*]+?)\s*(?:\*\/|-->|$)/m);
+    if (tag) {
+      return { license: tag[1].replace(/^\(|\)$/g, '').trim(), method: 'spdx-tag', confidence: 1 };
+    }
+
+    const document = shingles(text);
+    if (document.size === 0) {
+      return null;
+    }
+
+    const scored = TEMPLATES
+      .map(template => {
+        let contained = 0;
+        for (const shingle of template.shingles) {
+          if (document.has(shingle)) contained++;
+        }
+        return { template, score: contained / template.shingles.size };
+      })
+      .filter(candidate => candidate.score >= MIN_CONTAINMENT)
+      .sort((a, b) => b.score - a.score)
+      // A license's text and notice templates both match its full text; keep the better one
+      .filter((candidate, index, all) => all.findIndex(other => other.template.id === candidate.template.id) === index);
+    if (scored.length === 0) {
+      return null;
+    }
+
+    // BSD-3-Clause contains all of BSD-2-Clause, so among equal scores the larger template is the better fit
+    const best = scored
+      .filter(candidate => candidate.score >= scored[0].score - TIE_MARGIN)
+      .sort((a, b) => b.template.shingles.size - a.template.shingles.size)[0];
+
+    return {
+      license: best.template.id,
+      method: 'template',
+      confidence: Math.round(best.score * 1000) / 1000,
+      kind: best.template.kind,
+      candidates: scored.slice(0, 3).map(candidate => ({
+        license: candidate.template.id,
+        score: Math.round(candidate.score * 1000) / 1000
+      }))
+    };
+  }
+
+  /**
+   * Holders from "Copyright (c) 2019-2024 Name" style lines, merged by name.
+   * Lines must carry a year or a (c)/© mark, which rules out prose about copyright.
+   */
+  findCopyrightHolders(text: string): CopyrightHolder[] {
+    const holders = new Map<string, Set<string>>();
+
+    for (const rawLine of text.split('\n')) {
+      const line = rawLine.replace(/^\s*(?:\/\/+|\/?\*+|#+|--|;+|%+|<!--|rem\b)?\s*/i, '').trim();
+      const match = line.match(/^(copyright\b)?\s*((?:\(c\)|©)\s*)?(.*)$/i);
+      if (!match || (!match[1] && !match[2])) continue;
+
+      let rest = match[3];
+      const years = rest.match(/^((?:\d{4}(?:\s*[-–]\s*(?:\d{4}|present))?\s*,?\s*)+)/i);
+      if (years) rest = rest.slice(years[0].length);
+      // A bare "(c)" without a year is usually a list item
+      const marked = !!match[2] && (!!match[1] || match[2].startsWith('©'));
+      if (!years && !marked) continue;
+
+      const holder = rest
+        .replace(/^by\s+/i, '')
+        .replace(/\s*<[^>]*>/g, '')
+        .replace(/\s*\((?:https?:|www\.)[^)]*\)/g, '')
+        .replace(/\s*all rights reserved\.?/i, '')
+        .replace(/[\s.,;:*/-]+$/, '')
+        .trim();
+      // Placeholders from license templates, and mentions of the license authors
+      if (!holder || NOT_A_HOLDER.test(holder) || /[<>[\]{}]/.test(holder) || /free software foundation/i.test(holder)) continue;
+
+      const yearRange = years ? years[1].replace(/\s+/g, '').replace(/,$/, '') : null;
+      if (!holders.has(holder)) holders.set(holder, new Set());
+      if (yearRange) holders.get(holder)!.add(yearRange);
+    }
+
+    return [...holders].map(([holder, years]) => ({ holder, years: years.size > 0 ? [...years].join(',') : null }));
+  }
+
+  /**
+   * Summaries of a directory and of every subdirectory below it from a single
+   * walk, which reads license files in full and the headers of source files.
+   * Each directory adds up its own files and its subdirectories' summaries.
+   * Once maxDirectoryFiles files are read the walk stops, and the directories
+   * it did not finish are marked truncated.
+   */
+  async summarizeTree(dirPath: string): Promise<Map<string, DirectoryLicenseSummary>> {
+    const summaries = new Map<string, DirectoryLicenseSummary>();
+    let filesScanned = 0;
+    let truncated = false;
+
+    const visit = async (directory: string): Promise<Rollup> => {
+      const rollup: Rollup = {
+        summary: {
+          declared: [],
+          licenses: {},
+          licenseFiles: [],
+          copyrightHolders: [],
+          filesScanned: 0,
+          filesWithLicense: 0,
+          truncated: false
+        },
+        holderFiles: new Map()
+      };
+      const { summary, holderFiles } = rollup;
+
+      let entries: Dirent[];
+      try {
+        entries = await readdir(directory, { withFileTypes: true });
+      } catch (error: any) {
+        logger.warn('Failed to read directory for license summary', { directory, error: error.message });
+        entries = [];
+      }
+
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        if (truncated) break;
+        if (isIgnoredEntry(entry.name)) continue;
+        const entryPath = join(directory, entry.name);
+
+        if (entry.isDirectory()) {
+          const child = await visit(entryPath);
+          summary.filesScanned += child.summary.filesScanned;
+          summary.filesWithLicense += child.summary.filesWithLicense;
+          for (const [license, files] of Object.entries(child.summary.licenses)) {
+            summary.licenses[license] = (summary.licenses[license] || 0) + files;
+          }
+          summary.licenseFiles.push(...child.summary.licenseFiles.map(record => ({ ...record, path: join(entry.name, record.path) })));
+          for (const [holder, files] of child.holderFiles) {
+            holderFiles.set(holder, (holderFiles.get(holder) || 0) + files);
+          }
+          continue;
+        }
+
+        const licenseFile = isLicenseFile(entry.name);
+        if (!entry.isFile() || (!licenseFile && !SOURCE_EXTENSIONS.has(extname(entry.name).toLowerCase()))) continue;
+        if (filesScanned >= this.maxDirectoryFiles) {
+          truncated = true;
+          break;
+        }
+
+        const text = await readHead(entryPath, licenseFile ? this.licenseFileBytes : this.headerBytes);
+        if (text === null) continue;
+        filesScanned++;
+        summary.filesScanned++;
+
+        const license = this.detect(text)?.license ?? null;
+        if (license) {
+          summary.filesWithLicense++;
+          summary.licenses[license] = (summary.licenses[license] || 0) + 1;
+        }
+        if (licenseFile) {
+          const record = { path: entry.name, license };
+          summary.licenseFiles.push(record);
+          summary.declared.push(record);
+        }
+        for (const { holder } of this.findCopyrightHolders(text)) {
+          holderFiles.set(holder, (holderFiles.get(holder) || 0) + 1);
+        }
+      }
+
+      // Directories still open when the walk stopped are missing files
+      summary.truncated = truncated;
+      summaries.set(directory, {
+        ...summary,
+        copyrightHolders: [...holderFiles]
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+          .slice(0, 20)
+          .map(([holder, files]) => ({ holder, files }))
+      });
+      return rollup;
+    };
+
+    await visit(dirPath);
+    return summaries;
+  }
+
+  // License files are compared whole; source files only by their header
+  private scannedText(url: string, text: string): string {
+    return isLicenseFile(url) ? text.slice(0, this.licenseFileBytes) : text.slice(0, this.headerBytes);
+  }
+}
+
+async function readHead(filePath: string, bytes: number): Promise<string | null> {
+  let handle;
+  try {
+    handle = await open(filePath, 'r');
+    const buffer = Buffer.alloc(bytes);
+    const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+    return decodeText(buffer.subarray(0, bytesRead)).text;
+  } catch (error: any) {
+    logger.debug('Failed to read file head', { filePath, error: error.message });
+    return null;
+  } finally {
+    await handle?.close();
+  }
+}
+
+// Word trigrams of the text with case, punctuation and comment markers removed
+function shingles(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/licence/g, 'license')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
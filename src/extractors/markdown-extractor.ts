@@ -0,0 +1,237 @@
+import { Lexer, Token, Tokens } from 'marked';
+import { parse as parseYaml } from 'yaml';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter } from './feature-helpers.js';
+
+const logger = createLogger('markdown-extractor');
+
+const EXTRACTOR_TOOL = 'markdown-extractor';
+
+const FRONTMATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+interface OutlineNode {
+  level: number;
+  text: string;
+  anchor: string;
+  line: number;
+  children: OutlineNode[];
+}
+
+interface CodeBlock {
+  language: string | null;
+  content: string;
+  line: number;
+}
+
+interface MarkdownLink {
+  href: string;
+  text: string;
+  title: string | null;
+  type: 'link' | 'image';
+}
+
+interface MarkdownTable {
+  headers: string[];
+  align: Array<'left' | 'right' | 'center' | null>;
+  rows: string[][];
+  line: number;
+}
+
+export class MarkdownExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Extracts heading outline with anchors, code blocks, links, YAML front matter and tables from Markdown',
+    capabilities: ['text/markdown', 'text/x-markdown'],
+    featureKeys: [
+      'markdown.outline',
+      'markdown.code_blocks',
+      'markdown.links',
+      'markdown.frontmatter',
+      'markdown.tables'
+    ],
+    enabled: true,
+    priority: 1
+  };
+
+  canHandle(mimeType: string): boolean {
+    return MarkdownExtractor.info.capabilities.includes(mimeType);
+  }
+
+  async extractFeatures(
+    resource: Resource,
+    source: string,
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    // Front matter is not Markdown; strip it so the lexer does not see a thematic break
+    const frontmatterMatch = source.match(FRONTMATTER_PATTERN);
+    const body = frontmatterMatch ? source.slice(frontmatterMatch[0].length) : source;
+    const bodyLineOffset = frontmatterMatch ? frontmatterMatch[0].split('\n').length - 1 : 0;
+
+    if (frontmatterMatch) {
+      try {
+        const frontmatter = parseYaml(frontmatterMatch[1]) ?? {};
+        add('markdown.frontmatter', JSON.stringify(frontmatter), FeatureType.JSON, { format: 'yaml' });
+      } catch (error: any) {
+        logger.warn('Failed to parse Markdown front matter', { url: resource.url, error: error.message });
+        add('markdown.frontmatter', JSON.stringify({}), FeatureType.JSON, {
+          format: 'yaml',
+          error: error.message
+        });
+      }
+    }
+
+    const tokens = new Lexer({ gfm: true }).lex(body);
+
+    const headings: Omit<OutlineNode, 'children'>[] = [];
+    const codeBlocks: CodeBlock[] = [];
+    const links: MarkdownLink[] = [];
+    const tables: MarkdownTable[] = [];
+    const slugCounts = new Map<string, number>();
+
+    // Headings, code and tables inside lists and blockquotes count as well as top-level ones
+    this.walk(tokens, bodyLineOffset + 1, body, (token, tokenLine) => {
+      switch (token.type) {
+        case 'heading': {
+          const heading = token as Tokens.Heading;
+          const text = this.plainText(heading.tokens) || heading.text;
+          headings.push({ level: heading.depth, text, anchor: this.uniqueSlug(text, slugCounts), line: tokenLine });
+          break;
+        }
+        case 'code': {
+          const code = token as Tokens.Code;
+          codeBlocks.push({ language: code.lang?.split(/\s+/)[0] || null, content: code.text, line: tokenLine });
+          break;
+        }
+        case 'table': {
+          const table = token as Tokens.Table;
+          tables.push({
+            headers: table.header.map(cell => this.plainText(cell.tokens) || cell.text),
+            align: table.align,
+            rows: table.rows.map(row => row.map(cell => this.plainText(cell.tokens) || cell.text)),
+            line: tokenLine
+          });
+          break;
+        }
+        case 'link':
+        case 'image': {
+          const link = token as Tokens.Link | Tokens.Image;
+          links.push({
+            href: link.href,
+            text: link.type === 'image' ? link.text : this.plainText((link as Tokens.Link).tokens) || link.text,
+            title: link.title || null,
+            type: link.type
+          });
+          break;
+        }
+      }
+    });
+
+    add('markdown.outline', JSON.stringify(this.buildOutline(headings)), FeatureType.JSON, {
+      headingCount: headings.length
+    });
+    add('markdown.code_blocks', JSON.stringify(codeBlocks), FeatureType.JSON, {
+      count: codeBlocks.length,
+      languages: [...new Set(codeBlocks.map(block => block.language).filter(Boolean))]
+    });
+    add('markdown.links', JSON.stringify(links), FeatureType.JSON, { count: links.length });
+    add('markdown.tables', JSON.stringify(tables), FeatureType.JSON, { count: tables.length });
+
+    logger.info(`Extracted ${features.length} markdown features from ${resource.url}`, {
+      featureCount: features.length,
+      headingCount: headings.length
+    });
+
+    return features;
+  }
+
+  private buildOutline(headings: Omit<OutlineNode, 'children'>[]): OutlineNode[] {
+    const root: OutlineNode[] = [];
+    const stack: OutlineNode[] = [];
+
+    for (const heading of headings) {
+      const node: OutlineNode = { ...heading, children: [] };
+      while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+        stack.pop();
+      }
+      (stack.length > 0 ? stack[stack.length - 1].children : root).push(node);
+      stack.push(node);
+    }
+
+    return root;
+  }
+
+  /**
+   * GitHub-style heading anchor, suffixed with -1, -2... for repeated headings
+   */
+  private uniqueSlug(text: string, slugCounts: Map<string, number>): string {
+    const slug = text
+      .toLowerCase()
+      .trim()
+      .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+      .replace(/\s/g, '-');
+
+    const count = slugCounts.get(slug) || 0;
+    slugCounts.set(slug, count + 1);
+    return count === 0 ? slug : `${slug}-${count}`;
+  }
+
+  private plainText(tokens: Token[] | undefined): string {
+    if (!tokens) {
+      return '';
+    }
+    return tokens.map(token => {
+      if ('tokens' in token && token.tokens && token.tokens.length > 0) {
+        return this.plainText(token.tokens);
+      }
+      return 'text' in token ? String(token.text) : '';
+    }).join('');
+  }
+
+  /**
+   * Visit every token, including those nested in lists, blockquotes, table
+   * cells and inline content, with the line it starts on. A token's raw
+   * source is found in its parent's text, whose lines match the parent's
+   * source lines once list indentation or blockquote markers are stripped.
+   */
+  private walk(tokens: Token[], line: number, source: string, visit: (token: Token, line: number) => void): void {
+    let cursor = 0;
+    let cursorLine = line;
+
+    for (const token of tokens) {
+      const offset = token.raw ? source.indexOf(token.raw, cursor) : -1;
+      if (offset >= 0) {
+        cursorLine += (source.slice(cursor, offset).match(/\n/g) || []).length;
+      }
+      const tokenLine = cursorLine;
+      if (offset >= 0) {
+        cursorLine += (token.raw.match(/\n/g) || []).length;
+        cursor = offset + token.raw.length;
+      }
+      visit(token, tokenLine);
+
+      const inner = 'text' in token && typeof token.text === 'string' ? token.text : token.raw;
+      if ('tokens' in token && token.tokens) {
+        this.walk(token.tokens, tokenLine, inner, visit);
+      }
+      if (token.type === 'list') {
+        this.walk((token as Tokens.List).items, tokenLine, token.raw, visit);
+      }
+      if (token.type === 'table') {
+        const table = token as Tokens.Table;
+        for (const cell of [...table.header, ...table.rows.flat()]) {
+          this.walk(cell.tokens, tokenLine, cell.text, visit);
+        }
+      }
+    }
+  }
+}
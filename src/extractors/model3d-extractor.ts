@@ -0,0 +1,751 @@
+import { readFile, stat } from 'fs/promises';
+import { dirname, isAbsolute, relative, resolve, sep } from 'path';
+import sharp from 'sharp';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { FeatureDatabase } from '../db/database.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, storeBinaryFeature, FeatureFilter, localPath, round } from './feature-helpers.js';
+
+const logger = createLogger('model3d-extractor');
+
+const EXTRACTOR_TOOL = 'model3d-extractor';
+
+const MODEL_MIME_TYPES: Record<string, ModelFormat> = {
+  'model/gltf+json': 'gltf',
+  'model/gltf-binary': 'glb',
+  'model/obj': 'obj',
+  'model/stl': 'stl'
+};
+
+// glTF accessor component types: byte size and reader
+const COMPONENT_TYPES: Record<number, [number, (view: DataView, offset: number) => number]> = {
+  5120: [1, (view, offset) => view.getInt8(offset)],
+  5121: [1, (view, offset) => view.getUint8(offset)],
+  5122: [2, (view, offset) => view.getInt16(offset, true)],
+  5123: [2, (view, offset) => view.getUint16(offset, true)],
+  5125: [4, (view, offset) => view.getUint32(offset, true)],
+  5126: [4, (view, offset) => view.getFloat32(offset, true)]
+};
+
+const ACCESSOR_SIZES: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16 };
+
+const GLB_MAGIC = 0x46546c67;
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+
+// Preview camera: 45 degrees around the up axis, 30 degrees from above
+const PREVIEW_YAW = Math.PI / 4;
+const PREVIEW_PITCH = Math.PI / 6;
+const PREVIEW_LIGHT = normalize([0.3, 0.5, 1]);
+const PREVIEW_COLOR = [143, 168, 200];
+const PREVIEW_BACKGROUND = 255;
+
+type ModelFormat = 'gltf' | 'glb' | 'obj' | 'stl';
+
+type Vec3 = [number, number, number];
+
+export interface ModelBounds {
+  min: Vec3;
+  max: Vec3;
+}
+
+export interface WatertightReport {
+  watertight: boolean;
+  boundaryEdges: number;
+  nonManifoldEdges: number;
+  consistentOrientation: boolean;
+  degenerateTriangles: number;
+}
+
+export interface ParsedModel {
+  format: ModelFormat;
+  vertexCount: number;
+  triangleCount: number;
+  bounds: ModelBounds | null;
+  materials: Array<Record<string, any>> | null;
+  // World-space triangles for the preview; may cover only part of the model
+  // when glTF buffers are missing or compressed
+  positions: Float32Array;
+  indices: Uint32Array;
+  upAxis: 'y' | 'z';
+  watertight?: WatertightReport;
+  metadata: Record<string, any>;
+}
+
+export interface Model3dExtractorConfig {
+  previewSize?: number;
+  // Larger meshes are rendered from an evenly spaced subset of triangles
+  maxPreviewTriangles?: number;
+  // External .bin buffers of a .gltf larger than this are not read
+  maxBufferSize?: number;
+  // Scene node instances visited per glTF, so shared subtrees cannot fan out
+  maxNodeVisits?: number;
+}
+
+/**
+ * glTF/GLB, OBJ and STL meshes: vertex and triangle counts, bounds,
+ * materials, STL watertightness, and an orthographic preview rendered by a
+ * small z-buffered rasterizer so no GPU or native 3D library is needed.
+ */
+export class Model3dExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Parses glTF/GLB, OBJ and ASCII/binary STL meshes for vertex and triangle counts, bounding box, materials, STL watertightness and a rendered orthographic preview',
+    capabilities: Object.keys(MODEL_MIME_TYPES),
+    featureKeys: [
+      'model3d.vertex_count',
+      'model3d.triangle_count',
+      'model3d.bounding_box',
+      'model3d.materials',
+      'model3d.is_watertight',
+      'model3d.preview'
+    ],
+    enabled: true,
+    priority: 1
+  };
+
+  private db: FeatureDatabase;
+  private previewSize: number;
+  private maxPreviewTriangles: number;
+  private maxBufferSize: number;
+  private maxNodeVisits: number;
+
+  constructor(db: FeatureDatabase, config: Model3dExtractorConfig = {}) {
+    this.db = db;
+    this.previewSize = config.previewSize || 400;
+    this.maxPreviewTriangles = config.maxPreviewTriangles || 1000000;
+    this.maxBufferSize = config.maxBufferSize || 100 * 1024 * 1024;
+    this.maxNodeVisits = config.maxNodeVisits || 10000;
+  }
+
+  canHandle(mimeType: string): boolean {
+    return mimeType in MODEL_MIME_TYPES;
+  }
+
+  async parse(resource: Resource & { content: Buffer }): Promise<ParsedModel | null> {
+    const format = MODEL_MIME_TYPES[resource.mimeType || ''];
+
+    try {
+      switch (format) {
+        case 'stl':
+          return this.parseStl(resource.content);
+        case 'obj':
+          return this.parseObj(resource.content.toString('utf-8'));
+        case 'glb':
+          return await this.parseGltf(resource, ...readGlb(resource.content));
+        default:
+          return await this.parseGltf(resource, JSON.parse(resource.content.toString('utf-8')), null);
+      }
+    } catch (error: any) {
+      logger.warn('Failed to parse 3D model', { url: resource.url, format, error: error.message });
+      return null;
+    }
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+    const model = await this.parse(resource);
+    if (!model) {
+      return features;
+    }
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    add('model3d.vertex_count', String(model.vertexCount), FeatureType.NUMBER, { format: model.format, ...model.metadata });
+    add('model3d.triangle_count', String(model.triangleCount), FeatureType.NUMBER, { format: model.format });
+
+    if (model.bounds) {
+      const size = model.bounds.max.map((value, i) => round(value - model.bounds!.min[i], 6));
+      add('model3d.bounding_box', JSON.stringify({
+        min: model.bounds.min.map(value => round(value, 6)),
+        max: model.bounds.max.map(value => round(value, 6)),
+        size
+      }), FeatureType.JSON, { upAxis: model.upAxis });
+    }
+
+    if (model.materials) {
+      add('model3d.materials', JSON.stringify(model.materials), FeatureType.JSON, { count: model.materials.length });
+    }
+
+    if (model.watertight) {
+      const { watertight, ...report } = model.watertight;
+      add('model3d.is_watertight', JSON.stringify(watertight), FeatureType.JSON, report);
+    }
+
+    if (model.indices.length > 0 && shouldExtract('model3d.preview')) {
+      try {
+        const { buffer, renderedTriangles } = await this.renderPreview(model);
+        features.push(await storeBinaryFeature(this.db, resource.url, 'model3d_preview', buffer, ttl, EXTRACTOR_TOOL, {
+          dimensions: `${this.previewSize}x${this.previewSize}`,
+          format: 'png',
+          mimeType: 'image/png',
+          projection: 'orthographic',
+          renderedTriangles
+        }));
+      } catch (error: any) {
+        logger.warn('Failed to render model preview', { url: resource.url, error: error.message });
+      }
+    }
+
+    logger.info(`Extracted ${features.length} 3D model features from ${resource.url}`, {
+      featureCount: features.length,
+      format: model.format,
+      triangleCount: model.triangleCount
+    });
+
+    return features;
+  }
+
+  /**
+   * Binary STL is an 80-byte header, a facet count and 50 bytes per facet.
+   * Binary files may also start with "solid", so the size decides.
+   */
+  private parseStl(content: Buffer): ParsedModel {
+    const facetCount = content.length >= 84 ? content.readUInt32LE(80) : -1;
+    const isBinary = facetCount >= 0 && content.length === 84 + facetCount * 50;
+
+    let raw: Float32Array;
+    let name: string | null = null;
+    if (isBinary) {
+      raw = new Float32Array(facetCount * 9);
+      for (let facet = 0; facet < facetCount; facet++) {
+        const offset = 84 + facet * 50 + 12;
+        for (let i = 0; i < 9; i++) {
+          raw[facet * 9 + i] = content.readFloatLE(offset + i * 4);
+        }
+      }
+      const header = content.subarray(0, 80).toString('latin1').replace(/\0.*$/s, '').trim();
+      name = /^[\x20-\x7e]+$/.test(header) ? header : null;
+    } else {
+      const text = content.toString('utf-8');
+      name = text.match(/^\s*solid[ \t]+(.+)/)?.[1].trim() || null;
+      const values: number[] = [];
+      for (const match of text.matchAll(/vertex\s+(\S+)\s+(\S+)\s+(\S+)/g)) {
+        values.push(Number(match[1]), Number(match[2]), Number(match[3]));
+      }
+      raw = Float32Array.from(values.slice(0, values.length - (values.length % 9)));
+    }
+
+    // Facets repeat their corners; weld identical coordinates into shared vertices
+    const vertexIds = new Map<string, number>();
+    const welded: number[] = [];
+    const indices = new Uint32Array(raw.length / 3);
+    for (let i = 0; i < indices.length; i++) {
+      const key = `${raw[i * 3]},${raw[i * 3 + 1]},${raw[i * 3 + 2]}`;
+      let id = vertexIds.get(key);
+      if (id === undefined) {
+        id = welded.length / 3;
+        vertexIds.set(key, id);
+        welded.push(raw[i * 3], raw[i * 3 + 1], raw[i * 3 + 2]);
+      }
+      indices[i] = id;
+    }
+
+    const positions = Float32Array.from(welded);
+    return {
+      format: 'stl',
+      vertexCount: positions.length / 3,
+      triangleCount: indices.length / 3,
+      bounds: boundsOf(positions),
+      materials: null,
+      positions,
+      indices,
+      upAxis: 'z',
+      watertight: checkWatertight(indices, positions.length / 3),
+      metadata: { encoding: isBinary ? 'binary' : 'ascii', name }
+    };
+  }
+
+  /**
+   * Vertices and faces, with polygons fan-triangulated; materials are the
+   * usemtl names with the number of faces drawn in each
+   */
+  private parseObj(text: string): ParsedModel {
+    const vertices: number[] = [];
+    const indices: number[] = [];
+    const materials = new Map<string, number>();
+    const libraries: string[] = [];
+    const objects = new Set<string>();
+    let material: string | null = null;
+
+    for (const rawLine of text.split('\n')) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) continue;
+      const [keyword, ...args] = line.split(/\s+/);
+
+      if (keyword === 'v') {
+        vertices.push(Number(args[0]), Number(args[1]), Number(args[2]));
+      } else if (keyword === 'f') {
+        const vertexCount = vertices.length / 3;
+        // v, v/vt, v//vn or v/vt/vn; negative indices count back from the latest vertex
+        const corners = args.map(arg => {
+          const index = parseInt(arg.split('/')[0], 10);
+          return index < 0 ? vertexCount + index : index - 1;
+        }).filter(index => index >= 0 && index < vertexCount);
+        for (let i = 1; i + 1 < corners.length; i++) {
+          indices.push(corners[0], corners[i], corners[i + 1]);
+        }
+        if (material !== null && corners.length >= 3) {
+          materials.set(material, (materials.get(material) || 0) + 1);
+        }
+      } else if (keyword === 'usemtl') {
+        material = args.join(' ');
+        if (!materials.has(material)) materials.set(material, 0);
+      } else if (keyword === 'mtllib') {
+        libraries.push(args.join(' '));
+      } else if (keyword === 'o' || keyword === 'g') {
+        objects.add(args.join(' '));
+      }
+    }
+
+    const positions = Float32Array.from(vertices);
+    return {
+      format: 'obj',
+      vertexCount: positions.length / 3,
+      triangleCount: indices.length / 3,
+      bounds: boundsOf(positions),
+      materials: [...materials].map(([name, faces]) => ({ name, faces })),
+      positions,
+      indices: Uint32Array.from(indices),
+      upAxis: 'y',
+      metadata: { objects: objects.size, materialLibraries: libraries }
+    };
+  }
+
+  /**
+   * Mesh primitives instanced by the nodes of the default scene, in world
+   * space. Counts and bounds come from accessor metadata, so they are right
+   * even when a buffer cannot be read (external file missing, Draco, ...).
+   */
+  private async parseGltf(resource: Resource, gltf: any, binaryChunk: Buffer | null): Promise<ParsedModel> {
+    const buffers = await Promise.all((gltf.buffers || []).map((buffer: any, i: number) =>
+      this.loadGltfBuffer(resource.url, buffer, i === 0 ? binaryChunk : null)));
+
+    const vertices: number[] = [];
+    const indices: number[] = [];
+    let vertexCount = 0;
+    let triangleCount = 0;
+    let bounds: ModelBounds | null = null;
+    let incompletePrimitives = 0;
+
+    const addMesh = (meshIndex: number, matrix: number[]) => {
+      for (const primitive of gltf.meshes?.[meshIndex]?.primitives || []) {
+        const positionAccessor = gltf.accessors?.[primitive.attributes?.POSITION];
+        if (!positionAccessor) continue;
+
+        const mode = primitive.mode ?? 4;
+        const indexAccessor = primitive.indices !== undefined ? gltf.accessors?.[primitive.indices] : null;
+        const elementCount = indexAccessor ? indexAccessor.count : positionAccessor.count;
+        vertexCount += positionAccessor.count;
+        triangleCount += mode === 4 ? Math.floor(elementCount / 3) : mode === 5 || mode === 6 ? Math.max(elementCount - 2, 0) : 0;
+
+        const local = readAccessor(gltf, buffers, primitive.attributes.POSITION);
+        const elements = indexAccessor ? readAccessor(gltf, buffers, primitive.indices) : null;
+        if (!local || (indexAccessor && !elements) || primitive.extensions?.KHR_draco_mesh_compression) {
+          incompletePrimitives++;
+          if (positionAccessor.min && positionAccessor.max) {
+            bounds = extendBounds(bounds, boxCorners(positionAccessor.min, positionAccessor.max).map(point => transformPoint(matrix, point)));
+          }
+          continue;
+        }
+
+        const base = vertices.length / 3;
+        const world: Vec3[] = [];
+        for (let i = 0; i < positionAccessor.count; i++) {
+          const point = transformPoint(matrix, [local[i * 3], local[i * 3 + 1], local[i * 3 + 2]]);
+          world.push(point);
+          vertices.push(...point);
+        }
+        bounds = extendBounds(bounds, world);
+
+        const element = (i: number) => base + (elements ? elements[i] : i);
+        if (mode === 4) {
+          for (let i = 0; i + 2 < elementCount; i += 3) indices.push(element(i), element(i + 1), element(i + 2));
+        } else if (mode === 5) {
+          for (let i = 0; i + 2 < elementCount; i++) {
+            if (i % 2 === 0) indices.push(element(i), element(i + 1), element(i + 2));
+            else indices.push(element(i + 1), element(i), element(i + 2));
+          }
+        } else if (mode === 6) {
+          for (let i = 1; i + 1 < elementCount; i++) indices.push(element(0), element(i), element(i + 1));
+        }
+      }
+    };
+
+    // Nodes on the path from the scene root; a child already on it is a cycle
+    const path = new Set<number>();
+    let nodeVisits = 0;
+    let skippedNodes = 0;
+    const visit = (nodeIndex: number, parent: number[]) => {
+      const node = gltf.nodes?.[nodeIndex];
+      if (!node) return;
+      if (path.has(nodeIndex) || path.size > 64 || nodeVisits >= this.maxNodeVisits) {
+        skippedNodes++;
+        return;
+      }
+      nodeVisits++;
+      path.add(nodeIndex);
+      const matrix = multiply(parent, nodeMatrix(node));
+      if (node.mesh !== undefined) addMesh(node.mesh, matrix);
+      for (const child of node.children || []) visit(child, matrix);
+      path.delete(nodeIndex);
+    };
+
+    const scene = gltf.scenes?.[gltf.scene ?? 0];
+    if (scene) {
+      for (const root of scene.nodes || []) visit(root, IDENTITY);
+    } else {
+      // No scene: every mesh once, untransformed
+      (gltf.meshes || []).forEach((_: any, i: number) => addMesh(i, IDENTITY));
+    }
+
+    if (skippedNodes > 0) {
+      logger.warn('Skipped cyclic or excess glTF node references', { url: resource.url, skippedNodes, maxNodeVisits: this.maxNodeVisits });
+    }
+
+    const materials = (gltf.materials || []).map((material: any, index: number) => {
+      const pbr = material.pbrMetallicRoughness || {};
+      return {
+        index,
+        name: material.name || null,
+        baseColor: pbr.baseColorFactor ? toHex(pbr.baseColorFactor) : null,
+        metallic: pbr.metallicFactor ?? 1,
+        roughness: pbr.roughnessFactor ?? 1,
+        hasTexture: Boolean(pbr.baseColorTexture || material.normalTexture),
+        alphaMode: material.alphaMode || 'OPAQUE',
+        doubleSided: Boolean(material.doubleSided)
+      };
+    });
+
+    return {
+      format: binaryChunk ? 'glb' : 'gltf',
+      vertexCount,
+      triangleCount,
+      bounds,
+      materials,
+      positions: Float32Array.from(vertices),
+      indices: Uint32Array.from(indices),
+      upAxis: 'y',
+      metadata: {
+        generator: gltf.asset?.generator || null,
+        version: gltf.asset?.version || null,
+        meshes: gltf.meshes?.length || 0,
+        nodes: gltf.nodes?.length || 0,
+        extensionsUsed: gltf.extensionsUsed || [],
+        incompletePrimitives,
+        skippedNodes
+      }
+    };
+  }
+
+  private async loadGltfBuffer(modelUrl: string, buffer: any, binaryChunk: Buffer | null): Promise<Buffer | null> {
+    if (buffer.uri === undefined) {
+      return binaryChunk;
+    }
+    const dataUri = buffer.uri.match(/^data:[^;,]*;base64,(.*)$/);
+    if (dataUri) {
+      return Buffer.from(dataUri[1], 'base64');
+    }
+
+    const path = localPath(modelUrl);
+    if (!path) return null;
+    try {
+      // Buffers live next to the model; a uri that climbs out of its directory is not followed
+      const directory = dirname(path);
+      const bufferPath = resolve(directory, decodeURIComponent(buffer.uri));
+      const fromDirectory = relative(directory, bufferPath);
+      if (fromDirectory === '..' || fromDirectory.startsWith(`..${sep}`) || isAbsolute(fromDirectory)) {
+        logger.warn('glTF buffer outside the model directory', { url: modelUrl, uri: buffer.uri });
+        return null;
+      }
+
+      const { size } = await stat(bufferPath);
+      if (size > this.maxBufferSize) {
+        logger.warn('glTF buffer exceeds size limit', { url: modelUrl, uri: buffer.uri, size, maxBufferSize: this.maxBufferSize });
+        return null;
+      }
+      return await readFile(bufferPath);
+    } catch (error: any) {
+      logger.debug('Could not read glTF buffer', { url: modelUrl, uri: buffer.uri, error: error.message });
+      return null;
+    }
+  }
+
+  /**
+   * Flat-shaded orthographic view with a z-buffer, rendered into a raw RGB
+   * buffer and encoded as PNG. Faces are lit from both sides so meshes with
+   * inconsistent winding still read correctly.
+   */
+  private async renderPreview(model: ParsedModel): Promise<{ buffer: Buffer; renderedTriangles: number }> {
+    const size = this.previewSize;
+    const padding = Math.round(size * 0.05);
+    const { positions, indices } = model;
+    const count = positions.length / 3;
+
+    // Rotate into the preview camera's view space
+    const view = new Float32Array(positions.length);
+    const [cosYaw, sinYaw, cosPitch, sinPitch] = [Math.cos(PREVIEW_YAW), Math.sin(PREVIEW_YAW), Math.cos(PREVIEW_PITCH), Math.sin(PREVIEW_PITCH)];
+    let [minX, maxX, minY, maxY] = [Infinity, -Infinity, Infinity, -Infinity];
+    for (let i = 0; i < count; i++) {
+      let [x, y, z] = [positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]];
+      if (model.upAxis === 'z') [y, z] = [z, -y];
+      const x1 = x * cosYaw + z * sinYaw;
+      const z1 = -x * sinYaw + z * cosYaw;
+      const y2 = y * cosPitch - z1 * sinPitch;
+      const z2 = y * sinPitch + z1 * cosPitch;
+      view[i * 3] = x1;
+      view[i * 3 + 1] = -y2;
+      view[i * 3 + 2] = z2;
+      minX = Math.min(minX, x1); maxX = Math.max(maxX, x1);
+      minY = Math.min(minY, -y2); maxY = Math.max(maxY, -y2);
+    }
+
+    const extent = Math.max(maxX - minX, maxY - minY) || 1;
+    const scale = (size - 2 * padding) / extent;
+    const offsetX = (size - (maxX - minX) * scale) / 2;
+    const offsetY = (size - (maxY - minY) * scale) / 2;
+    for (let i = 0; i < count; i++) {
+      view[i * 3] = offsetX + (view[i * 3] - minX) * scale;
+      view[i * 3 + 1] = offsetY + (view[i * 3 + 1] - minY) * scale;
+      view[i * 3 + 2] *= scale;
+    }
+
+    const pixels = Buffer.alloc(size * size * 3, PREVIEW_BACKGROUND);
+    const depth = new Float32Array(size * size).fill(-Infinity);
+    const triangleCount = indices.length / 3;
+    const step = Math.max(1, Math.ceil(triangleCount / this.maxPreviewTriangles));
+    let rendered = 0;
+
+    for (let t = 0; t < triangleCount; t += step) {
+      const [a, b, c] = [indices[t * 3] * 3, indices[t * 3 + 1] * 3, indices[t * 3 + 2] * 3];
+      const [ax, ay, az, bx, by, bz, cx, cy, cz] = [view[a], view[a + 1], view[a + 2], view[b], view[b + 1], view[b + 2], view[c], view[c + 1], view[c + 2]];
+      const area = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+      if (!area) continue;
+
+      // Screen y points down, so flip it back before taking the face normal
+      const normal = normalize(cross([bx - ax, ay - by, bz - az], [cx - ax, ay - cy, cz - az]));
+      const light = 0.3 + 0.7 * Math.abs(dot(normal, PREVIEW_LIGHT));
+      const color = PREVIEW_COLOR.map(channel => Math.round(channel * light));
+
+      const x0 = Math.max(0, Math.floor(Math.min(ax, bx, cx)));
+      const x1 = Math.min(size - 1, Math.ceil(Math.max(ax, bx, cx)));
+      const y0 = Math.max(0, Math.floor(Math.min(ay, by, cy)));
+      const y1 = Math.min(size - 1, Math.ceil(Math.max(ay, by, cy)));
+      for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+          const px = x + 0.5;
+          const py = y + 0.5;
+          const w0 = ((bx - px) * (cy - py) - (by - py) * (cx - px)) / area;
+          const w1 = ((cx - px) * (ay - py) - (cy - py) * (ax - px)) / area;
+          const w2 = 1 - w0 - w1;
+          if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+
+          const z = w0 * az + w1 * bz + w2 * cz;
+          const pixel = y * size + x;
+          if (z <= depth[pixel]) continue;
+          depth[pixel] = z;
+          pixels[pixel * 3] = color[0];
+          pixels[pixel * 3 + 1] = color[1];
+          pixels[pixel * 3 + 2] = color[2];
+        }
+      }
+      rendered++;
+    }
+
+    const buffer = await sharp(pixels, { raw: { width: size, height: size, channels: 3 } }).png().toBuffer();
+    return { buffer, renderedTriangles: rendered };
+  }
+}
+
+/**
+ * Every edge of a closed manifold surface is shared by exactly two faces,
+ * traversed in opposite directions when the winding is consistent
+ */
+function checkWatertight(indices: Uint32Array, vertexCount: number): WatertightReport {
+  const edges = new Map<number, number>();
+  const directed = new Set<number>();
+  let consistentOrientation = true;
+  let degenerateTriangles = 0;
+
+  for (let t = 0; t < indices.length; t += 3) {
+    const corners = [indices[t], indices[t + 1], indices[t + 2]];
+    if (corners[0] === corners[1] || corners[1] === corners[2] || corners[0] === corners[2]) {
+      degenerateTriangles++;
+      continue;
+    }
+    for (let i = 0; i < 3; i++) {
+      const from = corners[i];
+      const to = corners[(i + 1) % 3];
+      const key = Math.min(from, to) * vertexCount + Math.max(from, to);
+      edges.set(key, (edges.get(key) || 0) + 1);
+      const directedKey = from * vertexCount + to;
+      if (directed.has(directedKey)) consistentOrientation = false;
+      directed.add(directedKey);
+    }
+  }
+
+  let boundaryEdges = 0;
+  let nonManifoldEdges = 0;
+  for (const uses of edges.values()) {
+    if (uses === 1) boundaryEdges++;
+    else if (uses > 2) nonManifoldEdges++;
+  }
+
+  return {
+    watertight: edges.size > 0 && boundaryEdges === 0 && nonManifoldEdges === 0,
+    boundaryEdges,
+    nonManifoldEdges,
+    consistentOrientation,
+    degenerateTriangles
+  };
+}
+
+function readGlb(content: Buffer): [any, Buffer | null] {
+  if (content.length < 20 || content.readUInt32LE(0) !== GLB_MAGIC) {
+    throw new Error('Not a GLB file');
+  }
+
+  let json: any = null;
+  let binary: Buffer | null = null;
+  const length = Math.min(content.readUInt32LE(8), content.length);
+  for (let offset = 12; offset + 8 <= length;) {
+    const chunkLength = content.readUInt32LE(offset);
+    const chunkType = content.readUInt32LE(offset + 4);
+    const chunk = content.subarray(offset + 8, offset + 8 + chunkLength);
+    if (chunkType === GLB_CHUNK_JSON) json = JSON.parse(chunk.toString('utf-8'));
+    else if (chunkType === GLB_CHUNK_BIN && !binary) binary = chunk;
+    offset += 8 + chunkLength;
+  }
+
+  if (!json) {
+    throw new Error('GLB has no JSON chunk');
+  }
+  return [json, binary];
+}
+
+/**
+ * Accessor values as a flat array, or null when its buffer is unavailable.
+ * Accessors without a buffer view are all zeros, as the spec defines.
+ */
+function readAccessor(gltf: any, buffers: Array<Buffer | null>, accessorIndex: number): Float64Array | null {
+  const accessor = gltf.accessors?.[accessorIndex];
+  const component = COMPONENT_TYPES[accessor?.componentType];
+  const size = ACCESSOR_SIZES[accessor?.type];
+  if (!accessor || !component || !size) return null;
+
+  const values = new Float64Array(accessor.count * size);
+  if (accessor.bufferView === undefined) return values;
+
+  const bufferView = gltf.bufferViews?.[accessor.bufferView];
+  const buffer = bufferView ? buffers[bufferView.buffer] : null;
+  if (!buffer) return null;
+
+  const [componentSize, read] = component;
+  const stride = bufferView.byteStride || componentSize * size;
+  const start = (bufferView.byteOffset || 0) + (accessor.byteOffset || 0);
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  if (start + stride * (accessor.count - 1) + componentSize * size > buffer.byteLength) return null;
+
+  for (let i = 0; i < accessor.count; i++) {
+    for (let c = 0; c < size; c++) {
+      values[i * size + c] = read(view, start + i * stride + c * componentSize);
+    }
+  }
+  return values;
+}
+
+// 4x4 matrices are column-major, as glTF stores them
+const IDENTITY = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+function nodeMatrix(node: any): number[] {
+  if (Array.isArray(node.matrix) && node.matrix.length === 16) return node.matrix;
+
+  const [tx, ty, tz] = node.translation || [0, 0, 0];
+  const [x, y, z, w] = node.rotation || [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale || [1, 1, 1];
+  return [
+    (1 - 2 * (y * y + z * z)) * sx, 2 * (x * y + z * w) * sx, 2 * (x * z - y * w) * sx, 0,
+    2 * (x * y - z * w) * sy, (1 - 2 * (x * x + z * z)) * sy, 2 * (y * z + x * w) * sy, 0,
+    2 * (x * z + y * w) * sz, 2 * (y * z - x * w) * sz, (1 - 2 * (x * x + y * y)) * sz, 0,
+    tx, ty, tz, 1
+  ];
+}
+
+function multiply(a: number[], b: number[]): number[] {
+  const result = new Array(16).fill(0);
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      for (let k = 0; k < 4; k++) {
+        result[column * 4 + row] += a[k * 4 + row] * b[column * 4 + k];
+      }
+    }
+  }
+  return result;
+}
+
+function transformPoint(m: number[], [x, y, z]: Vec3): Vec3 {
+  return [
+    m[0] * x + m[4] * y + m[8] * z + m[12],
+    m[1] * x + m[5] * y + m[9] * z + m[13],
+    m[2] * x + m[6] * y + m[10] * z + m[14]
+  ];
+}
+
+function boxCorners(min: number[], max: number[]): Vec3[] {
+  const corners: Vec3[] = [];
+  for (const x of [min[0], max[0]]) for (const y of [min[1], max[1]]) for (const z of [min[2], max[2]]) corners.push([x, y, z]);
+  return corners;
+}
+
+function extendBounds(bounds: ModelBounds | null, points: Vec3[]): ModelBounds | null {
+  for (const point of points) {
+    if (!bounds) {
+      bounds = { min: [...point], max: [...point] };
+      continue;
+    }
+    for (let i = 0; i < 3; i++) {
+      bounds.min[i] = Math.min(bounds.min[i], point[i]);
+      bounds.max[i] = Math.max(bounds.max[i], point[i]);
+    }
+  }
+  return bounds;
+}
+
+function boundsOf(positions: Float32Array): ModelBounds | null {
+  if (positions.length < 3) return null;
+  const bounds: ModelBounds = { min: [Infinity, Infinity, Infinity], max: [-Infinity, -Infinity, -Infinity] };
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      bounds.min[axis] = Math.min(bounds.min[axis], positions[i + axis]);
+      bounds.max[axis] = Math.max(bounds.max[axis], positions[i + axis]);
+    }
+  }
+  return bounds;
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function normalize(v: number[]): Vec3 {
+  const length = Math.hypot(v[0], v[1], v[2]) || 1;
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
+
+function toHex(rgba: number[]): string {
+  return '#' + rgba.slice(0, 3).map(channel => Math.round(Math.max(0, Math.min(1, channel)) * 255).toString(16).padStart(2, '0')).join('');
+}
+
+
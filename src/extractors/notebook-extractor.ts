@@ -0,0 +1,323 @@
+import sharp from 'sharp';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { FeatureDatabase } from '../db/database.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter, storeBinaryFeature, countBy } from './feature-helpers.js';
+
+const logger = createLogger('notebook-extractor');
+
+const EXTRACTOR_TOOL = 'notebook-extractor';
+
+const NOTEBOOK_MIME_TYPE = 'application/x-ipynb+json';
+
+// Output image types, in the order Jupyter front ends prefer them
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/svg+xml'];
+
+export interface NotebookExtractorConfig {
+  maxOutputImages?: number;
+}
+
+export interface NotebookCell {
+  index: number;
+  type: string;
+  source: string;
+  executionCount: number | null;
+  outputCount: number;
+}
+
+export interface NotebookImport {
+  module: string;
+  kind: 'import' | 'from' | 'library' | 'pip';
+  cells: number[];
+}
+
+export interface ParsedNotebook {
+  nbformat: number | null;
+  metadata: Record<string, any>;
+  cells: any[];
+}
+
+export class NotebookExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Parses Jupyter notebooks into cells, kernel info, imports and an outputs summary, storing output images as binary features',
+    capabilities: [NOTEBOOK_MIME_TYPE],
+    featureKeys: [
+      'notebook.cells',
+      'notebook.kernel',
+      'notebook.imports',
+      'notebook.outputs_summary',
+      'notebook.output_images'
+    ],
+    enabled: true,
+    priority: 1
+  };
+
+  private db: FeatureDatabase;
+  private maxOutputImages: number;
+
+  constructor(db: FeatureDatabase, config: NotebookExtractorConfig = {}) {
+    this.db = db;
+    this.maxOutputImages = config.maxOutputImages || 50;
+  }
+
+  canHandle(mimeType: string): boolean {
+    return mimeType === NOTEBOOK_MIME_TYPE;
+  }
+
+  /**
+   * Parse the notebook JSON, accepting nbformat 4 and the worksheet layout of nbformat 3
+   */
+  parse(resource: Resource & { content: Buffer }): ParsedNotebook | null {
+    try {
+      const notebook = JSON.parse(resource.content.toString('utf-8'));
+      const cells = notebook.cells || (notebook.worksheets || []).flatMap((sheet: any) => sheet.cells || []);
+      return {
+        nbformat: typeof notebook.nbformat === 'number' ? notebook.nbformat : null,
+        metadata: notebook.metadata || {},
+        cells: Array.isArray(cells) ? cells : []
+      };
+    } catch (error: any) {
+      logger.warn('Failed to parse notebook JSON', { url: resource.url, error: error.message });
+      return null;
+    }
+  }
+
+  /**
+   * Markdown and code sources joined in cell order, used for the text features
+   */
+  getText(notebook: ParsedNotebook): string {
+    return notebook.cells
+      .filter(cell => cell.cell_type === 'markdown' || cell.cell_type === 'code')
+      .map(cell => joinSource(cell.source ?? cell.input))
+      .join('\n\n');
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter,
+    notebook: ParsedNotebook | null = this.parse(resource)
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+    if (!notebook) {
+      return features;
+    }
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    const kernel = this.readKernel(notebook.metadata);
+    add('notebook.kernel', JSON.stringify(kernel), FeatureType.JSON, { nbformat: notebook.nbformat });
+
+    const cells: NotebookCell[] = notebook.cells.map((cell, index) => ({
+      index,
+      type: cell.cell_type || 'unknown',
+      source: joinSource(cell.source ?? cell.input),
+      executionCount: cell.execution_count ?? cell.prompt_number ?? null,
+      outputCount: Array.isArray(cell.outputs) ? cell.outputs.length : 0
+    }));
+    const typeCounts = countBy(cells.map(cell => cell.type));
+    add('notebook.cells', JSON.stringify(cells), FeatureType.JSON, { count: cells.length, types: typeCounts });
+
+    const imports = this.findImports(cells, kernel.language);
+    add('notebook.imports', JSON.stringify(imports), FeatureType.JSON, {
+      count: imports.length,
+      language: kernel.language
+    });
+
+    add('notebook.outputs_summary', JSON.stringify(this.summarizeOutputs(notebook.cells)), FeatureType.JSON);
+
+    if (shouldExtract('notebook.output_images')) {
+      const images = await this.storeOutputImages(resource.url, notebook.cells, ttl);
+      add('notebook.output_images', JSON.stringify(images), FeatureType.JSON, {
+        count: images.length,
+        maxOutputImages: this.maxOutputImages
+      });
+    }
+
+    logger.info(`Extracted ${features.length} notebook features from ${resource.url}`, {
+      featureCount: features.length,
+      cellCount: cells.length,
+      language: kernel.language
+    });
+
+    return features;
+  }
+
+  private readKernel(metadata: Record<string, any>): {
+    name: string | null;
+    displayName: string | null;
+    language: string | null;
+    languageVersion: string | null;
+  } {
+    const spec = metadata.kernelspec || {};
+    const info = metadata.language_info || {};
+    return {
+      name: spec.name || null,
+      displayName: spec.display_name || null,
+      language: info.name || spec.language || null,
+      languageVersion: info.version || null
+    };
+  }
+
+  /**
+   * Python import/from statements, R library()/require() calls and
+   * %pip / !pip installs, grouped by module with the cells that use them
+   */
+  private findImports(cells: NotebookCell[], language: string | null): NotebookImport[] {
+    const imports = new Map<string, NotebookImport>();
+    const record = (module: string, kind: NotebookImport['kind'], cell: number) => {
+      const key = `${kind}:${module}`;
+      const entry = imports.get(key) || { module, kind, cells: [] };
+      if (!entry.cells.includes(cell)) entry.cells.push(cell);
+      imports.set(key, entry);
+    };
+
+    const isR = language?.toLowerCase() === 'r';
+    for (const cell of cells) {
+      if (cell.type !== 'code') continue;
+
+      for (const rawLine of cell.source.split('\n')) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+
+        const pip = line.match(/^[%!]\s*(?:pip|pip3|conda)\s+install\s+(.+)$/);
+        if (pip) {
+          for (const name of pip[1].split(/\s+/).filter(arg => arg && !arg.startsWith('-'))) {
+            record(name, 'pip', cell.index);
+          }
+          continue;
+        }
+
+        if (isR) {
+          for (const match of line.matchAll(/\b(?:library|require)\(\s*["']?([\w.]+)["']?/g)) {
+            record(match[1], 'library', cell.index);
+          }
+          continue;
+        }
+
+        const from = line.match(/^from\s+(\.*[\w.]*)\s+import\b/);
+        if (from) {
+          record(from[1], 'from', cell.index);
+          continue;
+        }
+
+        const direct = line.match(/^import\s+(.+)$/);
+        if (direct) {
+          for (const part of direct[1].split(',')) {
+            const module = part.trim().split(/\s+as\s+/)[0].trim();
+            if (/^[\w.]+$/.test(module)) record(module, 'import', cell.index);
+          }
+        }
+      }
+    }
+
+    return [...imports.values()];
+  }
+
+  private summarizeOutputs(cells: any[]): Record<string, any> {
+    const outputTypes: Record<string, number> = {};
+    const mimeTypes: Record<string, number> = {};
+    const errors: Array<{ cell: number; name: string; value: string }> = [];
+    let cellsWithOutputs = 0;
+    let streamBytes = 0;
+
+    cells.forEach((cell, index) => {
+      const outputs: any[] = Array.isArray(cell.outputs) ? cell.outputs : [];
+      if (outputs.length > 0) cellsWithOutputs++;
+
+      for (const output of outputs) {
+        outputTypes[output.output_type] = (outputTypes[output.output_type] || 0) + 1;
+        for (const mimeType of Object.keys(output.data || {})) {
+          mimeTypes[mimeType] = (mimeTypes[mimeType] || 0) + 1;
+        }
+        if (output.output_type === 'stream') {
+          streamBytes += joinSource(output.text).length;
+        }
+        if (output.output_type === 'error') {
+          errors.push({ cell: index, name: output.ename, value: output.evalue });
+        }
+      }
+    });
+
+    const executionCounts = cells
+      .map(cell => cell.execution_count)
+      .filter((count): count is number => typeof count === 'number');
+    // Cells run top to bottom exactly once have strictly increasing counts
+    const executedInOrder = executionCounts.every((count, i) => i === 0 || count > executionCounts[i - 1]);
+
+    return {
+      cellsWithOutputs,
+      outputTypes,
+      mimeTypes,
+      errors,
+      streamBytes,
+      executedCells: executionCounts.length,
+      executedInOrder
+    };
+  }
+
+  /**
+   * Decode image outputs into notebook_output_image_N binary features and
+   * return the URLs they are served from
+   */
+  private async storeOutputImages(resourceUrl: string, cells: any[], ttl: number): Promise<Array<Record<string, any>>> {
+    const images: Array<Record<string, any>> = [];
+
+    for (let cellIndex = 0; cellIndex < cells.length && images.length < this.maxOutputImages; cellIndex++) {
+      const outputs: any[] = Array.isArray(cells[cellIndex].outputs) ? cells[cellIndex].outputs : [];
+
+      for (const output of outputs) {
+        const mimeType = IMAGE_MIME_TYPES.find(type => output.data?.[type] !== undefined);
+        if (!mimeType || images.length >= this.maxOutputImages) continue;
+
+        const data = joinSource(output.data[mimeType]);
+        const storageKey = `notebook_output_image_${images.length + 1}`;
+        const size = output.metadata?.[mimeType] || {};
+
+        // SVG output is rasterized: served as-is it would run any script it carries
+        let buffer: Buffer;
+        let storedType = mimeType;
+        if (mimeType === 'image/svg+xml') {
+          try {
+            buffer = await sharp(Buffer.from(data, 'utf-8')).png().toBuffer();
+          } catch (error: any) {
+            logger.warn('Failed to rasterize SVG output', { url: resourceUrl, cell: cellIndex, error: error.message });
+            continue;
+          }
+          storedType = 'image/png';
+        } else {
+          buffer = Buffer.from(data.replace(/\s+/g, ''), 'base64');
+        }
+
+        const stored = await storeBinaryFeature(this.db, resourceUrl, storageKey, buffer, ttl, EXTRACTOR_TOOL, {
+          mimeType: storedType,
+          cell: cellIndex
+        });
+
+        images.push({
+          index: images.length + 1,
+          cell: cellIndex,
+          mimeType: storedType,
+          ...(storedType !== mimeType ? { originalMimeType: mimeType } : {}),
+          bytes: buffer.length,
+          width: size.width,
+          height: size.height,
+          url: stored.value
+        });
+      }
+    }
+
+    return images;
+  }
+}
+
+// Notebook sources and outputs are either a string or a list of lines
+function joinSource(source: string | string[] | undefined): string {
+  if (Array.isArray(source)) return source.join('');
+  return source || '';
+}
+
@@ -0,0 +1,454 @@
+import { load, CheerioAPI } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { posix } from 'path';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { FeatureStoreError, ErrorCode } from '../types/errors.js';
+import { ArchiveReader } from '../core/archive-reader.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter } from './feature-helpers.js';
+
+const logger = createLogger('office-extractor');
+
+const EXTRACTOR_TOOL = 'office-extractor';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const PPTX_MIME = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+// Columns a worksheet can have (A to XFD)
+const XLSX_MAX_COLUMNS = 16384;
+
+export interface OfficeExtractorConfig {
+  maxUncompressedSize?: number;
+  maxTableRows?: number;
+  // Spreadsheet columns read per row; cells further right are dropped
+  maxTableColumns?: number;
+}
+
+interface Heading {
+  level: number;
+  text: string;
+}
+
+interface Table {
+  name?: string;
+  rows: string[][];
+}
+
+interface SheetInfo {
+  name: string;
+  index: number;
+  dimension: string | null;
+  rowCount: number;
+  columnCount: number;
+  headers: string[];
+}
+
+interface SlideInfo {
+  slide: number;
+  title: string | null;
+  text: string;
+}
+
+interface OfficeContent {
+  kind: 'docx' | 'xlsx' | 'pptx';
+  text: string;
+  headings: Heading[];
+  tables: Table[];
+  metadata: Record<string, any>;
+  sheets?: SheetInfo[];
+  slides?: SlideInfo[];
+}
+
+type Parts = Record<string, Buffer>;
+
+export class OfficeExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Extracts text, headings, tables and metadata from DOCX, XLSX and PPTX files',
+    capabilities: [DOCX_MIME, XLSX_MIME, PPTX_MIME],
+    featureKeys: [
+      'document.text',
+      'document.headings',
+      'document.tables',
+      'document.metadata',
+      'spreadsheet.sheets',
+      'presentation.slide_count',
+      'presentation.slides'
+    ],
+    enabled: true,
+    priority: 4
+  };
+
+  private maxUncompressedSize: number;
+  private maxTableRows: number;
+  private maxTableColumns: number;
+
+  constructor(config: OfficeExtractorConfig = {}) {
+    this.maxUncompressedSize = config.maxUncompressedSize || 200 * 1024 * 1024;
+    this.maxTableRows = config.maxTableRows || 500;
+    this.maxTableColumns = Math.min(config.maxTableColumns || 1024, XLSX_MAX_COLUMNS);
+  }
+
+  canHandle(mimeType: string): boolean {
+    return OfficeExtractor.info.capabilities.includes(mimeType);
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+    const parts = this.unpack(resource);
+
+    let content: OfficeContent;
+    if (resource.mimeType === DOCX_MIME) {
+      content = this.parseDocx(parts);
+    } else if (resource.mimeType === XLSX_MIME) {
+      content = this.parseXlsx(parts);
+    } else {
+      content = this.parsePptx(parts);
+    }
+    content.metadata = { ...this.parseCoreProperties(parts), ...content.metadata };
+
+    logger.trace('Parsed OOXML container', {
+      url: resource.url,
+      kind: content.kind,
+      parts: Object.keys(parts).length
+    });
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    add('document.text', content.text, FeatureType.TEXT, { kind: content.kind, charCount: content.text.length });
+    add('document.headings', JSON.stringify(content.headings), FeatureType.JSON, { count: content.headings.length });
+    add('document.tables', JSON.stringify(content.tables), FeatureType.JSON, { count: content.tables.length });
+    add('document.metadata', JSON.stringify(content.metadata), FeatureType.JSON, { kind: content.kind });
+
+    if (content.sheets) {
+      add('spreadsheet.sheets', JSON.stringify(content.sheets), FeatureType.JSON, { count: content.sheets.length });
+    }
+
+    if (content.slides) {
+      add('presentation.slide_count', String(content.slides.length), FeatureType.NUMBER);
+      add('presentation.slides', JSON.stringify(content.slides), FeatureType.JSON, { count: content.slides.length });
+    }
+
+    logger.info(`Extracted ${features.length} office features from ${resource.url}`, {
+      kind: content.kind,
+      featureCount: features.length
+    });
+
+    return features;
+  }
+
+  private unpack(resource: Resource & { content: Buffer }): Parts {
+    const parts: Parts = {};
+
+    try {
+      // The reader caps inflation at each member's declared size, and the declared sizes at the budget
+      const archive = ArchiveReader.open(resource.content, 'application/zip', resource.url, {
+        maxMemberSize: this.maxUncompressedSize,
+        maxTotalReadSize: this.maxUncompressedSize
+      });
+
+      // Only XML parts and relationships are needed; media is skipped to keep memory bounded
+      for (const entry of archive.entries) {
+        if (entry.type !== 'file' || (!entry.path.endsWith('.xml') && !entry.path.endsWith('.rels'))) {
+          continue;
+        }
+        const skipReason = archive.skipReason(entry);
+        if (skipReason) {
+          throw new Error(`${entry.path}: ${skipReason}`);
+        }
+        parts[entry.path] = archive.read(entry);
+      }
+    } catch (error: any) {
+      throw new FeatureStoreError(
+        ErrorCode.EXTRACTION_FAILED,
+        `Failed to unpack Office document ${resource.url}: ${error.message}`,
+        EXTRACTOR_TOOL,
+        { resourceUrl: resource.url }
+      );
+    }
+
+    return parts;
+  }
+
+  private loadXml(parts: Parts, path: string): CheerioAPI | null {
+    const data = parts[path];
+    return data ? load(data.toString('utf-8'), { xml: true }) : null;
+  }
+
+  /**
+   * Resolve relationship ids (r:id) of a part to the paths of their targets.
+   */
+  private loadRelationships(parts: Parts, partPath: string): Map<string, string> {
+    const relationships = new Map<string, string>();
+    const dir = posix.dirname(partPath);
+    const $ = this.loadXml(parts, posix.join(dir, '_rels', `${posix.basename(partPath)}.rels`));
+
+    $?.('Relationship').each((_, el) => {
+      const target = $(el).attr('Target');
+      const id = $(el).attr('Id');
+      if (target && id) {
+        relationships.set(id, target.startsWith('/') ? target.slice(1) : posix.join(dir, target));
+      }
+    });
+
+    return relationships;
+  }
+
+  private parseCoreProperties(parts: Parts): Record<string, any> {
+    const $ = this.loadXml(parts, 'docProps/core.xml');
+    if (!$) {
+      return {};
+    }
+
+    const read = (tag: string) => $(tag.replace(':', '\\:')).first().text().trim() || null;
+    return {
+      title: read('dc:title'),
+      subject: read('dc:subject'),
+      author: read('dc:creator'),
+      keywords: read('cp:keywords'),
+      lastModifiedBy: read('cp:lastModifiedBy'),
+      created: read('dcterms:created'),
+      modified: read('dcterms:modified')
+    };
+  }
+
+  private parseDocx(parts: Parts): OfficeContent {
+    const $ = this.loadXml(parts, 'word/document.xml');
+    if (!$) {
+      throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, 'DOCX is missing word/document.xml', EXTRACTOR_TOOL);
+    }
+
+    // Map style ids to their display names so localized heading styles are recognised
+    const styleNames = new Map<string, string>();
+    const styles = this.loadXml(parts, 'word/styles.xml');
+    styles?.('w\\:style').each((_, el) => {
+      const id = styles(el).attr('w:styleId');
+      const name = styles(el).find('w\\:name').attr('w:val');
+      if (id && name) {
+        styleNames.set(id, name.toLowerCase());
+      }
+    });
+
+    const paragraphText = (el: Element): string => {
+      let text = '';
+      $(el).find('w\\:t, w\\:tab, w\\:br, w\\:cr').each((_, node) => {
+        text += node.name === 'w:t' ? $(node).text() : node.name === 'w:tab' ? '\t' : '\n';
+      });
+      return text;
+    };
+
+    const headingLevel = (el: Element): number | null => {
+      const outline = $(el).find('w\\:pPr > w\\:outlineLvl').attr('w:val');
+      if (outline !== undefined && !isNaN(Number(outline))) {
+        return Number(outline) + 1;
+      }
+      const styleId = $(el).find('w\\:pPr > w\\:pStyle').attr('w:val');
+      if (!styleId) {
+        return null;
+      }
+      const styleName = styleNames.get(styleId) || styleId.toLowerCase();
+      if (styleName === 'title') {
+        return 1;
+      }
+      const match = styleName.match(/^heading\s*(\d)$/);
+      return match ? Number(match[1]) : null;
+    };
+
+    const blocks: string[] = [];
+    const headings: Heading[] = [];
+    const tables: Table[] = [];
+
+    $('w\\:body').children().each((_, el) => {
+      if (el.name === 'w:p') {
+        const text = paragraphText(el);
+        blocks.push(text);
+        const level = headingLevel(el);
+        if (level !== null && text.trim()) {
+          headings.push({ level, text: text.trim() });
+        }
+      } else if (el.name === 'w:tbl') {
+        const rows: string[][] = [];
+        $(el).find('w\\:tr').each((_, tr) => {
+          const cells: string[] = [];
+          $(tr).children('w\\:tc').each((_, tc) => {
+            cells.push($(tc).find('w\\:p').toArray().map(paragraphText).join('\n').trim());
+          });
+          rows.push(cells);
+        });
+        tables.push({ rows: rows.slice(0, this.maxTableRows) });
+        blocks.push(rows.map(cells => cells.join('\t')).join('\n'));
+      }
+    });
+
+    const app = this.loadXml(parts, 'docProps/app.xml');
+    const pages = app ? Number(app('Pages').first().text()) : NaN;
+
+    return {
+      kind: 'docx',
+      text: blocks.join('\n').trim(),
+      headings,
+      tables,
+      metadata: isNaN(pages) ? {} : { pageCount: pages }
+    };
+  }
+
+  private parseXlsx(parts: Parts): OfficeContent {
+    const workbook = this.loadXml(parts, 'xl/workbook.xml');
+    if (!workbook) {
+      throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, 'XLSX is missing xl/workbook.xml', EXTRACTOR_TOOL);
+    }
+
+    const sharedStrings: string[] = [];
+    const strings = this.loadXml(parts, 'xl/sharedStrings.xml');
+    strings?.('si').each((_, el) => {
+      sharedStrings.push(strings(el).find('t').toArray().map(t => strings(t).text()).join(''));
+    });
+
+    const relationships = this.loadRelationships(parts, 'xl/workbook.xml');
+    const sheets: SheetInfo[] = [];
+    const tables: Table[] = [];
+    const textBlocks: string[] = [];
+
+    workbook('sheet').each((index, el) => {
+      const name = workbook(el).attr('name') || `Sheet${index + 1}`;
+      const path = relationships.get(workbook(el).attr('r:id') || '');
+      const $ = path ? this.loadXml(parts, path) : null;
+      if (!$) {
+        return;
+      }
+
+      const rows: string[][] = [];
+      let rowCount = 0;
+      let columnCount = 0;
+
+      $('sheetData > row').each((_, row) => {
+        // Rows past the table limit are counted but not read
+        rowCount++;
+        if (rows.length >= this.maxTableRows) {
+          return;
+        }
+
+        const cells: string[] = [];
+        $(row).children('c').each((position, c) => {
+          const ref = $(c).attr('r');
+          const column = ref ? this.columnIndex(ref) : position;
+          if (column < 0 || column >= this.maxTableColumns) {
+            return;
+          }
+          const type = $(c).attr('t');
+          let value: string;
+          if (type === 's') {
+            value = sharedStrings[Number($(c).children('v').text())] ?? '';
+          } else if (type === 'inlineStr') {
+            value = $(c).find('is t').toArray().map(t => $(t).text()).join('');
+          } else {
+            value = $(c).children('v').text();
+          }
+          cells[column] = value;
+        });
+
+        const filled = Array.from(cells, cell => cell ?? '');
+        columnCount = Math.max(columnCount, filled.length);
+        rows.push(filled);
+      });
+
+      const headers = rows.find(row => row.some(cell => cell.trim() !== '')) || [];
+
+      sheets.push({
+        name,
+        index,
+        dimension: $('dimension').attr('ref') || null,
+        rowCount,
+        columnCount,
+        headers
+      });
+      tables.push({ name, rows });
+      textBlocks.push(`${name}\n${rows.map(row => row.join('\t')).join('\n')}`);
+    });
+
+    return {
+      kind: 'xlsx',
+      text: textBlocks.join('\n\n').trim(),
+      headings: sheets.map(sheet => ({ level: 1, text: sheet.name })),
+      tables,
+      metadata: { sheetCount: sheets.length },
+      sheets
+    };
+  }
+
+  private parsePptx(parts: Parts): OfficeContent {
+    const presentation = this.loadXml(parts, 'ppt/presentation.xml');
+    if (!presentation) {
+      throw new FeatureStoreError(ErrorCode.EXTRACTION_FAILED, 'PPTX is missing ppt/presentation.xml', EXTRACTOR_TOOL);
+    }
+
+    const relationships = this.loadRelationships(parts, 'ppt/presentation.xml');
+    const slides: SlideInfo[] = [];
+    const headings: Heading[] = [];
+    const tables: Table[] = [];
+
+    presentation('p\\:sldIdLst > p\\:sldId').each((index, el) => {
+      const path = relationships.get(presentation(el).attr('r:id') || '');
+      const $ = path ? this.loadXml(parts, path) : null;
+      if (!$) {
+        return;
+      }
+
+      const paragraphs = (scope: AnyNode) => $(scope).find('a\\:p').toArray()
+        .map(p => $(p).find('a\\:t').toArray().map(t => $(t).text()).join(''))
+        .filter(text => text.trim() !== '');
+
+      let title: string | null = null;
+      $('p\\:sp').each((_, shape) => {
+        const placeholder = $(shape).find('p\\:nvSpPr p\\:ph').attr('type');
+        if (title === null && (placeholder === 'title' || placeholder === 'ctrTitle')) {
+          title = paragraphs(shape).join(' ').trim() || null;
+        }
+      });
+
+      $('a\\:tbl').each((_, tbl) => {
+        const rows = $(tbl).find('a\\:tr').toArray().map(tr =>
+          $(tr).children('a\\:tc').toArray().map(tc => paragraphs(tc).join('\n'))
+        );
+        tables.push({ name: `Slide ${index + 1}`, rows: rows.slice(0, this.maxTableRows) });
+      });
+
+      const slideNumber = index + 1;
+      slides.push({ slide: slideNumber, title, text: paragraphs($.root()[0]).join('\n') });
+      if (title) {
+        headings.push({ level: 1, text: title });
+      }
+    });
+
+    return {
+      kind: 'pptx',
+      text: slides.map(slide => slide.text).join('\n\n').trim(),
+      headings,
+      tables,
+      metadata: { slideCount: slides.length },
+      slides
+    };
+  }
+
+  // Zero-based column of a cell reference such as "AB12", or -1 past column XFD
+  private columnIndex(cellRef: string): number {
+    const letters = cellRef.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+    let index = 0;
+    for (const letter of letters) {
+      index = index * 26 + (letter.charCodeAt(0) - 64);
+      if (index > XLSX_MAX_COLUMNS) {
+        return -1;
+      }
+    }
+    return index - 1;
+  }
+}
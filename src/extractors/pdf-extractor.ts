@@ -0,0 +1,350 @@
+import { getDocument, PDFDateString } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { PDFDocumentProxy, PDFPageProxy, RenderParameters } from 'pdfjs-dist/types/src/display/api.js';
+import sharp from 'sharp';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { FeatureDatabase } from '../db/database.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, storeBinaryFeature, FeatureFilter } from './feature-helpers.js';
+
+const logger = createLogger('pdf-extractor');
+
+const EXTRACTOR_TOOL = 'pdf-extractor';
+
+export interface PdfExtractorConfig {
+  maxThumbnailPages?: number;
+  thumbnailWidth?: number;
+}
+
+interface OutlineEntry {
+  title: string;
+  page: number | null;
+  url?: string;
+  children: OutlineEntry[];
+}
+
+// pdf.js types its Node canvas factory (backed by @napi-rs/canvas) as Object
+interface PdfCanvasFactory {
+  create(width: number, height: number): PdfCanvasAndContext;
+  destroy(canvasAndContext: PdfCanvasAndContext): void;
+}
+
+interface PdfCanvasAndContext {
+  canvas: { toBuffer(mimeType: 'image/png'): Buffer };
+  context: RenderParameters['canvasContext'];
+}
+
+interface PdfLink {
+  url?: string;
+  page: number;
+  type: 'internal' | 'external';
+  targetPage?: number | null;
+}
+
+export class PdfExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Extracts PDF text, page count, outline, metadata, links and per-page thumbnails',
+    capabilities: ['application/pdf'],
+    featureKeys: [
+      'pdf.page_count',
+      'pdf.text',
+      'pdf.text.page_N',
+      'pdf.outline',
+      'pdf.metadata',
+      'pdf.thumbnail.page_N',
+      'document.structure',
+      'document.metadata',
+      'document.links'
+    ],
+    enabled: true,
+    priority: 4
+  };
+
+  private db: FeatureDatabase;
+  private maxThumbnailPages: number;
+  private thumbnailWidth: number;
+
+  constructor(db: FeatureDatabase, config: PdfExtractorConfig = {}) {
+    this.db = db;
+    this.maxThumbnailPages = config.maxThumbnailPages || 20;
+    this.thumbnailWidth = config.thumbnailWidth || 400;
+  }
+
+  canHandle(mimeType: string): boolean {
+    return PdfExtractor.info.capabilities.includes(mimeType);
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+
+    // pdf.js transfers the buffer to its worker, so hand it a copy
+    const pdf = await getDocument({
+      data: new Uint8Array(resource.content),
+      isEvalSupported: false,
+      useSystemFonts: false,
+      verbosity: 0
+    }).promise;
+
+    try {
+      const pageCount = pdf.numPages;
+      logger.trace('Extracting PDF features', { url: resource.url, pageCount });
+
+      if (shouldExtract('pdf.page_count')) {
+        features.push(createFeature(
+          resource.url, 'pdf.page_count', String(pageCount), FeatureType.NUMBER, ttl, EXTRACTOR_TOOL
+        ));
+      }
+
+      // Text and links are gathered in one pass over the pages
+      const wantsText = shouldExtract('pdf.text');
+      const wantsLinks = shouldExtract('document.links');
+      const pageTexts: string[] = [];
+      const links: PdfLink[] = [];
+
+      if (wantsText || wantsLinks || this.wantsAnyPageText(pageCount, shouldExtract)) {
+        for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+          const page = await pdf.getPage(pageNumber);
+          pageTexts.push(await this.getPageText(page));
+          if (wantsLinks) {
+            links.push(...await this.getPageLinks(pdf, page, pageNumber));
+          }
+          page.cleanup();
+        }
+      }
+
+      if (wantsText) {
+        const text = pageTexts.join('\n\n');
+        features.push(createFeature(
+          resource.url, 'pdf.text', text, FeatureType.TEXT, ttl, EXTRACTOR_TOOL,
+          { pageCount, charCount: text.length }
+        ));
+      }
+
+      pageTexts.forEach((pageText, index) => {
+        const key = `pdf.text.page_${index + 1}`;
+        if (shouldExtract(key)) {
+          features.push(createFeature(
+            resource.url, key, pageText, FeatureType.TEXT, ttl, EXTRACTOR_TOOL,
+            { page: index + 1, charCount: pageText.length }
+          ));
+        }
+      });
+
+      if (shouldExtract('pdf.outline') || shouldExtract('document.structure')) {
+        const outline = await this.getOutline(pdf);
+        for (const key of ['pdf.outline', 'document.structure']) {
+          if (shouldExtract(key)) {
+            features.push(createFeature(
+              resource.url, key, JSON.stringify(outline), FeatureType.JSON, ttl, EXTRACTOR_TOOL,
+              { entryCount: outline.length, source: 'pdf-outline' }
+            ));
+          }
+        }
+      }
+
+      if (shouldExtract('pdf.metadata') || shouldExtract('document.metadata')) {
+        const metadata = await this.getMetadata(pdf);
+        for (const key of ['pdf.metadata', 'document.metadata']) {
+          if (shouldExtract(key)) {
+            features.push(createFeature(
+              resource.url, key, JSON.stringify(metadata), FeatureType.JSON, ttl, EXTRACTOR_TOOL
+            ));
+          }
+        }
+      }
+
+      if (wantsLinks) {
+        features.push(createFeature(
+          resource.url, 'document.links', JSON.stringify(links), FeatureType.JSON, ttl, EXTRACTOR_TOOL,
+          {
+            internal: links.filter(l => l.type === 'internal').length,
+            external: links.filter(l => l.type === 'external').length
+          }
+        ));
+      }
+
+      const thumbnailPages = Math.min(pageCount, this.maxThumbnailPages);
+      for (let pageNumber = 1; pageNumber <= thumbnailPages; pageNumber++) {
+        if (!shouldExtract(`pdf.thumbnail.page_${pageNumber}`)) {
+          continue;
+        }
+
+        try {
+          const thumbnail = await this.renderThumbnail(pdf, pageNumber);
+          features.push(await storeBinaryFeature(
+            this.db,
+            resource.url,
+            `pdf.thumbnail_page_${pageNumber}`,
+            thumbnail.buffer,
+            ttl,
+            EXTRACTOR_TOOL,
+            {
+              page: pageNumber,
+              dimensions: `${thumbnail.width}x${thumbnail.height}`,
+              format: 'png'
+            }
+          ));
+        } catch (error) {
+          // Rendering depends on the optional canvas backend; one bad page doesn't cost the others
+          logger.warn('Failed to render PDF page thumbnail', { url: resource.url, page: pageNumber, error: String(error) });
+        }
+      }
+
+      logger.info(`Extracted ${features.length} PDF features from ${resource.url}`, {
+        pageCount,
+        featureCount: features.length
+      });
+    } finally {
+      await pdf.destroy();
+    }
+
+    return features;
+  }
+
+  private wantsAnyPageText(pageCount: number, shouldExtract: FeatureFilter): boolean {
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      if (shouldExtract(`pdf.text.page_${pageNumber}`)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async getPageText(page: PDFPageProxy): Promise<string> {
+    const content = await page.getTextContent();
+    let text = '';
+
+    for (const item of content.items) {
+      if (!('str' in item)) {
+        continue;
+      }
+      text += item.str;
+      if (item.hasEOL) {
+        text += '\n';
+      } else if (item.str.length > 0 && !item.str.endsWith(' ')) {
+        text += ' ';
+      }
+    }
+
+    return text.replace(/[ \t]+\n/g, '\n').trim();
+  }
+
+  private async getPageLinks(pdf: PDFDocumentProxy, page: PDFPageProxy, pageNumber: number): Promise<PdfLink[]> {
+    const annotations = await page.getAnnotations();
+    const links: PdfLink[] = [];
+
+    for (const annotation of annotations) {
+      if (annotation.subtype !== 'Link') {
+        continue;
+      }
+
+      if (annotation.url) {
+        links.push({ url: annotation.url, page: pageNumber, type: 'external' });
+      } else if (annotation.dest) {
+        links.push({
+          page: pageNumber,
+          type: 'internal',
+          targetPage: await this.resolveDestination(pdf, annotation.dest)
+        });
+      }
+    }
+
+    return links;
+  }
+
+  private async getOutline(pdf: PDFDocumentProxy): Promise<OutlineEntry[]> {
+    const outline = await pdf.getOutline();
+    if (!outline) {
+      return [];
+    }
+
+    const convert = async (items: typeof outline): Promise<OutlineEntry[]> => {
+      const entries: OutlineEntry[] = [];
+      for (const item of items) {
+        entries.push({
+          title: item.title,
+          page: item.dest ? await this.resolveDestination(pdf, item.dest) : null,
+          ...(item.url ? { url: item.url } : {}),
+          children: item.items?.length ? await convert(item.items) : []
+        });
+      }
+      return entries;
+    };
+
+    return convert(outline);
+  }
+
+  private async resolveDestination(pdf: PDFDocumentProxy, dest: string | any[]): Promise<number | null> {
+    try {
+      const explicitDest = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+      if (!explicitDest || explicitDest.length === 0) {
+        return null;
+      }
+
+      const ref = explicitDest[0];
+      if (typeof ref === 'number') {
+        return ref + 1;
+      }
+      return (await pdf.getPageIndex(ref)) + 1;
+    } catch {
+      return null;
+    }
+  }
+
+  private async getMetadata(pdf: PDFDocumentProxy): Promise<Record<string, any>> {
+    const { info } = await pdf.getMetadata() as { info: Record<string, any> };
+
+    const toIsoDate = (value: unknown): string | null => {
+      if (typeof value !== 'string') {
+        return null;
+      }
+      const date = PDFDateString.toDateObject(value);
+      return date ? date.toISOString() : null;
+    };
+
+    return {
+      title: info?.Title || null,
+      author: info?.Author || null,
+      subject: info?.Subject || null,
+      keywords: info?.Keywords || null,
+      creator: info?.Creator || null,
+      producer: info?.Producer || null,
+      creationDate: toIsoDate(info?.CreationDate),
+      modificationDate: toIsoDate(info?.ModDate),
+      pdfVersion: info?.PDFFormatVersion || null,
+      pageCount: pdf.numPages
+    };
+  }
+
+  private async renderThumbnail(
+    pdf: PDFDocumentProxy,
+    pageNumber: number
+  ): Promise<{ buffer: Buffer; width: number; height: number }> {
+    const page = await pdf.getPage(pageNumber);
+
+    try {
+      const baseViewport = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: this.thumbnailWidth / baseViewport.width });
+
+      const canvasFactory = pdf.canvasFactory as PdfCanvasFactory;
+      const { canvas, context } = canvasFactory.create(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height)
+      );
+
+      await page.render({ canvasContext: context, viewport }).promise;
+
+      // Normalise through sharp so thumbnails match the image extractor output
+      const buffer = await sharp(canvas.toBuffer('image/png')).png().toBuffer();
+      canvasFactory.destroy({ canvas, context });
+
+      return { buffer, width: Math.ceil(viewport.width), height: Math.ceil(viewport.height) };
+    } finally {
+      page.cleanup();
+    }
+  }
+}
@@ -0,0 +1,295 @@
+import { isIP } from 'net';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter, holdsResourceText } from './feature-helpers.js';
+
+const logger = createLogger('pii-extractor');
+
+const EXTRACTOR_TOOL = 'pii-extractor';
+
+export type PiiCategory = 'email' | 'phone' | 'credit_card' | 'iban' | 'ip_address' | 'national_id';
+
+export const PII_CATEGORIES: PiiCategory[] = ['email', 'phone', 'credit_card', 'iban', 'ip_address', 'national_id'];
+
+export interface PiiFinding {
+  category: PiiCategory;
+  // For national IDs: which scheme matched
+  kind?: string;
+  line: number;
+  column: number;
+  preview: string;
+}
+
+export interface PiiExtractorConfig {
+  // Findings listed in privacy.pii_findings; counts always cover all of them
+  maxFindings?: number;
+  maxScanChars?: number;
+}
+
+interface PiiMatch {
+  category: PiiCategory;
+  kind?: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Candidate patterns in claim order: a span taken by an earlier category is
+ * not reported again, so card numbers and IDs are not also counted as phones.
+ * `valid` rejects candidates that only look right.
+ */
+const PII_PATTERNS: Array<{ category: PiiCategory; kind?: string; pattern: RegExp; valid?: (match: string) => boolean }> = [
+  { category: 'email', pattern: /\b[A-Za-z0-9._%+-]+@(?:[A-Za-z0-9-]+\.)+[A-Za-z]{2,}\b/g },
+  { category: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, valid: isValidIban },
+  { category: 'credit_card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, valid: isValidCardNumber },
+  { category: 'national_id', kind: 'us_ssn', pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+  { category: 'national_id', kind: 'uk_nino', pattern: /\b(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g },
+  { category: 'ip_address', pattern: /(?<![\w.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?![\w]|\.\d)/g },
+  { category: 'ip_address', pattern: /(?<![\w:.])(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}(?![\w:])/g, valid: isIpv6Address },
+  // International (+CC ...) or North American (NNN) NNN-NNNN formats
+  { category: 'phone', pattern: /(?<![\w+])\+\d{1,3}[ .-]?(?:\(\d{1,4}\)[ .-]?)?\d{1,4}(?:[ .-]?\d{2,4}){1,4}\b/g, valid: hasPhoneLength },
+  { category: 'phone', pattern: /(?<![\w(])(?:\(\d{3}\) ?|\b\d{3}[ .-])\d{3}[ .-]\d{4}\b/g }
+];
+
+const REDACTION_LABELS: Record<PiiCategory, string> = {
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  credit_card: '[CREDIT_CARD]',
+  iban: '[IBAN]',
+  ip_address: '[IP_ADDRESS]',
+  national_id: '[NATIONAL_ID]'
+};
+
+/**
+ * Categories to redact before text features are stored or text is sent for
+ * embedding, from REDACT_PII: `true`/`all`, or a comma-separated list such as
+ * `email,phone`. Empty means no redaction.
+ */
+export function getPiiRedactionCategories(value: string | undefined = process.env.REDACT_PII): PiiCategory[] {
+  const setting = (value || '').trim().toLowerCase();
+  if (setting === '' || setting === 'false' || setting === 'none') {
+    return [];
+  }
+  if (setting === 'true' || setting === 'all') {
+    return [...PII_CATEGORIES];
+  }
+
+  const categories = setting.split(',').map(category => category.trim());
+  const unknown = categories.filter(category => !PII_CATEGORIES.includes(category as PiiCategory));
+  if (unknown.length > 0) {
+    logger.warn('Ignoring unknown REDACT_PII categories', { unknown, known: PII_CATEGORIES });
+  }
+  return PII_CATEGORIES.filter(category => categories.includes(category));
+}
+
+/**
+ * Replaces PII of the given categories with a label such as [EMAIL]
+ */
+export function redactPii(text: string, categories: PiiCategory[]): string {
+  if (categories.length === 0) {
+    return text;
+  }
+
+  let redacted = '';
+  let position = 0;
+  for (const match of findPii(text).filter(match => categories.includes(match.category))) {
+    redacted += text.slice(position, match.start) + REDACTION_LABELS[match.category];
+    position = match.end;
+  }
+  return redacted + text.slice(position);
+}
+
+/**
+ * Redacts the text-bearing features of an extraction before they are stored.
+ * JSON values (chapters, cells, keywords) have their strings redacted in place.
+ */
+export function redactPiiFeatures(features: Feature[], categories: PiiCategory[]): Feature[] {
+  if (categories.length === 0) {
+    return features;
+  }
+
+  return features.map(feature => {
+    if (!holdsResourceText(feature.featureKey) || typeof feature.value !== 'string') {
+      return feature;
+    }
+    const value = feature.valueType === FeatureType.JSON
+      ? JSON.stringify(redactStrings(JSON.parse(feature.value), categories))
+      : redactPii(feature.value, categories);
+    return value === feature.value ? feature : { ...feature, value };
+  });
+}
+
+function redactStrings(value: unknown, categories: PiiCategory[]): unknown {
+  if (typeof value === 'string') {
+    return redactPii(value, categories);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactStrings(item, categories));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactStrings(item, categories)]));
+  }
+  return value;
+}
+
+/**
+ * Finds emails, phone numbers, Luhn-valid card numbers, mod-97-valid IBANs,
+ * IPv4/IPv6 addresses and US SSN / UK National Insurance numbers.
+ * Findings keep only enough of each value to recognize it.
+ */
+export class PiiExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Finds emails, phone numbers, Luhn-validated card numbers, IBANs, IP addresses and national ID numbers in text, with counts per category and masked previews',
+    capabilities: ['text/*', 'application/json', 'application/javascript'],
+    featureKeys: ['privacy.pii_findings'],
+    enabled: true,
+    priority: 1
+  };
+
+  private maxFindings: number;
+  private maxScanChars: number;
+
+  constructor(config: PiiExtractorConfig = {}) {
+    this.maxFindings = config.maxFindings || 100;
+    this.maxScanChars = config.maxScanChars || 5 * 1024 * 1024;
+  }
+
+  extractFeatures(resource: Resource, text: string, ttl: number, shouldExtract: FeatureFilter): Feature[] {
+    if (!shouldExtract('privacy.pii_findings')) {
+      return [];
+    }
+
+    const findings = this.scan(text.slice(0, this.maxScanChars));
+    const counts: Partial<Record<PiiCategory, number>> = {};
+    for (const finding of findings) {
+      counts[finding.category] = (counts[finding.category] || 0) + 1;
+    }
+    if (findings.length > 0) {
+      logger.debug('PII found', { url: resource.url, counts });
+    }
+
+    return [createFeature(
+      resource.url,
+      'privacy.pii_findings',
+      JSON.stringify({ total: findings.length, counts, findings: findings.slice(0, this.maxFindings) }),
+      FeatureType.JSON,
+      ttl,
+      EXTRACTOR_TOOL,
+      { truncated: findings.length > this.maxFindings, scannedChars: Math.min(text.length, this.maxScanChars) }
+    )];
+  }
+
+  scan(text: string): PiiFinding[] {
+    const lineStarts = [0];
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+      lineStarts.push(i + 1);
+    }
+
+    return findPii(text).map(match => {
+      const line = lastIndexAtOrBelow(lineStarts, match.start);
+      return {
+        category: match.category,
+        ...(match.kind ? { kind: match.kind } : {}),
+        line: line + 1,
+        column: match.start - lineStarts[line] + 1,
+        preview: maskPii(match.category, text.slice(match.start, match.end))
+      };
+    });
+  }
+}
+
+// Non-overlapping matches in text order
+function findPii(text: string): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  const claimed = new Uint8Array(text.length);
+  const overlaps = (start: number, end: number) => claimed.subarray(start, end).includes(1);
+
+  for (const { category, kind, pattern, valid } of PII_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (valid && !valid(match[0])) continue;
+      if (overlaps(start, end)) continue;
+      claimed.fill(1, start, end);
+      matches.push({ category, kind, start, end });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+function maskPii(category: PiiCategory, value: string): string {
+  switch (category) {
+    case 'email': {
+      const [local, domain] = value.split('@');
+      return `${local[0]}***@${domain}`;
+    }
+    case 'ip_address':
+      // The network part is kept; the host part identifies the machine
+      return value.includes(':')
+        ? value.split(':').slice(0, 2).join(':') + ':****'
+        : value.split('.').slice(0, 2).join('.') + '.*.*';
+    case 'iban':
+      return value.slice(0, 4) + ' **** ' + value.replace(/ /g, '').slice(-2);
+    default: {
+      // Cards, phones and IDs keep their last digits, as on a receipt
+      const digits = value.replace(/\W/g, '');
+      return '*'.repeat(Math.max(0, digits.length - 4)) + digits.slice(-4);
+    }
+  }
+}
+
+function isValidCardNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  // Visa, Mastercard, Amex, Discover, Diners, JCB, UnionPay
+  if (!/^(?:4|5[1-5]|2[2-7]|3[47]|6(?:011|5|4[4-9]|2)|3(?:0[0-5]|[68])|35)/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616: move the country code and check digits to the end, letters to numbers, mod 97 must be 1
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/ /g, '');
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  let remainder = 0;
+  for (const char of iban.slice(4) + iban.slice(0, 4)) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// Requires real groups so C++ scopes and clock times are not taken for addresses
+function isIpv6Address(value: string): boolean {
+  return isIP(value) === 6 && (value.match(/[0-9A-Fa-f]+/g) || []).length >= 3;
+}
+
+function hasPhoneLength(value: string): boolean {
+  const digits = value.replace(/\D/g, '').length;
+  return digits >= 8 && digits <= 15;
+}
+
+function lastIndexAtOrBelow(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (sorted[mid] <= value) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
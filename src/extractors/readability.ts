@@ -0,0 +1,68 @@
+import { round } from './feature-helpers.js';
+
+/**
+ * English readability formulas. They are calibrated on English prose; for
+ * other Latin-script languages the scores are only comparable with each other.
+ */
+
+export interface ReadabilityScores {
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  gunningFog: number;
+  smog: number;
+}
+
+export interface ReadabilityCounts {
+  words: number;
+  sentences: number;
+  syllables: number;
+  // Words of three or more syllables
+  polysyllables: number;
+  // Polysyllables minus those that only reach three syllables through -es, -ed or -ing
+  complexWords: number;
+}
+
+// SMOG was fitted on 30-sentence samples and overstates shorter texts
+export const SMOG_MIN_SENTENCES = 30;
+
+/**
+ * Vowel groups, ignoring a silent final e and the -es/-ed endings that do not add a syllable
+ */
+export function countSyllables(word: string): number {
+  let letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) {
+    return 1;
+  }
+  letters = letters
+    .replace(/(?:[^laeiouy]es|[^laeiouydt]ed|[^laeiouy]e)$/, match => match[0])
+    .replace(/^y/, '');
+  return Math.max(1, (letters.match(/[aeiouy]+/g) || []).length);
+}
+
+export function countReadability(sentences: string[][]): ReadabilityCounts {
+  const counts: ReadabilityCounts = { words: 0, sentences: sentences.length, syllables: 0, polysyllables: 0, complexWords: 0 };
+  for (const sentence of sentences) {
+    for (const word of sentence) {
+      const syllables = countSyllables(word);
+      counts.words++;
+      counts.syllables += syllables;
+      if (syllables >= 3) {
+        counts.polysyllables++;
+        if (countSyllables(word.replace(/(?:es|ed|ing)$/i, '')) >= 3) counts.complexWords++;
+      }
+    }
+  }
+  return counts;
+}
+
+export function readabilityScores(counts: ReadabilityCounts): ReadabilityScores {
+  const wordsPerSentence = counts.words / counts.sentences;
+  const syllablesPerWord = counts.syllables / counts.words;
+  return {
+    fleschReadingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord, 2),
+    fleschKincaidGrade: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59, 2),
+    gunningFog: round(0.4 * (wordsPerSentence + 100 * counts.complexWords / counts.words), 2),
+    smog: round(1.043 * Math.sqrt(counts.polysyllables * (30 / counts.sentences)) + 3.1291, 2)
+  };
+}
+
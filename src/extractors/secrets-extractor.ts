@@ -0,0 +1,206 @@
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter } from './feature-helpers.js';
+
+const logger = createLogger('secrets-extractor');
+
+const EXTRACTOR_TOOL = 'secrets-extractor';
+
+export type SecretType =
+  | 'private_key'
+  | 'aws_access_key_id'
+  | 'aws_secret_access_key'
+  | 'github_token'
+  | 'gitlab_token'
+  | 'slack_token'
+  | 'slack_webhook'
+  | 'stripe_key'
+  | 'google_api_key'
+  | 'anthropic_api_key'
+  | 'openai_api_key'
+  | 'jwt'
+  | 'connection_string'
+  | 'credential_assignment'
+  | 'high_entropy_string';
+
+export interface SecretFinding {
+  type: SecretType;
+  line: number;
+  column: number;
+  // The match with everything but an identifying prefix masked
+  preview: string;
+}
+
+export interface SecretsExtractorConfig {
+  // Findings kept in security.secrets; the total is always in the metadata
+  maxFindings?: number;
+  // Characters scanned per resource
+  maxScanChars?: number;
+}
+
+/**
+ * Patterns for credentials with a recognizable shape. `secret` is the capture
+ * group holding the credential itself when the match includes context.
+ */
+const SECRET_PATTERNS: Array<{ type: SecretType; pattern: RegExp; secret?: number }> = [
+  { type: 'private_key', pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g },
+  { type: 'aws_access_key_id', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { type: 'aws_secret_access_key', pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi, secret: 1 },
+  { type: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{60,255})\b/g },
+  { type: 'gitlab_token', pattern: /\bglpat-[A-Za-z0-9_-]{20,}/g },
+  { type: 'slack_token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { type: 'slack_webhook', pattern: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/_]+/g },
+  { type: 'stripe_key', pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { type: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g },
+  { type: 'anthropic_api_key', pattern: /\bsk-ant-[A-Za-z0-9_-]{32,}/g },
+  { type: 'openai_api_key', pattern: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{32,}/g },
+  { type: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{10,}/g },
+  // URLs with an inline password, and ADO.NET/JDBC style key=value strings
+  {
+    type: 'connection_string',
+    pattern: /\b(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|rediss?|amqps?|mssql|sqlserver|ftp):\/\/[^\s:/@'"`]+:([^\s@'"`]+)@[^\s'"`]+/gi,
+    secret: 1
+  },
+  { type: 'connection_string', pattern: /\b(?:Server|Data Source|Host)=[^;\n]+;[^\n]*?\b(?:Password|Pwd)=([^;'"`\n]+)/gi, secret: 1 }
+];
+
+// A value assigned to something named like a credential
+const ASSIGNMENT_PATTERN = /\b([A-Za-z0-9_.-]*(?:api[_-]?key|secret|token|passw(?:or)?d|passwd|access[_-]?key|auth[_-]?key|client[_-]?secret)[A-Za-z0-9_]*)["']?\s*[:=]\s*["'`]([^"'`\s]{8,})["'`]/gi;
+
+// Long base64/hex-looking runs; only reported when their entropy is high
+const TOKEN_PATTERN = /[A-Za-z0-9+/_=-]{32,}/g;
+
+// Lock files, checksums and SRI hashes are high-entropy by design
+const CHECKSUM_CONTEXT = /\b(?:sha\d*|md5|integrity|checksum|digest|hash|resolved)\b/i;
+
+// Shannon entropy in bits per character
+const ASSIGNMENT_MIN_ENTROPY = 3;
+const TOKEN_MIN_ENTROPY = 4.5;
+
+// Values that are obviously placeholders rather than credentials
+const PLACEHOLDER = /^(?:x+|\*+|\.+|<[^>]*>|\$\{[^}]*\}|\{\{[^}]*\}\}|%[^%]*%|your[_-]|changeme|example|placeholder|dummy|redacted)/i;
+
+/**
+ * Scans text for credentials: private keys, cloud and SaaS tokens, JWTs,
+ * connection strings with passwords, values assigned to credential-named
+ * keys and other high-entropy tokens. Each finding records its type,
+ * position and a masked preview; the credential itself is never stored.
+ */
+export class SecretsExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Scans text resources for API keys, private keys, JWTs, connection strings and high-entropy tokens, recording type, line and a redacted preview',
+    capabilities: ['text/*', 'application/json', 'application/javascript'],
+    featureKeys: ['security.secrets'],
+    enabled: true,
+    priority: 1
+  };
+
+  private maxFindings: number;
+  private maxScanChars: number;
+
+  constructor(config: SecretsExtractorConfig = {}) {
+    this.maxFindings = config.maxFindings || 100;
+    this.maxScanChars = config.maxScanChars || 5 * 1024 * 1024;
+  }
+
+  extractFeatures(resource: Resource, text: string, ttl: number, shouldExtract: FeatureFilter): Feature[] {
+    if (!shouldExtract('security.secrets')) {
+      return [];
+    }
+
+    const findings = this.scan(text.slice(0, this.maxScanChars));
+    const types = [...new Set(findings.map(finding => finding.type))].sort();
+    if (findings.length > 0) {
+      logger.warn('Possible secrets found', { url: resource.url, count: findings.length, types });
+    }
+
+    return [createFeature(
+      resource.url,
+      'security.secrets',
+      JSON.stringify(findings.slice(0, this.maxFindings)),
+      FeatureType.JSON,
+      ttl,
+      EXTRACTOR_TOOL,
+      { count: findings.length, types, truncated: findings.length > this.maxFindings, scannedChars: Math.min(text.length, this.maxScanChars) }
+    )];
+  }
+
+  scan(text: string): SecretFinding[] {
+    const findings: SecretFinding[] = [];
+    const lines = text.split('\n');
+
+    lines.forEach((line, index) => {
+      // Character ranges already reported, so generic checks don't repeat specific ones
+      const claimed: Array<[number, number]> = [];
+      const overlaps = (start: number, end: number) => claimed.some(([from, to]) => start < to && end > from);
+      const report = (type: SecretType, start: number, end: number, secretStart = start, secretEnd = end) => {
+        if (overlaps(start, end)) return;
+        claimed.push([start, end]);
+        findings.push({
+          type,
+          line: index + 1,
+          column: start + 1,
+          preview: line.slice(start, secretStart) + mask(line.slice(secretStart, secretEnd)) + line.slice(secretEnd, end)
+        });
+      };
+
+      for (const { type, pattern, secret } of SECRET_PATTERNS) {
+        for (const match of line.matchAll(pattern)) {
+          const start = match.index!;
+          const end = start + match[0].length;
+          if (type === 'private_key') {
+            // The header is not sensitive; the key material follows it
+            report(type, start, end, end, end);
+          } else if (secret !== undefined) {
+            const secretStart = start + match[0].indexOf(match[secret]);
+            report(type, start, end, secretStart, secretStart + match[secret].length);
+          } else {
+            report(type, start, end);
+          }
+        }
+      }
+
+      for (const match of line.matchAll(ASSIGNMENT_PATTERN)) {
+        const value = match[2];
+        if (PLACEHOLDER.test(value) || entropy(value) < ASSIGNMENT_MIN_ENTROPY) continue;
+        const start = match.index!;
+        const valueStart = start + match[0].lastIndexOf(value);
+        report('credential_assignment', start, start + match[0].length, valueStart, valueStart + value.length);
+      }
+
+      if (!CHECKSUM_CONTEXT.test(line)) {
+        for (const match of line.matchAll(TOKEN_PATTERN)) {
+          const token = match[0];
+          // Paths and identifiers made of one character class are not tokens
+          if (!/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/\d/.test(token)) continue;
+          if (entropy(token) < TOKEN_MIN_ENTROPY) continue;
+          report('high_entropy_string', match.index!, match.index! + token.length);
+        }
+      }
+    });
+
+    return findings;
+  }
+}
+
+/**
+ * Keeps a prefix that identifies the kind of credential (AKIA, ghp_, sk_live_)
+ * and masks the rest
+ */
+function mask(secret: string): string {
+  if (secret.length === 0) return '';
+  const visible = secret.length >= 16 ? 4 : 0;
+  return secret.slice(0, visible) + '*'.repeat(Math.min(secret.length - visible, 12));
+}
+
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
@@ -0,0 +1,264 @@
+/**
+ * License texts and standard header notices, keyed by SPDX identifier, that
+ * license detection compares documents against. Long licenses are represented
+ * by passages that tell them apart from their relatives (GPL vs LGPL vs AGPL);
+ * a document only has to contain a template, not equal it.
+ */
+
+export interface SpdxTemplate {
+  id: string;
+  // A full license text, or the short notice put at the top of source files
+  kind: 'text' | 'notice';
+  text: string;
+}
+
+const MIT = `Permission is hereby granted, free of charge, to any person obtaining a copy
+of this software and associated documentation files (the "Software"), to deal
+in the Software without restriction, including without limitation the rights
+to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+copies of the Software, and to permit persons to whom the Software is
+furnished to do so, subject to the following conditions:
+
+The above copyright notice and this permission notice shall be included in all
+copies or substantial portions of the Software.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+SOFTWARE.`;
+
+const ISC_DISCLAIMER = `THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR
+ANY SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN
+ACTION OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF
+OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.`;
+
+const ISC = `Permission to use, copy, modify, and/or distribute this software for any
+purpose with or without fee is hereby granted, provided that the above
+copyright notice and this permission notice appear in all copies.
+
+${ISC_DISCLAIMER}`;
+
+const ZERO_BSD = `Permission to use, copy, modify, and/or distribute this software for any
+purpose with or without fee is hereby granted.
+
+${ISC_DISCLAIMER}`;
+
+const BSD_CONDITIONS = `Redistribution and use in source and binary forms, with or without
+modification, are permitted provided that the following conditions are met:
+
+1. Redistributions of source code must retain the above copyright notice, this
+   list of conditions and the following disclaimer.
+
+2. Redistributions in binary form must reproduce the above copyright notice,
+   this list of conditions and the following disclaimer in the documentation
+   and/or other materials provided with the distribution.`;
+
+const BSD_DISCLAIMER = `THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.`;
+
+const BSD_2_CLAUSE = `${BSD_CONDITIONS}
+
+${BSD_DISCLAIMER}`;
+
+const BSD_3_CLAUSE = `${BSD_CONDITIONS}
+
+3. Neither the name of the copyright holder nor the names of its
+   contributors may be used to endorse or promote products derived from
+   this software without specific prior written permission.
+
+${BSD_DISCLAIMER}`;
+
+const APACHE_2 = `Apache License
+Version 2.0, January 2004
+http://www.apache.org/licenses/
+
+TERMS AND CONDITIONS FOR USE, REPRODUCTION, AND DISTRIBUTION
+
+1. Definitions.
+
+"License" shall mean the terms and conditions for use, reproduction,
+and distribution as defined by Sections 1 through 9 of this document.
+
+"Licensor" shall mean the copyright owner or entity authorized by
+the copyright owner that is granting the License.
+
+2. Grant of Copyright License. Subject to the terms and conditions of
+this License, each Contributor hereby grants to You a perpetual,
+worldwide, non-exclusive, no-charge, royalty-free, irrevocable
+copyright license to reproduce, prepare Derivative Works of,
+publicly display, publicly perform, sublicense, and distribute the
+Work and such Derivative Works in Source or Object form.`;
+
+const APACHE_2_NOTICE = `Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.`;
+
+const GPL_2 = `GNU GENERAL PUBLIC LICENSE
+Version 2, June 1991
+
+Everyone is permitted to copy and distribute verbatim copies
+of this license document, but changing it is not allowed.
+
+Preamble
+
+The licenses for most software are designed to take away your
+freedom to share and change it. By contrast, the GNU General Public
+License is intended to guarantee your freedom to share and change free
+software--to make sure the software is free for all its users.`;
+
+const GPL_3 = `GNU GENERAL PUBLIC LICENSE
+Version 3, 29 June 2007
+
+Everyone is permitted to copy and distribute verbatim copies
+of this license document, but changing it is not allowed.
+
+Preamble
+
+The GNU General Public License is a free, copyleft license for
+software and other kinds of works.`;
+
+const LGPL_2_1 = `GNU LESSER GENERAL PUBLIC LICENSE
+Version 2.1, February 1999
+
+Everyone is permitted to copy and distribute verbatim copies
+of this license document, but changing it is not allowed.
+
+[This is the first released version of the Lesser GPL. It also counts
+as the successor of the GNU Library Public License, version 2, hence
+the version number 2.1.]`;
+
+const LGPL_3 = `GNU LESSER GENERAL PUBLIC LICENSE
+Version 3, 29 June 2007
+
+Everyone is permitted to copy and distribute verbatim copies
+of this license document, but changing it is not allowed.
+
+This version of the GNU Lesser General Public License incorporates
+the terms and conditions of version 3 of the GNU General Public
+License, supplemented by the additional permissions listed below.`;
+
+const AGPL_3 = `GNU AFFERO GENERAL PUBLIC LICENSE
+Version 3, 19 November 2007
+
+Everyone is permitted to copy and distribute verbatim copies
+of this license document, but changing it is not allowed.
+
+Preamble
+
+The GNU Affero General Public License is a free, copyleft license for
+software and other kinds of works, specifically designed to ensure
+cooperation with the community in the case of network server software.`;
+
+const gplNotice = (name: string, version: string) => `This program is free software; you can redistribute it and/or modify
+it under the terms of the GNU ${name} as published by
+the Free Software Foundation; either version ${version} of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+GNU ${name} for more details.`;
+
+const MPL_2 = `Mozilla Public License Version 2.0
+
+1. Definitions
+
+1.1. "Contributor"
+means each individual or legal entity that creates, contributes to
+the creation of, or owns Covered Software.
+
+1.2. "Contributor Version"
+means the combination of the Contributions of others (if any) used
+by a Contributor and that particular Contributor's Contribution.`;
+
+const MPL_2_NOTICE = `This Source Code Form is subject to the terms of the Mozilla Public
+License, v. 2.0. If a copy of the MPL was not distributed with this
+file, You can obtain one at http://mozilla.org/MPL/2.0/.`;
+
+const UNLICENSE = `This is free and unencumbered software released into the public domain.
+
+Anyone is free to copy, modify, publish, use, compile, sell, or
+distribute this software, either in source code form or as a compiled
+binary, for any purpose, commercial or non-commercial, and by any
+means.`;
+
+const ZLIB = `This software is provided 'as-is', without any express or implied
+warranty. In no event will the authors be held liable for any damages
+arising from the use of this software.
+
+Permission is granted to anyone to use this software for any purpose,
+including commercial applications, and to alter it and redistribute it
+freely, subject to the following restrictions:
+
+1. The origin of this software must not be misrepresented; you must not
+   claim that you wrote the original software. If you use this software
+   in a product, an acknowledgment in the product documentation would be
+   appreciated but is not required.
+2. Altered source versions must be plainly marked as such, and must not be
+   misrepresented as being the original software.
+3. This notice may not be removed or altered from any source distribution.`;
+
+const BSL_1 = `Boost Software License - Version 1.0 - August 17th, 2003
+
+Permission is hereby granted, free of charge, to any person or organization
+obtaining a copy of the software and accompanying documentation covered by
+this license (the "Software") to use, reproduce, display, distribute,
+execute, and transmit the Software, and to prepare derivative works of the
+Software, and to permit third-parties to whom the Software is furnished to
+do so, all subject to the following:`;
+
+const CC0_1 = `Creative Commons Legal Code
+
+CC0 1.0 Universal
+
+CREATIVE COMMONS CORPORATION IS NOT A LAW FIRM AND DOES NOT PROVIDE
+LEGAL SERVICES. DISTRIBUTION OF THIS DOCUMENT DOES NOT CREATE AN
+ATTORNEY-CLIENT RELATIONSHIP.`;
+
+export const SPDX_TEMPLATES: SpdxTemplate[] = [
+  { id: 'MIT', kind: 'text', text: MIT },
+  { id: 'ISC', kind: 'text', text: ISC },
+  { id: '0BSD', kind: 'text', text: ZERO_BSD },
+  { id: 'BSD-2-Clause', kind: 'text', text: BSD_2_CLAUSE },
+  { id: 'BSD-3-Clause', kind: 'text', text: BSD_3_CLAUSE },
+  { id: 'Apache-2.0', kind: 'text', text: APACHE_2 },
+  { id: 'Apache-2.0', kind: 'notice', text: APACHE_2_NOTICE },
+  { id: 'GPL-2.0-only', kind: 'text', text: GPL_2 },
+  { id: 'GPL-2.0-or-later', kind: 'notice', text: gplNotice('General Public License', '2') },
+  { id: 'GPL-3.0-only', kind: 'text', text: GPL_3 },
+  { id: 'GPL-3.0-or-later', kind: 'notice', text: gplNotice('General Public License', '3') },
+  { id: 'LGPL-2.1-only', kind: 'text', text: LGPL_2_1 },
+  { id: 'LGPL-2.1-or-later', kind: 'notice', text: gplNotice('Lesser General Public License', '2.1') },
+  { id: 'LGPL-3.0-only', kind: 'text', text: LGPL_3 },
+  { id: 'LGPL-3.0-or-later', kind: 'notice', text: gplNotice('Lesser General Public License', '3') },
+  { id: 'AGPL-3.0-only', kind: 'text', text: AGPL_3 },
+  { id: 'AGPL-3.0-or-later', kind: 'notice', text: gplNotice('Affero General Public License', '3') },
+  { id: 'MPL-2.0', kind: 'text', text: MPL_2 },
+  { id: 'MPL-2.0', kind: 'notice', text: MPL_2_NOTICE },
+  { id: 'Unlicense', kind: 'text', text: UNLICENSE },
+  { id: 'Zlib', kind: 'text', text: ZLIB },
+  { id: 'BSL-1.0', kind: 'text', text: BSL_1 },
+  { id: 'CC0-1.0', kind: 'text', text: CC0_1 }
+];
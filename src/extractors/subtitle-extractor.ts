@@ -0,0 +1,314 @@
+import { readdir, readFile } from 'fs/promises';
+import { basename, dirname, extname, join } from 'path';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { detectMimeType } from '../core/resource-loader.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, decodeText, FeatureFilter, localPath, round } from './feature-helpers.js';
+
+const logger = createLogger('subtitle-extractor');
+
+const EXTRACTOR_TOOL = 'subtitle-extractor';
+
+const SUBTITLE_MIME_TYPES: Record<string, SubtitleFormat> = {
+  'application/x-subrip': 'srt',
+  'text/vtt': 'vtt'
+};
+
+// hh:mm:ss,mmm (SRT) or [hh:]mm:ss.mmm (WebVTT)
+const TIMING_PATTERN = /^\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})(.*)$/;
+
+// Language tag before the extension, as in movie.en.srt or movie.pt-BR.vtt
+const FILENAME_LANGUAGE_PATTERN = /\.([a-z]{2}(?:[-_][A-Za-z]{2,4})?)$/;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&nbsp;': ' ', '&lrm;': '', '&rlm;': ''
+};
+
+type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+  // WebVTT cue settings such as "align:start position:10%"
+  settings?: string;
+}
+
+export interface ParsedSubtitles {
+  format: SubtitleFormat;
+  cues: SubtitleCue[];
+  language: string | null;
+  languageSource: 'header' | 'filename' | null;
+}
+
+/**
+ * SRT and WebVTT cue parsing, transcripts, and the link between a subtitle
+ * file and the video sharing its basename in the same directory.
+ */
+export class SubtitleExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Parses SRT and WebVTT cues into timings, language and a plain transcript, and links subtitles to the sibling video with the same basename',
+    capabilities: Object.keys(SUBTITLE_MIME_TYPES),
+    featureKeys: [
+      'subtitles.cues',
+      'subtitles.duration',
+      'subtitles.language',
+      'subtitles.transcript',
+      'subtitles.video',
+      'video.transcript',
+      'video.subtitles'
+    ],
+    enabled: true,
+    priority: 1
+  };
+
+  canHandle(mimeType: string): boolean {
+    return mimeType in SUBTITLE_MIME_TYPES;
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter,
+    parsed: ParsedSubtitles = this.parse(resource)
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    const { cues } = parsed;
+    const duration = cues.reduce((max, cue) => Math.max(max, cue.end), 0);
+
+    add('subtitles.cues', JSON.stringify(cues), FeatureType.JSON, { format: parsed.format, count: cues.length });
+    add('subtitles.duration', String(duration), FeatureType.NUMBER, {
+      unit: 'seconds',
+      firstCueStart: cues.length > 0 ? cues[0].start : null,
+      spokenDuration: round(cues.reduce((sum, cue) => sum + (cue.end - cue.start), 0))
+    });
+    if (parsed.language) {
+      add('subtitles.language', parsed.language, FeatureType.TEXT, { source: parsed.languageSource });
+    }
+    add('subtitles.transcript', this.transcript(cues), FeatureType.TEXT, { cueCount: cues.length });
+
+    const videoUrl = await this.findSiblingVideo(resource.url);
+    if (videoUrl) {
+      add('subtitles.video', videoUrl, FeatureType.TEXT, { relation: 'subtitles-for' });
+    }
+
+    logger.info(`Extracted ${features.length} subtitle features from ${resource.url}`, {
+      featureCount: features.length,
+      format: parsed.format,
+      cueCount: cues.length
+    });
+
+    return features;
+  }
+
+  parse(resource: Resource & { content: Buffer }, decodedText: string = decodeText(resource.content).text): ParsedSubtitles {
+    const text = decodedText.replace(/\r\n?/g, '\n');
+    const format = SUBTITLE_MIME_TYPES[resource.mimeType || ''] || (/^WEBVTT/.test(text) ? 'vtt' : 'srt');
+    const blocks = text.split(/\n{2,}/);
+
+    let language: string | null = null;
+    let languageSource: ParsedSubtitles['languageSource'] = null;
+
+    if (format === 'vtt' && blocks.length > 0 && blocks[0].startsWith('WEBVTT')) {
+      // Header metadata lines such as "Language: en" (emitted by YouTube and most encoders)
+      const header = blocks.shift()!.match(/^Language:\s*(\S+)/m);
+      if (header) {
+        language = header[1];
+        languageSource = 'header';
+      }
+    }
+
+    const cues: SubtitleCue[] = [];
+    for (const block of blocks) {
+      const lines = block.split('\n').filter(line => line.trim() !== '');
+      if (lines.length === 0 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) {
+        continue;
+      }
+
+      // The cue number (SRT) or identifier (WebVTT) precedes the timing line
+      const timingIndex = lines.findIndex(line => TIMING_PATTERN.test(line));
+      if (timingIndex < 0 || timingIndex > 1) {
+        continue;
+      }
+
+      const [, start, end, settings] = lines[timingIndex].match(TIMING_PATTERN)!;
+      const cueText = lines.slice(timingIndex + 1).map(line => this.cleanText(line)).filter(Boolean).join('\n');
+      if (!cueText) {
+        continue;
+      }
+
+      const cue: SubtitleCue = {
+        index: cues.length + 1,
+        start: parseTimestamp(start),
+        end: parseTimestamp(end),
+        text: cueText
+      };
+      if (format === 'vtt' && settings.trim()) {
+        cue.settings = settings.trim();
+      }
+      cues.push(cue);
+    }
+
+    if (!language) {
+      const name = basename(resource.url, extname(resource.url));
+      const tag = name.match(FILENAME_LANGUAGE_PATTERN);
+      if (tag) {
+        language = tag[1].replace('_', '-');
+        languageSource = 'filename';
+      }
+    }
+
+    return { format, cues, language, languageSource };
+  }
+
+  /**
+   * Cue text joined line by line, dropping lines repeated from the previous
+   * cue (rolling auto-generated captions repeat the last line)
+   */
+  transcript(cues: SubtitleCue[]): string {
+    const lines: string[] = [];
+    for (const cue of cues) {
+      for (const line of cue.text.split('\n')) {
+        if (lines[lines.length - 1] !== line) {
+          lines.push(line);
+        }
+      }
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Video in the same directory whose name matches the subtitle file once the
+   * extension and an optional language tag are removed
+   */
+  async findSiblingVideo(subtitleUrl: string): Promise<string | null> {
+    const path = localPath(subtitleUrl);
+    if (!path) return null;
+
+    const name = basename(path, extname(path));
+    const candidates = new Set([name, name.replace(FILENAME_LANGUAGE_PATTERN, '')]);
+
+    try {
+      for (const entry of await readdir(dirname(path))) {
+        const entryName = basename(entry, extname(entry));
+        if (candidates.has(entryName) && detectMimeType(entry).startsWith('video/')) {
+          return `file://${join(dirname(path), entry)}`;
+        }
+      }
+    } catch (error: any) {
+      logger.debug('Could not look for sibling video', { url: subtitleUrl, error: error.message });
+    }
+    return null;
+  }
+
+  /**
+   * Subtitle files next to a video: movie.srt, movie.vtt, movie.en.srt, ...
+   */
+  async findSiblingSubtitles(videoUrl: string): Promise<string[]> {
+    const path = localPath(videoUrl);
+    if (!path) return [];
+
+    const name = basename(path, extname(path));
+    try {
+      return (await readdir(dirname(path)))
+        .filter(entry => {
+          const entryName = basename(entry, extname(entry));
+          return this.canHandle(detectMimeType(entry)) &&
+            (entryName === name || entryName.replace(FILENAME_LANGUAGE_PATTERN, '') === name);
+        })
+        .sort()
+        .map(entry => `file://${join(dirname(path), entry)}`);
+    } catch (error: any) {
+      logger.debug('Could not look for sibling subtitles', { url: videoUrl, error: error.message });
+      return [];
+    }
+  }
+
+  /**
+   * video.transcript and video.subtitles for a video, built from its sibling
+   * subtitle files. The first track with a transcript provides video.transcript.
+   */
+  async extractVideoTranscript(
+    videoUrl: string,
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    if (!shouldExtract('video.transcript') && !shouldExtract('video.subtitles')) {
+      return [];
+    }
+
+    const tracks: Array<{ url: string; parsed: ParsedSubtitles }> = [];
+    for (const url of await this.findSiblingSubtitles(videoUrl)) {
+      try {
+        const content = await readFile(localPath(url)!);
+        tracks.push({ url, parsed: this.parse({ url, mimeType: detectMimeType(url), content } as Resource & { content: Buffer }) });
+      } catch (error: any) {
+        logger.warn('Failed to read subtitle file', { url, error: error.message });
+      }
+    }
+
+    return this.videoTranscriptFeatures(videoUrl, tracks, ttl, shouldExtract);
+  }
+
+  private videoTranscriptFeatures(
+    videoUrl: string,
+    tracks: Array<{ url: string; parsed: ParsedSubtitles }>,
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Feature[] {
+    const features: Feature[] = [];
+    if (tracks.length === 0) {
+      return features;
+    }
+
+    if (shouldExtract('video.subtitles')) {
+      const summary = tracks.map(({ url, parsed }) => ({
+        url,
+        format: parsed.format,
+        language: parsed.language,
+        cueCount: parsed.cues.length
+      }));
+      features.push(createFeature(videoUrl, 'video.subtitles', JSON.stringify(summary), FeatureType.JSON, ttl, EXTRACTOR_TOOL, {
+        count: tracks.length
+      }));
+    }
+
+    const primary = tracks.find(track => track.parsed.cues.length > 0);
+    if (primary && shouldExtract('video.transcript')) {
+      features.push(createFeature(videoUrl, 'video.transcript', this.transcript(primary.parsed.cues), FeatureType.TEXT, ttl, EXTRACTOR_TOOL, {
+        subtitleUrl: primary.url,
+        language: primary.parsed.language,
+        cueCount: primary.parsed.cues.length
+      }));
+    }
+
+    return features;
+  }
+
+  private cleanText(line: string): string {
+    return line
+      // WebVTT voice/class/timestamp tags and HTML formatting
+      .replace(/<[^>]*>/g, '')
+      // SSA-style override blocks some SRT files carry, e.g. {\an8}
+      .replace(/\{\\[^}]*\}/g, '')
+      .replace(/&(?:amp|lt|gt|quot|#39|nbsp|lrm|rlm);/g, entity => HTML_ENTITIES[entity])
+      .trim();
+  }
+}
+
+
+function parseTimestamp(value: string): number {
+  const parts = value.replace(',', '.').split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return round(seconds);
+}
+
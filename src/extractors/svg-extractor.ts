@@ -0,0 +1,241 @@
+import { load, CheerioAPI } from 'cheerio';
+import sharp from 'sharp';
+import { BuiltInExtractorInfo, Feature, FeatureType, Resource } from '../types/index.js';
+import { FeatureDatabase } from '../db/database.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, storeThumbnail, FeatureFilter, THUMBNAIL_SIZES, ThumbnailSize } from './feature-helpers.js';
+
+const logger = createLogger('svg-extractor');
+
+const EXTRACTOR_TOOL = 'svg-extractor';
+
+const SVG_MIME_TYPE = 'image/svg+xml';
+
+// librsvg renders at 72 dpi by default; sharp accepts densities up to 100000
+const BASE_DENSITY = 72;
+const MAX_DENSITY = 10000;
+
+// Animation elements that can set an href, and the attributes carrying the values they set
+const HREF_ANIMATION_ELEMENTS = new Set(['animate', 'set']);
+const ANIMATION_VALUE_ATTRIBUTES = ['from', 'to', 'by', 'values'];
+
+export interface SvgViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SvgExtractorConfig {
+  // Characters of text kept in svg.text
+  maxTextLength?: number;
+}
+
+/**
+ * SVG documents: rasterized thumbnails under the same image.thumbnail.* keys
+ * as bitmaps, plus structure read from the markup. Scripts, event handler
+ * attributes and javascript: links are reported because SVGs served inline
+ * run them like HTML would.
+ */
+export class SvgExtractor {
+  static readonly info: BuiltInExtractorInfo = {
+    toolName: EXTRACTOR_TOOL,
+    description: 'Rasterizes SVG into image.thumbnail.* and reads the viewBox, element counts, text content, embedded images and whether it contains scripts',
+    capabilities: [SVG_MIME_TYPE],
+    featureKeys: [
+      'image.thumbnail.small',
+      'image.thumbnail.medium',
+      'image.thumbnail.large',
+      'svg.viewbox',
+      'svg.element_counts',
+      'svg.text',
+      'svg.embedded_images',
+      'svg.has_scripts'
+    ],
+    enabled: true,
+    priority: 2
+  };
+
+  private db: FeatureDatabase;
+  private maxTextLength: number;
+
+  constructor(db: FeatureDatabase, config: SvgExtractorConfig = {}) {
+    this.db = db;
+    this.maxTextLength = config.maxTextLength || 100000;
+  }
+
+  canHandle(mimeType: string): boolean {
+    return mimeType === SVG_MIME_TYPE;
+  }
+
+  parse(resource: Resource & { content: Buffer }): CheerioAPI {
+    return load(resource.content.toString('utf-8'), { xml: true });
+  }
+
+  /**
+   * Content of every <text> element (including its tspan and textPath children), one per line
+   */
+  getText($: CheerioAPI): string {
+    return $('text')
+      .toArray()
+      .filter(el => $(el).parents('text').length === 0)
+      .map(el => $(el).text().replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n')
+      .slice(0, this.maxTextLength);
+  }
+
+  async extractFeatures(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter,
+    $: CheerioAPI = this.parse(resource)
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    const root = $('svg').first();
+    const viewBox = parseViewBox(root.attr('viewBox'));
+    const declared = { width: root.attr('width') || null, height: root.attr('height') || null };
+    if (viewBox) {
+      add('svg.viewbox', JSON.stringify(viewBox), FeatureType.JSON, declared);
+    }
+
+    const counts: Record<string, number> = {};
+    $('*').each((_, el) => {
+      if ('name' in el) counts[el.name] = (counts[el.name] || 0) + 1;
+    });
+    add('svg.element_counts', JSON.stringify(counts), FeatureType.JSON, {
+      total: Object.values(counts).reduce((sum, count) => sum + count, 0)
+    });
+
+    const text = this.getText($);
+    add('svg.text', text, FeatureType.TEXT, { textElements: $('text').length });
+
+    const images = this.embeddedImages($);
+    add('svg.embedded_images', JSON.stringify(images), FeatureType.JSON, { count: images.length });
+
+    const scripts = this.findScripts($);
+    const hasScripts = scripts.scriptElements + scripts.eventHandlers.length + scripts.javascriptUrls > 0;
+    add('svg.has_scripts', JSON.stringify(hasScripts), FeatureType.JSON, scripts);
+
+    features.push(...await this.rasterize(resource, ttl, shouldExtract, viewBox));
+
+    logger.info(`Extracted ${features.length} SVG features from ${resource.url}`, {
+      featureCount: features.length,
+      elementCount: $('*').length,
+      hasScripts
+    });
+
+    return features;
+  }
+
+  /**
+   * Each thumbnail is rendered at the density that makes the drawing fill it,
+   * so icons drawn at 24x24 still give sharp large thumbnails
+   */
+  private async rasterize(
+    resource: Resource & { content: Buffer },
+    ttl: number,
+    shouldExtract: FeatureFilter,
+    viewBox: SvgViewBox | null
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+
+    const sizes = (Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[]).filter(size => shouldExtract(`image.thumbnail.${size}`));
+    if (sizes.length === 0) {
+      return features;
+    }
+
+    try {
+      const intrinsic = await sharp(resource.content).metadata();
+      const width = intrinsic.width || viewBox?.width || 0;
+      const height = intrinsic.height || viewBox?.height || 0;
+
+      for (const size of sizes) {
+        const target = THUMBNAIL_SIZES[size];
+        const scale = width && height ? Math.min(target.width / width, target.height / height) : 1;
+        const density = Math.min(Math.max(BASE_DENSITY * scale, 1), MAX_DENSITY);
+        const raster = await sharp(resource.content, { density }).png().toBuffer();
+
+        features.push(await storeThumbnail(this.db, resource.url, `image.thumbnail_${size}`, raster, size, ttl, EXTRACTOR_TOOL, {
+          density: Math.round(density),
+          source: 'svg'
+        }));
+      }
+    } catch (error: any) {
+      logger.warn('Failed to rasterize SVG', { url: resource.url, error: error.message });
+    }
+
+    return features;
+  }
+
+  private embeddedImages($: CheerioAPI): Array<Record<string, any>> {
+    return $('image').toArray().map(el => {
+      const image = $(el);
+      const href = image.attr('href') || image.attr('xlink:href') || '';
+      const dataUri = href.match(/^data:([^;,]*)(;base64)?,/);
+      return {
+        type: dataUri ? 'data' : 'external',
+        // Data URIs are summarized rather than copied into the feature
+        href: dataUri ? null : href,
+        mimeType: dataUri ? dataUri[1] || null : null,
+        bytes: dataUri ? (dataUri[2] ? Math.floor((href.length - dataUri[0].length) * 3 / 4) : href.length - dataUri[0].length) : null,
+        width: image.attr('width') || null,
+        height: image.attr('height') || null
+      };
+    });
+  }
+
+  /**
+   * Elements are matched on their local name, so prefixed documents
+   * (<svg:script>) are caught too; an <animate> or <set> that targets href
+   * counts as a javascript: URL when any value it sets is one.
+   */
+  private findScripts($: CheerioAPI): { scriptElements: number; eventHandlers: string[]; javascriptUrls: number; foreignObjects: number } {
+    const eventHandlers = new Set<string>();
+    let scriptElements = 0;
+    let foreignObjects = 0;
+    let javascriptUrls = 0;
+
+    $('*').each((_, el) => {
+      if (!('attribs' in el)) return;
+      const localName = el.name.slice(el.name.indexOf(':') + 1).toLowerCase();
+      if (localName === 'script') scriptElements++;
+      if (localName === 'foreignobject') foreignObjects++;
+
+      const animatesHref = HREF_ANIMATION_ELEMENTS.has(localName) && /(^|:)href$/i.test(el.attribs.attributeName || '');
+      for (const [name, value] of Object.entries(el.attribs)) {
+        if (/^on[a-z]+$/i.test(name)) eventHandlers.add(name.toLowerCase());
+        if (/(^|:)href$/i.test(name) && isJavascriptUrl(value)) javascriptUrls++;
+        if (animatesHref && ANIMATION_VALUE_ATTRIBUTES.includes(name) && value.split(';').some(isJavascriptUrl)) javascriptUrls++;
+      }
+    });
+
+    return {
+      scriptElements,
+      eventHandlers: [...eventHandlers].sort(),
+      javascriptUrls,
+      foreignObjects
+    };
+  }
+}
+
+// Browsers strip whitespace and control characters from URLs, so java\tscript: still runs
+function isJavascriptUrl(value: string): boolean {
+  return /^javascript:/i.test(value.replace(/[\x00-\x20]/g, ''));
+}
+
+function parseViewBox(value: string | undefined): SvgViewBox | null {
+  const numbers = (value || '').trim().split(/[\s,]+/).map(Number);
+  if (numbers.length !== 4 || numbers.some(number => !Number.isFinite(number))) {
+    return null;
+  }
+  const [x, y, width, height] = numbers;
+  return { x, y, width, height };
+}
@@ -0,0 +1,408 @@
+import { Feature, FeatureType, Resource } from '../types/index.js';
+import { FeatureDatabase } from '../db/database.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, FeatureFilter, round } from './feature-helpers.js';
+import { LATIN_LANGUAGES, SCRIPT_LANGUAGES } from './language-profiles.js';
+import { countReadability, readabilityScores, SMOG_MIN_SENTENCES } from './readability.js';
+
+const logger = createLogger('text-analysis-extractor');
+
+const EXTRACTOR_TOOL = 'text-analysis-extractor';
+
+// Cavnar & Trenkle: rank the most frequent 1-3 character n-grams
+const PROFILE_SIZE = 300;
+const MAX_NGRAM = 3;
+
+// Below this many letters the n-gram ranking is mostly noise
+const MIN_LANGUAGE_LETTERS = 20;
+
+const TEXTRANK_DAMPING = 0.85;
+const TEXTRANK_ITERATIONS = 50;
+const TEXTRANK_TOLERANCE = 1e-4;
+
+// Moving-average type-token ratio window; plain TTR falls as texts get longer
+const MATTR_WINDOW = 100;
+
+const WORD_PATTERN = /\p{L}[\p{L}\p{N}'’-]*\p{L}|\p{L}/gu;
+
+// Sentence ends: terminal punctuation followed by whitespace and a capital, digit
+// or quote; CJK full stops end a sentence on their own
+const SENTENCE_BOUNDARY = /(?<=[.!?])\s+(?=[\p{Lu}\p{N}"'“‘(])|(?<=[。！？])\s*|\n\s*\n/u;
+
+// Written without spaces between words, so whitespace tokenization yields whole clauses
+const UNSEGMENTED_LANGUAGES = new Set(['ja', 'zh', 'th']);
+
+const LANGUAGE_PROFILES = LATIN_LANGUAGES.map(language => ({
+  code: language.code,
+  ranks: ngramProfile(language.sample)
+}));
+
+const STATISTICS_KEYS = ['text.sentence_count', 'text.avg_sentence_length', 'text.vocabulary_richness', 'text.readability'];
+
+export const TEXT_ANALYSIS_FEATURE_KEYS = ['text.language', 'text.keywords', 'text.summary', ...STATISTICS_KEYS];
+
+const STOPWORDS = new Map(LATIN_LANGUAGES.map(language => [language.code, new Set(language.stopwords)]));
+const ALL_STOPWORDS = new Set(LATIN_LANGUAGES.flatMap(language => language.stopwords));
+
+export interface DetectedLanguage {
+  code: string;
+  confidence: number;
+  script: string;
+  candidates: Array<{ code: string; distance: number }>;
+}
+
+export interface Keyword {
+  term: string;
+  score: number;
+  count: number;
+}
+
+export interface TextAnalysisConfig {
+  maxKeywords?: number;
+  maxSummarySentences?: number;
+  // Text beyond this is not analyzed
+  maxAnalyzedChars?: number;
+  // Distinct terms per document counted towards the corpus frequencies
+  maxDocumentTerms?: number;
+  maxSummaryCandidates?: number;
+}
+
+/**
+ * Offline text.language, text.keywords and text.summary. Language comes from
+ * the script, or for Latin text from character n-gram profiles; keywords are
+ * TF-IDF against document frequencies kept in the database, so they sharpen
+ * as more of the corpus is extracted; the summary is a TextRank extract.
+ * Sentence statistics, vocabulary richness and readability scores come from
+ * the same sentence split.
+ */
+export class TextAnalysisExtractor {
+  private db: FeatureDatabase;
+  private maxKeywords: number;
+  private maxSummarySentences: number;
+  private maxAnalyzedChars: number;
+  private maxDocumentTerms: number;
+  private maxSummaryCandidates: number;
+
+  constructor(db: FeatureDatabase, config: TextAnalysisConfig = {}) {
+    this.db = db;
+    this.maxKeywords = config.maxKeywords || 10;
+    this.maxSummarySentences = config.maxSummarySentences || 3;
+    this.maxAnalyzedChars = config.maxAnalyzedChars || 200000;
+    this.maxDocumentTerms = config.maxDocumentTerms || 2000;
+    this.maxSummaryCandidates = config.maxSummaryCandidates || 400;
+  }
+
+  async extractFeatures(
+    resource: Resource,
+    content: string,
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+    const wantLanguage = shouldExtract('text.language');
+    const wantKeywords = shouldExtract('text.keywords');
+    const wantSummary = shouldExtract('text.summary');
+    const wantStatistics = STATISTICS_KEYS.some(key => shouldExtract(key));
+    if (!wantLanguage && !wantKeywords && !wantSummary && !wantStatistics) {
+      return features;
+    }
+
+    const text = content.slice(0, this.maxAnalyzedChars);
+    const language = this.detectLanguage(text);
+
+    if (language && wantLanguage) {
+      const { code, ...details } = language;
+      features.push(createFeature(resource.url, 'text.language', code, FeatureType.TEXT, ttl, EXTRACTOR_TOOL, details));
+    }
+
+    if (wantKeywords && !UNSEGMENTED_LANGUAGES.has(language?.code || '')) {
+      const { keywords, documentCount } = await this.keywords(resource.url, text, language?.code);
+      if (keywords.length > 0) {
+        features.push(createFeature(resource.url, 'text.keywords', JSON.stringify(keywords), FeatureType.JSON, ttl, EXTRACTOR_TOOL, {
+          algorithm: 'tf-idf',
+          documentCount
+        }));
+      }
+    }
+
+    if (wantSummary) {
+      const summary = this.summarize(text, language?.code);
+      if (summary) {
+        features.push(createFeature(resource.url, 'text.summary', summary.text, FeatureType.TEXT, ttl, EXTRACTOR_TOOL, {
+          algorithm: 'textrank',
+          sentenceCount: summary.sentenceCount,
+          selected: summary.selected
+        }));
+      }
+    }
+
+    if (wantStatistics) {
+      features.push(...this.statistics(resource.url, text, language, ttl, shouldExtract));
+    }
+
+    logger.debug('Analyzed text', { url: resource.url, language: language?.code, featureCount: features.length });
+    return features;
+  }
+
+  /**
+   * A script used by one language decides directly; Latin text is ranked by
+   * out-of-place distance between its n-gram profile and each reference profile
+   */
+  detectLanguage(text: string): DetectedLanguage | null {
+    const letters = (text.match(/\p{L}/gu) || []).length;
+    if (letters < MIN_LANGUAGE_LETTERS) {
+      return null;
+    }
+
+    const scripts = SCRIPT_LANGUAGES.map(entry => ({ ...entry, count: (text.match(entry.pattern) || []).length }));
+    // Japanese mixes kana with Han, so a modest share of kana is enough
+    const kana = scripts.find(entry => entry.code === 'ja')!;
+    const dominant = kana.count > letters * 0.1
+      ? kana
+      : scripts.reduce((best, entry) => entry.count > best.count ? entry : best);
+    if (dominant === kana ? kana.count > letters * 0.1 : dominant.count > letters * 0.5) {
+      return {
+        code: dominant.code,
+        confidence: round(Math.min(1, dominant.count / letters)),
+        script: dominant.script,
+        candidates: []
+      };
+    }
+
+    const ranks = ngramProfile(text);
+    const candidates = LANGUAGE_PROFILES
+      .map(profile => {
+        let distance = 0;
+        for (const [gram, rank] of ranks) {
+          const reference = profile.ranks.get(gram);
+          distance += reference === undefined ? PROFILE_SIZE : Math.abs(reference - rank);
+        }
+        return { code: profile.code, distance: round(distance / (ranks.size * PROFILE_SIZE)) };
+      })
+      .sort((a, b) => a.distance - b.distance);
+
+    const [best, second] = candidates;
+    return {
+      code: best.code,
+      // Relative margin over the runner-up
+      confidence: round(second.distance > 0 ? (second.distance - best.distance) / second.distance : 0),
+      script: 'Latin',
+      candidates: candidates.slice(0, 3)
+    };
+  }
+
+  /**
+   * Sentence count and length for any text; vocabulary richness where words
+   * are space-separated; readability scores for Latin-script text only, since
+   * the formulas count English syllables
+   */
+  private statistics(
+    resourceUrl: string,
+    text: string,
+    language: DetectedLanguage | null,
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Feature[] {
+    const features: Feature[] = [];
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resourceUrl, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    const sentences = splitSentences(text);
+    if (sentences.length === 0) {
+      return features;
+    }
+    add('text.sentence_count', String(sentences.length), FeatureType.NUMBER);
+
+    if (UNSEGMENTED_LANGUAGES.has(language?.code || '')) {
+      return features;
+    }
+
+    const words = sentences.map(sentence => sentence.match(WORD_PATTERN) || []);
+    const tokens = words.flat().map(word => word.toLowerCase());
+    add('text.avg_sentence_length', String(round(tokens.length / sentences.length, 2)), FeatureType.NUMBER, {
+      unit: 'words',
+      words: tokens.length
+    });
+
+    if (tokens.length > 0) {
+      const types = new Set(tokens).size;
+      add('text.vocabulary_richness', String(round(movingTypeTokenRatio(tokens))), FeatureType.NUMBER, {
+        measure: tokens.length >= MATTR_WINDOW ? 'mattr' : 'ttr',
+        window: MATTR_WINDOW,
+        types,
+        tokens: tokens.length,
+        typeTokenRatio: round(types / tokens.length)
+      });
+    }
+
+    if (language?.script === 'Latin' && tokens.length > 0) {
+      const counts = countReadability(words);
+      add('text.readability', JSON.stringify(readabilityScores(counts)), FeatureType.JSON, {
+        ...counts,
+        language: language.code,
+        smogReliable: counts.sentences >= SMOG_MIN_SENTENCES
+      });
+    }
+
+    return features;
+  }
+
+  /**
+   * TF-IDF over terms that are not stopwords. The document's own terms are
+   * recorded first, so it counts towards the frequencies it is scored against.
+   */
+  private async keywords(resourceUrl: string, text: string, language?: string): Promise<{ keywords: Keyword[]; documentCount: number }> {
+    const stopwords = stopwordsFor(language);
+    const counts = new Map<string, number>();
+    let total = 0;
+    for (const term of tokenize(text)) {
+      if (term.length < 3 || stopwords.has(term)) continue;
+      counts.set(term, (counts.get(term) || 0) + 1);
+      total++;
+    }
+    if (total === 0) {
+      return { keywords: [], documentCount: 0 };
+    }
+
+    const ranked = [...counts].sort((a, b) => b[1] - a[1]);
+    await this.db.updateDocumentTerms(resourceUrl, ranked.slice(0, this.maxDocumentTerms).map(([term]) => term));
+
+    const candidates = ranked.slice(0, this.maxKeywords * 20);
+    const { documentCount, frequencies } = await this.db.getDocumentFrequencies(candidates.map(([term]) => term));
+
+    const keywords = candidates
+      .map(([term, count]) => {
+        const idf = Math.log((1 + documentCount) / (1 + (frequencies.get(term) || 0))) + 1;
+        return { term, score: round((count / total) * idf, 4), count };
+      })
+      .sort((a, b) => b.score - a.score || b.count - a.count)
+      .slice(0, this.maxKeywords);
+
+    return { keywords, documentCount };
+  }
+
+  /**
+   * TextRank: sentences are nodes, edges weighted by shared content words
+   * normalized by sentence length, ranked with PageRank. The top sentences
+   * are returned in document order.
+   */
+  private summarize(text: string, language?: string): { text: string; sentenceCount: number; selected: number[] } | null {
+    const stopwords = stopwordsFor(language);
+    const separator = UNSEGMENTED_LANGUAGES.has(language || '') ? '' : ' ';
+    const sentences = splitSentences(text)
+      .filter(sentence => UNSEGMENTED_LANGUAGES.has(language || '')
+        ? sentence.length >= 5
+        : (sentence.match(WORD_PATTERN) || []).length >= 3)
+      .slice(0, this.maxSummaryCandidates);
+    if (sentences.length === 0) {
+      return null;
+    }
+
+    const count = Math.min(this.maxSummarySentences, sentences.length);
+    if (sentences.length <= count) {
+      return { text: sentences.join(separator), sentenceCount: sentences.length, selected: sentences.map((_, i) => i) };
+    }
+
+    const terms = sentences.map(sentence => new Set(tokenize(sentence).filter(term => !stopwords.has(term))));
+    const weights = terms.map((a, i) => terms.map((b, j) => {
+      if (i === j || a.size < 2 || b.size < 2) return 0;
+      let shared = 0;
+      for (const term of a) if (b.has(term)) shared++;
+      return shared / (Math.log(a.size) + Math.log(b.size));
+    }));
+    const outgoing = weights.map(row => row.reduce((sum, weight) => sum + weight, 0));
+
+    let scores = sentences.map(() => 1);
+    for (let iteration = 0; iteration < TEXTRANK_ITERATIONS; iteration++) {
+      const next = scores.map((_, i) => {
+        let rank = 0;
+        for (let j = 0; j < scores.length; j++) {
+          if (weights[j][i] > 0) rank += (weights[j][i] / outgoing[j]) * scores[j];
+        }
+        return (1 - TEXTRANK_DAMPING) + TEXTRANK_DAMPING * rank;
+      });
+      const change = next.reduce((sum, score, i) => sum + Math.abs(score - scores[i]), 0);
+      scores = next;
+      if (change < TEXTRANK_TOLERANCE) break;
+    }
+
+    // Ties go to the earlier sentence
+    const selected = scores
+      .map((score, index) => ({ score, index }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, count)
+      .map(entry => entry.index)
+      .sort((a, b) => a - b);
+
+    return { text: selected.map(i => sentences[i]).join(separator), sentenceCount: sentences.length, selected };
+  }
+}
+
+// Pieces between sentence boundaries that contain at least one word
+function splitSentences(text: string): string[] {
+  return text
+    .split(SENTENCE_BOUNDARY)
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+    .filter(sentence => /\p{L}/u.test(sentence));
+}
+
+// Mean type-token ratio over every MATTR_WINDOW-token window, or plain TTR for shorter texts
+function movingTypeTokenRatio(tokens: string[]): number {
+  if (tokens.length < MATTR_WINDOW) {
+    return new Set(tokens).size / tokens.length;
+  }
+
+  const window = new Map<string, number>();
+  for (const token of tokens.slice(0, MATTR_WINDOW)) {
+    window.set(token, (window.get(token) || 0) + 1);
+  }
+  let total = window.size;
+  for (let i = MATTR_WINDOW; i < tokens.length; i++) {
+    const leaving = tokens[i - MATTR_WINDOW];
+    const remaining = window.get(leaving)! - 1;
+    if (remaining === 0) window.delete(leaving);
+    else window.set(leaving, remaining);
+    window.set(tokens[i], (window.get(tokens[i]) || 0) + 1);
+    total += window.size;
+  }
+  return total / (tokens.length - MATTR_WINDOW + 1) / MATTR_WINDOW;
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(WORD_PATTERN) || []).map(word => word.replace(/’/g, "'"));
+}
+
+// English is always included, since technical text in any language borrows from it
+function stopwordsFor(language?: string): Set<string> {
+  const own = language ? STOPWORDS.get(language) : undefined;
+  if (!own) return ALL_STOPWORDS;
+  return new Set([...own, ...STOPWORDS.get('en')!]);
+}
+
+/**
+ * Ranks of the most frequent 1-3 character n-grams of the words, padded with
+ * spaces so word starts and ends form their own n-grams
+ */
+function ngramProfile(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/\p{L}+/gu) || []) {
+    const padded = ` ${word} `;
+    for (let n = 1; n <= MAX_NGRAM; n++) {
+      for (let i = 0; i + n <= padded.length; i++) {
+        const gram = padded.slice(i, i + n);
+        if (gram !== ' ') counts.set(gram, (counts.get(gram) || 0) + 1);
+      }
+    }
+  }
+
+  return new Map(
+    [...counts]
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+      .slice(0, PROFILE_SIZE)
+      .map(([gram], rank) => [gram, rank])
+  );
+}
+
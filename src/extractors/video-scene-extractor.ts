@@ -0,0 +1,290 @@
+import sharp from 'sharp';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { readFile, unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Feature, FeatureType, Resource } from '../types/index.js';
+import { FeatureDatabase } from '../db/database.js';
+import { createLogger } from '../utils/logger.js';
+import { createFeature, storeBinaryFeature, FeatureFilter, round } from './feature-helpers.js';
+
+const execAsync = promisify(exec);
+
+const logger = createLogger('video-scene-extractor');
+
+const EXTRACTOR_TOOL = 'video-scene-extractor';
+
+// Width scene detection runs at; the score barely changes and decoding stays cheap
+const SCENE_ANALYSIS_WIDTH = 320;
+
+export interface VideoSceneExtractorConfig {
+  tempDir?: string;
+  // ffmpeg scene score (0-1) above which a frame starts a new scene
+  sceneThreshold?: number;
+  // Upper bound on keyframe thumbnails; longer scene lists are sampled evenly
+  maxKeyframes?: number;
+  keyframeWidth?: number;
+  contactSheetColumns?: number;
+}
+
+export interface VideoScene {
+  index: number;
+  start: number;
+  end: number;
+  duration: number;
+  // Scene score of the cut that opened this scene (null for the first scene)
+  score: number | null;
+}
+
+/**
+ * Stream details, ffmpeg scene-change detection, one keyframe thumbnail per
+ * scene and a contact sheet of those keyframes. Works on the temp copy and
+ * ffprobe output the orchestrator already has for the video.
+ */
+export class VideoSceneExtractor {
+  private db: FeatureDatabase;
+  private tempDir: string;
+  private sceneThreshold: number;
+  private maxKeyframes: number;
+  private keyframeWidth: number;
+  private contactSheetColumns: number;
+
+  constructor(db: FeatureDatabase, config: VideoSceneExtractorConfig = {}) {
+    this.db = db;
+    this.tempDir = config.tempDir || tmpdir();
+    this.sceneThreshold = config.sceneThreshold || 0.3;
+    this.maxKeyframes = config.maxKeyframes || 24;
+    this.keyframeWidth = config.keyframeWidth || 320;
+    this.contactSheetColumns = config.contactSheetColumns || 4;
+  }
+
+  async extractFeatures(
+    resource: Resource,
+    videoPath: string,
+    probe: any,
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+
+    const add = (key: string, value: string, valueType: FeatureType, metadata: Record<string, any> = {}) => {
+      if (shouldExtract(key)) {
+        features.push(createFeature(resource.url, key, value, valueType, ttl, EXTRACTOR_TOOL, metadata));
+      }
+    };
+
+    const streams: any[] = probe.streams || [];
+    const videoStream = streams.find(stream => stream.codec_type === 'video') || {};
+    const duration = parseFloat(probe.format?.duration || '0');
+
+    const fps = parseRate(videoStream.avg_frame_rate) || parseRate(videoStream.r_frame_rate);
+    if (fps) {
+      add('video.fps', String(Math.round(fps * 1000) / 1000), FeatureType.NUMBER, {
+        unit: 'frames/s',
+        rate: videoStream.avg_frame_rate || videoStream.r_frame_rate,
+        frameCount: videoStream.nb_frames ? parseInt(videoStream.nb_frames) : undefined
+      });
+    }
+
+    if (videoStream.codec_name) {
+      add('video.codec', videoStream.codec_name, FeatureType.TEXT, {
+        longName: videoStream.codec_long_name,
+        profile: videoStream.profile,
+        pixelFormat: videoStream.pix_fmt,
+        container: probe.format?.format_name
+      });
+    }
+
+    const bitrate = parseInt(videoStream.bit_rate || probe.format?.bit_rate || '0');
+    if (bitrate > 0) {
+      add('video.bitrate', String(bitrate), FeatureType.NUMBER, {
+        unit: 'bits/s',
+        // Container bitrate includes audio when the stream doesn't report its own
+        source: videoStream.bit_rate ? 'stream' : 'container'
+      });
+    }
+
+    const audioTracks = streams
+      .filter(stream => stream.codec_type === 'audio')
+      .map(stream => ({
+        index: stream.index,
+        codec: stream.codec_name,
+        channels: stream.channels,
+        channelLayout: stream.channel_layout,
+        sampleRate: stream.sample_rate ? parseInt(stream.sample_rate) : undefined,
+        bitrate: stream.bit_rate ? parseInt(stream.bit_rate) : undefined,
+        language: stream.tags?.language,
+        title: stream.tags?.title,
+        default: stream.disposition?.default === 1
+      }));
+    add('video.audio_tracks', JSON.stringify(audioTracks), FeatureType.JSON, { count: audioTracks.length });
+
+    const wantsKeyframes = shouldExtract('video.keyframe_1') || shouldExtract('video.contact_sheet');
+    if (!shouldExtract('video.scenes') && !wantsKeyframes) {
+      return features;
+    }
+
+    try {
+      const scenes = await this.detectScenes(videoPath, duration);
+      add('video.scenes', JSON.stringify(scenes), FeatureType.JSON, {
+        count: scenes.length,
+        threshold: this.sceneThreshold
+      });
+
+      if (wantsKeyframes && scenes.length > 0) {
+        features.push(...await this.extractKeyframes(resource, videoPath, scenes, ttl, shouldExtract));
+      }
+    } catch (error: any) {
+      logger.warn('Scene detection failed', { url: resource.url, error: error.message });
+    }
+
+    return features;
+  }
+
+  /**
+   * Run ffmpeg's scene filter and turn the cut timestamps into contiguous scenes
+   */
+  private async detectScenes(videoPath: string, duration: number): Promise<VideoScene[]> {
+    const scoresPath = join(this.tempDir, `${uuidv4()}.scenes`);
+
+    try {
+      await execAsync(
+        `ffmpeg -v quiet -i "${videoPath}" -an -sn -vf "scale=${SCENE_ANALYSIS_WIDTH}:-2,select='gt(scene,${this.sceneThreshold})',metadata=print:file='${scoresPath}'" -f null -`
+      );
+
+      // metadata=print writes "frame:N pts:P pts_time:T" followed by "lavfi.scene_score=S"
+      const cuts: Array<{ time: number; score: number }> = [];
+      for (const line of (await readFile(scoresPath, 'utf8').catch(() => '')).split('\n')) {
+        const time = line.match(/pts_time:([\d.]+)/);
+        if (time) {
+          cuts.push({ time: parseFloat(time[1]), score: 0 });
+          continue;
+        }
+        const score = line.match(/^lavfi\.scene_score=([\d.]+)/);
+        if (score && cuts.length > 0) {
+          cuts[cuts.length - 1].score = parseFloat(score[1]);
+        }
+      }
+
+      const boundaries = [{ time: 0, score: null as number | null }, ...cuts.filter(cut => cut.time > 0 && cut.time < duration)];
+      return boundaries.map((boundary, index) => {
+        const end = index + 1 < boundaries.length ? boundaries[index + 1].time : duration;
+        return {
+          index,
+          start: round(boundary.time),
+          end: round(end),
+          duration: round(end - boundary.time),
+          score: boundary.score === null ? null : round(boundary.score)
+        };
+      });
+    } finally {
+      await unlink(scoresPath).catch(() => {});
+    }
+  }
+
+  /**
+   * Grab the middle frame of each scene (sampled evenly when there are too
+   * many), store them as video.keyframe_N and tile them into video.contact_sheet
+   */
+  private async extractKeyframes(
+    resource: Resource,
+    videoPath: string,
+    scenes: VideoScene[],
+    ttl: number,
+    shouldExtract: FeatureFilter
+  ): Promise<Feature[]> {
+    const features: Feature[] = [];
+    const step = Math.max(1, scenes.length / this.maxKeyframes);
+    const selected: VideoScene[] = [];
+    for (let position = 0; position < scenes.length && selected.length < this.maxKeyframes; position += step) {
+      selected.push(scenes[Math.floor(position)]);
+    }
+
+    const frames: Array<{ scene: VideoScene; timestamp: number; buffer: Buffer }> = [];
+    for (const scene of selected) {
+      const timestamp = round(scene.start + scene.duration / 2);
+      const framePath = join(this.tempDir, `${uuidv4()}.png`);
+      try {
+        await execAsync(
+          `ffmpeg -v quiet -ss ${timestamp} -i "${videoPath}" -vframes 1 -vf "scale='min(${this.keyframeWidth},iw)':-2" -f image2 "${framePath}" -y`
+        );
+        frames.push({ scene, timestamp, buffer: await sharp(framePath).png().toBuffer() });
+      } catch (error: any) {
+        logger.debug('Failed to grab scene keyframe', { url: resource.url, scene: scene.index, error: error.message });
+      } finally {
+        await unlink(framePath).catch(() => {});
+      }
+    }
+
+    for (const frame of frames) {
+      const number = frame.scene.index + 1;
+      if (shouldExtract(`video.keyframe_${number}`)) {
+        features.push(await storeBinaryFeature(this.db, resource.url, `video_keyframe_${number}`, frame.buffer, ttl, EXTRACTOR_TOOL, {
+          format: 'png',
+          mimeType: 'image/png',
+          scene: frame.scene.index,
+          timestamp: frame.timestamp
+        }));
+      }
+    }
+
+    if (shouldExtract('video.contact_sheet') && frames.length > 0) {
+      const sheet = await this.renderContactSheet(frames.map(frame => frame.buffer));
+      features.push(await storeBinaryFeature(this.db, resource.url, 'video_contact_sheet', sheet.buffer, ttl, EXTRACTOR_TOOL, {
+        format: 'png',
+        mimeType: 'image/png',
+        columns: sheet.columns,
+        rows: sheet.rows,
+        timestamps: frames.map(frame => frame.timestamp)
+      }));
+    }
+
+    logger.verbose('Video keyframes extracted', {
+      url: resource.url,
+      sceneCount: scenes.length,
+      keyframeCount: frames.length
+    });
+
+    return features;
+  }
+
+  private async renderContactSheet(frames: Buffer[]): Promise<{ buffer: Buffer; columns: number; rows: number }> {
+    const gap = 4;
+    const first = await sharp(frames[0]).metadata();
+    const tileWidth = this.keyframeWidth;
+    const tileHeight = Math.round(((first.height || 180) / (first.width || 320)) * tileWidth);
+    const columns = Math.min(this.contactSheetColumns, frames.length);
+    const rows = Math.ceil(frames.length / columns);
+
+    const tiles = await Promise.all(frames.map(async (frame, index) => ({
+      input: await sharp(frame)
+        .resize(tileWidth, tileHeight, { fit: 'contain', background: '#000000' })
+        .toBuffer(),
+      left: gap + (index % columns) * (tileWidth + gap),
+      top: gap + Math.floor(index / columns) * (tileHeight + gap)
+    })));
+
+    const buffer = await sharp({
+      create: {
+        width: gap + columns * (tileWidth + gap),
+        height: gap + rows * (tileHeight + gap),
+        channels: 3,
+        background: '#1a1a1a'
+      }
+    })
+      .composite(tiles)
+      .png()
+      .toBuffer();
+
+    return { buffer, columns, rows };
+  }
+}
+
+function parseRate(rate: string | undefined): number {
+  if (!rate) return 0;
+  const [numerator, denominator] = rate.split('/').map(Number);
+  return denominator ? numerator / denominator : numerator || 0;
+}
+
@@ -46,6 +46,15 @@ export interface ExtractorRegistry {
   updatedAt?: number;
 }
 
+export interface BuiltInExtractorInfo {
+  toolName: string;
+  description: string;
+  capabilities: string[];
+  featureKeys: string[];
+  enabled: boolean;
+  priority: number;
+}
+
 export interface ExtractFeaturesInput {
   resourceUrl: string;
   content?: string;
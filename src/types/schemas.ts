@@ -9,14 +9,21 @@ export const ExtractToolSchema = z.object({
   force: z.boolean().optional().default(false).describe('Force re-extraction of all features'),
   includeEmbeddings: z.boolean().optional().default(false).describe('Generate embeddings for text content'),
   mode: z.enum(['minimal', 'standard', 'maximal']).optional().default('standard').describe('Extraction mode: minimal (basic text only), standard (text + metadata), maximal (all features including embeddings)'),
-  updateMissing: z.boolean().optional().default(true).describe('Update only missing features when re-running on existing resources')
+  updateMissing: z.boolean().optional().default(true).describe('Update only missing features when re-running on existing resources'),
+  extractArchiveMembers: z.boolean().optional().default(false).describe('Also extract features from each member of a ZIP/TAR archive'),
+  extractAttachments: z.boolean().optional().default(false).describe('Also extract features from each attachment of an email message')
 });
 
 export const QueryToolSchema = z.object({
   url: z.string().optional().describe('Resource URL (optional)'),
   featureKeys: z.array(z.string()).optional().describe('Feature keys to retrieve'),
   extractors: z.array(z.string()).optional().describe('Filter by extractor tools'),
-  includeExpired: z.boolean().optional().default(false).describe('Include expired features')
+  includeExpired: z.boolean().optional().default(false).describe('Include expired features'),
+  bbox: z.tuple([z.number(), z.number(), z.number(), z.number()])
+    .refine(([minLon, minLat, maxLon, maxLat]) => minLon <= maxLon && minLat <= maxLat, { message: 'bbox must be [minLon, minLat, maxLon, maxLat]' })
+    .optional()
+    .describe('Only resources whose geo.bbox matches this [minLon, minLat, maxLon, maxLat] box'),
+  spatialRelation: z.enum(['intersects', 'covers', 'within']).optional().default('intersects').describe('How resource bounding boxes must relate to bbox')
 });
 
 export const RegisterExtractorSchema = z.object({
@@ -38,6 +45,14 @@ export const UpdateTTLSchema = z.object({
   ttl: z.number().describe('New TTL in seconds')
 });
 
+export const FindSimilarImagesSchema = z.object({
+  url: z.string().optional().describe('Resource URL of an already extracted image to compare against'),
+  hash: z.string().regex(/^[0-9a-f]{16}$/i).optional().describe('64-bit hash as 16 hex digits, instead of url'),
+  hashType: z.enum(['phash', 'dhash']).optional().default('phash').describe('Hash to compare'),
+  maxDistance: z.number().int().min(0).max(64).optional().default(6).describe('Maximum Hamming distance in bits'),
+  limit: z.number().int().positive().optional().default(20).describe('Maximum number of matches')
+}).refine(params => params.url || params.hash, { message: 'Either url or hash is required' });
+
 export const FeatureValueSchema = z.object({
   key: z.string(),
   value: z.any(),
@@ -56,4 +71,5 @@ export type ExtractToolInput = z.infer<typeof ExtractToolSchema>;
 export type QueryToolInput = z.infer<typeof QueryToolSchema>;
 export type RegisterExtractorInput = z.infer<typeof RegisterExtractorSchema>;
 export type ListExtractorsInput = z.infer<typeof ListExtractorsSchema>;
-export type UpdateTTLInput = z.infer<typeof UpdateTTLSchema>;
\ No newline at end of file
+export type UpdateTTLInput = z.infer<typeof UpdateTTLSchema>;
+export type FindSimilarImagesInput = z.infer<typeof FindSimilarImagesSchema>;
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { basename } from 'path';
+
+// LICENSE, LICENCE.md, COPYING, COPYING.LESSER, NOTICE, UNLICENSE, LICENSE-MIT...
+const LICENSE_FILE_PATTERN = /^(?:un)?licen[cs]e(?:[-._].*)?$|^copying(?:[-._].*)?$|^notice(?:\.(?:md|txt))?$/i;
+
+// Dependencies, caches and build output, besides hidden entries
+const IGNORED_NAMES = new Set(['node_modules', '__pycache__', 'dist', 'build']);
+
+export function isLicenseFile(filePath: string): boolean {
+  return LICENSE_FILE_PATTERN.test(basename(filePath));
+}
+
+/**
+ * Entries that directory walks skip, both when extracting a directory's
+ * files and in the license rollup
+ */
+export function isIgnoredEntry(name: string): boolean {
+  return name.startsWith('.') || IGNORED_NAMES.has(name);
+}
@@ -0,0 +1,55 @@
+import { strToU8, zipSync } from 'fflate';
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DirectFeatureOrchestrator } from '../src/core/direct-orchestrator.js';
+import { ArchiveExtractor } from '../src/extractors/archive-extractor.js';
+import { createTestDatabase, extractAll, featureValue, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+const readme = '# Readme\n\nHello from inside the archive.\n';
+const archive = Buffer.from(zipSync({
+  'docs/readme.md': strToU8(readme),
+  'data.json': strToU8('{"ok": true}'),
+  '../escape.txt': strToU8('outside')
+}));
+
+describe('ArchiveExtractor', () => {
+  let testDb: TestDatabase;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  it('lists members with sizes and flags paths that escape the archive', async () => {
+    const features = await new ArchiveExtractor().extractFeatures(makeResource('/archives/bundle.zip', archive, 'application/zip'), 3600, extractAll);
+    const entries = jsonFeature(features, 'archive.entries');
+
+    expect(featureValue(features, 'archive.entry_count')).toBe('3');
+    expect(entries.map((entry: any) => entry.path)).toEqual(['docs/readme.md', 'data.json', '../escape.txt']);
+    expect(entries.find((entry: any) => entry.path === 'data.json')).toMatchObject({ size: 12, type: 'file' });
+    expect(entries.find((entry: any) => entry.path === '../escape.txt').unsafe).toBeTruthy();
+    expect(features.find(feature => feature.featureKey === 'archive.entries')!.metadata).toMatchObject({ format: 'zip', unsafeCount: 1 });
+    expect(featureValue(features, 'archive.total_uncompressed_size')).toBe(String(readme.length + 12 + 7));
+  });
+
+  it('extracts members of an archive whose own features are already cached', async () => {
+    const path = join(testDb.dir, 'bundle.zip');
+    await writeFile(path, archive);
+    const orchestrator = new DirectFeatureOrchestrator(testDb.db);
+
+    await orchestrator.extractFeatures(path, { skipDirectoryIndexing: true });
+    const memberUrl = `zip://${path}!/docs/readme.md`;
+    expect(await testDb.db.queryFeatures({ url: memberUrl })).toHaveLength(0);
+
+    const cached = await orchestrator.extractFeatures(path, { skipDirectoryIndexing: true, extractArchiveMembers: true });
+    expect(cached.map(feature => feature.featureKey)).toContain('archive.entries');
+
+    const memberKeys = (await testDb.db.queryFeatures({ url: memberUrl })).map(feature => feature.featureKey);
+    expect(memberKeys).toEqual(expect.arrayContaining(['markdown.outline', 'text.word_count']));
+    expect(await testDb.db.queryFeatures({ url: `zip://${path}!/../escape.txt` })).toHaveLength(0);
+  });
+});
@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { AudioExtractor } from '../src/extractors/audio-extractor.js';
+import { createTestDatabase, extractOnly, featureValue, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+// A 16-bit PCM WAV holding a sine tone, with an optional LIST/INFO chunk
+function buildWav(options: { sampleRate: number; channels: number; seconds: number; tags?: Record<string, string> }): Buffer {
+  const { sampleRate, channels, seconds, tags = {} } = options;
+  const frames = Math.round(sampleRate * seconds);
+  const data = Buffer.alloc(frames * channels * 2);
+  for (let i = 0; i < frames; i++) {
+    const sample = Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 16000);
+    for (let channel = 0; channel < channels; channel++) {
+      data.writeInt16LE(sample, (i * channels + channel) * 2);
+    }
+  }
+
+  const fmt = Buffer.alloc(16);
+  fmt.writeUInt16LE(1, 0);
+  fmt.writeUInt16LE(channels, 2);
+  fmt.writeUInt32LE(sampleRate, 4);
+  fmt.writeUInt32LE(sampleRate * channels * 2, 8);
+  fmt.writeUInt16LE(channels * 2, 12);
+  fmt.writeUInt16LE(16, 14);
+
+  const chunk = (id: string, body: Buffer) => {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, 'ascii');
+    header.writeUInt32LE(body.length, 4);
+    return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+  };
+  const info = Object.entries(tags).map(([id, value]) => chunk(id, Buffer.from(value + '\0')));
+  const chunks = [
+    chunk('fmt ', fmt),
+    ...(info.length > 0 ? [chunk('LIST', Buffer.concat([Buffer.from('INFO'), ...info]))] : []),
+    chunk('data', data)
+  ];
+
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'ascii');
+  riff.writeUInt32LE(4 + chunks.reduce((sum, c) => sum + c.length, 0), 4);
+  riff.write('WAVE', 8, 'ascii');
+  return Buffer.concat([riff, ...chunks]);
+}
+
+describe('AudioExtractor', () => {
+  let testDb: TestDatabase;
+  let extractor: AudioExtractor;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    extractor = new AudioExtractor(testDb.db, { waveformWidth: 100, waveformHeight: 40 });
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  it('reads duration, codec, format and RIFF INFO tags from a WAV header', async () => {
+    const wav = buildWav({ sampleRate: 8000, channels: 2, seconds: 0.5, tags: { INAM: 'Test Tone', IART: 'Lab' } });
+    const features = await extractor.extractFeatures(
+      makeResource('/audio/tone.wav', wav, 'audio/wav'),
+      3600,
+      key => key !== 'audio.waveform'
+    );
+
+    expect(featureValue(features, 'audio.duration')).toBe('0.5');
+    expect(featureValue(features, 'audio.codec')).toBe('pcm_s16le');
+    expect(featureValue(features, 'audio.sample_rate')).toBe('8000');
+    expect(featureValue(features, 'audio.channels')).toBe('2');
+    expect(featureValue(features, 'audio.bitrate')).toBe(String(8000 * 2 * 16));
+    expect(jsonFeature(features, 'audio.tags')).toEqual({ title: 'Test Tone', artist: 'Lab' });
+  });
+
+  it('stores the waveform as a PNG with its media type', async () => {
+    const resource = makeResource('/audio/wave.wav', buildWav({ sampleRate: 4000, channels: 1, seconds: 0.25 }), 'audio/wav');
+    await testDb.db.upsertResource(resource);
+    const features = await extractor.extractFeatures(resource, 3600, extractOnly('audio.waveform'));
+
+    expect(featureValue(features, 'audio.waveform')).toMatch(/\/audio_waveform\?format=raw$/);
+
+    const [stored] = await testDb.db.queryFeatures({ url: '/audio/wave.wav', featureKeys: ['audio_waveform'] });
+    expect(stored.metadata).toMatchObject({ mimeType: 'image/png', width: 100, height: 40 });
+    expect(Buffer.from(stored.value as string, 'base64').subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('leaves a WAV whose frames are smaller than its samples to ffprobe', async () => {
+    const wav = buildWav({ sampleRate: 4000, channels: 2, seconds: 0.25 });
+    // Block align of 1 byte for two 16-bit channels
+    wav.writeUInt16LE(1, 32);
+
+    expect((extractor as any).parseWav(wav)).toBeNull();
+    await expect(extractor.extractFeatures(makeResource('/audio/bad.wav', wav, 'audio/wav'), 3600, extractOnly('audio.waveform'))).resolves.toBeDefined();
+  });
+
+  it('handles every audio mime type', () => {
+    expect(extractor.canHandle('audio/flac')).toBe(true);
+    expect(extractor.canHandle('video/mp4')).toBe(false);
+  });
+});
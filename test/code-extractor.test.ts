@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CodeExtractor } from '../src/extractors/code-extractor.js';
+import { extractAll, extractOnly, jsonFeature, makeResource } from './helpers.js';
+
+const source = `import fs from 'fs';
+import { join, resolve } from 'path';
+import type { Config } from './config.js';
+export * from './shared.js';
+
+// TODO: split this module
+export class Loader {
+  load(path: string) {
+    if (path.length > 0 && path !== '/') {
+      return fs.readFileSync(join(path));
+    }
+    return null;
+  }
+}
+
+export const debug = (value: unknown) => {
+  /* FIXME(ada): remove before release */
+  return value ? 1 : 0;
+};
+
+// The TODO list lives in the tracker, and debug(x) has no BUGS
+export default function main() {
+  const lazy = import('./lazy.js');
+  return lazy;
+}
+`;
+
+describe('CodeExtractor', () => {
+  const extractor = new CodeExtractor();
+
+  it('handles TypeScript and JavaScript mime types', () => {
+    expect(extractor.canHandle('text/typescript')).toBe(true);
+    expect(extractor.canHandle('application/javascript')).toBe(true);
+    expect(extractor.canHandle('text/x-python')).toBe(false);
+  });
+
+  it('extracts static, type-only, re-export and dynamic imports', async () => {
+    const features = await extractor.extractFeatures(makeResource('/src/loader.ts', source, 'text/typescript'), source, 3600, extractOnly('code.imports'));
+
+    expect(jsonFeature(features, 'code.imports')).toEqual([
+      { module: 'fs', kind: 'import', defaultImport: 'fs', line: 1 },
+      { module: 'path', kind: 'import', namedImports: ['join', 'resolve'], line: 2 },
+      { module: './config.js', kind: 'import', typeOnly: true, namedImports: ['Config'], line: 3 },
+      { module: './shared.js', kind: 'export-from', line: 4 },
+      { module: './lazy.js', kind: 'dynamic', line: 23 }
+    ]);
+  });
+
+  it('extracts exports and symbols with line ranges', async () => {
+    const features = await extractor.extractFeatures(makeResource('/src/loader.ts', source, 'text/typescript'), source, 3600, extractAll);
+
+    expect(jsonFeature(features, 'code.exports')).toEqual([
+      { name: '*', kind: 're-export', line: 4, from: './shared.js' },
+      { name: 'Loader', kind: 'class', line: 7 },
+      { name: 'debug', kind: 'variable', line: 16 },
+      { name: 'main', kind: 'function', isDefault: true, line: 22 }
+    ]);
+    expect(jsonFeature(features, 'code.symbols')).toEqual([
+      { name: 'Loader', kind: 'class', startLine: 7, endLine: 14, exported: true },
+      { name: 'load', kind: 'method', startLine: 8, endLine: 13, exported: false, container: 'Loader' },
+      { name: 'debug', kind: 'function', startLine: 16, endLine: 19, exported: true },
+      { name: 'main', kind: 'function', startLine: 22, endLine: 25, exported: true }
+    ]);
+  });
+
+  it('reports only tagged TODO comments followed by a colon or owner', async () => {
+    const features = await extractor.extractFeatures(makeResource('/src/loader.ts', source, 'text/typescript'), source, 3600, extractOnly('code.todo_comments'));
+
+    expect(jsonFeature(features, 'code.todo_comments')).toEqual([
+      { tag: 'TODO', text: 'split this module', line: 6 },
+      { tag: 'FIXME', text: 'remove before release', line: 17 }
+    ]);
+  });
+
+  it('computes per-function cyclomatic complexity', async () => {
+    const features = await extractor.extractFeatures(makeResource('/src/loader.ts', source, 'text/typescript'), source, 3600, extractOnly('code.complexity'));
+    const complexity = jsonFeature(features, 'code.complexity');
+
+    expect(complexity.find((fn: any) => fn.name === 'load')).toMatchObject({ line: 8, complexity: 3 });
+    expect(complexity.find((fn: any) => fn.name === 'debug')).toMatchObject({ line: 16, complexity: 2 });
+  });
+
+  it('counts syntax errors from the parse and still extracts what parses', async () => {
+    const parseErrors = vi.spyOn(extractor as any, 'countParseErrors');
+    const broken = "import { a } from 'a';\nfunction f( {\n";
+    const features = await extractor.extractFeatures(makeResource('/src/broken.js', broken, 'application/javascript'), broken, 3600, extractOnly('code.imports'));
+
+    expect(parseErrors.mock.results[0].value).toBeGreaterThan(0);
+    expect(jsonFeature(features, 'code.imports')).toEqual([{ module: 'a', kind: 'import', namedImports: ['a'], line: 1 }]);
+    parseErrors.mockRestore();
+  });
+});
@@ -0,0 +1,118 @@
+import { appendFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DirectFeatureOrchestrator } from '../src/core/direct-orchestrator.js';
+import { ResourceLoader } from '../src/core/resource-loader.js';
+import { EmailExtractor } from '../src/extractors/email-extractor.js';
+import { createTestDatabase, extractAll, featureValue, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+function message(subject: string, body: string, attachment?: { name: string; text: string }): string {
+  const headers = [
+    'From: "Ada Lovelace" <ada@example.com>',
+    'To: team@example.com',
+    `Subject: ${subject}`,
+    'Date: Tue, 14 Mar 2023 10:00:00 +0000',
+    `Message-ID: <${subject.replace(/\W/g, '')}@example.com>`,
+    'MIME-Version: 1.0'
+  ];
+  if (!attachment) {
+    return [...headers, 'Content-Type: text/plain; charset=utf-8', '', body, ''].join('\n');
+  }
+  return [
+    ...headers,
+    'Content-Type: multipart/mixed; boundary="b1"',
+    '',
+    '--b1',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    body,
+    '--b1',
+    `Content-Type: text/plain; name="${attachment.name}"`,
+    `Content-Disposition: attachment; filename="${attachment.name}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    Buffer.from(attachment.text).toString('base64'),
+    '--b1--',
+    ''
+  ].join('\n');
+}
+
+const notes = message('Quarterly notes', 'Notes attached.', { name: 'notes.txt', text: 'Revenue grew in every region.\n' });
+
+const mailbox = [
+  'From ada@example.com Tue Mar 14 10:00:00 2023',
+  message('First', 'Hello there.'),
+  'From ada@example.com Tue Mar 14 11:00:00 2023',
+  message('Second', '>From the archive: see attached.', { name: 'plan.txt', text: 'Ship it.\n' })
+].join('\n');
+
+describe('EmailExtractor', () => {
+  let testDb: TestDatabase;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  it('reads the headers, body and attachment list of a message', () => {
+    const features = new EmailExtractor().extractFeatures(makeResource('/mail/notes.eml', notes, 'message/rfc822'), 3600, extractAll);
+
+    expect(jsonFeature(features, 'email.from')).toEqual({ name: 'Ada Lovelace', address: 'ada@example.com' });
+    expect(featureValue(features, 'email.subject')).toBe('Quarterly notes');
+    expect(featureValue(features, 'email.date')).toBe('2023-03-14T10:00:00.000Z');
+    expect(featureValue(features, 'email.body_text')).toBe('Notes attached.');
+    expect(jsonFeature(features, 'email.attachments')).toEqual([
+      expect.objectContaining({ index: 1, name: 'notes.txt', url: 'email:///mail/notes.eml!/attachments/1/notes.txt' })
+    ]);
+  });
+
+  it('extracts attachments of a message whose own features are already cached', async () => {
+    const path = join(testDb.dir, 'notes.eml');
+    await writeFile(path, notes);
+    const orchestrator = new DirectFeatureOrchestrator(testDb.db);
+    const attachmentUrl = `email://${path}!/attachments/1/notes.txt`;
+
+    await orchestrator.extractFeatures(path, { skipDirectoryIndexing: true });
+    expect(await testDb.db.queryFeatures({ url: attachmentUrl })).toHaveLength(0);
+
+    await orchestrator.extractFeatures(path, { skipDirectoryIndexing: true, extractAttachments: true });
+    const attachmentFeatures = await testDb.db.queryFeatures({ url: attachmentUrl });
+    expect(featureValue(attachmentFeatures, 'text.word_count')).toBe('5');
+  });
+
+  it('extracts attachments of cached mailbox messages', async () => {
+    const path = join(testDb.dir, 'cached.mbox');
+    await writeFile(path, mailbox);
+    const orchestrator = new DirectFeatureOrchestrator(testDb.db);
+    const attachmentUrl = `email://${path}!/messages/2/attachments/1/plan.txt`;
+
+    await orchestrator.extractFeatures(path, { skipDirectoryIndexing: true });
+    expect(await testDb.db.queryFeatures({ url: `email://${path}!/messages/2` })).not.toHaveLength(0);
+    expect(await testDb.db.queryFeatures({ url: attachmentUrl })).toHaveLength(0);
+
+    await orchestrator.extractFeatures(path, { skipDirectoryIndexing: true, extractAttachments: true });
+    expect(await testDb.db.queryFeatures({ url: attachmentUrl })).not.toHaveLength(0);
+  });
+
+  it('loads mailbox messages and their attachments by offset, re-indexing a changed mailbox', async () => {
+    const path = join(testDb.dir, 'inbox.mbox');
+    await writeFile(path, mailbox);
+    const loader = new ResourceLoader();
+
+    const second = await loader.load(`email://${path}!/messages/2`);
+    expect(second.mimeType).toBe('message/rfc822');
+    expect(second.content.toString()).toBe(message('Second', 'From the archive: see attached.', { name: 'plan.txt', text: 'Ship it.\n' }));
+
+    const plan = await loader.load(`email://${path}!/messages/2/attachments/1/plan.txt`);
+    expect(plan.content.toString()).toBe('Ship it.\n');
+
+    await appendFile(path, '\nFrom ada@example.com Wed Mar 15 09:00:00 2023\n' + message('Third', 'Late addition.'));
+    const third = await loader.load(`email://${path}!/messages/3`);
+    expect(third.content.toString()).toContain('Subject: Third');
+
+    await expect(loader.load(`email://${path}!/messages/4`)).rejects.toThrow('Mailbox message not found');
+  });
+});
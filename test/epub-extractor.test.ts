@@ -0,0 +1,102 @@
+import { strToU8, zipSync } from 'fflate';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { EpubExtractor } from '../src/extractors/epub-extractor.js';
+import { FeatureStoreError } from '../src/types/errors.js';
+import { createTestDatabase, extractAll, featureValue, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+const chapter = (title: string, body: string) => `<?xml version="1.0" encoding="utf-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml"><head><title>${title}</title></head>
+<body><h1>${title}</h1><p>${body}</p></body></html>`;
+
+function buildEpub(chapterOne: string): Buffer {
+  return Buffer.from(zipSync({
+    'mimetype': strToU8('application/epub+zip'),
+    'META-INF/container.xml': strToU8(`<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`),
+    'OEBPS/content.opf': strToU8(`<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>Field Notes</dc:title>
+    <dc:creator id="author">Ada Lovelace</dc:creator>
+    <meta refines="#author" property="role">aut</meta>
+    <dc:language>en</dc:language>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="ch1" href="text/one.xhtml" media-type="application/xhtml+xml"/>
+    <item id="ch2" href="text/two.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine><itemref idref="ch1"/><itemref idref="ch2"/></spine>
+</package>`),
+    'OEBPS/nav.xhtml': strToU8(`<?xml version="1.0"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><body>
+  <nav epub:type="toc"><ol>
+    <li><a href="text/one.xhtml">Arrival</a></li>
+    <li><a href="text/two.xhtml">Departure</a></li>
+  </ol></nav>
+</body></html>`),
+    'OEBPS/text/one.xhtml': strToU8(chapterOne),
+    'OEBPS/text/two.xhtml': strToU8(chapter('Departure', 'We left at dawn.'))
+  }));
+}
+
+// Rewrite the uncompressed size a zip declares for one member, in both its
+// local header and its central directory record
+function declareSize(zip: Buffer, name: string, size: number): Buffer {
+  const patched = Buffer.from(zip);
+  for (let offset = 0; offset + 46 < patched.length; offset++) {
+    const signature = patched.readUInt32LE(offset);
+    if (signature === 0x04034b50 && patched.toString('latin1', offset + 30, offset + 30 + patched.readUInt16LE(offset + 26)) === name) {
+      patched.writeUInt32LE(size, offset + 22);
+    } else if (signature === 0x02014b50 && patched.toString('latin1', offset + 46, offset + 46 + patched.readUInt16LE(offset + 28)) === name) {
+      patched.writeUInt32LE(size, offset + 24);
+    }
+  }
+  return patched;
+}
+
+describe('EpubExtractor', () => {
+  let testDb: TestDatabase;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  it('reads the package metadata, table of contents and chapters in spine order', async () => {
+    const extractor = new EpubExtractor(testDb.db);
+    const features = await extractor.extractFeatures(makeResource('/books/notes.epub', buildEpub(chapter('Arrival', 'The ship came in.')), 'application/epub+zip'), 3600, extractAll);
+
+    expect(featureValue(features, 'ebook.title')).toBe('Field Notes');
+    expect(jsonFeature(features, 'ebook.authors')).toEqual([{ name: 'Ada Lovelace', role: 'aut', fileAs: null }]);
+    expect(jsonFeature(features, 'ebook.toc').map((entry: any) => [entry.title, entry.href])).toEqual([
+      ['Arrival', 'OEBPS/text/one.xhtml'],
+      ['Departure', 'OEBPS/text/two.xhtml']
+    ]);
+    expect(featureValue(features, 'ebook.chapter_count')).toBe('2');
+    expect(jsonFeature(features, 'ebook.text').map((entry: any) => [entry.title, entry.text])).toEqual([
+      ['Arrival', 'Arrival\nThe ship came in.'],
+      ['Departure', 'Departure\nWe left at dawn.']
+    ]);
+  });
+
+  it('refuses chapters beyond the uncompressed size budget', () => {
+    const extractor = new EpubExtractor(testDb.db, { maxUncompressedSize: 64 * 1024 });
+    const large = buildEpub(chapter('Arrival', 'sea '.repeat(50_000)));
+
+    expect(() => extractor.readChapters(makeResource('/books/large.epub', large, 'application/epub+zip'))).toThrow(FeatureStoreError);
+  });
+
+  it('does not inflate a member past the size its headers declare', () => {
+    const extractor = new EpubExtractor(testDb.db);
+    const bomb = declareSize(buildEpub(chapter('Arrival', '0'.repeat(4 * 1024 * 1024))), 'OEBPS/text/one.xhtml', 1024);
+
+    expect(() => extractor.readChapters(makeResource('/books/bomb.epub', bomb, 'application/epub+zip')))
+      .toThrow(/inflates beyond its declared size/);
+  });
+});
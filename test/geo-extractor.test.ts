@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { GeoExtractor } from '../src/extractors/geo-extractor.js';
+import { createTestDatabase, extractAll, featureValue, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+const geojson = JSON.stringify({
+  type: 'FeatureCollection',
+  features: [
+    { type: 'Feature', geometry: { type: 'Point', coordinates: [13.4, 52.5] } },
+    { type: 'Feature', geometry: { type: 'LineString', coordinates: [[13.0, 52.0], [14.0, 53.0]] } },
+    { type: 'Feature', geometry: { type: 'Polygon', coordinates: [[[13, 52], [14, 52], [14, 53], [13, 52]]] } }
+  ]
+});
+
+const gpx = `<?xml version="1.0"?>
+<gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+  <wpt lat="52.5" lon="13.4"><name>Start</name></wpt>
+  <trk><trkseg>
+    <trkpt lat="0" lon="0"/>
+    <trkpt lat="0" lon="1"/>
+  </trkseg></trk>
+</gpx>`;
+
+describe('GeoExtractor', () => {
+  let testDb: TestDatabase;
+  let extractor: GeoExtractor;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    extractor = new GeoExtractor(testDb.db, { previewSize: 128 });
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  async function extract(url: string, content: string, mimeType: string) {
+    const resource = makeResource(url, content, mimeType);
+    await testDb.db.upsertResource(resource);
+    const features = await extractor.extractFeatures(resource, 3600, extractAll);
+    // Spatial queries return stored features of the resources they match
+    await testDb.db.storeFeatures(url, features.map(feature => ({
+      key: feature.featureKey,
+      value: feature.value,
+      type: feature.valueType,
+      ttl: feature.ttl,
+      extractorTool: 'geo-extractor',
+      metadata: feature.metadata
+    })));
+    return features;
+  }
+
+  it('reports the bounding box, geometry types and centroid of GeoJSON', async () => {
+    const features = await extract('/maps/berlin.geojson', geojson, 'application/geo+json');
+
+    expect(jsonFeature(features, 'geo.bbox')).toEqual([13, 52, 14, 53]);
+    expect(featureValue(features, 'geo.feature_count')).toBe('3');
+    expect(jsonFeature(features, 'geo.geometry_types')).toEqual({ Point: 1, LineString: 1, Polygon: 1 });
+    expect(jsonFeature(features, 'geo.centroid')).toEqual([13.566667, 52.416667]);
+  });
+
+  it('measures GPX track length along the great circle', async () => {
+    const features = await extract('/maps/ride.gpx', gpx, 'application/gpx+xml');
+
+    // One degree of longitude on the equator
+    expect(Number(featureValue(features, 'geo.total_track_length_m'))).toBeCloseTo(111195, -1);
+    expect(jsonFeature(features, 'geo.geometry_types')).toEqual({ Point: 1, LineString: 1 });
+  });
+
+  it('drops non-numeric coordinates instead of indexing NaN bounds', async () => {
+    const broken = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', geometry: { type: 'Point', coordinates: ['east', 'north'] } },
+        { type: 'Feature', geometry: { type: 'LineString', coordinates: [[2, 48], [null, 49], [3, '49.5']] } }
+      ]
+    });
+    const features = await extract('/maps/broken.geojson', broken, 'application/geo+json');
+
+    expect(jsonFeature(features, 'geo.bbox')).toEqual([2, 48, 3, 49.5]);
+    const matches = await testDb.db.queryFeatures({ bbox: [1.5, 47, 3.5, 50], spatialRelation: 'within', featureKeys: ['geo.bbox'] });
+    expect(matches.map(feature => feature.resourceUrl)).toEqual(['/maps/broken.geojson']);
+  });
+
+  it('stores the preview as a PNG image', async () => {
+    await extract('/maps/berlin.geojson', geojson, 'application/geo+json');
+
+    const [preview] = await testDb.db.queryFeatures({ url: '/maps/berlin.geojson', featureKeys: ['geo_preview'] });
+    expect(preview.metadata.mimeType).toBe('image/png');
+    expect(Buffer.from(preview.value as string, 'base64').subarray(1, 4).toString()).toBe('PNG');
+  });
+});
@@ -0,0 +1,61 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FeatureDatabase } from '../src/db/database.js';
+import { Resource, ResourceType } from '../src/types/index.js';
+import { FeatureFilter } from '../src/extractors/feature-helpers.js';
+
+export interface TestDatabase {
+  db: FeatureDatabase;
+  dir: string;
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * A feature database in a temporary directory, created with the schema from
+ * src/db/init.ts. The init script runs on import, so this works once per test file.
+ */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const dir = await mkdtemp(join(tmpdir(), 'feature-store-test-'));
+  process.env.DATABASE_PATH = join(dir, 'features.db');
+  await import('../src/db/init.js');
+
+  const db = new FeatureDatabase(process.env.DATABASE_PATH);
+  return {
+    db,
+    dir,
+    cleanup: () => rm(dir, { recursive: true, force: true })
+  };
+}
+
+export function makeResource(
+  url: string,
+  content: Buffer | string,
+  mimeType?: string
+): Resource & { content: Buffer } {
+  const buffer = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+  return {
+    url,
+    type: ResourceType.FILE,
+    lastProcessed: Math.floor(Date.now() / 1000),
+    size: buffer.length,
+    mimeType,
+    content: buffer
+  };
+}
+
+export const extractAll: FeatureFilter = () => true;
+
+export function extractOnly(...keys: string[]): FeatureFilter {
+  return key => keys.includes(key);
+}
+
+export function featureValue(features: Array<{ featureKey: string; value: any }>, key: string): any {
+  return features.find(feature => feature.featureKey === key)?.value;
+}
+
+// JSON feature values are stored as JSON text
+export function jsonFeature(features: Array<{ featureKey: string; value: any }>, key: string): any {
+  const value = featureValue(features, key);
+  return value === undefined ? undefined : JSON.parse(value);
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HtmlExtractor } from '../src/extractors/html-extractor.js';
+import { extractAll, extractOnly, featureValue, jsonFeature, makeResource } from './helpers.js';
+
+const article = `<!doctype html>
+<html lang="en">
+<head>
+  <title>Field Notes</title>
+  <meta name="description" content="Notes from the field">
+  <meta property="og:title" content="Field Notes OG">
+</head>
+<body>
+  <nav class="menu"><a href="/home">Home</a></nav>
+  <article>
+    <h1 id="top">Field Notes</h1>
+    <p>${'The survey covered the northern ridge, the valley floor and the river delta. '.repeat(4)}</p>
+    <h2>Findings</h2>
+    <p>Water levels were lower than expected, which matches the dry season forecast.</p>
+    <img src="ridge.png" alt="The ridge" width="640">
+    <a href="other.html">Other notes</a>
+    <a href="https://example.org/map">Map</a>
+  </article>
+  <footer>Copyright footer text</footer>
+  <script>console.log('tracking')</script>
+</body>
+</html>`;
+
+describe('HtmlExtractor', () => {
+  const extractor = new HtmlExtractor();
+
+  it('extracts title, headings, meta, OpenGraph and images', async () => {
+    const features = await extractor.extractFeatures(makeResource('file:///site/notes.html', article, 'text/html'), 3600, extractAll);
+
+    expect(featureValue(features, 'html.title')).toBe('Field Notes');
+    expect(jsonFeature(features, 'html.headings')).toEqual([
+      { level: 1, text: 'Field Notes', id: 'top' },
+      { level: 2, text: 'Findings' }
+    ]);
+    expect(jsonFeature(features, 'html.meta')).toMatchObject({ description: 'Notes from the field', language: 'en' });
+    expect(jsonFeature(features, 'html.opengraph')).toEqual({ 'og:title': 'Field Notes OG' });
+    expect(jsonFeature(features, 'html.images')).toEqual([{ src: 'file:///site/ridge.png', alt: 'The ridge', width: 640 }]);
+  });
+
+  it('keeps the article text and drops navigation, footer and scripts', async () => {
+    const features = await extractor.extractFeatures(makeResource('file:///site/notes.html', article, 'text/html'), 3600, extractOnly('html.main_text'));
+    const mainText = featureValue(features, 'html.main_text');
+
+    expect(mainText).toContain('Water levels were lower than expected');
+    expect(mainText).not.toContain('Copyright footer');
+    expect(mainText).not.toContain('tracking');
+    expect(mainText).not.toMatch(/^Home/);
+  });
+
+  it('classifies links by scheme and host of the page', async () => {
+    const local = await extractor.extractFeatures(makeResource('file:///site/notes.html', article, 'text/html'), 3600, extractOnly('html.links'));
+    expect(jsonFeature(local, 'html.links')).toEqual({
+      internal: [{ href: 'file:///home', text: 'Home' }, { href: 'file:///site/other.html', text: 'Other notes' }],
+      external: [{ href: 'https://example.org/map', text: 'Map' }]
+    });
+
+    const page = '<a href="/about">About</a><a href="file:///etc/hosts">Hosts</a><a href="http://example.org/x">Same host</a>';
+    const web = await extractor.extractFeatures(makeResource('https://example.org/index.html', page, 'text/html'), 3600, extractOnly('html.links'));
+    const links = jsonFeature(web, 'html.links');
+    expect(links.internal.map((link: any) => link.href)).toEqual(['https://example.org/about', 'http://example.org/x']);
+    expect(links.external.map((link: any) => link.href)).toEqual(['file:///etc/hosts']);
+  });
+
+  it('decodes with the charset from a <meta> tag', async () => {
+    const latin1 = Buffer.from('<html><head><meta charset="iso-8859-1"><title>Caf\xe9 cr\xe8me</title></head></html>', 'latin1');
+    const features = await extractor.extractFeatures(makeResource('file:///site/cafe.html', latin1, 'text/html'), 3600, extractOnly('html.title'));
+
+    expect(featureValue(features, 'html.title')).toBe('Café crème');
+  });
+
+  it('prefers the transport charset over a <meta> tag', async () => {
+    const content = Buffer.from('<html><head><meta charset="utf-8"><title>Stra\xdfe</title></head></html>', 'latin1');
+    const resource = { ...makeResource('https://example.org/de.html', content, 'text/html'), charset: 'windows-1252' };
+    const features = await extractor.extractFeatures(resource, 3600, extractOnly('html.title'));
+
+    expect(featureValue(features, 'html.title')).toBe('Straße');
+  });
+
+  it('decodes UTF-8 pages without a declared charset', async () => {
+    const features = await extractor.extractFeatures(makeResource('file:///site/jp.html', '<title>日本語のページ</title>', 'text/html'), 3600, extractOnly('html.title'));
+
+    expect(featureValue(features, 'html.title')).toBe('日本語のページ');
+  });
+
+  it('returns the main text from an already parsed page', () => {
+    const resource = makeResource('file:///site/notes.html', article, 'text/html');
+    expect(extractor.getMainText(extractor.parse(resource))).toContain('The survey covered the northern ridge');
+  });
+
+  it('strips and renders the main text once per parsed page', async () => {
+    const resource = makeResource('file:///site/notes.html', article, 'text/html');
+    const page = extractor.parse(resource);
+    const remove = vi.spyOn(page.prototype, 'remove');
+
+    const features = await extractor.extractFeatures(resource, 3600, extractAll, page);
+    const calls = remove.mock.calls.length;
+
+    expect(extractor.getMainText(page)).toBe(featureValue(features, 'html.main_text'));
+    expect(remove.mock.calls.length).toBe(calls);
+  });
+});
@@ -0,0 +1,57 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { ImageColorExtractor } from '../src/extractors/image-color-extractor.js';
+import { extractAll, featureValue, jsonFeature, makeResource } from './helpers.js';
+
+async function extract(image: Buffer, extractor = new ImageColorExtractor()) {
+  return extractor.extractFeatures(makeResource('/images/test.png', image, 'image/png'), await sharp(image).metadata(), 3600, extractAll);
+}
+
+// Three flat color bands covering 50%, 30% and 20% of the width
+const bands = await sharp(Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="100" height="40">
+  <rect width="50" height="40" fill="#ff0000"/>
+  <rect x="50" width="30" height="40" fill="#0000ff"/>
+  <rect x="80" width="20" height="40" fill="#ffffff"/>
+</svg>`)).flatten().png().toBuffer();
+
+describe('ImageColorExtractor', () => {
+  it('finds the dominant colors with their share of the image', async () => {
+    const features = await extract(bands, new ImageColorExtractor({ paletteSize: 3 }));
+    const palette = jsonFeature(features, 'image.dominant_colors');
+
+    expect(palette.map((swatch: any) => swatch.hex)).toEqual(['#ff0000', '#0000ff', '#ffffff']);
+    expect(palette.map((swatch: any) => Math.round(swatch.percentage))).toEqual([50, 30, 20]);
+    expect(palette.map((swatch: any) => swatch.textColor)).toEqual(['black', 'white', 'black']);
+    expect(features.find(feature => feature.featureKey === 'image.dominant_colors')!.metadata.contrast).toBe('high');
+  });
+
+  it('reports the average color and grayscale and alpha flags', async () => {
+    const features = await extract(bands);
+
+    expect(featureValue(features, 'image.average_color')).toBe('#b33380');
+    expect(featureValue(features, 'image.is_grayscale')).toBe('false');
+    expect(featureValue(features, 'image.has_alpha')).toBe('false');
+  });
+
+  it('detects grayscale images', async () => {
+    const gray = await sharp({ create: { width: 20, height: 20, channels: 3, background: '#777777' } }).png().toBuffer();
+    const features = await extract(gray);
+
+    expect(featureValue(features, 'image.is_grayscale')).toBe('true');
+    expect(jsonFeature(features, 'image.dominant_colors')).toEqual([expect.objectContaining({ hex: '#777777', percentage: 100 })]);
+  });
+
+  it('ignores transparent pixels and skips color features for fully transparent images', async () => {
+    const half = await sharp(Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20">
+      <rect width="10" height="20" fill="#00ff00"/>
+    </svg>`)).png().toBuffer();
+    const halfFeatures = await extract(half);
+
+    expect(featureValue(halfFeatures, 'image.has_alpha')).toBe('true');
+    expect(halfFeatures.find(feature => feature.featureKey === 'image.has_alpha')!.metadata.transparentRatio).toBe(0.5);
+    expect(featureValue(halfFeatures, 'image.average_color')).toBe('#00ff00');
+
+    const clear = await sharp({ create: { width: 10, height: 10, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } }).png().toBuffer();
+    expect((await extract(clear)).map(feature => feature.featureKey)).toEqual(['image.has_alpha']);
+  });
+});
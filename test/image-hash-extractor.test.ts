@@ -0,0 +1,95 @@
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ImageHashExtractor } from '../src/extractors/image-hash-extractor.js';
+import { createTestDatabase, extractAll, featureValue, makeResource, TestDatabase } from './helpers.js';
+
+// Default maxDistance of the find_similar_images tool
+const THRESHOLD = 6;
+
+const landscape = Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300">
+  <rect width="400" height="300" fill="#1e3a8a"/>
+  <circle cx="300" cy="80" r="50" fill="#facc15"/>
+  <polygon points="0,300 140,120 260,300" fill="#166534"/>
+  <polygon points="180,300 300,160 400,300" fill="#14532d"/>
+</svg>`);
+
+const checkerboard = Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300">
+  <rect width="400" height="300" fill="#ffffff"/>
+  <rect width="200" height="150" fill="#000000"/>
+  <rect x="200" y="150" width="200" height="150" fill="#000000"/>
+  <rect x="160" y="20" width="40" height="260" fill="#dc2626"/>
+</svg>`);
+
+function hamming(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; xor; xor >>= 1) distance += xor & 1;
+  }
+  return distance;
+}
+
+describe('ImageHashExtractor', () => {
+  let testDb: TestDatabase;
+  let extractor: ImageHashExtractor;
+  const hashes: Record<string, { phash: string; dhash: string }> = {};
+
+  const images: Record<string, () => Promise<Buffer>> = {
+    '/images/original.png': () => sharp(landscape).png().toBuffer(),
+    '/images/small.jpg': () => sharp(landscape).resize(120).jpeg({ quality: 70 }).toBuffer(),
+    '/images/large.webp': () => sharp(landscape).resize(800).webp().toBuffer(),
+    '/images/unrelated.png': () => sharp(checkerboard).png().toBuffer()
+  };
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    extractor = new ImageHashExtractor(testDb.db);
+
+    for (const [url, render] of Object.entries(images)) {
+      const resource = makeResource(url, await render(), 'image/png');
+      await testDb.db.upsertResource(resource);
+      const features = await extractor.extractFeatures(resource, 3600, extractAll);
+      hashes[url] = { phash: featureValue(features, 'image.phash'), dhash: featureValue(features, 'image.dhash') };
+    }
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  it('produces 64-bit hex hashes and a BlurHash', async () => {
+    const features = await extractor.extractFeatures(makeResource('/images/again.png', await images['/images/original.png'](), 'image/png'), 3600, key => key === 'image.blurhash');
+
+    expect(hashes['/images/original.png'].phash).toMatch(/^[0-9a-f]{16}$/);
+    expect(hashes['/images/original.png'].dhash).toMatch(/^[0-9a-f]{16}$/);
+    // 4x3 components: size flag, max AC, DC (4 chars) and 11 AC pairs
+    expect(featureValue(features, 'image.blurhash')).toHaveLength(1 + 1 + 4 + 11 * 2);
+  });
+
+  it('keeps resized and re-encoded copies within the similarity threshold', () => {
+    const original = hashes['/images/original.png'];
+    for (const copy of ['/images/small.jpg', '/images/large.webp']) {
+      expect(hamming(original.phash, hashes[copy].phash)).toBeLessThanOrEqual(THRESHOLD);
+      expect(hamming(original.dhash, hashes[copy].dhash)).toBeLessThanOrEqual(THRESHOLD);
+    }
+  });
+
+  it('puts an unrelated image beyond the threshold', () => {
+    const original = hashes['/images/original.png'];
+    const unrelated = hashes['/images/unrelated.png'];
+
+    expect(hamming(original.phash, unrelated.phash)).toBeGreaterThan(THRESHOLD);
+    expect(hamming(original.dhash, unrelated.dhash)).toBeGreaterThan(THRESHOLD);
+  });
+
+  it('finds the resized copies through the hash index', async () => {
+    const matches = await testDb.db.findSimilarImages({
+      hash: hashes['/images/original.png'].phash,
+      hashType: 'phash',
+      maxDistance: THRESHOLD,
+      excludeUrl: '/images/original.png'
+    });
+
+    expect(matches.map(match => match.resourceUrl).sort()).toEqual(['/images/large.webp', '/images/small.jpg']);
+  });
+});
@@ -0,0 +1,120 @@
+import type { Metadata } from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { ImageMetadataExtractor } from '../src/extractors/image-metadata-extractor.js';
+import { extractAll, jsonFeature, makeResource } from './helpers.js';
+
+type TiffEntry = [tag: number, type: 2 | 3 | 4 | 5, value: string | number[]];
+
+// Little-endian TIFF with IFD0 followed by a GPS IFD, as found in an EXIF APP1 block
+function buildExif(ifd0: TiffEntry[], gps: TiffEntry[]): Buffer {
+  const encode = ([, type, value]: TiffEntry): Buffer => {
+    if (type === 2) {
+      return Buffer.from(`${value}\0`, 'ascii');
+    }
+    const numbers = value as number[];
+    const buffer = Buffer.alloc(numbers.length * (type === 3 ? 2 : 4));
+    numbers.forEach((n, i) => type === 3 ? buffer.writeUInt16LE(n, i * 2) : buffer.writeUInt32LE(n, i * 4));
+    return buffer;
+  };
+  const count = ([, type, value]: TiffEntry) => type === 2 ? (value as string).length + 1 : type === 5 ? value.length / 2 : value.length;
+
+  const ifd = (entries: TiffEntry[], start: number): Buffer => {
+    const table = Buffer.alloc(2 + entries.length * 12 + 4);
+    const data: Buffer[] = [];
+    let dataOffset = start + table.length;
+    table.writeUInt16LE(entries.length, 0);
+    entries.forEach((entry, i) => {
+      const at = 2 + i * 12;
+      const bytes = encode(entry);
+      table.writeUInt16LE(entry[0], at);
+      table.writeUInt16LE(entry[1], at + 2);
+      table.writeUInt32LE(count(entry), at + 4);
+      if (bytes.length <= 4) {
+        bytes.copy(table, at + 8);
+      } else {
+        table.writeUInt32LE(dataOffset, at + 8);
+        data.push(bytes);
+        dataOffset += bytes.length;
+      }
+    });
+    return Buffer.concat([table, ...data]);
+  };
+
+  const withPointer = (gpsOffset: number) => ifd([...ifd0, [0x8825, 4, [gpsOffset]]], 8);
+  const gpsOffset = 8 + withPointer(0).length;
+  const header = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]);
+  return Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), header, withPointer(gpsOffset), ifd(gps, gpsOffset)]);
+}
+
+function iptcDataset(dataset: number, value: string): Buffer {
+  const text = Buffer.from(value, 'utf-8');
+  return Buffer.concat([Buffer.from([0x1c, 2, dataset, text.length >> 8, text.length & 0xff]), text]);
+}
+
+const exif = buildExif(
+  [[0x010f, 2, 'Fujifilm'], [0x0110, 2, 'X-T4'], [0x0112, 3, [6]], [0x0132, 2, '2023:07:14 09:30:05']],
+  [[0x0001, 2, 'N'], [0x0002, 5, [51, 1, 30, 1, 36, 1]], [0x0003, 2, 'W'], [0x0004, 5, [0, 1, 7, 1, 12, 1]]]
+);
+
+const iptc = Buffer.concat([iptcDataset(5, 'Harbour'), iptcDataset(25, 'boats'), iptcDataset(25, 'sea'), iptcDataset(80, 'Ada')]);
+
+const xmp = Buffer.from(`<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:exif="http://ns.adobe.com/exif/1.0/" xmp:CreatorTool="Darktable" exif:GPSLatitude="51,30.6N">
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">Harbour at dawn</rdf:li><rdf:li xml:lang="fr">Port</rdf:li></rdf:Alt></dc:title>
+      <dc:subject><rdf:Bag><rdf:li>boats</rdf:li><rdf:li>sea</rdf:li></rdf:Bag></dc:subject>
+      <xmp:Rating>4</xmp:Rating>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>`, 'utf-8');
+
+const metadata = { format: 'jpeg', exif, iptc, xmp } as Metadata;
+const resource = makeResource('/photos/harbour.jpg', Buffer.alloc(0), 'image/jpeg');
+
+describe('ImageMetadataExtractor', () => {
+  it('decodes EXIF camera, orientation, capture time and GPS', () => {
+    const features = new ImageMetadataExtractor({ stripGps: false }).extractFeatures(resource, metadata, 3600, extractAll);
+
+    expect(jsonFeature(features, 'image.exif')).toMatchObject({
+      camera: { make: 'Fujifilm', model: 'X-T4' },
+      orientation: { value: 6, description: 'rotate 90 CW' },
+      captureTime: '2023-07-14T09:30:05',
+      hasGps: true
+    });
+    expect(jsonFeature(features, 'image.gps')).toEqual({ latitude: 51.51, longitude: -0.12 });
+  });
+
+  it('reads repeatable IPTC datasets as lists', () => {
+    const features = new ImageMetadataExtractor({ stripGps: false }).extractFeatures(resource, metadata, 3600, extractAll);
+
+    expect(jsonFeature(features, 'image.iptc')).toEqual({ title: 'Harbour', keywords: ['boats', 'sea'], creator: ['Ada'] });
+  });
+
+  it('flattens XMP attributes, language alternatives and bags', () => {
+    const features = new ImageMetadataExtractor({ stripGps: false }).extractFeatures(resource, metadata, 3600, extractAll);
+
+    expect(jsonFeature(features, 'image.xmp')).toEqual({
+      'xmp:CreatorTool': 'Darktable',
+      'exif:GPSLatitude': '51,30.6N',
+      'dc:title': 'Harbour at dawn',
+      'dc:subject': ['boats', 'sea'],
+      'xmp:Rating': '4'
+    });
+  });
+
+  it('drops every GPS field when stripping is on', () => {
+    const features = new ImageMetadataExtractor({ stripGps: true }).extractFeatures(resource, metadata, 3600, extractAll);
+
+    expect(features.map(feature => feature.featureKey)).not.toContain('image.gps');
+    expect(jsonFeature(features, 'image.exif')).not.toHaveProperty('hasGps');
+    expect(jsonFeature(features, 'image.xmp')).not.toHaveProperty('exif:GPSLatitude');
+  });
+
+  it('skips an unreadable EXIF block and keeps the others', () => {
+    const broken = { ...metadata, exif: Buffer.from('Exif\0\0garbage') } as Metadata;
+    const features = new ImageMetadataExtractor().extractFeatures(resource, broken, 3600, extractAll);
+
+    expect(features.map(feature => feature.featureKey)).toEqual(['image.iptc', 'image.xmp']);
+  });
+});
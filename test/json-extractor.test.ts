@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { JsonExtractor } from '../src/extractors/json-extractor.js';
+import { extractAll, extractOnly, featureValue, jsonFeature, makeResource } from './helpers.js';
+
+const document = JSON.stringify({
+  name: 'inventory',
+  updated: '2024-05-01T10:00:00Z',
+  items: [
+    { id: 1, price: 9.5, owner: 'ada@example.org' },
+    { id: 2, price: 3, tags: ['new'] }
+  ]
+});
+
+describe('JsonExtractor', () => {
+  const extractor = new JsonExtractor();
+
+  it('infers a draft 2020-12 schema that merges array elements', async () => {
+    const features = await extractor.extractFeatures(makeResource('/data/inventory.json', document, 'application/json'), document, 3600, extractAll);
+
+    expect(featureValue(features, 'json.top_level_type')).toBe('object');
+    expect(jsonFeature(features, 'json.schema')).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        updated: { type: 'string', format: 'date-time' },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              price: { type: 'number' },
+              owner: { type: 'string', format: 'email' },
+              tags: { type: 'array', items: { type: 'string' } }
+            },
+            required: ['id', 'price']
+          }
+        }
+      },
+      required: ['name', 'updated', 'items']
+    });
+  });
+
+  it('lists key paths with counts and the nesting depth', async () => {
+    const features = await extractor.extractFeatures(makeResource('/data/inventory.json', document, 'application/json'), document, 3600, extractOnly('json.key_paths', 'json.max_depth'));
+
+    expect(jsonFeature(features, 'json.key_paths')).toEqual(expect.arrayContaining([
+      { path: '$.items', count: 1, types: ['array'] },
+      { path: '$.items[].id', count: 2, types: ['integer'] },
+      { path: '$.items[].tags[]', count: 1, types: ['string'] }
+    ]));
+    expect(featureValue(features, 'json.max_depth')).toBe('4');
+  });
+
+  it('keeps "__proto__" keys as ordinary schema properties', async () => {
+    const features = await extractor.extractFeatures(makeResource('/data/proto.json', '{"__proto__": {"polluted": true}, "ok": 1}', 'application/json'), '{"__proto__": {"polluted": true}, "ok": 1}', 3600, extractOnly('json.schema'));
+    const schema = jsonFeature(features, 'json.schema');
+
+    expect(Object.keys(schema.properties)).toEqual(['__proto__', 'ok']);
+    expect(schema.properties.__proto__).toEqual({ type: 'object', properties: { polluted: { type: 'boolean' } }, required: ['polluted'] });
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  it('survives very deep nesting by capping the schema depth', async () => {
+    const depth = 100000;
+    const deep = '['.repeat(depth) + ']'.repeat(depth);
+    const features = await extractor.extractFeatures(makeResource('/data/deep.json', deep, 'application/json'), deep, 3600, extractAll);
+    const schema = features.find(feature => feature.featureKey === 'json.schema')!;
+
+    expect(schema.metadata.truncatedAtDepth).toBe(64);
+    expect(featureValue(features, 'json.max_depth')).toBe(String(depth - 1));
+    let node = JSON.parse(schema.value as string);
+    let levels = 0;
+    while (node.items) {
+      node = node.items;
+      levels++;
+    }
+    expect(levels).toBe(64);
+    expect(node).toEqual({ type: 'array' });
+  });
+
+  it('reports the line and column of a syntax error', async () => {
+    const features = await extractor.extractFeatures(makeResource('/data/broken.json', '{\n  "a": 1,\n  "b": }\n', 'application/json'), '{\n  "a": 1,\n  "b": }\n', 3600, extractAll);
+
+    expect(features.map(feature => feature.featureKey)).toEqual(['json.valid']);
+    expect(jsonFeature(features, 'json.valid')).toMatchObject({ valid: false, position: 19, line: 3, column: 8 });
+  });
+});
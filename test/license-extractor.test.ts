@@ -0,0 +1,105 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DirectFeatureOrchestrator } from '../src/core/direct-orchestrator.js';
+import { LicenseExtractor } from '../src/extractors/license-extractor.js';
+import { createTestDatabase, extractAll, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+const MIT = `MIT License
+
+Copyright (c) 2023 Example Corp
+
+Permission is hereby granted, free of charge, to any person obtaining a copy
+of this software and associated documentation files (the "Software"), to deal
+in the Software without restriction, including without limitation the rights
+to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+copies of the Software, and to permit persons to whom the Software is
+furnished to do so, subject to the following conditions:
+
+The above copyright notice and this permission notice shall be included in all
+copies or substantial portions of the Software.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+SOFTWARE.
+`;
+
+const header = (license: string, holder: string) => `// SPDX-License-Identifier: ${license}\n// Copyright 2024 ${holder}\nexport {};\n`;
+
+describe('LicenseExtractor', () => {
+  let testDb: TestDatabase;
+  let root: string;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    root = join(testDb.dir, 'project');
+    await mkdir(join(root, 'src', 'lib'), { recursive: true });
+    await mkdir(join(root, 'node_modules', 'dep'), { recursive: true });
+    await mkdir(join(root, '.git'));
+    await writeFile(join(root, 'LICENSE'), MIT);
+    await writeFile(join(root, 'src', 'app.ts'), header('Apache-2.0', 'Example Corp'));
+    await writeFile(join(root, 'src', 'lib', 'util.ts'), Buffer.from(header('MIT', 'Jürgen Weiß'), 'latin1'));
+    await writeFile(join(root, 'node_modules', 'dep', 'index.js'), header('GPL-3.0-only', 'Someone Else'));
+    await writeFile(join(root, '.git', 'hook.sh'), header('GPL-3.0-only', 'Someone Else'));
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testDb.cleanup();
+  });
+
+  it('matches license files against the SPDX templates and reads copyright lines', () => {
+    const features = new LicenseExtractor().extractFeatures(makeResource('/project/LICENSE', MIT), MIT, 3600, extractAll);
+
+    expect(features.find(feature => feature.featureKey === 'code.license')).toMatchObject({
+      value: 'MIT',
+      metadata: { method: 'template', source: 'license-file' }
+    });
+    expect(jsonFeature(features, 'code.copyright_holders')).toEqual([{ holder: 'Example Corp', years: '2023' }]);
+  });
+
+  it('rolls up every directory of the tree in one walk, skipping ignored entries', async () => {
+    const summaries = await new LicenseExtractor().summarizeTree(root);
+
+    expect([...summaries.keys()].sort()).toEqual([root, join(root, 'src'), join(root, 'src', 'lib')]);
+    expect(summaries.get(root)).toMatchObject({
+      declared: [{ path: 'LICENSE', license: 'MIT' }],
+      licenses: { MIT: 2, 'Apache-2.0': 1 },
+      filesScanned: 3,
+      truncated: false
+    });
+    expect(summaries.get(root)!.copyrightHolders).toEqual([
+      { holder: 'Example Corp', files: 2 },
+      { holder: 'Jürgen Weiß', files: 1 }
+    ]);
+    expect(summaries.get(join(root, 'src'))).toMatchObject({
+      declared: [],
+      licenses: { 'Apache-2.0': 1, MIT: 1 },
+      filesScanned: 2
+    });
+  });
+
+  it('stops walking once the file limit is reached', async () => {
+    const summaries = await new LicenseExtractor({ maxDirectoryFiles: 1 }).summarizeTree(root);
+
+    expect(summaries.get(root)).toMatchObject({ filesScanned: 1, truncated: true });
+    expect(summaries.get(join(root, 'src'))).toMatchObject({ filesScanned: 0, truncated: true });
+    // src/lib is never opened
+    expect(summaries.has(join(root, 'src', 'lib'))).toBe(false);
+  });
+
+  it('reuses the rollup of a directory for the subdirectories extracted below it', async () => {
+    const summarizeTree = vi.spyOn(LicenseExtractor.prototype, 'summarizeTree');
+
+    await new DirectFeatureOrchestrator(testDb.db).extractFeatures(root, { mode: 'standard' });
+
+    expect(summarizeTree).toHaveBeenCalledTimes(1);
+    const stored = await testDb.db.queryFeatures({ url: `file://${join(root, 'src')}`, featureKeys: ['directory.license_summary'] });
+    // storeFeatures serializes JSON features again, on top of the extractor's JSON text
+    expect(JSON.parse(jsonFeature(stored, 'directory.license_summary')).licenses).toEqual({ 'Apache-2.0': 1, MIT: 1 });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownExtractor } from '../src/extractors/markdown-extractor.js';
+import { extractAll, jsonFeature, makeResource } from './helpers.js';
+
+const document = `---
+title: Guide
+tags: [setup, docs]
+---
+# Guide
+
+Intro with a [link](https://example.org "Example").
+
+## Install
+
+- Step one
+- Step two:
+
+  \`\`\`bash
+  npm install
+  \`\`\`
+
+> ### Note
+>
+> See ![diagram](diagram.png).
+
+| Name | Role |
+| :--- | ---: |
+| Ada | [Author](ada.md) |
+
+## Install
+`;
+
+describe('MarkdownExtractor', () => {
+  const extractor = new MarkdownExtractor();
+
+  it('parses YAML front matter', async () => {
+    const features = await extractor.extractFeatures(makeResource('/docs/guide.md', document, 'text/markdown'), document, 3600, extractAll);
+
+    expect(jsonFeature(features, 'markdown.frontmatter')).toEqual({ title: 'Guide', tags: ['setup', 'docs'] });
+  });
+
+  it('builds the outline with unique anchors, including headings inside blockquotes', async () => {
+    const features = await extractor.extractFeatures(makeResource('/docs/guide.md', document, 'text/markdown'), document, 3600, extractAll);
+
+    expect(jsonFeature(features, 'markdown.outline')).toEqual([{
+      level: 1, text: 'Guide', anchor: 'guide', line: 5,
+      children: [
+        {
+          level: 2, text: 'Install', anchor: 'install', line: 9,
+          children: [{ level: 3, text: 'Note', anchor: 'note', line: 18, children: [] }]
+        },
+        { level: 2, text: 'Install', anchor: 'install-1', line: 26, children: [] }
+      ]
+    }]);
+  });
+
+  it('finds code blocks nested in list items with their line', async () => {
+    const features = await extractor.extractFeatures(makeResource('/docs/guide.md', document, 'text/markdown'), document, 3600, extractAll);
+
+    expect(jsonFeature(features, 'markdown.code_blocks')).toEqual([{ language: 'bash', content: 'npm install', line: 14 }]);
+  });
+
+  it('collects tables, links and images at any depth', async () => {
+    const features = await extractor.extractFeatures(makeResource('/docs/guide.md', document, 'text/markdown'), document, 3600, extractAll);
+
+    expect(jsonFeature(features, 'markdown.tables')).toEqual([{
+      headers: ['Name', 'Role'], align: ['left', 'right'], rows: [['Ada', 'Author']], line: 22
+    }]);
+    expect(jsonFeature(features, 'markdown.links')).toEqual([
+      { href: 'https://example.org', text: 'link', title: 'Example', type: 'link' },
+      { href: 'diagram.png', text: 'diagram', title: null, type: 'image' },
+      { href: 'ada.md', text: 'Author', title: null, type: 'link' }
+    ]);
+  });
+
+  it('finds tables nested in blockquotes', async () => {
+    const quoted = '> | A | B |\n> | - | - |\n> | 1 | 2 |\n';
+    const features = await extractor.extractFeatures(makeResource('/docs/quoted.md', quoted, 'text/markdown'), quoted, 3600, extractAll);
+
+    expect(jsonFeature(features, 'markdown.tables')).toMatchObject([{ headers: ['A', 'B'], rows: [['1', '2']], line: 1 }]);
+  });
+
+  it('records invalid front matter as an empty object with the parse error', async () => {
+    const broken = '---\ntitle: [unclosed\n---\n# Body\n';
+    const features = await extractor.extractFeatures(makeResource('/docs/broken.md', broken, 'text/markdown'), broken, 3600, extractAll);
+    const frontmatter = features.find(feature => feature.featureKey === 'markdown.frontmatter')!;
+
+    expect(JSON.parse(frontmatter.value as string)).toEqual({});
+    expect(frontmatter.metadata.error).toBeTruthy();
+    expect(jsonFeature(features, 'markdown.outline')[0]).toMatchObject({ text: 'Body', line: 4 });
+  });
+});
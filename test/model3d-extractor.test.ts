@@ -0,0 +1,121 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Model3dExtractor } from '../src/extractors/model3d-extractor.js';
+import { createTestDatabase, extractAll, extractOnly, featureValue, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+// Unit tetrahedron: corners on the axes, faces wound outwards
+const corners = [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, 0, 1]];
+const faces = [[0, 2, 1], [0, 1, 3], [0, 3, 2], [1, 2, 3]];
+
+const stl = [
+  'solid tetra',
+  ...faces.flatMap(face => ['facet normal 0 0 0', 'outer loop', ...face.map(i => `vertex ${corners[i].join(' ')}`), 'endloop', 'endfacet']),
+  'endsolid tetra'
+].join('\n');
+
+const tetraBuffer = (() => {
+  const buffer = Buffer.alloc(48 + 24);
+  corners.flat().forEach((value, i) => buffer.writeFloatLE(value, i * 4));
+  faces.flat().forEach((value, i) => buffer.writeUInt16LE(value, 48 + i * 2));
+  return buffer;
+})();
+
+function gltf(uri: string): string {
+  return JSON.stringify({
+    asset: { version: '2.0', generator: 'test' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0 }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0 }, indices: 1 }] }],
+    accessors: [
+      { bufferView: 0, componentType: 5126, count: 4, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 1] },
+      { bufferView: 1, componentType: 5123, count: 12, type: 'SCALAR' }
+    ],
+    bufferViews: [{ buffer: 0, byteOffset: 0, byteLength: 48 }, { buffer: 0, byteOffset: 48, byteLength: 24 }],
+    buffers: [{ uri, byteLength: tetraBuffer.length }]
+  });
+}
+
+describe('Model3dExtractor', () => {
+  let testDb: TestDatabase;
+  let modelDir: string;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    modelDir = join(testDb.dir, 'models');
+    await mkdir(modelDir);
+    await writeFile(join(modelDir, 'tetra.bin'), tetraBuffer);
+    await writeFile(join(testDb.dir, 'outside.bin'), tetraBuffer);
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  it('welds STL facets and checks watertightness', async () => {
+    const features = await new Model3dExtractor(testDb.db).extractFeatures(makeResource('/models/tetra.stl', stl, 'model/stl'), 3600, key => key !== 'model3d.preview');
+
+    expect(featureValue(features, 'model3d.vertex_count')).toBe('4');
+    expect(featureValue(features, 'model3d.triangle_count')).toBe('4');
+    expect(jsonFeature(features, 'model3d.bounding_box')).toEqual({ min: [0, 0, 0], max: [1, 1, 1], size: [1, 1, 1] });
+    expect(jsonFeature(features, 'model3d.is_watertight')).toBe(true);
+  });
+
+  it('reads glTF geometry from a buffer next to the model', async () => {
+    const resource = makeResource(`file://${join(modelDir, 'tetra.gltf')}`, gltf('tetra.bin'), 'model/gltf+json');
+    await testDb.db.upsertResource(resource);
+    const features = await new Model3dExtractor(testDb.db, { previewSize: 64 }).extractFeatures(resource, 3600, extractAll);
+
+    expect(features.find(feature => feature.featureKey === 'model3d.vertex_count')!.metadata.incompletePrimitives).toBe(0);
+    expect(featureValue(features, 'model3d.triangle_count')).toBe('4');
+
+    const [preview] = await testDb.db.queryFeatures({ url: resource.url, featureKeys: ['model3d_preview'] });
+    expect(preview.metadata.mimeType).toBe('image/png');
+    expect(Buffer.from(preview.value as string, 'base64').subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('does not follow buffer uris out of the model directory', async () => {
+    const extractor = new Model3dExtractor(testDb.db);
+
+    for (const uri of ['../outside.bin', '..%2Foutside.bin', join(testDb.dir, 'outside.bin')]) {
+      const resource = makeResource(`file://${join(modelDir, 'escape.gltf')}`, gltf(uri), 'model/gltf+json');
+      const features = await extractor.extractFeatures(resource, 3600, extractOnly('model3d.vertex_count'));
+
+      // Counts still come from the accessors, but no geometry was read
+      expect(featureValue(features, 'model3d.vertex_count')).toBe('4');
+      expect(features[0].metadata.incompletePrimitives).toBe(1);
+    }
+  });
+
+  it('skips buffers over the size limit', async () => {
+    const resource = makeResource(`file://${join(modelDir, 'tetra.gltf')}`, gltf('tetra.bin'), 'model/gltf+json');
+    const features = await new Model3dExtractor(testDb.db, { maxBufferSize: 16 }).extractFeatures(resource, 3600, extractOnly('model3d.vertex_count'));
+
+    expect(features[0].metadata.incompletePrimitives).toBe(1);
+  });
+
+  it('does not follow node cycles or let shared subtrees fan out', async () => {
+    const model = JSON.parse(gltf('tetra.bin'));
+    model.nodes = [{ mesh: 0, children: [0, 0] }];
+    const cyclic = makeResource(`file://${join(modelDir, 'cyclic.gltf')}`, JSON.stringify(model), 'model/gltf+json');
+
+    const features = await new Model3dExtractor(testDb.db).extractFeatures(cyclic, 3600, extractOnly('model3d.vertex_count'));
+
+    expect(featureValue(features, 'model3d.vertex_count')).toBe('4');
+    expect(features[0].metadata.skippedNodes).toBe(2);
+
+    // Each node lists the next one twice: 2^40 instances without a visit cap
+    model.nodes = Array.from({ length: 40 }, (_, i) => i < 39 ? { mesh: 0, children: [i + 1, i + 1] } : { mesh: 0 });
+    const fanned = makeResource(`file://${join(modelDir, 'fanned.gltf')}`, JSON.stringify(model), 'model/gltf+json');
+    const capped = await new Model3dExtractor(testDb.db, { maxNodeVisits: 100 }).extractFeatures(fanned, 3600, extractOnly('model3d.vertex_count'));
+
+    expect(featureValue(capped, 'model3d.vertex_count')).toBe('400');
+  });
+
+  it('returns no features for a malformed model', async () => {
+    const resource = makeResource('/models/broken.gltf', '{"asset": ', 'model/gltf+json');
+
+    expect(await new Model3dExtractor(testDb.db).extractFeatures(resource, 3600, extractAll)).toEqual([]);
+  });
+});
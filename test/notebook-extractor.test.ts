@@ -0,0 +1,89 @@
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { NotebookExtractor } from '../src/extractors/notebook-extractor.js';
+import { createTestDatabase, extractAll, extractOnly, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+const png = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#336699' } }).png().toBuffer();
+
+const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="10">
+  <script>alert(document.cookie)</script>
+  <rect width="20" height="10" fill="#ff0000"/>
+</svg>`;
+
+const notebook = {
+  nbformat: 4,
+  metadata: {
+    kernelspec: { name: 'python3', display_name: 'Python 3', language: 'python' },
+    language_info: { name: 'python', version: '3.11.4' }
+  },
+  cells: [
+    { cell_type: 'markdown', source: ['# Analysis\n', 'Plots below.'] },
+    {
+      cell_type: 'code',
+      execution_count: 1,
+      source: ['%pip install seaborn\n', 'import numpy as np\n', 'from matplotlib import pyplot as plt\n'],
+      outputs: [{ output_type: 'display_data', data: { 'image/png': png.toString('base64'), 'text/plain': '<Figure>' } }]
+    },
+    {
+      cell_type: 'code',
+      execution_count: 2,
+      source: 'import numpy',
+      outputs: [{ output_type: 'display_data', data: { 'image/svg+xml': svg.split(/(?<=\n)/) } }]
+    }
+  ]
+};
+
+describe('NotebookExtractor', () => {
+  let testDb: TestDatabase;
+  let extractor: NotebookExtractor;
+  const resource = makeResource('/notebooks/analysis.ipynb', JSON.stringify(notebook), 'application/x-ipynb+json');
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    await testDb.db.upsertResource(resource);
+    extractor = new NotebookExtractor(testDb.db);
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  it('reads the kernel, cells and imports', async () => {
+    const features = await extractor.extractFeatures(resource, 3600, key => key !== 'notebook.output_images');
+
+    expect(jsonFeature(features, 'notebook.kernel')).toEqual({
+      name: 'python3', displayName: 'Python 3', language: 'python', languageVersion: '3.11.4'
+    });
+    expect(jsonFeature(features, 'notebook.cells').map((cell: any) => [cell.type, cell.outputCount])).toEqual([
+      ['markdown', 0], ['code', 1], ['code', 1]
+    ]);
+    expect(jsonFeature(features, 'notebook.imports')).toEqual(expect.arrayContaining([
+      { module: 'seaborn', kind: 'pip', cells: [1] },
+      { module: 'numpy', kind: 'import', cells: [1, 2] }
+    ]));
+  });
+
+  it('returns no features for invalid notebook JSON', async () => {
+    const broken = makeResource('/notebooks/broken.ipynb', '{"cells": [', 'application/x-ipynb+json');
+
+    expect(await extractor.extractFeatures(broken, 3600, extractAll)).toEqual([]);
+  });
+
+  it('stores SVG outputs rasterized to PNG so their scripts are never served', async () => {
+    const features = await extractor.extractFeatures(resource, 3600, extractOnly('notebook.output_images'));
+    const images = jsonFeature(features, 'notebook.output_images');
+
+    expect(images.map((image: any) => [image.cell, image.mimeType, image.originalMimeType])).toEqual([
+      [1, 'image/png', undefined],
+      [2, 'image/png', 'image/svg+xml']
+    ]);
+    expect(images[1].url).toMatch(/\/notebook_output_image_2\?format=raw$/);
+
+    const [stored] = await testDb.db.queryFeatures({ url: resource.url, featureKeys: ['notebook_output_image_2'] });
+    const raster = Buffer.from(stored.value as string, 'base64');
+    expect(stored.metadata.mimeType).toBe('image/png');
+    expect(raster.subarray(1, 4).toString()).toBe('PNG');
+    expect(raster.includes('alert')).toBe(false);
+    expect(await sharp(raster).metadata()).toMatchObject({ width: 20, height: 10 });
+  });
+});
@@ -0,0 +1,117 @@
+import { strToU8, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { OfficeExtractor } from '../src/extractors/office-extractor.js';
+import { extractAll, featureValue, jsonFeature, makeResource } from './helpers.js';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const PPTX_MIME = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function zip(files: Record<string, string>): Buffer {
+  return Buffer.from(zipSync(Object.fromEntries(
+    Object.entries(files).map(([name, text]) => [name, strToU8(text)])
+  )));
+}
+
+const docx = zip({
+  'word/document.xml': `<w:document ${W}><w:body>
+    <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Introduction</w:t></w:r></w:p>
+    <w:p><w:r><w:t>First</w:t></w:r><w:r><w:tab/><w:t>paragraph</w:t></w:r></w:p>
+    <w:tbl><w:tr><w:tc><w:p><w:r><w:t>Name</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Qty</w:t></w:r></w:p></w:tc></w:tr>
+      <w:tr><w:tc><w:p><w:r><w:t>Apples</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>3</w:t></w:r></w:p></w:tc></w:tr></w:tbl>
+  </w:body></w:document>`,
+  'word/styles.xml': `<w:styles ${W}><w:style w:styleId="Heading1"><w:name w:val="heading 1"/></w:style></w:styles>`,
+  'docProps/core.xml': `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>Fruit Inventory</dc:title><dc:creator>Grace Hopper</dc:creator></cp:coreProperties>`,
+  'word/media/image1.png': 'not parsed'
+});
+
+describe('OfficeExtractor', () => {
+  const extractor = new OfficeExtractor();
+
+  it('extracts DOCX text, headings, tables and core properties', async () => {
+    const features = await extractor.extractFeatures(makeResource('/docs/report.docx', docx, DOCX_MIME), 3600, extractAll);
+
+    expect(featureValue(features, 'document.text')).toBe('Introduction\nFirst\tparagraph\nName\tQty\nApples\t3');
+    expect(jsonFeature(features, 'document.headings')).toEqual([{ level: 1, text: 'Introduction' }]);
+    expect(jsonFeature(features, 'document.tables')).toEqual([{ rows: [['Name', 'Qty'], ['Apples', '3']] }]);
+    expect(jsonFeature(features, 'document.metadata')).toMatchObject({ title: 'Fruit Inventory', author: 'Grace Hopper' });
+  });
+
+  it('extracts XLSX sheets with shared strings', async () => {
+    const xlsx = zip({
+      'xl/workbook.xml': '<workbook xmlns:r="r"><sheets><sheet name="Stock" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Item</t></si><si><t>Count</t></si><si><t>Pears</t></si></sst>',
+      'xl/worksheets/sheet1.xml': `<worksheet><dimension ref="A1:B2"/><sheetData>
+        <row><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+        <row><c r="A2" t="s"><v>2</v></c><c r="B2"><v>12</v></c></row>
+      </sheetData></worksheet>`
+    });
+
+    const features = await extractor.extractFeatures(makeResource('/docs/stock.xlsx', xlsx, XLSX_MIME), 3600, extractAll);
+
+    expect(jsonFeature(features, 'spreadsheet.sheets')).toEqual([
+      { name: 'Stock', index: 0, dimension: 'A1:B2', rowCount: 2, columnCount: 2, headers: ['Item', 'Count'] }
+    ]);
+    expect(featureValue(features, 'document.text')).toBe('Stock\nItem\tCount\nPears\t12');
+  });
+
+  it('drops cells past the column limit and stops reading rows past the table limit', async () => {
+    const xlsx = zip({
+      'xl/workbook.xml': '<workbook xmlns:r="r"><sheets><sheet name="Wide" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+        <row><c r="A1"><v>1</v></c><c r="ZZZZZZ1"><v>2</v></c><c r="XFE1"><v>3</v></c><c r="E1"><v>4</v></c></row>
+        <row><c r="A2"><v>5</v></c></row>
+        <row><c r="A3"><v>6</v></c></row>
+      </sheetData></worksheet>`
+    });
+
+    const features = await new OfficeExtractor({ maxTableRows: 2, maxTableColumns: 4 })
+      .extractFeatures(makeResource('/docs/wide.xlsx', xlsx, XLSX_MIME), 3600, extractAll);
+
+    expect(jsonFeature(features, 'spreadsheet.sheets')[0]).toMatchObject({ rowCount: 3, columnCount: 1 });
+    expect(featureValue(features, 'document.text')).toBe('Wide\n1\n5');
+  });
+
+  it('extracts PPTX slide titles and text', async () => {
+    const pptx = zip({
+      'ppt/presentation.xml': '<p:presentation xmlns:p="p" xmlns:r="r"><p:sldIdLst><p:sldId r:id="rId2"/></p:sldIdLst></p:presentation>',
+      'ppt/_rels/presentation.xml.rels': '<Relationships><Relationship Id="rId2" Target="slides/slide1.xml"/></Relationships>',
+      'ppt/slides/slide1.xml': `<p:sld xmlns:p="p" xmlns:a="a"><p:cSld><p:spTree>
+        <p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>Roadmap</a:t></a:r></a:p></p:txBody></p:sp>
+        <p:sp><p:txBody><a:p><a:r><a:t>Ship it</a:t></a:r></a:p></p:txBody></p:sp>
+      </p:spTree></p:cSld></p:sld>`
+    });
+
+    const features = await extractor.extractFeatures(makeResource('/docs/plan.pptx', pptx, PPTX_MIME), 3600, extractAll);
+
+    expect(featureValue(features, 'presentation.slide_count')).toBe('1');
+    expect(jsonFeature(features, 'presentation.slides')).toEqual([{ slide: 1, title: 'Roadmap', text: 'Roadmap\nShip it' }]);
+  });
+
+  it('fails when a part inflates beyond the size its header declares', async () => {
+    const bomb = zip({ 'word/document.xml': `<w:document ${W}><w:body>${'<w:p/>'.repeat(20000)}</w:body></w:document>` });
+    // Shrink the declared uncompressed size in the central directory record
+    const central = bomb.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    bomb.writeUInt32LE(64, central + 24);
+
+    await expect(extractor.extractFeatures(makeResource('/docs/bomb.docx', bomb, DOCX_MIME), 3600, extractAll))
+      .rejects.toThrow(/inflates beyond its declared size/);
+  });
+
+  it('fails when the declared sizes exceed the unpack budget', async () => {
+    const small = new OfficeExtractor({ maxUncompressedSize: 200 });
+    await expect(small.extractFeatures(makeResource('/docs/report.docx', docx, DOCX_MIME), 3600, extractAll))
+      .rejects.toThrow(/Failed to unpack Office document/);
+  });
+
+  it('fails on a DOCX without word/document.xml', async () => {
+    const empty = zip({ 'docProps/core.xml': '<cp:coreProperties/>' });
+    await expect(extractor.extractFeatures(makeResource('/docs/empty.docx', empty, DOCX_MIME), 3600, extractAll))
+      .rejects.toThrow(/missing word\/document.xml/);
+  });
+});
@@ -0,0 +1,161 @@
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DirectFeatureOrchestrator } from '../src/core/direct-orchestrator.js';
+import { PdfExtractor } from '../src/extractors/pdf-extractor.js';
+import { createTestDatabase, extractAll, extractOnly, featureValue, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+// A minimal PDF with one line of Helvetica text per page and an info dictionary
+function buildPdf(pageTexts: string[], info: Record<string, string> = {}): Buffer {
+  const objects: string[] = [];
+  const pageIds = pageTexts.map((_, i) => 4 + i * 2);
+  const fontId = 4 + pageTexts.length * 2;
+  const infoId = fontId + 1;
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageTexts.length} >>`;
+  objects[3] = '<< >>';
+  pageTexts.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 20 100 Td (${text}) Tj ET`;
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 200 200] /Contents ${pageIds[i] + 1} 0 R /Resources << /Font << /F1 ${fontId} 0 R >> >> >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+  objects[fontId] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+  objects[infoId] = `<< ${Object.entries(info).map(([key, value]) => `/${key} (${value})`).join(' ')} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('PdfExtractor', () => {
+  let testDb: TestDatabase;
+  let extractor: PdfExtractor;
+  const pdf = buildPdf(['Hello page one', 'Second page here'], { Title: 'Quarterly Report', Author: 'Ada Lovelace' });
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    extractor = new PdfExtractor(testDb.db);
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  it('handles only application/pdf', () => {
+    expect(extractor.canHandle('application/pdf')).toBe(true);
+    expect(extractor.canHandle('text/plain')).toBe(false);
+  });
+
+  it('extracts page count, document and per-page text', async () => {
+    const features = await extractor.extractFeatures(
+      makeResource('/docs/report.pdf', pdf, 'application/pdf'),
+      3600,
+      extractOnly('pdf.page_count', 'pdf.text', 'pdf.text.page_2')
+    );
+
+    expect(featureValue(features, 'pdf.page_count')).toBe('2');
+    expect(featureValue(features, 'pdf.text')).toContain('Hello page one');
+    expect(featureValue(features, 'pdf.text')).toContain('Second page here');
+    expect(featureValue(features, 'pdf.text.page_2')).toBe('Second page here');
+    expect(featureValue(features, 'pdf.text.page_1')).toBeUndefined();
+  });
+
+  it('maps the info dictionary to pdf.metadata and document.metadata', async () => {
+    const features = await extractor.extractFeatures(
+      makeResource('/docs/report.pdf', pdf, 'application/pdf'),
+      3600,
+      extractOnly('pdf.metadata', 'document.metadata')
+    );
+
+    const metadata = jsonFeature(features, 'pdf.metadata');
+    expect(metadata).toMatchObject({ title: 'Quarterly Report', author: 'Ada Lovelace', pageCount: 2 });
+    expect(jsonFeature(features, 'document.metadata')).toEqual(metadata);
+  });
+
+  it('stores page thumbnails as PNG binaries and returns their URLs', async () => {
+    const resource = makeResource('/docs/thumbs.pdf', pdf, 'application/pdf');
+    await testDb.db.upsertResource(resource);
+    const features = await extractor.extractFeatures(
+      resource,
+      3600,
+      key => key.startsWith('pdf.thumbnail.')
+    );
+
+    expect(featureValue(features, 'pdf.thumbnail.page_1')).toMatch(/\/pdf\.thumbnail_page_1\?format=raw$/);
+    expect(featureValue(features, 'pdf.thumbnail.page_2')).toMatch(/\/pdf\.thumbnail_page_2\?format=raw$/);
+
+    const [stored] = await testDb.db.queryFeatures({ url: '/docs/thumbs.pdf', featureKeys: ['pdf.thumbnail_page_1'] });
+    expect(Buffer.from(stored.value as string, 'base64').subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('keeps rendering later pages after one page thumbnail fails', async () => {
+    const render = vi.spyOn(extractor as any, 'renderThumbnail').mockRejectedValueOnce(new Error('render failed'));
+
+    const resource = makeResource('/docs/partial.pdf', pdf, 'application/pdf');
+    await testDb.db.upsertResource(resource);
+    const features = await extractor.extractFeatures(
+      resource,
+      3600,
+      key => key.startsWith('pdf.thumbnail.')
+    );
+    render.mockRestore();
+
+    expect(featureValue(features, 'pdf.thumbnail.page_1')).toBeUndefined();
+    expect(featureValue(features, 'pdf.thumbnail.page_2')).toBeDefined();
+  });
+
+  it('includes per-page text and thumbnails in standard mode', async () => {
+    const path = join(testDb.dir, 'standard.pdf');
+    await writeFile(path, pdf);
+
+    const features = await new DirectFeatureOrchestrator(testDb.db).extractFeatures(path, {
+      mode: 'standard',
+      skipDirectoryIndexing: true
+    });
+    const keys = features.map(feature => feature.featureKey);
+
+    expect(keys).toEqual(expect.arrayContaining([
+      'pdf.page_count', 'pdf.text', 'pdf.text.page_1', 'pdf.text.page_2', 'pdf.thumbnail.page_1', 'pdf.thumbnail.page_2'
+    ]));
+  });
+
+  it('scans the document text for PII and redacts it from the page texts', async () => {
+    const previous = process.env.REDACT_PII;
+    process.env.REDACT_PII = 'email';
+    try {
+      const path = join(testDb.dir, 'contact.pdf');
+      await writeFile(path, buildPdf(['Write to ada@example.com', 'Second page here']));
+
+      const features = await new DirectFeatureOrchestrator(testDb.db).extractFeatures(path, {
+        mode: 'standard',
+        skipDirectoryIndexing: true
+      });
+
+      expect(jsonFeature(features, 'privacy.pii_findings')).toMatchObject({ total: 1, counts: { email: 1 } });
+      expect(jsonFeature(features, 'security.secrets')).toEqual([]);
+      expect(featureValue(features, 'pdf.text')).toContain('Write to [EMAIL]');
+      expect(featureValue(features, 'pdf.text.page_1')).toBe('Write to [EMAIL]');
+    } finally {
+      process.env.REDACT_PII = previous;
+    }
+  });
+
+  it('rejects content that is not a PDF', async () => {
+    await expect(extractor.extractFeatures(
+      makeResource('/docs/broken.pdf', 'not a pdf at all', 'application/pdf'),
+      3600,
+      extractAll
+    )).rejects.toThrow();
+  });
+});
@@ -0,0 +1,117 @@
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DirectFeatureOrchestrator } from '../src/core/direct-orchestrator.js';
+import { createFeature } from '../src/extractors/feature-helpers.js';
+import { getPiiRedactionCategories, PiiExtractor, redactPii, redactPiiFeatures } from '../src/extractors/pii-extractor.js';
+import { FeatureType } from '../src/types/index.js';
+import { createTestDatabase, featureValue, jsonFeature, TestDatabase } from './helpers.js';
+
+describe('PiiExtractor', () => {
+  let testDb: TestDatabase;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  it('finds validated PII and masks the previews', () => {
+    const findings = new PiiExtractor().scan([
+      'Contact: ada@example.com, +44 20 7946 0958',
+      'Card 4111 1111 1111 1111, not 4111 1111 1111 1112',
+      'Server 192.168.10.4'
+    ].join('\n'));
+
+    expect(findings.map(finding => [finding.category, finding.line])).toEqual([
+      ['email', 1],
+      ['phone', 1],
+      ['credit_card', 2],
+      ['ip_address', 3]
+    ]);
+    expect(JSON.stringify(findings)).not.toContain('ada@example.com');
+  });
+
+  it('reads the categories to redact from REDACT_PII', () => {
+    expect(getPiiRedactionCategories('')).toEqual([]);
+    expect(getPiiRedactionCategories('phone, email')).toEqual(['email', 'phone']);
+    expect(redactPii('ada@example.com or +1 415 555 0100', ['email'])).toBe('[EMAIL] or +1 415 555 0100');
+  });
+
+  it('redacts the strings inside text-bearing JSON features and leaves other features alone', () => {
+    const cells = JSON.stringify([{ type: 'markdown', source: 'Ping ada@example.com' }]);
+    const features = [
+      createFeature('/nb.ipynb', 'notebook.cells', cells, FeatureType.JSON, 3600, 'notebook-extractor'),
+      createFeature('/nb.ipynb', 'notebook.kernel', 'ada@example.com', FeatureType.TEXT, 3600, 'notebook-extractor')
+    ];
+
+    const [redactedCells, kernel] = redactPiiFeatures(features, ['email']);
+
+    expect(JSON.parse(redactedCells.value as string)).toEqual([{ type: 'markdown', source: 'Ping [EMAIL]' }]);
+    expect(kernel).toBe(features[1]);
+  });
+
+  it('redacts the body of an email before it is stored', async () => {
+    const previous = process.env.REDACT_PII;
+    process.env.REDACT_PII = 'all';
+    try {
+      const path = join(testDb.dir, 'reply.eml');
+      await writeFile(path, [
+        'From: ada@example.com',
+        'To: team@example.com',
+        'Subject: Call me',
+        '',
+        'Ring me on +44 20 7946 0958 or write to ada@example.com.',
+        ''
+      ].join('\n'));
+
+      const features = await new DirectFeatureOrchestrator(testDb.db).extractFeatures(path, { skipDirectoryIndexing: true });
+
+      expect(featureValue(features, 'email.body_text')).toBe('Ring me on [PHONE] or write to [EMAIL].');
+      expect(jsonFeature(features, 'privacy.pii_findings').counts).toEqual({ phone: 1, email: 1 });
+      const [stored] = await testDb.db.queryFeatures({ url: features[0].resourceUrl, featureKeys: ['email.body_text'] });
+      expect(stored.value).toBe('Ring me on [PHONE] or write to [EMAIL].');
+    } finally {
+      process.env.REDACT_PII = previous;
+    }
+  });
+
+  it('scans the sampled rows of a CSV and redacts them', async () => {
+    const previous = process.env.REDACT_PII;
+    process.env.REDACT_PII = 'email';
+    try {
+      const path = join(testDb.dir, 'contacts.csv');
+      await writeFile(path, 'name,email\nAda,ada@example.com\nGrace,grace@example.org\n');
+
+      const features = await new DirectFeatureOrchestrator(testDb.db).extractFeatures(path, { skipDirectoryIndexing: true });
+
+      expect(jsonFeature(features, 'privacy.pii_findings').counts).toEqual({ email: 2 });
+      expect(jsonFeature(features, 'security.secrets')).toEqual([]);
+      expect(jsonFeature(features, 'table.sample_rows')).toEqual([
+        { name: 'Ada', email: '[EMAIL]' },
+        { name: 'Grace', email: '[EMAIL]' }
+      ]);
+    } finally {
+      process.env.REDACT_PII = previous;
+    }
+  });
+
+  it('redacts subtitle cues along with the transcript', async () => {
+    const previous = process.env.REDACT_PII;
+    process.env.REDACT_PII = 'email';
+    try {
+      const path = join(testDb.dir, 'talk.srt');
+      await writeFile(path, '1\n00:00:01,000 --> 00:00:03,000\nMail ada@example.com for the slides\n');
+
+      const features = await new DirectFeatureOrchestrator(testDb.db).extractFeatures(path, { skipDirectoryIndexing: true });
+
+      expect(featureValue(features, 'subtitles.transcript')).toContain('[EMAIL]');
+      expect(featureValue(features, 'subtitles.cues')).toContain('[EMAIL]');
+      expect(JSON.stringify(features)).not.toContain('ada@example.com');
+    } finally {
+      process.env.REDACT_PII = previous;
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DirectFeatureOrchestrator } from '../src/core/direct-orchestrator.js';
+import { SubtitleExtractor } from '../src/extractors/subtitle-extractor.js';
+import { createTestDatabase, extractAll, featureValue, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+const srt = `1
+00:00:01,000 --> 00:00:03,500
+<i>Welcome</i> to the talk.
+
+2
+00:00:03,500 --> 00:00:06,000
+Welcome to the talk.
+Today: &quot;subtitles&quot;
+
+3
+00:00:07,250 --> 00:00:09,000
+Thanks for watching.
+`;
+
+const vtt = `WEBVTT
+Language: de
+
+NOTE produced by hand
+
+intro
+00:01.000 --> 00:02.500 align:start
+<v Speaker>Hallo zusammen</v>
+
+00:02.500 --> 00:04.000
+Bis bald
+`;
+
+describe('SubtitleExtractor', () => {
+  let testDb: TestDatabase;
+  const extractor = new SubtitleExtractor();
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  it('parses SRT cues, drops repeated caption lines from the transcript and reads the filename language', async () => {
+    const features = await extractor.extractFeatures(makeResource('/media/talk.en.srt', srt, 'application/x-subrip'), 3600, extractAll);
+
+    expect(jsonFeature(features, 'subtitles.cues')).toEqual([
+      { index: 1, start: 1, end: 3.5, text: 'Welcome to the talk.' },
+      { index: 2, start: 3.5, end: 6, text: 'Welcome to the talk.\nToday: "subtitles"' },
+      { index: 3, start: 7.25, end: 9, text: 'Thanks for watching.' }
+    ]);
+    expect(featureValue(features, 'subtitles.duration')).toBe('9');
+    expect(featureValue(features, 'subtitles.language')).toBe('en');
+    expect(featureValue(features, 'subtitles.transcript')).toBe('Welcome to the talk.\nToday: "subtitles"\nThanks for watching.');
+  });
+
+  it('parses WebVTT cue settings and the header language', async () => {
+    const features = await extractor.extractFeatures(makeResource('/media/talk.vtt', vtt, 'text/vtt'), 3600, extractAll);
+
+    expect(jsonFeature(features, 'subtitles.cues')).toEqual([
+      { index: 1, start: 1, end: 2.5, text: 'Hallo zusammen', settings: 'align:start' },
+      { index: 2, start: 2.5, end: 4, text: 'Bis bald' }
+    ]);
+    expect(features.find(feature => feature.featureKey === 'subtitles.language')!.metadata.source).toBe('header');
+  });
+
+  it('decodes legacy-charset subtitles before parsing the cues', async () => {
+    const latin = Buffer.from('1\r\n00:00:01,000 --> 00:00:02,000\r\nÀ bientôt, café crème\r\n', 'latin1');
+    const features = await extractor.extractFeatures(makeResource('/media/clip.fr.srt', latin, 'application/x-subrip'), 3600, extractAll);
+
+    expect(featureValue(features, 'subtitles.transcript')).toBe('À bientôt, café crème');
+  });
+
+  it('records the sibling video on the subtitle resource only', async () => {
+    const videoPath = join(testDb.dir, 'talk.mp4');
+    const subtitlePath = join(testDb.dir, 'talk.en.srt');
+    await writeFile(videoPath, Buffer.alloc(0));
+    await writeFile(subtitlePath, srt);
+    // A known video resource must still not receive features from its subtitles
+    await testDb.db.upsertResource(makeResource(`file://${videoPath}`, Buffer.alloc(0), 'video/mp4'));
+    const orchestrator = new DirectFeatureOrchestrator(testDb.db);
+
+    const features = await orchestrator.extractFeatures(subtitlePath, { skipDirectoryIndexing: true });
+
+    expect(featureValue(features, 'subtitles.video')).toBe(`file://${videoPath}`);
+    expect(featureValue(features, 'text.word_count')).toBe('9');
+    expect(await testDb.db.queryFeatures({ url: `file://${videoPath}` })).toHaveLength(0);
+  });
+
+  it('reads sibling subtitles into the transcript when the video is extracted', async () => {
+    const videoPath = join(testDb.dir, 'talk.mp4');
+    const orchestrator = new DirectFeatureOrchestrator(testDb.db);
+
+    const features = await orchestrator.extractFeatures(videoPath, { skipDirectoryIndexing: true });
+
+    expect(featureValue(features, 'video.transcript')).toBe('Welcome to the talk.\nToday: "subtitles"\nThanks for watching.');
+    expect(jsonFeature(features, 'video.subtitles')).toEqual([
+      { url: `file://${join(testDb.dir, 'talk.en.srt')}`, format: 'srt', language: 'en', cueCount: 3 }
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { SvgExtractor } from '../src/extractors/svg-extractor.js';
+import { createTestDatabase, extractAll, extractOnly, featureValue, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+const drawing = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="48" height="24" viewBox="0 0 48 24">
+  <rect width="48" height="24" fill="#0f766e"/>
+  <text x="4" y="16">Hello <tspan>there</tspan></text>
+  <image xlink:href="https://example.com/logo.png" width="8" height="8"/>
+</svg>`;
+
+describe('SvgExtractor', () => {
+  let testDb: TestDatabase;
+  let extractor: SvgExtractor;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    extractor = new SvgExtractor(testDb.db);
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  async function scripts(svg: string) {
+    const features = await extractor.extractFeatures(makeResource('/icons/test.svg', svg, 'image/svg+xml'), 3600, extractOnly('svg.has_scripts'));
+    return { hasScripts: jsonFeature(features, 'svg.has_scripts'), report: features[0].metadata };
+  }
+
+  it('reads the viewBox, text and embedded images and rasterizes thumbnails', async () => {
+    const resource = makeResource('/icons/badge.svg', drawing, 'image/svg+xml');
+    await testDb.db.upsertResource(resource);
+    const features = await extractor.extractFeatures(resource, 3600, extractAll);
+
+    expect(jsonFeature(features, 'svg.viewbox')).toEqual({ x: 0, y: 0, width: 48, height: 24 });
+    expect(featureValue(features, 'svg.text')).toBe('Hello there');
+    expect(jsonFeature(features, 'svg.embedded_images')).toEqual([
+      expect.objectContaining({ type: 'external', href: 'https://example.com/logo.png' })
+    ]);
+    expect(jsonFeature(features, 'svg.has_scripts')).toBe(false);
+    expect(featureValue(features, 'image.thumbnail.small')).toMatch(/\/image\.thumbnail_small\?format=raw$/);
+  });
+
+  it('reports script elements, event handlers and javascript: links', async () => {
+    const { hasScripts, report } = await scripts(`<svg xmlns="http://www.w3.org/2000/svg" onload="run()">
+      <script>run()</script>
+      <a href="  JavaScript:run()"><circle r="4" onclick="run()"/></a>
+    </svg>`);
+
+    expect(hasScripts).toBe(true);
+    expect(report).toMatchObject({ scriptElements: 1, eventHandlers: ['onclick', 'onload'], javascriptUrls: 1 });
+  });
+
+  it('matches namespaced script and foreignObject elements on their local name', async () => {
+    const { hasScripts, report } = await scripts(`<svg:svg xmlns:svg="http://www.w3.org/2000/svg">
+      <svg:script>run()</svg:script>
+      <svg:foreignObject width="10" height="10"/>
+    </svg:svg>`);
+
+    expect(hasScripts).toBe(true);
+    expect(report).toMatchObject({ scriptElements: 1, foreignObjects: 1 });
+  });
+
+  it('catches animations that set an href to a javascript: URL', async () => {
+    const { hasScripts, report } = await scripts(`<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+      <a><set attributeName="href" to="javascript:run()"/><text>one</text></a>
+      <a><animate attributeName="xlink:href" values="#safe;java&#x09;script:run()" dur="1s"/><text>two</text></a>
+      <a><animate attributeName="fill" values="javascript:ignored" dur="1s"/><text>three</text></a>
+    </svg>`);
+
+    expect(hasScripts).toBe(true);
+    expect(report.javascriptUrls).toBe(2);
+  });
+});
@@ -0,0 +1,112 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { TabularExtractor } from '../src/extractors/tabular-extractor.js';
+import { extractAll, featureValue, jsonFeature, makeResource } from './helpers.js';
+
+const csv = `id,name,price,active,joined
+1,Ada,9.5,true,2021-03-04
+2,Grace,12,false,2022-11-30
+3,"Hopper, Grace",,TRUE,2020-01-15
+4,Linus,7.25,false,n/a
+`;
+
+describe('TabularExtractor', () => {
+  const extractor = new TabularExtractor();
+
+  it('infers column types, null ratios and ranges from a CSV', async () => {
+    const features = await extractor.extractFeatures(makeResource('/data/people.csv', csv, 'text/csv'), 3600, extractAll);
+    const columns = jsonFeature(features, 'table.columns');
+
+    expect(featureValue(features, 'table.row_count')).toBe('4');
+    expect(featureValue(features, 'table.delimiter')).toBe(',');
+    expect(columns.map((column: any) => [column.name, column.type])).toEqual([
+      ['id', 'integer'],
+      ['name', 'string'],
+      ['price', 'number'],
+      ['active', 'boolean'],
+      ['joined', 'date']
+    ]);
+    expect(columns[0]).toMatchObject({ min: 1, max: 4, mean: 2.5, nullRatio: 0, distinctEstimate: 4 });
+    expect(columns[2]).toMatchObject({ min: 7.25, max: 12, nullRatio: 0.25 });
+    expect(columns[4]).toMatchObject({ min: '2020-01-15', max: '2022-11-30', nullRatio: 0.25 });
+    expect(jsonFeature(features, 'table.sample_rows')[2]).toEqual({
+      id: '3', name: 'Hopper, Grace', price: '', active: 'TRUE', joined: '2020-01-15'
+    });
+  });
+
+  it('parses quoted TSV fields with embedded tabs, quotes and newlines', async () => {
+    const tsv = 'city\tnote\nOslo\t"cold\tand ""dark""\nin winter"\nLima\tmild\n';
+    const features = await extractor.extractFeatures(makeResource('/data/cities.tsv', tsv, 'text/tab-separated-values'), 3600, extractAll);
+
+    expect(featureValue(features, 'table.delimiter')).toBe('\t');
+    expect(features.find(feature => feature.featureKey === 'table.delimiter')!.metadata.format).toBe('tsv');
+    expect(jsonFeature(features, 'table.sample_rows')).toEqual([
+      { city: 'Oslo', note: 'cold\tand "dark"\nin winter' },
+      { city: 'Lima', note: 'mild' }
+    ]);
+  });
+
+  it('detects semicolon delimiters and names columns of headerless files', async () => {
+    const features = await extractor.extractFeatures(makeResource('/data/values.csv', '1;2.5;x\n2;3.5;y\n', 'text/csv'), 3600, extractAll);
+
+    expect(featureValue(features, 'table.delimiter')).toBe(';');
+    expect(featureValue(features, 'table.row_count')).toBe('2');
+    expect(jsonFeature(features, 'table.columns').map((column: any) => column.name)).toEqual(['column_1', 'column_2', 'column_3']);
+  });
+
+  it('profiles JSON Lines with late columns, nested values and invalid lines', async () => {
+    const jsonl = [
+      '{"id": 1, "tags": ["a"]}',
+      'not json',
+      '{"id": 2.5, "meta": {"ok": true}}',
+      '',
+      '42'
+    ].join('\n');
+    const features = await extractor.extractFeatures(makeResource('/data/events.jsonl', jsonl, 'application/x-ndjson'), 3600, extractAll);
+    const columns = jsonFeature(features, 'table.columns');
+    const rowCount = features.find(feature => feature.featureKey === 'table.row_count')!;
+
+    expect(rowCount.value).toBe('3');
+    expect(rowCount.metadata.invalidRows).toBe(1);
+    expect(featureValue(features, 'table.delimiter')).toBe('jsonl');
+    expect(columns.map((column: any) => [column.name, column.type, column.nullRatio])).toEqual([
+      ['id', 'number', 0.3333],
+      ['tags', 'array', 0.6667],
+      ['meta', 'object', 0.6667],
+      ['value', 'integer', 0.6667]
+    ]);
+  });
+
+  it('caps sample rows and columns but counts every row', async () => {
+    const capped = new TabularExtractor({ sampleRows: 2, maxColumns: 3 });
+    const wide = ['a,b,c,d,e', ...Array.from({ length: 25 }, (_, i) => `${i},${i},${i},${i},${i}`)].join('\n');
+    const features = await capped.extractFeatures(makeResource('/data/wide.csv', wide, 'text/csv'), 3600, extractAll);
+    const columns = features.find(feature => feature.featureKey === 'table.columns')!;
+
+    expect(featureValue(features, 'table.row_count')).toBe('25');
+    expect(jsonFeature(features, 'table.sample_rows')).toHaveLength(2);
+    expect(JSON.parse(columns.value as string).map((column: any) => column.name)).toEqual(['a', 'b', 'c']);
+    expect(columns.metadata).toMatchObject({ columnCount: 3, truncated: true });
+  });
+
+  it('streams the whole file from disk when only the head was loaded', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'tabular-test-'));
+    try {
+      const path = join(dir, 'big.csv');
+      const body = ['n,label', ...Array.from({ length: 5000 }, (_, i) => `${i},row ${i}`)].join('\n');
+      await writeFile(path, '\uFEFF' + body);
+
+      const head = Buffer.from('\uFEFF' + body).subarray(0, 256);
+      const resource = { ...makeResource(path, head, 'text/csv'), path, contentTruncated: true };
+      const features = await extractor.extractFeatures(resource, 3600, extractAll);
+
+      expect(featureValue(features, 'table.row_count')).toBe('5000');
+      expect(jsonFeature(features, 'table.columns')[0]).toMatchObject({ name: 'n', min: 0, max: 4999 });
+      expect(features.find(feature => feature.featureKey === 'table.encoding')!.metadata.bom).toBe(true);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,109 @@
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DirectFeatureOrchestrator } from '../src/core/direct-orchestrator.js';
+import { detectTextEncoding } from '../src/extractors/feature-helpers.js';
+import { TextAnalysisExtractor } from '../src/extractors/text-analysis-extractor.js';
+import { createTestDatabase, extractAll, extractOnly, featureValue, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+const english = [
+  'The lighthouse keeper climbed the stairs every evening to light the lamp.',
+  'Ships passing the rocky coast relied on the lighthouse to find the harbour.',
+  'During storms the keeper stayed awake all night and watched the lamp.',
+  'The harbour town paid the keeper a small salary and supplied oil for the lamp.',
+  'Years later an electric lamp replaced the keeper, and the lighthouse ran on its own.'
+].join(' ');
+
+const german = 'Der Leuchtturmwärter stieg jeden Abend die Treppe hinauf, um die Lampe anzuzünden. ' +
+  'Die Schiffe an der felsigen Küste verließen sich auf das Licht, um den Hafen zu finden.';
+
+describe('TextAnalysisExtractor', () => {
+  let testDb: TestDatabase;
+  let extractor: TextAnalysisExtractor;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    extractor = new TextAnalysisExtractor(testDb.db);
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  it('identifies the language from n-gram profiles and scripts', () => {
+    expect(extractor.detectLanguage(english)!.code).toBe('en');
+    expect(extractor.detectLanguage(german)!.code).toBe('de');
+    expect(extractor.detectLanguage('Маяк стоял на скалистом берегу у входа в гавань')!.code).toBe('ru');
+    expect(extractor.detectLanguage('too short')).toBeNull();
+  });
+
+  it('ranks repeated content words as keywords and picks central sentences for the summary', async () => {
+    const resource = makeResource('/docs/lighthouse.txt', english);
+    await testDb.db.upsertResource(resource);
+    const features = await extractor.extractFeatures(resource, english, 3600, extractAll);
+    const keywords = jsonFeature(features, 'text.keywords').map((keyword: any) => keyword.term);
+
+    expect(featureValue(features, 'text.language')).toBe('en');
+    expect(keywords.slice(0, 3)).toEqual(expect.arrayContaining(['keeper', 'lamp', 'lighthouse']));
+    expect(keywords).not.toContain('the');
+
+    const summary = features.find(feature => feature.featureKey === 'text.summary')!;
+    expect(summary.metadata).toMatchObject({ algorithm: 'textrank', sentenceCount: 5 });
+    expect(summary.metadata.selected).toHaveLength(3);
+    expect(english).toContain((summary.value as string).split(/(?<=\.) /)[0]);
+  });
+
+  it('only produces the requested keys', async () => {
+    const features = await extractor.extractFeatures(makeResource('/docs/lighthouse.txt', english), english, 3600, extractOnly('text.language'));
+
+    expect(features.map(feature => feature.featureKey)).toEqual(['text.language']);
+  });
+
+  it('builds the summary and keywords from the PII-redacted text', async () => {
+    const previous = process.env.REDACT_PII;
+    process.env.REDACT_PII = 'email';
+    try {
+      const path = join(testDb.dir, 'contact.txt');
+      await writeFile(path, `${english} Questions about the lighthouse keeper go to keeper.office@harbour.example today.`);
+      const orchestrator = new DirectFeatureOrchestrator(testDb.db);
+
+      const features = await orchestrator.extractFeatures(path, { skipDirectoryIndexing: true, mode: 'maximal' });
+
+      for (const key of ['text.content', 'text.summary', 'text.keywords']) {
+        expect(featureValue(features, key)).toBeDefined();
+        expect(featureValue(features, key)).not.toContain('harbour.example');
+      }
+      expect(featureValue(features, 'text.content')).toContain('[EMAIL]');
+    } finally {
+      process.env.REDACT_PII = previous;
+    }
+  });
+
+  it('detects the charset from the head, which may end mid-character', () => {
+    // The two bytes of the é straddle the end of the 64KB sample
+    const content = Buffer.from('a'.repeat(64 * 1024 - 1) + 'é' + '\ufffd'.repeat(10), 'utf-8');
+
+    expect(detectTextEncoding(content)).toEqual({ encoding: 'utf-8', bomLength: 0 });
+    expect(detectTextEncoding(Buffer.from('café au lait', 'latin1')).encoding).toBe('windows-1252');
+  });
+
+  it('scans licenses in the detected charset', async () => {
+    const path = join(testDb.dir, 'NOTICE.txt');
+    await writeFile(path, Buffer.from('Copyright (c) 2021 José Müller\nSPDX-License-Identifier: MIT\n', 'latin1'));
+
+    const features = await new DirectFeatureOrchestrator(testDb.db).extractFeatures(path, { skipDirectoryIndexing: true, mode: 'maximal' });
+
+    expect(featureValue(features, 'text.encoding')).toBe('windows-1252');
+    expect(jsonFeature(features, 'code.copyright_holders')).toEqual([{ holder: 'José Müller', years: '2021' }]);
+  });
+
+  it('reads UTF-16 Markdown in the detected charset', async () => {
+    const path = join(testDb.dir, 'notes.md');
+    await writeFile(path, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('# Résumé\n\nSee [the café](cafe.md).\n', 'utf16le')]));
+
+    const features = await new DirectFeatureOrchestrator(testDb.db).extractFeatures(path, { skipDirectoryIndexing: true });
+
+    expect(jsonFeature(features, 'markdown.outline')[0]).toMatchObject({ text: 'Résumé', line: 1 });
+    expect(jsonFeature(features, 'markdown.links')[0]).toMatchObject({ text: 'the café', href: 'cafe.md' });
+  });
+});
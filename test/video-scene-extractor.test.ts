@@ -0,0 +1,88 @@
+import { writeFile } from 'fs/promises';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { VideoSceneExtractor } from '../src/extractors/video-scene-extractor.js';
+import { createTestDatabase, extractAll, featureValue, jsonFeature, makeResource, TestDatabase } from './helpers.js';
+
+// Stand-in for ffmpeg: the scene filter reports cuts at 4s and 9s and every frame grab writes a small PNG
+vi.mock('child_process', () => ({
+  exec: (command: string, callback: (error: Error | null, result?: { stdout: string; stderr: string }) => void) => {
+    const run = async () => {
+      const scores = command.match(/metadata=print:file='([^']+)'/);
+      if (scores) {
+        await writeFile(scores[1], [
+          'frame:0 pts:4000 pts_time:4', 'lavfi.scene_score=0.52',
+          'frame:1 pts:9000 pts_time:9', 'lavfi.scene_score=0.81'
+        ].join('\n'));
+      }
+      const frame = command.match(/-f image2 "([^"]+)"/);
+      if (frame) {
+        const timestamp = Number(command.match(/-ss ([\d.]+)/)![1]);
+        const shade = Math.round(timestamp * 20);
+        await sharp({ create: { width: 64, height: 36, channels: 3, background: { r: shade, g: 0, b: 0 } } }).png().toFile(frame[1]);
+      }
+    };
+    run().then(() => callback(null, { stdout: '', stderr: '' }), error => callback(error));
+  }
+}));
+
+const probe = {
+  format: { duration: '12.0', format_name: 'mov,mp4', bit_rate: '800000' },
+  streams: [
+    { index: 0, codec_type: 'video', codec_name: 'h264', avg_frame_rate: '30000/1001', width: 640, height: 360 },
+    { index: 1, codec_type: 'audio', codec_name: 'aac', channels: 2, sample_rate: '48000', tags: { language: 'eng' }, disposition: { default: 1 } }
+  ]
+};
+
+describe('VideoSceneExtractor', () => {
+  let testDb: TestDatabase;
+  let extractor: VideoSceneExtractor;
+  const resource = makeResource('/videos/clip.mp4', Buffer.alloc(0), 'video/mp4');
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    await testDb.db.upsertResource(resource);
+    extractor = new VideoSceneExtractor(testDb.db, { keyframeWidth: 64, contactSheetColumns: 2 });
+  });
+
+  afterAll(async () => {
+    await testDb.cleanup();
+  });
+
+  it('reports stream details from the probe', async () => {
+    const features = await extractor.extractFeatures(resource, '/tmp/clip.mp4', probe, 3600, key => !key.includes('keyframe') && key !== 'video.contact_sheet' && key !== 'video.scenes');
+
+    expect(featureValue(features, 'video.fps')).toBe('29.97');
+    expect(featureValue(features, 'video.codec')).toBe('h264');
+    expect(features.find(feature => feature.featureKey === 'video.bitrate')!.metadata.source).toBe('container');
+    expect(jsonFeature(features, 'video.audio_tracks')).toEqual([
+      { index: 1, codec: 'aac', channels: 2, sampleRate: 48000, language: 'eng', default: true }
+    ]);
+  });
+
+  it('turns scene cuts into contiguous scenes', async () => {
+    const features = await extractor.extractFeatures(resource, '/tmp/clip.mp4', probe, 3600, key => key === 'video.scenes');
+
+    expect(jsonFeature(features, 'video.scenes')).toEqual([
+      { index: 0, start: 0, end: 4, duration: 4, score: null },
+      { index: 1, start: 4, end: 9, duration: 5, score: 0.52 },
+      { index: 2, start: 9, end: 12, duration: 3, score: 0.81 }
+    ]);
+  });
+
+  it('stores keyframes and the contact sheet as PNG images', async () => {
+    const features = await extractor.extractFeatures(resource, '/tmp/clip.mp4', probe, 3600, extractAll);
+
+    expect(featureValue(features, 'video.keyframe_3')).toMatch(/\/video_keyframe_3\?format=raw$/);
+    expect(featureValue(features, 'video.contact_sheet')).toMatch(/\/video_contact_sheet\?format=raw$/);
+
+    const stored = await testDb.db.queryFeatures({ url: '/videos/clip.mp4', featureKeys: ['video_keyframe_2', 'video_contact_sheet'] });
+    expect(stored).toHaveLength(2);
+    for (const feature of stored) {
+      expect(feature.metadata.mimeType).toBe('image/png');
+      expect(Buffer.from(feature.value as string, 'base64').subarray(1, 4).toString()).toBe('PNG');
+    }
+    const sheet = stored.find(feature => feature.featureKey === 'video_contact_sheet')!;
+    expect(sheet.metadata).toMatchObject({ columns: 2, rows: 2, timestamps: [2, 6.5, 10.5] });
+  });
+});